@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+// File: bin/exam-session-transitions.mjs
+//
+// Applies due exam session status transitions by calling the cron route of
+// a running portal. Point crontab or any other scheduler at it, e.g.
+//
+//   */15 * * * * cd /srv/cecportal && npm run jobs:exam-sessions
+//
+// Reads CRON_SECRET and APP_URL (default http://localhost:3001) from the
+// environment, .env.local or .env.
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+
+for (const file of [".env.local", ".env"]) {
+  const envPath = path.resolve(process.cwd(), file);
+  if (fs.existsSync(envPath)) {
+    dotenv.config({ path: envPath });
+  }
+}
+
+const baseUrl = (process.env.APP_URL || "http://localhost:3001").replace(
+  /\/$/,
+  ""
+);
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error("CRON_SECRET is not set");
+  process.exit(1);
+}
+
+try {
+  const response = await fetch(`${baseUrl}/api/cron/exam-sessions`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+    signal: AbortSignal.timeout(120_000),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    console.error(
+      `Scheduled transitions failed (${response.status}):`,
+      result.message || response.statusText
+    );
+    process.exit(1);
+  }
+
+  console.log(result.message);
+  for (const transition of result.data.transitions) {
+    console.log(
+      `  ${transition.name}: ${transition.from} -> ${transition.to}` +
+        ` (${transition.emailsSent} emailed, ${transition.emailsFailed} failed)`
+    );
+  }
+} catch (error) {
+  console.error(`Could not reach ${baseUrl}:`, error.message);
+  process.exit(1);
+}
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."candidates" ADD COLUMN     "ninHash" TEXT,
+ADD COLUMN     "phoneHash" TEXT;
+
+-- Backfill existing candidates. The hashes are peppered with HASH_PEPPER,
+-- which only the app holds, so rows get a unique placeholder instead. It
+-- never matches a real (hex) hash, so these candidates are left out of
+-- NIN/phone searches and duplicate checks until their NIN or phone number
+-- is saved again.
+UPDATE "public"."candidates"
+SET "ninHash" = 'legacy:' || "id",
+    "phoneHash" = 'legacy:' || "id"
+WHERE "ninHash" IS NULL OR "phoneHash" IS NULL;
+
+-- AlterTable
+ALTER TABLE "public"."candidates" ALTER COLUMN "ninHash" SET NOT NULL,
+ALTER COLUMN "phoneHash" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "candidates_ninHash_key" ON "public"."candidates"("ninHash");
+
+-- CreateIndex
+CREATE INDEX "candidates_schoolId_createdAt_idx" ON "public"."candidates"("schoolId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "candidates_phoneHash_idx" ON "public"."candidates"("phoneHash");
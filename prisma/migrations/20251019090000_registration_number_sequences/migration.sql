@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."registration_number_status" AS ENUM ('Reserved', 'Assigned', 'Voided');
+
+-- CreateTable
+CREATE TABLE "public"."registration_sequences" (
+    "schoolId" TEXT NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "lastSequence" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "registration_sequences_pkey" PRIMARY KEY ("schoolId","examSessionId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."registration_numbers" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "status" "public"."registration_number_status" NOT NULL DEFAULT 'Reserved',
+    "candidateId" TEXT,
+    "reservedBy" TEXT,
+    "reservedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "assignedAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "voidedBy" TEXT,
+    "voidReason" TEXT,
+
+    CONSTRAINT "registration_numbers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "registration_numbers_number_key" ON "public"."registration_numbers"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "registration_numbers_candidateId_key" ON "public"."registration_numbers"("candidateId");
+
+-- CreateIndex
+CREATE INDEX "registration_numbers_status_reservedAt_idx" ON "public"."registration_numbers"("status", "reservedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "registration_numbers_schoolId_examSessionId_sequence_key" ON "public"."registration_numbers"("schoolId", "examSessionId", "sequence");
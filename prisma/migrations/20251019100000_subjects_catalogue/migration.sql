@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "public"."exam_sessions" ADD COLUMN     "subjectRules" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."subjects" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "subjects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."candidate_subjects" (
+    "candidateId" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "candidate_subjects_pkey" PRIMARY KEY ("candidateId","subjectId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subjects_code_key" ON "public"."subjects"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subjects_name_key" ON "public"."subjects"("name");
+
+-- CreateIndex
+CREATE INDEX "candidate_subjects_subjectId_idx" ON "public"."candidate_subjects"("subjectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."candidate_subjects" ADD CONSTRAINT "candidate_subjects_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."candidate_subjects" ADD CONSTRAINT "candidate_subjects_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "public"."subjects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed subjects catalogue
+INSERT INTO "public"."subjects" ("id", "code", "name", "updatedAt") VALUES
+    ('subject_eng', 'ENG', 'English Language', CURRENT_TIMESTAMP),
+    ('subject_mth', 'MTH', 'Mathematics', CURRENT_TIMESTAMP),
+    ('subject_cve', 'CVE', 'Civic Education', CURRENT_TIMESTAMP),
+    ('subject_cmp', 'CMP', 'Computer Studies', CURRENT_TIMESTAMP),
+    ('subject_phy', 'PHY', 'Physics', CURRENT_TIMESTAMP),
+    ('subject_chm', 'CHM', 'Chemistry', CURRENT_TIMESTAMP),
+    ('subject_bio', 'BIO', 'Biology', CURRENT_TIMESTAMP),
+    ('subject_agr', 'AGR', 'Agricultural Science', CURRENT_TIMESTAMP),
+    ('subject_eco', 'ECO', 'Economics', CURRENT_TIMESTAMP),
+    ('subject_com', 'COM', 'Commerce', CURRENT_TIMESTAMP),
+    ('subject_acc', 'ACC', 'Accounting', CURRENT_TIMESTAMP),
+    ('subject_gov', 'GOV', 'Government', CURRENT_TIMESTAMP),
+    ('subject_geo', 'GEO', 'Geography', CURRENT_TIMESTAMP),
+    ('subject_his', 'HIS', 'History', CURRENT_TIMESTAMP),
+    ('subject_lit', 'LIT', 'Literature in English', CURRENT_TIMESTAMP),
+    ('subject_crs', 'CRS', 'Christian Religious Studies', CURRENT_TIMESTAMP),
+    ('subject_irs', 'IRS', 'Islamic Religious Studies', CURRENT_TIMESTAMP),
+    ('subject_fre', 'FRE', 'French', CURRENT_TIMESTAMP),
+    ('subject_igb', 'IGB', 'Igbo Language', CURRENT_TIMESTAMP),
+    ('subject_hec', 'HEC', 'Home Economics', CURRENT_TIMESTAMP),
+    ('subject_far', 'FAR', 'Fine Arts', CURRENT_TIMESTAMP),
+    ('subject_mus', 'MUS', 'Music', CURRENT_TIMESTAMP),
+    ('subject_phe', 'PHE', 'Physical Education', CURRENT_TIMESTAMP),
+    ('subject_tdr', 'TDR', 'Technical Drawing', CURRENT_TIMESTAMP),
+    ('subject_fmt', 'FMT', 'Further Mathematics', CURRENT_TIMESTAMP)
+ON CONFLICT ("code") DO NOTHING;
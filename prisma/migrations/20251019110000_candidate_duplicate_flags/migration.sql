@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."duplicate_match_reason" AS ENUM ('NIN', 'PHONE', 'NAME_DOB');
+
+-- CreateEnum
+CREATE TYPE "public"."duplicate_flag_status" AS ENUM ('Open', 'Merged', 'Dismissed');
+
+-- AlterTable
+ALTER TABLE "public"."candidates" ADD COLUMN     "identityKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."candidate_duplicate_flags" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "matchedCandidateId" TEXT NOT NULL,
+    "reasons" "public"."duplicate_match_reason"[],
+    "score" INTEGER NOT NULL,
+    "status" "public"."duplicate_flag_status" NOT NULL DEFAULT 'Open',
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "resolutionNote" TEXT,
+    "keptCandidateId" TEXT,
+
+    CONSTRAINT "candidate_duplicate_flags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "candidates_identityKey_idx" ON "public"."candidates"("identityKey");
+
+-- CreateIndex
+CREATE INDEX "candidate_duplicate_flags_status_createdAt_idx" ON "public"."candidate_duplicate_flags"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "candidate_duplicate_flags_matchedCandidateId_idx" ON "public"."candidate_duplicate_flags"("matchedCandidateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "candidate_duplicate_flags_candidateId_matchedCandidateId_key" ON "public"."candidate_duplicate_flags"("candidateId", "matchedCandidateId");
+
+-- AddForeignKey
+ALTER TABLE "public"."candidate_duplicate_flags" ADD CONSTRAINT "candidate_duplicate_flags_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."candidate_duplicate_flags" ADD CONSTRAINT "candidate_duplicate_flags_matchedCandidateId_fkey" FOREIGN KEY ("matchedCandidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill identity keys; must match DuplicateCheckService.identityKey
+UPDATE "public"."candidates" SET "identityKey" = (
+    SELECT string_agg(part, ' ' ORDER BY part)
+    FROM unnest(ARRAY[
+        regexp_replace(lower("surname"), '[^a-z]', '', 'g'),
+        regexp_replace(lower("firstName"), '[^a-z]', '', 'g')
+    ]) AS part
+) || '|' || to_char("dateOfBirth", 'YYYY-MM-DD');
@@ -0,0 +1,822 @@
+-- Seed states (36 states and the FCT)
+INSERT INTO "public"."states" ("id", "name") VALUES
+    ('state_abia', 'Abia'),
+    ('state_adamawa', 'Adamawa'),
+    ('state_akwa_ibom', 'Akwa Ibom'),
+    ('state_anambra', 'Anambra'),
+    ('state_bauchi', 'Bauchi'),
+    ('state_bayelsa', 'Bayelsa'),
+    ('state_benue', 'Benue'),
+    ('state_borno', 'Borno'),
+    ('state_cross_river', 'Cross River'),
+    ('state_delta', 'Delta'),
+    ('state_ebonyi', 'Ebonyi'),
+    ('state_edo', 'Edo'),
+    ('state_ekiti', 'Ekiti'),
+    ('state_enugu', 'Enugu'),
+    ('state_federal_capital_territory', 'Federal Capital Territory'),
+    ('state_gombe', 'Gombe'),
+    ('state_imo', 'Imo'),
+    ('state_jigawa', 'Jigawa'),
+    ('state_kaduna', 'Kaduna'),
+    ('state_kano', 'Kano'),
+    ('state_katsina', 'Katsina'),
+    ('state_kebbi', 'Kebbi'),
+    ('state_kogi', 'Kogi'),
+    ('state_kwara', 'Kwara'),
+    ('state_lagos', 'Lagos'),
+    ('state_nasarawa', 'Nasarawa'),
+    ('state_niger', 'Niger'),
+    ('state_ogun', 'Ogun'),
+    ('state_ondo', 'Ondo'),
+    ('state_osun', 'Osun'),
+    ('state_oyo', 'Oyo'),
+    ('state_plateau', 'Plateau'),
+    ('state_rivers', 'Rivers'),
+    ('state_sokoto', 'Sokoto'),
+    ('state_taraba', 'Taraba'),
+    ('state_yobe', 'Yobe'),
+    ('state_zamfara', 'Zamfara')
+ON CONFLICT ("name") DO NOTHING;
+
+-- Seed local government areas, keyed to the states by name
+INSERT INTO "public"."lgas" ("id", "name", "stateId")
+SELECT "seed"."id", "seed"."name", "s"."id"
+FROM (VALUES
+    ('lga_abia_aba_north', 'Aba North', 'Abia'),
+    ('lga_abia_aba_south', 'Aba South', 'Abia'),
+    ('lga_abia_arochukwu', 'Arochukwu', 'Abia'),
+    ('lga_abia_bende', 'Bende', 'Abia'),
+    ('lga_abia_ikwuano', 'Ikwuano', 'Abia'),
+    ('lga_abia_isiala_ngwa_north', 'Isiala Ngwa North', 'Abia'),
+    ('lga_abia_isiala_ngwa_south', 'Isiala Ngwa South', 'Abia'),
+    ('lga_abia_isuikwuato', 'Isuikwuato', 'Abia'),
+    ('lga_abia_obi_ngwa', 'Obi Ngwa', 'Abia'),
+    ('lga_abia_ohafia', 'Ohafia', 'Abia'),
+    ('lga_abia_osisioma', 'Osisioma', 'Abia'),
+    ('lga_abia_ugwunagbo', 'Ugwunagbo', 'Abia'),
+    ('lga_abia_ukwa_east', 'Ukwa East', 'Abia'),
+    ('lga_abia_ukwa_west', 'Ukwa West', 'Abia'),
+    ('lga_abia_umuahia_north', 'Umuahia North', 'Abia'),
+    ('lga_abia_umuahia_south', 'Umuahia South', 'Abia'),
+    ('lga_abia_umu_nneochi', 'Umu Nneochi', 'Abia'),
+    ('lga_adamawa_demsa', 'Demsa', 'Adamawa'),
+    ('lga_adamawa_fufure', 'Fufure', 'Adamawa'),
+    ('lga_adamawa_ganye', 'Ganye', 'Adamawa'),
+    ('lga_adamawa_gayuk', 'Gayuk', 'Adamawa'),
+    ('lga_adamawa_gombi', 'Gombi', 'Adamawa'),
+    ('lga_adamawa_grie', 'Grie', 'Adamawa'),
+    ('lga_adamawa_hong', 'Hong', 'Adamawa'),
+    ('lga_adamawa_jada', 'Jada', 'Adamawa'),
+    ('lga_adamawa_lamurde', 'Lamurde', 'Adamawa'),
+    ('lga_adamawa_madagali', 'Madagali', 'Adamawa'),
+    ('lga_adamawa_maiha', 'Maiha', 'Adamawa'),
+    ('lga_adamawa_mayo_belwa', 'Mayo Belwa', 'Adamawa'),
+    ('lga_adamawa_michika', 'Michika', 'Adamawa'),
+    ('lga_adamawa_mubi_north', 'Mubi North', 'Adamawa'),
+    ('lga_adamawa_mubi_south', 'Mubi South', 'Adamawa'),
+    ('lga_adamawa_numan', 'Numan', 'Adamawa'),
+    ('lga_adamawa_shelleng', 'Shelleng', 'Adamawa'),
+    ('lga_adamawa_song', 'Song', 'Adamawa'),
+    ('lga_adamawa_toungo', 'Toungo', 'Adamawa'),
+    ('lga_adamawa_yola_north', 'Yola North', 'Adamawa'),
+    ('lga_adamawa_yola_south', 'Yola South', 'Adamawa'),
+    ('lga_akwa_ibom_abak', 'Abak', 'Akwa Ibom'),
+    ('lga_akwa_ibom_eastern_obolo', 'Eastern Obolo', 'Akwa Ibom'),
+    ('lga_akwa_ibom_eket', 'Eket', 'Akwa Ibom'),
+    ('lga_akwa_ibom_esit_eket', 'Esit Eket', 'Akwa Ibom'),
+    ('lga_akwa_ibom_essien_udim', 'Essien Udim', 'Akwa Ibom'),
+    ('lga_akwa_ibom_etim_ekpo', 'Etim Ekpo', 'Akwa Ibom'),
+    ('lga_akwa_ibom_etinan', 'Etinan', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ibeno', 'Ibeno', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ibesikpo_asutan', 'Ibesikpo Asutan', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ibiono_ibom', 'Ibiono-Ibom', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ika', 'Ika', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ikono', 'Ikono', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ikot_abasi', 'Ikot Abasi', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ikot_ekpene', 'Ikot Ekpene', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ini', 'Ini', 'Akwa Ibom'),
+    ('lga_akwa_ibom_itu', 'Itu', 'Akwa Ibom'),
+    ('lga_akwa_ibom_mbo', 'Mbo', 'Akwa Ibom'),
+    ('lga_akwa_ibom_mkpat_enin', 'Mkpat-Enin', 'Akwa Ibom'),
+    ('lga_akwa_ibom_nsit_atai', 'Nsit-Atai', 'Akwa Ibom'),
+    ('lga_akwa_ibom_nsit_ibom', 'Nsit-Ibom', 'Akwa Ibom'),
+    ('lga_akwa_ibom_nsit_ubium', 'Nsit-Ubium', 'Akwa Ibom'),
+    ('lga_akwa_ibom_obot_akara', 'Obot Akara', 'Akwa Ibom'),
+    ('lga_akwa_ibom_okobo', 'Okobo', 'Akwa Ibom'),
+    ('lga_akwa_ibom_onna', 'Onna', 'Akwa Ibom'),
+    ('lga_akwa_ibom_oron', 'Oron', 'Akwa Ibom'),
+    ('lga_akwa_ibom_oruk_anam', 'Oruk Anam', 'Akwa Ibom'),
+    ('lga_akwa_ibom_udung_uko', 'Udung-Uko', 'Akwa Ibom'),
+    ('lga_akwa_ibom_ukanafun', 'Ukanafun', 'Akwa Ibom'),
+    ('lga_akwa_ibom_uruan', 'Uruan', 'Akwa Ibom'),
+    ('lga_akwa_ibom_urue_offong_oruko', 'Urue-Offong/Oruko', 'Akwa Ibom'),
+    ('lga_akwa_ibom_uyo', 'Uyo', 'Akwa Ibom'),
+    ('lga_anambra_aguata', 'Aguata', 'Anambra'),
+    ('lga_anambra_anambra_east', 'Anambra East', 'Anambra'),
+    ('lga_anambra_anambra_west', 'Anambra West', 'Anambra'),
+    ('lga_anambra_anaocha', 'Anaocha', 'Anambra'),
+    ('lga_anambra_awka_north', 'Awka North', 'Anambra'),
+    ('lga_anambra_awka_south', 'Awka South', 'Anambra'),
+    ('lga_anambra_ayamelum', 'Ayamelum', 'Anambra'),
+    ('lga_anambra_dunukofia', 'Dunukofia', 'Anambra'),
+    ('lga_anambra_ekwusigo', 'Ekwusigo', 'Anambra'),
+    ('lga_anambra_idemili_north', 'Idemili North', 'Anambra'),
+    ('lga_anambra_idemili_south', 'Idemili South', 'Anambra'),
+    ('lga_anambra_ihiala', 'Ihiala', 'Anambra'),
+    ('lga_anambra_njikoka', 'Njikoka', 'Anambra'),
+    ('lga_anambra_nnewi_north', 'Nnewi North', 'Anambra'),
+    ('lga_anambra_nnewi_south', 'Nnewi South', 'Anambra'),
+    ('lga_anambra_ogbaru', 'Ogbaru', 'Anambra'),
+    ('lga_anambra_onitsha_north', 'Onitsha North', 'Anambra'),
+    ('lga_anambra_onitsha_south', 'Onitsha South', 'Anambra'),
+    ('lga_anambra_orumba_north', 'Orumba North', 'Anambra'),
+    ('lga_anambra_orumba_south', 'Orumba South', 'Anambra'),
+    ('lga_anambra_oyi', 'Oyi', 'Anambra'),
+    ('lga_bauchi_alkaleri', 'Alkaleri', 'Bauchi'),
+    ('lga_bauchi_bauchi', 'Bauchi', 'Bauchi'),
+    ('lga_bauchi_bogoro', 'Bogoro', 'Bauchi'),
+    ('lga_bauchi_damban', 'Damban', 'Bauchi'),
+    ('lga_bauchi_darazo', 'Darazo', 'Bauchi'),
+    ('lga_bauchi_dass', 'Dass', 'Bauchi'),
+    ('lga_bauchi_gamawa', 'Gamawa', 'Bauchi'),
+    ('lga_bauchi_ganjuwa', 'Ganjuwa', 'Bauchi'),
+    ('lga_bauchi_giade', 'Giade', 'Bauchi'),
+    ('lga_bauchi_itas_gadau', 'Itas/Gadau', 'Bauchi'),
+    ('lga_bauchi_jama_are', 'Jama''are', 'Bauchi'),
+    ('lga_bauchi_katagum', 'Katagum', 'Bauchi'),
+    ('lga_bauchi_kirfi', 'Kirfi', 'Bauchi'),
+    ('lga_bauchi_misau', 'Misau', 'Bauchi'),
+    ('lga_bauchi_ningi', 'Ningi', 'Bauchi'),
+    ('lga_bauchi_shira', 'Shira', 'Bauchi'),
+    ('lga_bauchi_tafawa_balewa', 'Tafawa Balewa', 'Bauchi'),
+    ('lga_bauchi_toro', 'Toro', 'Bauchi'),
+    ('lga_bauchi_warji', 'Warji', 'Bauchi'),
+    ('lga_bauchi_zaki', 'Zaki', 'Bauchi'),
+    ('lga_bayelsa_brass', 'Brass', 'Bayelsa'),
+    ('lga_bayelsa_ekeremor', 'Ekeremor', 'Bayelsa'),
+    ('lga_bayelsa_kolokuma_opokuma', 'Kolokuma/Opokuma', 'Bayelsa'),
+    ('lga_bayelsa_nembe', 'Nembe', 'Bayelsa'),
+    ('lga_bayelsa_ogbia', 'Ogbia', 'Bayelsa'),
+    ('lga_bayelsa_sagbama', 'Sagbama', 'Bayelsa'),
+    ('lga_bayelsa_southern_ijaw', 'Southern Ijaw', 'Bayelsa'),
+    ('lga_bayelsa_yenagoa', 'Yenagoa', 'Bayelsa'),
+    ('lga_benue_ado', 'Ado', 'Benue'),
+    ('lga_benue_agatu', 'Agatu', 'Benue'),
+    ('lga_benue_apa', 'Apa', 'Benue'),
+    ('lga_benue_buruku', 'Buruku', 'Benue'),
+    ('lga_benue_gboko', 'Gboko', 'Benue'),
+    ('lga_benue_guma', 'Guma', 'Benue'),
+    ('lga_benue_gwer_east', 'Gwer East', 'Benue'),
+    ('lga_benue_gwer_west', 'Gwer West', 'Benue'),
+    ('lga_benue_katsina_ala', 'Katsina-Ala', 'Benue'),
+    ('lga_benue_konshisha', 'Konshisha', 'Benue'),
+    ('lga_benue_kwande', 'Kwande', 'Benue'),
+    ('lga_benue_logo', 'Logo', 'Benue'),
+    ('lga_benue_makurdi', 'Makurdi', 'Benue'),
+    ('lga_benue_obi', 'Obi', 'Benue'),
+    ('lga_benue_ogbadibo', 'Ogbadibo', 'Benue'),
+    ('lga_benue_ohimini', 'Ohimini', 'Benue'),
+    ('lga_benue_oju', 'Oju', 'Benue'),
+    ('lga_benue_okpokwu', 'Okpokwu', 'Benue'),
+    ('lga_benue_otukpo', 'Otukpo', 'Benue'),
+    ('lga_benue_tarka', 'Tarka', 'Benue'),
+    ('lga_benue_ukum', 'Ukum', 'Benue'),
+    ('lga_benue_ushongo', 'Ushongo', 'Benue'),
+    ('lga_benue_vandeikya', 'Vandeikya', 'Benue'),
+    ('lga_borno_abadam', 'Abadam', 'Borno'),
+    ('lga_borno_askira_uba', 'Askira/Uba', 'Borno'),
+    ('lga_borno_bama', 'Bama', 'Borno'),
+    ('lga_borno_bayo', 'Bayo', 'Borno'),
+    ('lga_borno_biu', 'Biu', 'Borno'),
+    ('lga_borno_chibok', 'Chibok', 'Borno'),
+    ('lga_borno_damboa', 'Damboa', 'Borno'),
+    ('lga_borno_dikwa', 'Dikwa', 'Borno'),
+    ('lga_borno_gubio', 'Gubio', 'Borno'),
+    ('lga_borno_guzamala', 'Guzamala', 'Borno'),
+    ('lga_borno_gwoza', 'Gwoza', 'Borno'),
+    ('lga_borno_hawul', 'Hawul', 'Borno'),
+    ('lga_borno_jere', 'Jere', 'Borno'),
+    ('lga_borno_kaga', 'Kaga', 'Borno'),
+    ('lga_borno_kala_balge', 'Kala/Balge', 'Borno'),
+    ('lga_borno_konduga', 'Konduga', 'Borno'),
+    ('lga_borno_kukawa', 'Kukawa', 'Borno'),
+    ('lga_borno_kwaya_kusar', 'Kwaya Kusar', 'Borno'),
+    ('lga_borno_mafa', 'Mafa', 'Borno'),
+    ('lga_borno_magumeri', 'Magumeri', 'Borno'),
+    ('lga_borno_maiduguri', 'Maiduguri', 'Borno'),
+    ('lga_borno_marte', 'Marte', 'Borno'),
+    ('lga_borno_mobbar', 'Mobbar', 'Borno'),
+    ('lga_borno_monguno', 'Monguno', 'Borno'),
+    ('lga_borno_ngala', 'Ngala', 'Borno'),
+    ('lga_borno_nganzai', 'Nganzai', 'Borno'),
+    ('lga_borno_shani', 'Shani', 'Borno'),
+    ('lga_cross_river_abi', 'Abi', 'Cross River'),
+    ('lga_cross_river_akamkpa', 'Akamkpa', 'Cross River'),
+    ('lga_cross_river_akpabuyo', 'Akpabuyo', 'Cross River'),
+    ('lga_cross_river_bakassi', 'Bakassi', 'Cross River'),
+    ('lga_cross_river_bekwarra', 'Bekwarra', 'Cross River'),
+    ('lga_cross_river_biase', 'Biase', 'Cross River'),
+    ('lga_cross_river_boki', 'Boki', 'Cross River'),
+    ('lga_cross_river_calabar_municipal', 'Calabar Municipal', 'Cross River'),
+    ('lga_cross_river_calabar_south', 'Calabar South', 'Cross River'),
+    ('lga_cross_river_etung', 'Etung', 'Cross River'),
+    ('lga_cross_river_ikom', 'Ikom', 'Cross River'),
+    ('lga_cross_river_obanliku', 'Obanliku', 'Cross River'),
+    ('lga_cross_river_obubra', 'Obubra', 'Cross River'),
+    ('lga_cross_river_obudu', 'Obudu', 'Cross River'),
+    ('lga_cross_river_odukpani', 'Odukpani', 'Cross River'),
+    ('lga_cross_river_ogoja', 'Ogoja', 'Cross River'),
+    ('lga_cross_river_yakuur', 'Yakuur', 'Cross River'),
+    ('lga_cross_river_yala', 'Yala', 'Cross River'),
+    ('lga_delta_aniocha_north', 'Aniocha North', 'Delta'),
+    ('lga_delta_aniocha_south', 'Aniocha South', 'Delta'),
+    ('lga_delta_bomadi', 'Bomadi', 'Delta'),
+    ('lga_delta_burutu', 'Burutu', 'Delta'),
+    ('lga_delta_ethiope_east', 'Ethiope East', 'Delta'),
+    ('lga_delta_ethiope_west', 'Ethiope West', 'Delta'),
+    ('lga_delta_ika_north_east', 'Ika North East', 'Delta'),
+    ('lga_delta_ika_south', 'Ika South', 'Delta'),
+    ('lga_delta_isoko_north', 'Isoko North', 'Delta'),
+    ('lga_delta_isoko_south', 'Isoko South', 'Delta'),
+    ('lga_delta_ndokwa_east', 'Ndokwa East', 'Delta'),
+    ('lga_delta_ndokwa_west', 'Ndokwa West', 'Delta'),
+    ('lga_delta_okpe', 'Okpe', 'Delta'),
+    ('lga_delta_oshimili_north', 'Oshimili North', 'Delta'),
+    ('lga_delta_oshimili_south', 'Oshimili South', 'Delta'),
+    ('lga_delta_patani', 'Patani', 'Delta'),
+    ('lga_delta_sapele', 'Sapele', 'Delta'),
+    ('lga_delta_udu', 'Udu', 'Delta'),
+    ('lga_delta_ughelli_north', 'Ughelli North', 'Delta'),
+    ('lga_delta_ughelli_south', 'Ughelli South', 'Delta'),
+    ('lga_delta_ukwuani', 'Ukwuani', 'Delta'),
+    ('lga_delta_uvwie', 'Uvwie', 'Delta'),
+    ('lga_delta_warri_north', 'Warri North', 'Delta'),
+    ('lga_delta_warri_south', 'Warri South', 'Delta'),
+    ('lga_delta_warri_south_west', 'Warri South West', 'Delta'),
+    ('lga_ebonyi_abakaliki', 'Abakaliki', 'Ebonyi'),
+    ('lga_ebonyi_afikpo_north', 'Afikpo North', 'Ebonyi'),
+    ('lga_ebonyi_afikpo_south', 'Afikpo South', 'Ebonyi'),
+    ('lga_ebonyi_ebonyi', 'Ebonyi', 'Ebonyi'),
+    ('lga_ebonyi_ezza_north', 'Ezza North', 'Ebonyi'),
+    ('lga_ebonyi_ezza_south', 'Ezza South', 'Ebonyi'),
+    ('lga_ebonyi_ikwo', 'Ikwo', 'Ebonyi'),
+    ('lga_ebonyi_ishielu', 'Ishielu', 'Ebonyi'),
+    ('lga_ebonyi_ivo', 'Ivo', 'Ebonyi'),
+    ('lga_ebonyi_izzi', 'Izzi', 'Ebonyi'),
+    ('lga_ebonyi_ohaozara', 'Ohaozara', 'Ebonyi'),
+    ('lga_ebonyi_ohaukwu', 'Ohaukwu', 'Ebonyi'),
+    ('lga_ebonyi_onicha', 'Onicha', 'Ebonyi'),
+    ('lga_edo_akoko_edo', 'Akoko-Edo', 'Edo'),
+    ('lga_edo_egor', 'Egor', 'Edo'),
+    ('lga_edo_esan_central', 'Esan Central', 'Edo'),
+    ('lga_edo_esan_north_east', 'Esan North-East', 'Edo'),
+    ('lga_edo_esan_south_east', 'Esan South-East', 'Edo'),
+    ('lga_edo_esan_west', 'Esan West', 'Edo'),
+    ('lga_edo_etsako_central', 'Etsako Central', 'Edo'),
+    ('lga_edo_etsako_east', 'Etsako East', 'Edo'),
+    ('lga_edo_etsako_west', 'Etsako West', 'Edo'),
+    ('lga_edo_igueben', 'Igueben', 'Edo'),
+    ('lga_edo_ikpoba_okha', 'Ikpoba Okha', 'Edo'),
+    ('lga_edo_oredo', 'Oredo', 'Edo'),
+    ('lga_edo_orhionmwon', 'Orhionmwon', 'Edo'),
+    ('lga_edo_ovia_north_east', 'Ovia North-East', 'Edo'),
+    ('lga_edo_ovia_south_west', 'Ovia South-West', 'Edo'),
+    ('lga_edo_owan_east', 'Owan East', 'Edo'),
+    ('lga_edo_owan_west', 'Owan West', 'Edo'),
+    ('lga_edo_uhunmwonde', 'Uhunmwonde', 'Edo'),
+    ('lga_ekiti_ado_ekiti', 'Ado Ekiti', 'Ekiti'),
+    ('lga_ekiti_efon', 'Efon', 'Ekiti'),
+    ('lga_ekiti_ekiti_east', 'Ekiti East', 'Ekiti'),
+    ('lga_ekiti_ekiti_south_west', 'Ekiti South-West', 'Ekiti'),
+    ('lga_ekiti_ekiti_west', 'Ekiti West', 'Ekiti'),
+    ('lga_ekiti_emure', 'Emure', 'Ekiti'),
+    ('lga_ekiti_gbonyin', 'Gbonyin', 'Ekiti'),
+    ('lga_ekiti_ido_osi', 'Ido Osi', 'Ekiti'),
+    ('lga_ekiti_ijero', 'Ijero', 'Ekiti'),
+    ('lga_ekiti_ikere', 'Ikere', 'Ekiti'),
+    ('lga_ekiti_ikole', 'Ikole', 'Ekiti'),
+    ('lga_ekiti_ilejemeje', 'Ilejemeje', 'Ekiti'),
+    ('lga_ekiti_irepodun_ifelodun', 'Irepodun/Ifelodun', 'Ekiti'),
+    ('lga_ekiti_ise_orun', 'Ise/Orun', 'Ekiti'),
+    ('lga_ekiti_moba', 'Moba', 'Ekiti'),
+    ('lga_ekiti_oye', 'Oye', 'Ekiti'),
+    ('lga_enugu_aninri', 'Aninri', 'Enugu'),
+    ('lga_enugu_awgu', 'Awgu', 'Enugu'),
+    ('lga_enugu_enugu_east', 'Enugu East', 'Enugu'),
+    ('lga_enugu_enugu_north', 'Enugu North', 'Enugu'),
+    ('lga_enugu_enugu_south', 'Enugu South', 'Enugu'),
+    ('lga_enugu_ezeagu', 'Ezeagu', 'Enugu'),
+    ('lga_enugu_igbo_etiti', 'Igbo Etiti', 'Enugu'),
+    ('lga_enugu_igbo_eze_north', 'Igbo Eze North', 'Enugu'),
+    ('lga_enugu_igbo_eze_south', 'Igbo Eze South', 'Enugu'),
+    ('lga_enugu_isi_uzo', 'Isi Uzo', 'Enugu'),
+    ('lga_enugu_nkanu_east', 'Nkanu East', 'Enugu'),
+    ('lga_enugu_nkanu_west', 'Nkanu West', 'Enugu'),
+    ('lga_enugu_nsukka', 'Nsukka', 'Enugu'),
+    ('lga_enugu_oji_river', 'Oji River', 'Enugu'),
+    ('lga_enugu_udenu', 'Udenu', 'Enugu'),
+    ('lga_enugu_udi', 'Udi', 'Enugu'),
+    ('lga_enugu_uzo_uwani', 'Uzo-Uwani', 'Enugu'),
+    ('lga_federal_capital_territory_abaji', 'Abaji', 'Federal Capital Territory'),
+    ('lga_federal_capital_territory_abuja_municipal', 'Abuja Municipal', 'Federal Capital Territory'),
+    ('lga_federal_capital_territory_bwari', 'Bwari', 'Federal Capital Territory'),
+    ('lga_federal_capital_territory_gwagwalada', 'Gwagwalada', 'Federal Capital Territory'),
+    ('lga_federal_capital_territory_kuje', 'Kuje', 'Federal Capital Territory'),
+    ('lga_federal_capital_territory_kwali', 'Kwali', 'Federal Capital Territory'),
+    ('lga_gombe_akko', 'Akko', 'Gombe'),
+    ('lga_gombe_balanga', 'Balanga', 'Gombe'),
+    ('lga_gombe_billiri', 'Billiri', 'Gombe'),
+    ('lga_gombe_dukku', 'Dukku', 'Gombe'),
+    ('lga_gombe_funakaye', 'Funakaye', 'Gombe'),
+    ('lga_gombe_gombe', 'Gombe', 'Gombe'),
+    ('lga_gombe_kaltungo', 'Kaltungo', 'Gombe'),
+    ('lga_gombe_kwami', 'Kwami', 'Gombe'),
+    ('lga_gombe_nafada', 'Nafada', 'Gombe'),
+    ('lga_gombe_shongom', 'Shongom', 'Gombe'),
+    ('lga_gombe_yamaltu_deba', 'Yamaltu/Deba', 'Gombe'),
+    ('lga_imo_aboh_mbaise', 'Aboh Mbaise', 'Imo'),
+    ('lga_imo_ahiazu_mbaise', 'Ahiazu Mbaise', 'Imo'),
+    ('lga_imo_ehime_mbano', 'Ehime Mbano', 'Imo'),
+    ('lga_imo_ezinihitte', 'Ezinihitte', 'Imo'),
+    ('lga_imo_ideato_north', 'Ideato North', 'Imo'),
+    ('lga_imo_ideato_south', 'Ideato South', 'Imo'),
+    ('lga_imo_ihitte_uboma', 'Ihitte/Uboma', 'Imo'),
+    ('lga_imo_ikeduru', 'Ikeduru', 'Imo'),
+    ('lga_imo_isiala_mbano', 'Isiala Mbano', 'Imo'),
+    ('lga_imo_isu', 'Isu', 'Imo'),
+    ('lga_imo_mbaitoli', 'Mbaitoli', 'Imo'),
+    ('lga_imo_ngor_okpala', 'Ngor Okpala', 'Imo'),
+    ('lga_imo_njaba', 'Njaba', 'Imo'),
+    ('lga_imo_nkwerre', 'Nkwerre', 'Imo'),
+    ('lga_imo_nwangele', 'Nwangele', 'Imo'),
+    ('lga_imo_obowo', 'Obowo', 'Imo'),
+    ('lga_imo_oguta', 'Oguta', 'Imo'),
+    ('lga_imo_ohaji_egbema', 'Ohaji/Egbema', 'Imo'),
+    ('lga_imo_okigwe', 'Okigwe', 'Imo'),
+    ('lga_imo_orlu', 'Orlu', 'Imo'),
+    ('lga_imo_orsu', 'Orsu', 'Imo'),
+    ('lga_imo_oru_east', 'Oru East', 'Imo'),
+    ('lga_imo_oru_west', 'Oru West', 'Imo'),
+    ('lga_imo_owerri_municipal', 'Owerri Municipal', 'Imo'),
+    ('lga_imo_owerri_north', 'Owerri North', 'Imo'),
+    ('lga_imo_owerri_west', 'Owerri West', 'Imo'),
+    ('lga_imo_unuimo', 'Unuimo', 'Imo'),
+    ('lga_jigawa_auyo', 'Auyo', 'Jigawa'),
+    ('lga_jigawa_babura', 'Babura', 'Jigawa'),
+    ('lga_jigawa_biriniwa', 'Biriniwa', 'Jigawa'),
+    ('lga_jigawa_birnin_kudu', 'Birnin Kudu', 'Jigawa'),
+    ('lga_jigawa_buji', 'Buji', 'Jigawa'),
+    ('lga_jigawa_dutse', 'Dutse', 'Jigawa'),
+    ('lga_jigawa_gagarawa', 'Gagarawa', 'Jigawa'),
+    ('lga_jigawa_garki', 'Garki', 'Jigawa'),
+    ('lga_jigawa_gumel', 'Gumel', 'Jigawa'),
+    ('lga_jigawa_guri', 'Guri', 'Jigawa'),
+    ('lga_jigawa_gwaram', 'Gwaram', 'Jigawa'),
+    ('lga_jigawa_gwiwa', 'Gwiwa', 'Jigawa'),
+    ('lga_jigawa_hadejia', 'Hadejia', 'Jigawa'),
+    ('lga_jigawa_jahun', 'Jahun', 'Jigawa'),
+    ('lga_jigawa_kafin_hausa', 'Kafin Hausa', 'Jigawa'),
+    ('lga_jigawa_kaugama', 'Kaugama', 'Jigawa'),
+    ('lga_jigawa_kazaure', 'Kazaure', 'Jigawa'),
+    ('lga_jigawa_kiri_kasama', 'Kiri Kasama', 'Jigawa'),
+    ('lga_jigawa_kiyawa', 'Kiyawa', 'Jigawa'),
+    ('lga_jigawa_maigatari', 'Maigatari', 'Jigawa'),
+    ('lga_jigawa_malam_madori', 'Malam Madori', 'Jigawa'),
+    ('lga_jigawa_miga', 'Miga', 'Jigawa'),
+    ('lga_jigawa_ringim', 'Ringim', 'Jigawa'),
+    ('lga_jigawa_roni', 'Roni', 'Jigawa'),
+    ('lga_jigawa_sule_tankarkar', 'Sule Tankarkar', 'Jigawa'),
+    ('lga_jigawa_taura', 'Taura', 'Jigawa'),
+    ('lga_jigawa_yankwashi', 'Yankwashi', 'Jigawa'),
+    ('lga_kaduna_birnin_gwari', 'Birnin Gwari', 'Kaduna'),
+    ('lga_kaduna_chikun', 'Chikun', 'Kaduna'),
+    ('lga_kaduna_giwa', 'Giwa', 'Kaduna'),
+    ('lga_kaduna_igabi', 'Igabi', 'Kaduna'),
+    ('lga_kaduna_ikara', 'Ikara', 'Kaduna'),
+    ('lga_kaduna_jaba', 'Jaba', 'Kaduna'),
+    ('lga_kaduna_jema_a', 'Jema''a', 'Kaduna'),
+    ('lga_kaduna_kachia', 'Kachia', 'Kaduna'),
+    ('lga_kaduna_kaduna_north', 'Kaduna North', 'Kaduna'),
+    ('lga_kaduna_kaduna_south', 'Kaduna South', 'Kaduna'),
+    ('lga_kaduna_kagarko', 'Kagarko', 'Kaduna'),
+    ('lga_kaduna_kajuru', 'Kajuru', 'Kaduna'),
+    ('lga_kaduna_kaura', 'Kaura', 'Kaduna'),
+    ('lga_kaduna_kauru', 'Kauru', 'Kaduna'),
+    ('lga_kaduna_kubau', 'Kubau', 'Kaduna'),
+    ('lga_kaduna_kudan', 'Kudan', 'Kaduna'),
+    ('lga_kaduna_lere', 'Lere', 'Kaduna'),
+    ('lga_kaduna_makarfi', 'Makarfi', 'Kaduna'),
+    ('lga_kaduna_sabon_gari', 'Sabon Gari', 'Kaduna'),
+    ('lga_kaduna_sanga', 'Sanga', 'Kaduna'),
+    ('lga_kaduna_soba', 'Soba', 'Kaduna'),
+    ('lga_kaduna_zangon_kataf', 'Zangon Kataf', 'Kaduna'),
+    ('lga_kaduna_zaria', 'Zaria', 'Kaduna'),
+    ('lga_kano_ajingi', 'Ajingi', 'Kano'),
+    ('lga_kano_albasu', 'Albasu', 'Kano'),
+    ('lga_kano_bagwai', 'Bagwai', 'Kano'),
+    ('lga_kano_bebeji', 'Bebeji', 'Kano'),
+    ('lga_kano_bichi', 'Bichi', 'Kano'),
+    ('lga_kano_bunkure', 'Bunkure', 'Kano'),
+    ('lga_kano_dala', 'Dala', 'Kano'),
+    ('lga_kano_dambatta', 'Dambatta', 'Kano'),
+    ('lga_kano_dawakin_kudu', 'Dawakin Kudu', 'Kano'),
+    ('lga_kano_dawakin_tofa', 'Dawakin Tofa', 'Kano'),
+    ('lga_kano_doguwa', 'Doguwa', 'Kano'),
+    ('lga_kano_fagge', 'Fagge', 'Kano'),
+    ('lga_kano_gabasawa', 'Gabasawa', 'Kano'),
+    ('lga_kano_garko', 'Garko', 'Kano'),
+    ('lga_kano_garun_mallam', 'Garun Mallam', 'Kano'),
+    ('lga_kano_gaya', 'Gaya', 'Kano'),
+    ('lga_kano_gezawa', 'Gezawa', 'Kano'),
+    ('lga_kano_gwale', 'Gwale', 'Kano'),
+    ('lga_kano_gwarzo', 'Gwarzo', 'Kano'),
+    ('lga_kano_kabo', 'Kabo', 'Kano'),
+    ('lga_kano_kano_municipal', 'Kano Municipal', 'Kano'),
+    ('lga_kano_karaye', 'Karaye', 'Kano'),
+    ('lga_kano_kibiya', 'Kibiya', 'Kano'),
+    ('lga_kano_kiru', 'Kiru', 'Kano'),
+    ('lga_kano_kumbotso', 'Kumbotso', 'Kano'),
+    ('lga_kano_kunchi', 'Kunchi', 'Kano'),
+    ('lga_kano_kura', 'Kura', 'Kano'),
+    ('lga_kano_madobi', 'Madobi', 'Kano'),
+    ('lga_kano_makoda', 'Makoda', 'Kano'),
+    ('lga_kano_minjibir', 'Minjibir', 'Kano'),
+    ('lga_kano_nasarawa', 'Nasarawa', 'Kano'),
+    ('lga_kano_rano', 'Rano', 'Kano'),
+    ('lga_kano_rimin_gado', 'Rimin Gado', 'Kano'),
+    ('lga_kano_rogo', 'Rogo', 'Kano'),
+    ('lga_kano_shanono', 'Shanono', 'Kano'),
+    ('lga_kano_sumaila', 'Sumaila', 'Kano'),
+    ('lga_kano_takai', 'Takai', 'Kano'),
+    ('lga_kano_tarauni', 'Tarauni', 'Kano'),
+    ('lga_kano_tofa', 'Tofa', 'Kano'),
+    ('lga_kano_tsanyawa', 'Tsanyawa', 'Kano'),
+    ('lga_kano_tudun_wada', 'Tudun Wada', 'Kano'),
+    ('lga_kano_ungogo', 'Ungogo', 'Kano'),
+    ('lga_kano_warawa', 'Warawa', 'Kano'),
+    ('lga_kano_wudil', 'Wudil', 'Kano'),
+    ('lga_katsina_bakori', 'Bakori', 'Katsina'),
+    ('lga_katsina_batagarawa', 'Batagarawa', 'Katsina'),
+    ('lga_katsina_batsari', 'Batsari', 'Katsina'),
+    ('lga_katsina_baure', 'Baure', 'Katsina'),
+    ('lga_katsina_bindawa', 'Bindawa', 'Katsina'),
+    ('lga_katsina_charanchi', 'Charanchi', 'Katsina'),
+    ('lga_katsina_dandume', 'Dandume', 'Katsina'),
+    ('lga_katsina_danja', 'Danja', 'Katsina'),
+    ('lga_katsina_dan_musa', 'Dan Musa', 'Katsina'),
+    ('lga_katsina_daura', 'Daura', 'Katsina'),
+    ('lga_katsina_dutsi', 'Dutsi', 'Katsina'),
+    ('lga_katsina_dutsin_ma', 'Dutsin Ma', 'Katsina'),
+    ('lga_katsina_faskari', 'Faskari', 'Katsina'),
+    ('lga_katsina_funtua', 'Funtua', 'Katsina'),
+    ('lga_katsina_ingawa', 'Ingawa', 'Katsina'),
+    ('lga_katsina_jibia', 'Jibia', 'Katsina'),
+    ('lga_katsina_kafur', 'Kafur', 'Katsina'),
+    ('lga_katsina_kaita', 'Kaita', 'Katsina'),
+    ('lga_katsina_kankara', 'Kankara', 'Katsina'),
+    ('lga_katsina_kankia', 'Kankia', 'Katsina'),
+    ('lga_katsina_katsina', 'Katsina', 'Katsina'),
+    ('lga_katsina_kurfi', 'Kurfi', 'Katsina'),
+    ('lga_katsina_kusada', 'Kusada', 'Katsina'),
+    ('lga_katsina_mai_adua', 'Mai''Adua', 'Katsina'),
+    ('lga_katsina_malumfashi', 'Malumfashi', 'Katsina'),
+    ('lga_katsina_mani', 'Mani', 'Katsina'),
+    ('lga_katsina_mashi', 'Mashi', 'Katsina'),
+    ('lga_katsina_matazu', 'Matazu', 'Katsina'),
+    ('lga_katsina_musawa', 'Musawa', 'Katsina'),
+    ('lga_katsina_rimi', 'Rimi', 'Katsina'),
+    ('lga_katsina_sabuwa', 'Sabuwa', 'Katsina'),
+    ('lga_katsina_safana', 'Safana', 'Katsina'),
+    ('lga_katsina_sandamu', 'Sandamu', 'Katsina'),
+    ('lga_katsina_zango', 'Zango', 'Katsina'),
+    ('lga_kebbi_aleiro', 'Aleiro', 'Kebbi'),
+    ('lga_kebbi_arewa_dandi', 'Arewa Dandi', 'Kebbi'),
+    ('lga_kebbi_argungu', 'Argungu', 'Kebbi'),
+    ('lga_kebbi_augie', 'Augie', 'Kebbi'),
+    ('lga_kebbi_bagudo', 'Bagudo', 'Kebbi'),
+    ('lga_kebbi_birnin_kebbi', 'Birnin Kebbi', 'Kebbi'),
+    ('lga_kebbi_bunza', 'Bunza', 'Kebbi'),
+    ('lga_kebbi_dandi', 'Dandi', 'Kebbi'),
+    ('lga_kebbi_fakai', 'Fakai', 'Kebbi'),
+    ('lga_kebbi_gwandu', 'Gwandu', 'Kebbi'),
+    ('lga_kebbi_jega', 'Jega', 'Kebbi'),
+    ('lga_kebbi_kalgo', 'Kalgo', 'Kebbi'),
+    ('lga_kebbi_koko_besse', 'Koko/Besse', 'Kebbi'),
+    ('lga_kebbi_maiyama', 'Maiyama', 'Kebbi'),
+    ('lga_kebbi_ngaski', 'Ngaski', 'Kebbi'),
+    ('lga_kebbi_sakaba', 'Sakaba', 'Kebbi'),
+    ('lga_kebbi_shanga', 'Shanga', 'Kebbi'),
+    ('lga_kebbi_suru', 'Suru', 'Kebbi'),
+    ('lga_kebbi_wasagu_danko', 'Wasagu/Danko', 'Kebbi'),
+    ('lga_kebbi_yauri', 'Yauri', 'Kebbi'),
+    ('lga_kebbi_zuru', 'Zuru', 'Kebbi'),
+    ('lga_kogi_adavi', 'Adavi', 'Kogi'),
+    ('lga_kogi_ajaokuta', 'Ajaokuta', 'Kogi'),
+    ('lga_kogi_ankpa', 'Ankpa', 'Kogi'),
+    ('lga_kogi_bassa', 'Bassa', 'Kogi'),
+    ('lga_kogi_dekina', 'Dekina', 'Kogi'),
+    ('lga_kogi_ibaji', 'Ibaji', 'Kogi'),
+    ('lga_kogi_idah', 'Idah', 'Kogi'),
+    ('lga_kogi_igalamela_odolu', 'Igalamela Odolu', 'Kogi'),
+    ('lga_kogi_ijumu', 'Ijumu', 'Kogi'),
+    ('lga_kogi_kabba_bunu', 'Kabba/Bunu', 'Kogi'),
+    ('lga_kogi_kogi', 'Kogi', 'Kogi'),
+    ('lga_kogi_lokoja', 'Lokoja', 'Kogi'),
+    ('lga_kogi_mopa_muro', 'Mopa Muro', 'Kogi'),
+    ('lga_kogi_ofu', 'Ofu', 'Kogi'),
+    ('lga_kogi_ogori_magongo', 'Ogori/Magongo', 'Kogi'),
+    ('lga_kogi_okehi', 'Okehi', 'Kogi'),
+    ('lga_kogi_okene', 'Okene', 'Kogi'),
+    ('lga_kogi_olamaboro', 'Olamaboro', 'Kogi'),
+    ('lga_kogi_omala', 'Omala', 'Kogi'),
+    ('lga_kogi_yagba_east', 'Yagba East', 'Kogi'),
+    ('lga_kogi_yagba_west', 'Yagba West', 'Kogi'),
+    ('lga_kwara_asa', 'Asa', 'Kwara'),
+    ('lga_kwara_baruten', 'Baruten', 'Kwara'),
+    ('lga_kwara_edu', 'Edu', 'Kwara'),
+    ('lga_kwara_ekiti', 'Ekiti', 'Kwara'),
+    ('lga_kwara_ifelodun', 'Ifelodun', 'Kwara'),
+    ('lga_kwara_ilorin_east', 'Ilorin East', 'Kwara'),
+    ('lga_kwara_ilorin_south', 'Ilorin South', 'Kwara'),
+    ('lga_kwara_ilorin_west', 'Ilorin West', 'Kwara'),
+    ('lga_kwara_irepodun', 'Irepodun', 'Kwara'),
+    ('lga_kwara_isin', 'Isin', 'Kwara'),
+    ('lga_kwara_kaiama', 'Kaiama', 'Kwara'),
+    ('lga_kwara_moro', 'Moro', 'Kwara'),
+    ('lga_kwara_offa', 'Offa', 'Kwara'),
+    ('lga_kwara_oke_ero', 'Oke Ero', 'Kwara'),
+    ('lga_kwara_oyun', 'Oyun', 'Kwara'),
+    ('lga_kwara_pategi', 'Pategi', 'Kwara'),
+    ('lga_lagos_agege', 'Agege', 'Lagos'),
+    ('lga_lagos_ajeromi_ifelodun', 'Ajeromi-Ifelodun', 'Lagos'),
+    ('lga_lagos_alimosho', 'Alimosho', 'Lagos'),
+    ('lga_lagos_amuwo_odofin', 'Amuwo-Odofin', 'Lagos'),
+    ('lga_lagos_apapa', 'Apapa', 'Lagos'),
+    ('lga_lagos_badagry', 'Badagry', 'Lagos'),
+    ('lga_lagos_epe', 'Epe', 'Lagos'),
+    ('lga_lagos_eti_osa', 'Eti Osa', 'Lagos'),
+    ('lga_lagos_ibeju_lekki', 'Ibeju-Lekki', 'Lagos'),
+    ('lga_lagos_ifako_ijaiye', 'Ifako-Ijaiye', 'Lagos'),
+    ('lga_lagos_ikeja', 'Ikeja', 'Lagos'),
+    ('lga_lagos_ikorodu', 'Ikorodu', 'Lagos'),
+    ('lga_lagos_kosofe', 'Kosofe', 'Lagos'),
+    ('lga_lagos_lagos_island', 'Lagos Island', 'Lagos'),
+    ('lga_lagos_lagos_mainland', 'Lagos Mainland', 'Lagos'),
+    ('lga_lagos_mushin', 'Mushin', 'Lagos'),
+    ('lga_lagos_ojo', 'Ojo', 'Lagos'),
+    ('lga_lagos_oshodi_isolo', 'Oshodi-Isolo', 'Lagos'),
+    ('lga_lagos_shomolu', 'Shomolu', 'Lagos'),
+    ('lga_lagos_surulere', 'Surulere', 'Lagos'),
+    ('lga_nasarawa_akwanga', 'Akwanga', 'Nasarawa'),
+    ('lga_nasarawa_awe', 'Awe', 'Nasarawa'),
+    ('lga_nasarawa_doma', 'Doma', 'Nasarawa'),
+    ('lga_nasarawa_karu', 'Karu', 'Nasarawa'),
+    ('lga_nasarawa_keana', 'Keana', 'Nasarawa'),
+    ('lga_nasarawa_keffi', 'Keffi', 'Nasarawa'),
+    ('lga_nasarawa_kokona', 'Kokona', 'Nasarawa'),
+    ('lga_nasarawa_lafia', 'Lafia', 'Nasarawa'),
+    ('lga_nasarawa_nasarawa', 'Nasarawa', 'Nasarawa'),
+    ('lga_nasarawa_nasarawa_egon', 'Nasarawa Egon', 'Nasarawa'),
+    ('lga_nasarawa_obi', 'Obi', 'Nasarawa'),
+    ('lga_nasarawa_toto', 'Toto', 'Nasarawa'),
+    ('lga_nasarawa_wamba', 'Wamba', 'Nasarawa'),
+    ('lga_niger_agaie', 'Agaie', 'Niger'),
+    ('lga_niger_agwara', 'Agwara', 'Niger'),
+    ('lga_niger_bida', 'Bida', 'Niger'),
+    ('lga_niger_borgu', 'Borgu', 'Niger'),
+    ('lga_niger_bosso', 'Bosso', 'Niger'),
+    ('lga_niger_chanchaga', 'Chanchaga', 'Niger'),
+    ('lga_niger_edati', 'Edati', 'Niger'),
+    ('lga_niger_gbako', 'Gbako', 'Niger'),
+    ('lga_niger_gurara', 'Gurara', 'Niger'),
+    ('lga_niger_katcha', 'Katcha', 'Niger'),
+    ('lga_niger_kontagora', 'Kontagora', 'Niger'),
+    ('lga_niger_lapai', 'Lapai', 'Niger'),
+    ('lga_niger_lavun', 'Lavun', 'Niger'),
+    ('lga_niger_magama', 'Magama', 'Niger'),
+    ('lga_niger_mariga', 'Mariga', 'Niger'),
+    ('lga_niger_mashegu', 'Mashegu', 'Niger'),
+    ('lga_niger_mokwa', 'Mokwa', 'Niger'),
+    ('lga_niger_moya', 'Moya', 'Niger'),
+    ('lga_niger_paikoro', 'Paikoro', 'Niger'),
+    ('lga_niger_rafi', 'Rafi', 'Niger'),
+    ('lga_niger_rijau', 'Rijau', 'Niger'),
+    ('lga_niger_shiroro', 'Shiroro', 'Niger'),
+    ('lga_niger_suleja', 'Suleja', 'Niger'),
+    ('lga_niger_tafa', 'Tafa', 'Niger'),
+    ('lga_niger_wushishi', 'Wushishi', 'Niger'),
+    ('lga_ogun_abeokuta_north', 'Abeokuta North', 'Ogun'),
+    ('lga_ogun_abeokuta_south', 'Abeokuta South', 'Ogun'),
+    ('lga_ogun_ado_odo_ota', 'Ado-Odo/Ota', 'Ogun'),
+    ('lga_ogun_egbado_north', 'Egbado North', 'Ogun'),
+    ('lga_ogun_egbado_south', 'Egbado South', 'Ogun'),
+    ('lga_ogun_ewekoro', 'Ewekoro', 'Ogun'),
+    ('lga_ogun_ifo', 'Ifo', 'Ogun'),
+    ('lga_ogun_ijebu_east', 'Ijebu East', 'Ogun'),
+    ('lga_ogun_ijebu_north', 'Ijebu North', 'Ogun'),
+    ('lga_ogun_ijebu_north_east', 'Ijebu North East', 'Ogun'),
+    ('lga_ogun_ijebu_ode', 'Ijebu Ode', 'Ogun'),
+    ('lga_ogun_ikenne', 'Ikenne', 'Ogun'),
+    ('lga_ogun_imeko_afon', 'Imeko Afon', 'Ogun'),
+    ('lga_ogun_ipokia', 'Ipokia', 'Ogun'),
+    ('lga_ogun_obafemi_owode', 'Obafemi Owode', 'Ogun'),
+    ('lga_ogun_odeda', 'Odeda', 'Ogun'),
+    ('lga_ogun_odogbolu', 'Odogbolu', 'Ogun'),
+    ('lga_ogun_ogun_waterside', 'Ogun Waterside', 'Ogun'),
+    ('lga_ogun_remo_north', 'Remo North', 'Ogun'),
+    ('lga_ogun_shagamu', 'Shagamu', 'Ogun'),
+    ('lga_ondo_akoko_north_east', 'Akoko North-East', 'Ondo'),
+    ('lga_ondo_akoko_north_west', 'Akoko North-West', 'Ondo'),
+    ('lga_ondo_akoko_south_east', 'Akoko South-East', 'Ondo'),
+    ('lga_ondo_akoko_south_west', 'Akoko South-West', 'Ondo'),
+    ('lga_ondo_akure_north', 'Akure North', 'Ondo'),
+    ('lga_ondo_akure_south', 'Akure South', 'Ondo'),
+    ('lga_ondo_ese_odo', 'Ese Odo', 'Ondo'),
+    ('lga_ondo_idanre', 'Idanre', 'Ondo'),
+    ('lga_ondo_ifedore', 'Ifedore', 'Ondo'),
+    ('lga_ondo_ilaje', 'Ilaje', 'Ondo'),
+    ('lga_ondo_ile_oluji_okeigbo', 'Ile Oluji/Okeigbo', 'Ondo'),
+    ('lga_ondo_irele', 'Irele', 'Ondo'),
+    ('lga_ondo_odigbo', 'Odigbo', 'Ondo'),
+    ('lga_ondo_okitipupa', 'Okitipupa', 'Ondo'),
+    ('lga_ondo_ondo_east', 'Ondo East', 'Ondo'),
+    ('lga_ondo_ondo_west', 'Ondo West', 'Ondo'),
+    ('lga_ondo_ose', 'Ose', 'Ondo'),
+    ('lga_ondo_owo', 'Owo', 'Ondo'),
+    ('lga_osun_aiyedaade', 'Aiyedaade', 'Osun'),
+    ('lga_osun_aiyedire', 'Aiyedire', 'Osun'),
+    ('lga_osun_atakunmosa_east', 'Atakunmosa East', 'Osun'),
+    ('lga_osun_atakunmosa_west', 'Atakunmosa West', 'Osun'),
+    ('lga_osun_boluwaduro', 'Boluwaduro', 'Osun'),
+    ('lga_osun_boripe', 'Boripe', 'Osun'),
+    ('lga_osun_ede_north', 'Ede North', 'Osun'),
+    ('lga_osun_ede_south', 'Ede South', 'Osun'),
+    ('lga_osun_egbedore', 'Egbedore', 'Osun'),
+    ('lga_osun_ejigbo', 'Ejigbo', 'Osun'),
+    ('lga_osun_ife_central', 'Ife Central', 'Osun'),
+    ('lga_osun_ife_east', 'Ife East', 'Osun'),
+    ('lga_osun_ife_north', 'Ife North', 'Osun'),
+    ('lga_osun_ife_south', 'Ife South', 'Osun'),
+    ('lga_osun_ifedayo', 'Ifedayo', 'Osun'),
+    ('lga_osun_ifelodun', 'Ifelodun', 'Osun'),
+    ('lga_osun_ila', 'Ila', 'Osun'),
+    ('lga_osun_ilesa_east', 'Ilesa East', 'Osun'),
+    ('lga_osun_ilesa_west', 'Ilesa West', 'Osun'),
+    ('lga_osun_irepodun', 'Irepodun', 'Osun'),
+    ('lga_osun_irewole', 'Irewole', 'Osun'),
+    ('lga_osun_isokan', 'Isokan', 'Osun'),
+    ('lga_osun_iwo', 'Iwo', 'Osun'),
+    ('lga_osun_obokun', 'Obokun', 'Osun'),
+    ('lga_osun_odo_otin', 'Odo Otin', 'Osun'),
+    ('lga_osun_ola_oluwa', 'Ola Oluwa', 'Osun'),
+    ('lga_osun_olorunda', 'Olorunda', 'Osun'),
+    ('lga_osun_oriade', 'Oriade', 'Osun'),
+    ('lga_osun_orolu', 'Orolu', 'Osun'),
+    ('lga_osun_osogbo', 'Osogbo', 'Osun'),
+    ('lga_oyo_afijio', 'Afijio', 'Oyo'),
+    ('lga_oyo_akinyele', 'Akinyele', 'Oyo'),
+    ('lga_oyo_atiba', 'Atiba', 'Oyo'),
+    ('lga_oyo_atisbo', 'Atisbo', 'Oyo'),
+    ('lga_oyo_egbeda', 'Egbeda', 'Oyo'),
+    ('lga_oyo_ibadan_north', 'Ibadan North', 'Oyo'),
+    ('lga_oyo_ibadan_north_east', 'Ibadan North-East', 'Oyo'),
+    ('lga_oyo_ibadan_north_west', 'Ibadan North-West', 'Oyo'),
+    ('lga_oyo_ibadan_south_east', 'Ibadan South-East', 'Oyo'),
+    ('lga_oyo_ibadan_south_west', 'Ibadan South-West', 'Oyo'),
+    ('lga_oyo_ibarapa_central', 'Ibarapa Central', 'Oyo'),
+    ('lga_oyo_ibarapa_east', 'Ibarapa East', 'Oyo'),
+    ('lga_oyo_ibarapa_north', 'Ibarapa North', 'Oyo'),
+    ('lga_oyo_ido', 'Ido', 'Oyo'),
+    ('lga_oyo_irepo', 'Irepo', 'Oyo'),
+    ('lga_oyo_iseyin', 'Iseyin', 'Oyo'),
+    ('lga_oyo_itesiwaju', 'Itesiwaju', 'Oyo'),
+    ('lga_oyo_iwajowa', 'Iwajowa', 'Oyo'),
+    ('lga_oyo_kajola', 'Kajola', 'Oyo'),
+    ('lga_oyo_lagelu', 'Lagelu', 'Oyo'),
+    ('lga_oyo_ogbomosho_north', 'Ogbomosho North', 'Oyo'),
+    ('lga_oyo_ogbomosho_south', 'Ogbomosho South', 'Oyo'),
+    ('lga_oyo_ogo_oluwa', 'Ogo Oluwa', 'Oyo'),
+    ('lga_oyo_olorunsogo', 'Olorunsogo', 'Oyo'),
+    ('lga_oyo_oluyole', 'Oluyole', 'Oyo'),
+    ('lga_oyo_ona_ara', 'Ona Ara', 'Oyo'),
+    ('lga_oyo_orelope', 'Orelope', 'Oyo'),
+    ('lga_oyo_ori_ire', 'Ori Ire', 'Oyo'),
+    ('lga_oyo_oyo_east', 'Oyo East', 'Oyo'),
+    ('lga_oyo_oyo_west', 'Oyo West', 'Oyo'),
+    ('lga_oyo_saki_east', 'Saki East', 'Oyo'),
+    ('lga_oyo_saki_west', 'Saki West', 'Oyo'),
+    ('lga_oyo_surulere', 'Surulere', 'Oyo'),
+    ('lga_plateau_barkin_ladi', 'Barkin Ladi', 'Plateau'),
+    ('lga_plateau_bassa', 'Bassa', 'Plateau'),
+    ('lga_plateau_bokkos', 'Bokkos', 'Plateau'),
+    ('lga_plateau_jos_east', 'Jos East', 'Plateau'),
+    ('lga_plateau_jos_north', 'Jos North', 'Plateau'),
+    ('lga_plateau_jos_south', 'Jos South', 'Plateau'),
+    ('lga_plateau_kanam', 'Kanam', 'Plateau'),
+    ('lga_plateau_kanke', 'Kanke', 'Plateau'),
+    ('lga_plateau_langtang_north', 'Langtang North', 'Plateau'),
+    ('lga_plateau_langtang_south', 'Langtang South', 'Plateau'),
+    ('lga_plateau_mangu', 'Mangu', 'Plateau'),
+    ('lga_plateau_mikang', 'Mikang', 'Plateau'),
+    ('lga_plateau_pankshin', 'Pankshin', 'Plateau'),
+    ('lga_plateau_qua_an_pan', 'Qua''an Pan', 'Plateau'),
+    ('lga_plateau_riyom', 'Riyom', 'Plateau'),
+    ('lga_plateau_shendam', 'Shendam', 'Plateau'),
+    ('lga_plateau_wase', 'Wase', 'Plateau'),
+    ('lga_rivers_abua_odual', 'Abua/Odual', 'Rivers'),
+    ('lga_rivers_ahoada_east', 'Ahoada East', 'Rivers'),
+    ('lga_rivers_ahoada_west', 'Ahoada West', 'Rivers'),
+    ('lga_rivers_akuku_toru', 'Akuku-Toru', 'Rivers'),
+    ('lga_rivers_andoni', 'Andoni', 'Rivers'),
+    ('lga_rivers_asari_toru', 'Asari-Toru', 'Rivers'),
+    ('lga_rivers_bonny', 'Bonny', 'Rivers'),
+    ('lga_rivers_degema', 'Degema', 'Rivers'),
+    ('lga_rivers_eleme', 'Eleme', 'Rivers'),
+    ('lga_rivers_emuoha', 'Emuoha', 'Rivers'),
+    ('lga_rivers_etche', 'Etche', 'Rivers'),
+    ('lga_rivers_gokana', 'Gokana', 'Rivers'),
+    ('lga_rivers_ikwerre', 'Ikwerre', 'Rivers'),
+    ('lga_rivers_khana', 'Khana', 'Rivers'),
+    ('lga_rivers_obio_akpor', 'Obio/Akpor', 'Rivers'),
+    ('lga_rivers_ogba_egbema_ndoni', 'Ogba/Egbema/Ndoni', 'Rivers'),
+    ('lga_rivers_ogu_bolo', 'Ogu/Bolo', 'Rivers'),
+    ('lga_rivers_okrika', 'Okrika', 'Rivers'),
+    ('lga_rivers_omuma', 'Omuma', 'Rivers'),
+    ('lga_rivers_opobo_nkoro', 'Opobo/Nkoro', 'Rivers'),
+    ('lga_rivers_oyigbo', 'Oyigbo', 'Rivers'),
+    ('lga_rivers_port_harcourt', 'Port Harcourt', 'Rivers'),
+    ('lga_rivers_tai', 'Tai', 'Rivers'),
+    ('lga_sokoto_binji', 'Binji', 'Sokoto'),
+    ('lga_sokoto_bodinga', 'Bodinga', 'Sokoto'),
+    ('lga_sokoto_dange_shuni', 'Dange Shuni', 'Sokoto'),
+    ('lga_sokoto_gada', 'Gada', 'Sokoto'),
+    ('lga_sokoto_goronyo', 'Goronyo', 'Sokoto'),
+    ('lga_sokoto_gudu', 'Gudu', 'Sokoto'),
+    ('lga_sokoto_gwadabawa', 'Gwadabawa', 'Sokoto'),
+    ('lga_sokoto_illela', 'Illela', 'Sokoto'),
+    ('lga_sokoto_isa', 'Isa', 'Sokoto'),
+    ('lga_sokoto_kebbe', 'Kebbe', 'Sokoto'),
+    ('lga_sokoto_kware', 'Kware', 'Sokoto'),
+    ('lga_sokoto_rabah', 'Rabah', 'Sokoto'),
+    ('lga_sokoto_sabon_birni', 'Sabon Birni', 'Sokoto'),
+    ('lga_sokoto_shagari', 'Shagari', 'Sokoto'),
+    ('lga_sokoto_silame', 'Silame', 'Sokoto'),
+    ('lga_sokoto_sokoto_north', 'Sokoto North', 'Sokoto'),
+    ('lga_sokoto_sokoto_south', 'Sokoto South', 'Sokoto'),
+    ('lga_sokoto_tambuwal', 'Tambuwal', 'Sokoto'),
+    ('lga_sokoto_tangaza', 'Tangaza', 'Sokoto'),
+    ('lga_sokoto_tureta', 'Tureta', 'Sokoto'),
+    ('lga_sokoto_wamako', 'Wamako', 'Sokoto'),
+    ('lga_sokoto_wurno', 'Wurno', 'Sokoto'),
+    ('lga_sokoto_yabo', 'Yabo', 'Sokoto'),
+    ('lga_taraba_ardo_kola', 'Ardo Kola', 'Taraba'),
+    ('lga_taraba_bali', 'Bali', 'Taraba'),
+    ('lga_taraba_donga', 'Donga', 'Taraba'),
+    ('lga_taraba_gashaka', 'Gashaka', 'Taraba'),
+    ('lga_taraba_gassol', 'Gassol', 'Taraba'),
+    ('lga_taraba_ibi', 'Ibi', 'Taraba'),
+    ('lga_taraba_jalingo', 'Jalingo', 'Taraba'),
+    ('lga_taraba_karim_lamido', 'Karim Lamido', 'Taraba'),
+    ('lga_taraba_kurmi', 'Kurmi', 'Taraba'),
+    ('lga_taraba_lau', 'Lau', 'Taraba'),
+    ('lga_taraba_sardauna', 'Sardauna', 'Taraba'),
+    ('lga_taraba_takum', 'Takum', 'Taraba'),
+    ('lga_taraba_ussa', 'Ussa', 'Taraba'),
+    ('lga_taraba_wukari', 'Wukari', 'Taraba'),
+    ('lga_taraba_yorro', 'Yorro', 'Taraba'),
+    ('lga_taraba_zing', 'Zing', 'Taraba'),
+    ('lga_yobe_bade', 'Bade', 'Yobe'),
+    ('lga_yobe_bursari', 'Bursari', 'Yobe'),
+    ('lga_yobe_damaturu', 'Damaturu', 'Yobe'),
+    ('lga_yobe_fika', 'Fika', 'Yobe'),
+    ('lga_yobe_fune', 'Fune', 'Yobe'),
+    ('lga_yobe_geidam', 'Geidam', 'Yobe'),
+    ('lga_yobe_gujba', 'Gujba', 'Yobe'),
+    ('lga_yobe_gulani', 'Gulani', 'Yobe'),
+    ('lga_yobe_jakusko', 'Jakusko', 'Yobe'),
+    ('lga_yobe_karasuwa', 'Karasuwa', 'Yobe'),
+    ('lga_yobe_machina', 'Machina', 'Yobe'),
+    ('lga_yobe_nangere', 'Nangere', 'Yobe'),
+    ('lga_yobe_nguru', 'Nguru', 'Yobe'),
+    ('lga_yobe_potiskum', 'Potiskum', 'Yobe'),
+    ('lga_yobe_tarmuwa', 'Tarmuwa', 'Yobe'),
+    ('lga_yobe_yunusari', 'Yunusari', 'Yobe'),
+    ('lga_yobe_yusufari', 'Yusufari', 'Yobe'),
+    ('lga_zamfara_anka', 'Anka', 'Zamfara'),
+    ('lga_zamfara_bakura', 'Bakura', 'Zamfara'),
+    ('lga_zamfara_birnin_magaji_kiyaw', 'Birnin Magaji/Kiyaw', 'Zamfara'),
+    ('lga_zamfara_bukkuyum', 'Bukkuyum', 'Zamfara'),
+    ('lga_zamfara_bungudu', 'Bungudu', 'Zamfara'),
+    ('lga_zamfara_gummi', 'Gummi', 'Zamfara'),
+    ('lga_zamfara_gusau', 'Gusau', 'Zamfara'),
+    ('lga_zamfara_kaura_namoda', 'Kaura Namoda', 'Zamfara'),
+    ('lga_zamfara_maradun', 'Maradun', 'Zamfara'),
+    ('lga_zamfara_maru', 'Maru', 'Zamfara'),
+    ('lga_zamfara_shinkafi', 'Shinkafi', 'Zamfara'),
+    ('lga_zamfara_talata_mafara', 'Talata Mafara', 'Zamfara'),
+    ('lga_zamfara_tsafe', 'Tsafe', 'Zamfara'),
+    ('lga_zamfara_zurmi', 'Zurmi', 'Zamfara')
+) AS "seed" ("id", "name", "state")
+JOIN "public"."states" "s" ON "s"."name" = "seed"."state"
+ON CONFLICT ("name", "stateId") DO NOTHING;
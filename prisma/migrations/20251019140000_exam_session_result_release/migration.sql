@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."exam_sessions" ADD COLUMN "resultReleaseDate" TIMESTAMP(3);
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."timetable_entries" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "paper" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+
+    CONSTRAINT "timetable_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "timetable_entries_examSessionId_date_idx" ON "public"."timetable_entries"("examSessionId", "date");
+
+-- CreateIndex
+CREATE INDEX "timetable_entries_subjectId_idx" ON "public"."timetable_entries"("subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timetable_entries_examSessionId_subjectId_paper_key" ON "public"."timetable_entries"("examSessionId", "subjectId", "paper");
+
+-- AddForeignKey
+ALTER TABLE "public"."timetable_entries" ADD CONSTRAINT "timetable_entries_examSessionId_fkey" FOREIGN KEY ("examSessionId") REFERENCES "public"."exam_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."timetable_entries" ADD CONSTRAINT "timetable_entries_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "public"."subjects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
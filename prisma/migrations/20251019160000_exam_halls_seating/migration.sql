@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "public"."seating_strategy" AS ENUM ('Alphabetical', 'Registration_Number', 'Shuffled');
+
+-- CreateTable
+CREATE TABLE "public"."exam_halls" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "exam_halls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."seat_allocations" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "timetableEntryId" TEXT NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "hallId" TEXT NOT NULL,
+    "seatNumber" INTEGER NOT NULL,
+    "sittingAt" TIMESTAMP(3) NOT NULL,
+    "strategy" "public"."seating_strategy" NOT NULL,
+
+    CONSTRAINT "seat_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exam_halls_schoolId_name_key" ON "public"."exam_halls"("schoolId", "name");
+
+-- CreateIndex
+CREATE INDEX "seat_allocations_hallId_idx" ON "public"."seat_allocations"("hallId");
+
+-- CreateIndex
+CREATE INDEX "seat_allocations_candidateId_idx" ON "public"."seat_allocations"("candidateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seat_allocations_timetableEntryId_candidateId_key" ON "public"."seat_allocations"("timetableEntryId", "candidateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seat_allocations_hallId_sittingAt_seatNumber_key" ON "public"."seat_allocations"("hallId", "sittingAt", "seatNumber");
+
+-- AddForeignKey
+ALTER TABLE "public"."exam_halls" ADD CONSTRAINT "exam_halls_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "public"."schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."seat_allocations" ADD CONSTRAINT "seat_allocations_timetableEntryId_fkey" FOREIGN KEY ("timetableEntryId") REFERENCES "public"."timetable_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."seat_allocations" ADD CONSTRAINT "seat_allocations_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."seat_allocations" ADD CONSTRAINT "seat_allocations_hallId_fkey" FOREIGN KEY ("hallId") REFERENCES "public"."exam_halls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
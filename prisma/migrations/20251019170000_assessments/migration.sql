@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "public"."exam_sessions" ADD COLUMN     "assessmentComponents" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."assessments" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+
+    CONSTRAINT "assessments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."assessment_scores" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "assessmentId" TEXT NOT NULL,
+    "candidateId" TEXT NOT NULL,
+    "component" TEXT NOT NULL,
+    "score" DECIMAL(5,2) NOT NULL,
+    "maxScore" INTEGER NOT NULL,
+    "updatedById" TEXT,
+
+    CONSTRAINT "assessment_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assessments_schoolId_idx" ON "public"."assessments"("schoolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assessments_examSessionId_schoolId_subjectId_key" ON "public"."assessments"("examSessionId", "schoolId", "subjectId");
+
+-- CreateIndex
+CREATE INDEX "assessment_scores_candidateId_idx" ON "public"."assessment_scores"("candidateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assessment_scores_assessmentId_candidateId_component_key" ON "public"."assessment_scores"("assessmentId", "candidateId", "component");
+
+-- AddForeignKey
+ALTER TABLE "public"."assessments" ADD CONSTRAINT "assessments_examSessionId_fkey" FOREIGN KEY ("examSessionId") REFERENCES "public"."exam_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assessments" ADD CONSTRAINT "assessments_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "public"."schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assessments" ADD CONSTRAINT "assessments_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "public"."subjects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assessment_scores" ADD CONSTRAINT "assessment_scores_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "public"."assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."assessment_scores" ADD CONSTRAINT "assessment_scores_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "public"."subject_results" (
+    "id" TEXT NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "candidateId" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "complete" BOOLEAN NOT NULL,
+    "total" DECIMAL(5,2),
+    "grade" TEXT,
+    "points" INTEGER,
+    "passed" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER,
+
+    CONSTRAINT "subject_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."candidate_results" (
+    "id" TEXT NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "candidateId" TEXT NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "subjectsGraded" INTEGER NOT NULL,
+    "passes" INTEGER NOT NULL,
+    "average" DECIMAL(5,2),
+    "aggregate" INTEGER,
+    "position" INTEGER,
+
+    CONSTRAINT "candidate_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subject_results_examSessionId_schoolId_subjectId_idx" ON "public"."subject_results"("examSessionId", "schoolId", "subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subject_results_candidateId_subjectId_key" ON "public"."subject_results"("candidateId", "subjectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "candidate_results_candidateId_key" ON "public"."candidate_results"("candidateId");
+
+-- CreateIndex
+CREATE INDEX "candidate_results_examSessionId_schoolId_idx" ON "public"."candidate_results"("examSessionId", "schoolId");
+
+-- AddForeignKey
+ALTER TABLE "public"."subject_results" ADD CONSTRAINT "subject_results_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."subject_results" ADD CONSTRAINT "subject_results_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "public"."subjects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."candidate_results" ADD CONSTRAINT "candidate_results_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
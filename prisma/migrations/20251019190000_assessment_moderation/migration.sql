@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "public"."assessment_status" AS ENUM ('Draft', 'Submitted', 'Moderated', 'Locked');
+
+-- AlterTable
+ALTER TABLE "public"."assessments" ADD COLUMN     "status" "public"."assessment_status" NOT NULL DEFAULT 'Draft',
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN     "statusChangedById" TEXT;
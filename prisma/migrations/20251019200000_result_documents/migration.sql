@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."result_document_kind" AS ENUM ('Slip', 'Broadsheet');
+
+-- CreateTable
+CREATE TABLE "public"."result_documents" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "kind" "public"."result_document_kind" NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "issuedById" TEXT NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "candidateId" TEXT,
+    "snapshot" JSONB NOT NULL,
+    "digest" TEXT NOT NULL,
+
+    CONSTRAINT "result_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "result_documents_code_key" ON "public"."result_documents"("code");
+
+-- CreateIndex
+CREATE INDEX "result_documents_examSessionId_schoolId_idx" ON "public"."result_documents"("examSessionId", "schoolId");
+
+-- CreateIndex
+CREATE INDEX "result_documents_candidateId_idx" ON "public"."result_documents"("candidateId");
@@ -0,0 +1,104 @@
+-- CreateEnum
+CREATE TYPE "public"."invoice_status" AS ENUM ('Unpaid', 'Part_Paid', 'Paid', 'Cancelled');
+
+-- CreateEnum
+CREATE TYPE "public"."payment_method" AS ENUM ('Bank_Transfer', 'Bank_Deposit');
+
+-- CreateEnum
+CREATE TYPE "public"."payment_status" AS ENUM ('Pending', 'Successful', 'Failed');
+
+-- CreateTable
+CREATE TABLE "public"."invoices" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "number" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "examSessionId" TEXT NOT NULL,
+    "status" "public"."invoice_status" NOT NULL DEFAULT 'Unpaid',
+    "total" DECIMAL(12,2) NOT NULL,
+    "amountPaid" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "dueDate" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledById" TEXT,
+    "cancelReason" TEXT,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invoice_lines" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "candidateId" TEXT,
+    "registrationNumber" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+
+    CONSTRAINT "invoice_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."payments" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "method" "public"."payment_method" NOT NULL,
+    "status" "public"."payment_status" NOT NULL DEFAULT 'Pending',
+    "payerReference" TEXT,
+    "createdById" TEXT NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "public"."invoices"("number");
+
+-- CreateIndex
+CREATE INDEX "invoices_examSessionId_schoolId_idx" ON "public"."invoices"("examSessionId", "schoolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_schoolId_year_sequence_key" ON "public"."invoices"("schoolId", "year", "sequence");
+
+-- CreateIndex
+CREATE INDEX "invoice_lines_invoiceId_idx" ON "public"."invoice_lines"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "invoice_lines_candidateId_idx" ON "public"."invoice_lines"("candidateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_reference_key" ON "public"."payments"("reference");
+
+-- CreateIndex
+CREATE INDEX "payments_schoolId_createdAt_idx" ON "public"."payments"("schoolId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "payments_invoiceId_idx" ON "public"."payments"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "payments_status_idx" ON "public"."payments"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "public"."schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_examSessionId_fkey" FOREIGN KEY ("examSessionId") REFERENCES "public"."exam_sessions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invoice_lines" ADD CONSTRAINT "invoice_lines_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "public"."invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "public"."invoices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "public"."payment_method" ADD VALUE 'Online';
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "gateway" TEXT,
+ADD COLUMN     "gatewayReference" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."payment_events" (
+    "id" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "gateway" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "status" "public"."payment_status" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "outcome" TEXT NOT NULL,
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_events_reference_idx" ON "public"."payment_events"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_events_gateway_eventId_key" ON "public"."payment_events"("gateway", "eventId");
@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "public"."dispute_status" AS ENUM ('Open', 'Under_Review', 'Resolved', 'Rejected');
+
+-- CreateTable
+CREATE TABLE "public"."disputes" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "schoolId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "subject" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "public"."dispute_status" NOT NULL DEFAULT 'Open',
+    "createdById" TEXT NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "closedById" TEXT,
+    "resolution" TEXT,
+
+    CONSTRAINT "disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."dispute_comments" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "disputeId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "statusFrom" "public"."dispute_status",
+    "statusTo" "public"."dispute_status",
+
+    CONSTRAINT "dispute_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."dispute_attachments" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "disputeId" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+
+    CONSTRAINT "dispute_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "disputes_reference_key" ON "public"."disputes"("reference");
+
+-- CreateIndex
+CREATE INDEX "disputes_schoolId_createdAt_idx" ON "public"."disputes"("schoolId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "disputes_status_idx" ON "public"."disputes"("status");
+
+-- CreateIndex
+CREATE INDEX "disputes_invoiceId_idx" ON "public"."disputes"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "dispute_comments_disputeId_createdAt_idx" ON "public"."dispute_comments"("disputeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "dispute_attachments_disputeId_idx" ON "public"."dispute_attachments"("disputeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."disputes" ADD CONSTRAINT "disputes_schoolId_fkey" FOREIGN KEY ("schoolId") REFERENCES "public"."schools"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."disputes" ADD CONSTRAINT "disputes_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "public"."invoices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."disputes" ADD CONSTRAINT "disputes_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."disputes" ADD CONSTRAINT "disputes_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."admin_users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."dispute_comments" ADD CONSTRAINT "dispute_comments_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "public"."disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."dispute_comments" ADD CONSTRAINT "dispute_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."admin_users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."dispute_attachments" ADD CONSTRAINT "dispute_attachments_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "public"."disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
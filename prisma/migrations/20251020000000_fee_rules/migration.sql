@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."invoice_line_kind" AS ENUM ('Registration_Fee', 'Early_Bird_Discount', 'Late_Fee', 'Subject_Fee', 'Waiver');
+
+-- AlterTable
+ALTER TABLE "public"."exam_sessions" ADD COLUMN     "feeRules" JSONB,
+ADD COLUMN     "lateRegistrationEndDate" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."invoice_lines" ADD COLUMN     "kind" "public"."invoice_line_kind" NOT NULL DEFAULT 'Registration_Fee';
+
+-- CreateTable
+CREATE TABLE "public"."fee_waivers" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "candidateId" TEXT NOT NULL,
+    "percent" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "grantedById" TEXT NOT NULL,
+
+    CONSTRAINT "fee_waivers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fee_waivers_candidateId_key" ON "public"."fee_waivers"("candidateId");
+
+-- AddForeignKey
+ALTER TABLE "public"."fee_waivers" ADD CONSTRAINT "fee_waivers_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "public"."candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."fee_waivers" ADD CONSTRAINT "fee_waivers_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "public"."admin_users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,269 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import { Download, FileText, Loader, Printer } from "lucide-react";
+
+type SessionOption = { id: string; name: string };
+
+type ReportCandidate = {
+  id: string;
+  registrationNumber: string;
+  surname: string;
+  firstName: string;
+  subjectsGraded: number;
+  aggregate: number | null;
+};
+
+/**
+ * Printable results of this centre: the broadsheet of every candidate and
+ * the individual result slips, each carrying a verification code.
+ */
+const AssessmentReports = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [candidates, setCandidates] = useState<ReportCandidate[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [apiError, setApiError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/assessments");
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load exam sessions");
+          return;
+        }
+
+        setSessions(result.data.sessions);
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+        setApiError("Network error. Please check your connection.");
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setCandidates(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchCandidates = async () => {
+      setIsLoading(true);
+      setApiError(null);
+      try {
+        const response = await fetch(
+          `/api/admin/assessments/results?examSessionId=${encodeURIComponent(sessionId)}`
+        );
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load results");
+          return;
+        }
+
+        setCandidates(
+          [...(result.data.candidates as ReportCandidate[])].sort((a, b) =>
+            a.registrationNumber.localeCompare(b.registrationNumber)
+          )
+        );
+      } catch (error) {
+        console.error("Failed to load results:", error);
+        if (!cancelled) {
+          setApiError("Network error. Please check your connection.");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchCandidates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Failures come back as JSON, documents as PDF
+  const download = async (
+    key: string,
+    report: "slips" | "broadsheet",
+    candidateId?: string
+  ) => {
+    setDownloading(key);
+    setApiError(null);
+    try {
+      const params = new URLSearchParams({ examSessionId: sessionId });
+      if (candidateId) params.set("candidateId", candidateId);
+
+      const response = await fetch(
+        `/api/admin/assessments/reports/${report}?${params}`
+      );
+
+      if (
+        !response.ok ||
+        !response.headers.get("content-type")?.includes("application/pdf")
+      ) {
+        const result = await response.json().catch(() => null);
+        setApiError(result?.message || "Failed to generate the document");
+        return;
+      }
+
+      const filename =
+        response.headers
+          .get("content-disposition")
+          ?.match(/filename="([^"]+)"/)?.[1] ?? `${report}.pdf`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download report:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const busy = downloading !== null;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Assessment Reports
+          </h1>
+          <p className="text-muted-foreground">
+            Download the broadsheet and result slips as PDF. Every document
+            carries a code that can be checked online.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+
+        <div className="card p-6 space-y-4">
+          <div>
+            <label className="form-label">Exam Session</label>
+            <select
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+              className="form-select"
+            >
+              <option value="">Select a session</option>
+              {sessions.map((session) => (
+                <option key={session.id} value={session.id}>
+                  {session.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {candidates && candidates.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => download("broadsheet", "broadsheet")}
+                disabled={busy}
+                className="btn btn-primary flex items-center gap-2"
+              >
+                {downloading === "broadsheet" ? (
+                  <Loader className="w-4 h-4 animate-spin" />
+                ) : (
+                  <FileText className="w-4 h-4" />
+                )}
+                Download Broadsheet
+              </button>
+              <button
+                onClick={() => download("slips", "slips")}
+                disabled={busy}
+                className="btn btn-outline flex items-center gap-2"
+              >
+                {downloading === "slips" ? (
+                  <Loader className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Printer className="w-4 h-4" />
+                )}
+                Download All Result Slips
+              </button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          candidates &&
+          (candidates.length === 0 ? (
+            <div className="card p-8 text-center text-muted-foreground">
+              <FileText className="w-8 h-8 mx-auto mb-2" />
+              No results have been computed for this session yet.
+            </div>
+          ) : (
+            <div className="card p-0 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="p-3">Reg. Number</th>
+                      <th className="p-3">Candidate</th>
+                      <th className="p-3 text-center">Subjects Graded</th>
+                      <th className="p-3 text-center">Aggregate</th>
+                      <th className="p-3 text-right">Result Slip</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {candidates.map((candidate) => (
+                      <tr key={candidate.id} className="border-b border-border">
+                        <td className="p-3 font-mono whitespace-nowrap">
+                          {candidate.registrationNumber}
+                        </td>
+                        <td className="p-3 whitespace-nowrap">
+                          {candidate.surname} {candidate.firstName}
+                        </td>
+                        <td className="p-3 text-center">
+                          {candidate.subjectsGraded}
+                        </td>
+                        <td className="p-3 text-center">
+                          {candidate.aggregate ?? "—"}
+                        </td>
+                        <td className="p-3 text-right">
+                          <button
+                            onClick={() =>
+                              download(candidate.id, "slips", candidate.id)
+                            }
+                            disabled={busy}
+                            className="text-primary hover:underline inline-flex items-center gap-1"
+                          >
+                            {downloading === candidate.id ? (
+                              <Loader className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Download className="w-4 h-4" />
+                            )}
+                            PDF
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssessmentReports;
@@ -0,0 +1,677 @@
+"use client";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import {
+  AlertTriangle,
+  CheckCircle,
+  ClipboardList,
+  Loader,
+  Lock,
+  RefreshCw,
+  Send,
+} from "lucide-react";
+import { checkScore } from "@/lib/validation/assessment";
+
+type Component = { code: string; label?: string; maxScore: number };
+
+type SessionOption = {
+  id: string;
+  name: string;
+  status: string;
+  components: Component[];
+};
+
+type SubjectOption = {
+  id: string;
+  code: string;
+  name: string;
+  candidates: number;
+  scores: number;
+  status: string;
+};
+
+type Sheet = {
+  id: string | null;
+  status: string;
+  canEdit: boolean;
+  allowedTransitions: string[];
+  session: { id: string; name: string; status: string };
+  subject: { id: string; code: string; name: string };
+  components: Component[];
+  candidates: {
+    id: string;
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+    otherName: string | null;
+  }[];
+  scores: Record<string, number>;
+  updatedAt: string | null;
+};
+
+type SaveState = "idle" | "pending" | "saving" | "saved" | "error";
+
+// Unsent cells are kept per sheet on this device until the server has them
+const draftKey = (sheet: Sheet) =>
+  `assessmentDraft:${sheet.session.id}:${sheet.subject.code}`;
+
+const cellKey = (candidateId: string, component: string) =>
+  `${candidateId}.${component}`;
+
+const AUTOSAVE_DELAY = 1500;
+
+const toScore = (text: string) => (text.trim() === "" ? null : Number(text));
+
+// Only drafts are edited here; later changes go through Modify Assessment
+const isEditable = (sheet: Sheet) => sheet.status === "Draft" && sheet.canEdit;
+
+/**
+ * Spreadsheet-style capture of continuous-assessment and exam scores for one
+ * subject. Edits are saved automatically a moment after typing stops, and
+ * kept as a draft on this device until the server accepts them.
+ */
+const ComputeAssessment = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [subjects, setSubjects] = useState<SubjectOption[]>([]);
+  const [subjectCode, setSubjectCode] = useState("");
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const [saveState, setSaveState] = useState<SaveState>("idle");
+  const [restored, setRestored] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // The autosave timer reads these rather than render-time state
+  const sheetRef = useRef<Sheet | null>(null);
+  const valuesRef = useRef<Record<string, string>>({});
+  const dirtyRef = useRef<Set<string>>(new Set());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savingRef = useRef(false);
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/assessments");
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load exam sessions");
+          return;
+        }
+
+        setSessions(result.data.sessions);
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+        setApiError("Network error. Please check your connection.");
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const fetchSubjects = useCallback(async (examSessionId: string) => {
+    try {
+      const response = await fetch(
+        `/api/admin/assessments?examSessionId=${encodeURIComponent(examSessionId)}`
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load subjects");
+        return;
+      }
+
+      setSubjects(result.data.subjects);
+    } catch (error) {
+      console.error("Failed to load subjects:", error);
+      setApiError("Network error. Please check your connection.");
+    }
+  }, []);
+
+  useEffect(() => {
+    setSubjects([]);
+    setSubjectCode("");
+    if (sessionId) fetchSubjects(sessionId);
+  }, [sessionId, fetchSubjects]);
+
+  const writeDraft = () => {
+    const current = sheetRef.current;
+    if (!current) return;
+
+    if (dirtyRef.current.size === 0) {
+      localStorage.removeItem(draftKey(current));
+      return;
+    }
+
+    localStorage.setItem(
+      draftKey(current),
+      JSON.stringify(
+        Object.fromEntries(
+          [...dirtyRef.current].map((key) => [key, valuesRef.current[key]])
+        )
+      )
+    );
+  };
+
+  const scheduleSave = (delay = AUTOSAVE_DELAY) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => flushRef.current(), delay);
+  };
+
+  // Send every dirty cell that passes the range check
+  flushRef.current = async () => {
+    const current = sheetRef.current;
+    if (!current || dirtyRef.current.size === 0) return;
+    if (savingRef.current) {
+      scheduleSave();
+      return;
+    }
+
+    const components = new Map(
+      current.components.map((component) => [component.code, component])
+    );
+    const sent = new Map<string, string>();
+    const scores: {
+      candidateId: string;
+      component: string;
+      score: number | null;
+    }[] = [];
+
+    for (const key of dirtyRef.current) {
+      const text = valuesRef.current[key] ?? "";
+      const [candidateId, code] = key.split(".");
+      const score = toScore(text);
+      const component = components.get(code);
+      if (!component) continue;
+      if (score !== null && checkScore(score, component)) continue;
+
+      sent.set(key, text);
+      scores.push({ candidateId, component: code, score });
+    }
+
+    if (scores.length === 0) return;
+
+    savingRef.current = true;
+    setSaveState("saving");
+
+    try {
+      const response = await fetch("/api/admin/assessments/sheet", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          examSessionId: current.session.id,
+          subjectCode: current.subject.code,
+          scores,
+        }),
+      });
+      const result = await response.json();
+
+      // The user may have moved on to another sheet meanwhile
+      if (sheetRef.current !== current) return;
+
+      if (!response.ok || !result.success) {
+        setCellErrors((prev) => ({ ...prev, ...(result.errors || {}) }));
+        setApiError(result.message || "Failed to save scores");
+        setSaveState("error");
+        return;
+      }
+
+      // The first save creates the sheet on the server
+      if (!current.id) {
+        sheetRef.current = { ...current, id: result.data.id };
+        setSheet(sheetRef.current);
+      }
+
+      // Cells edited again while the request was in flight stay dirty
+      for (const [key, text] of sent) {
+        if (valuesRef.current[key] === text) dirtyRef.current.delete(key);
+      }
+      writeDraft();
+      setApiError(null);
+      setSaveState(dirtyRef.current.size > 0 ? "pending" : "saved");
+    } catch (error) {
+      console.error("Failed to save scores:", error);
+      setApiError(
+        "Network error. Your scores are kept on this device; retry when you are back online."
+      );
+      setSaveState("error");
+    } finally {
+      savingRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    sheetRef.current = null;
+    dirtyRef.current = new Set();
+    setSheet(null);
+    setCellErrors({});
+    setSaveState("idle");
+    setRestored(0);
+    setSuccessMessage(null);
+
+    if (!sessionId || !subjectCode) return;
+
+    let cancelled = false;
+
+    const fetchSheet = async () => {
+      setIsLoading(true);
+      setApiError(null);
+      try {
+        const response = await fetch(
+          `/api/admin/assessments/sheet?examSessionId=${encodeURIComponent(
+            sessionId
+          )}&subjectCode=${encodeURIComponent(subjectCode)}`
+        );
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load the score sheet");
+          return;
+        }
+
+        const data: Sheet = result.data;
+        const loaded: Record<string, string> = Object.fromEntries(
+          Object.entries(data.scores).map(([key, score]) => [
+            key,
+            String(score),
+          ])
+        );
+
+        // Restore cells that never reached the server
+        const cells = new Set(
+          data.candidates.flatMap((candidate) =>
+            data.components.map((component) =>
+              cellKey(candidate.id, component.code)
+            )
+          )
+        );
+        const draft: Record<string, string> = isEditable(data)
+          ? JSON.parse(localStorage.getItem(draftKey(data)) || "{}")
+          : {};
+        for (const [key, text] of Object.entries(draft)) {
+          if (!cells.has(key) || typeof text !== "string") continue;
+          loaded[key] = text;
+          dirtyRef.current.add(key);
+        }
+
+        sheetRef.current = data;
+        valuesRef.current = loaded;
+        setSheet(data);
+        setValues(loaded);
+        setRestored(dirtyRef.current.size);
+        writeDraft();
+
+        if (dirtyRef.current.size > 0) {
+          setSaveState("pending");
+          scheduleSave(0);
+        }
+      } catch (error) {
+        console.error("Failed to load score sheet:", error);
+        if (!cancelled) {
+          setApiError("Network error. Please check your connection.");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchSheet();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, subjectCode]);
+
+  const handleCellChange = (
+    key: string,
+    text: string,
+    component: Component
+  ) => {
+    valuesRef.current = { ...valuesRef.current, [key]: text };
+    setValues(valuesRef.current);
+    dirtyRef.current.add(key);
+    writeDraft();
+
+    const score = toScore(text);
+    const problem = score === null ? null : checkScore(score, component);
+    setCellErrors((prev) => {
+      const next = { ...prev };
+      if (problem) next[key] = problem;
+      else delete next[key];
+      return next;
+    });
+
+    setSaveState("pending");
+    scheduleSave();
+  };
+
+  const handleSubmit = async () => {
+    const current = sheetRef.current;
+    if (!current?.id) return;
+    if (
+      !window.confirm(
+        "Submit this sheet for moderation? You will not be able to change it afterwards."
+      )
+    ) {
+      return;
+    }
+
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsSubmitting(true);
+
+    try {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      await flushRef.current();
+      if (dirtyRef.current.size > 0) {
+        setApiError("Fix or clear the unsaved scores before submitting.");
+        return;
+      }
+
+      const response = await fetch(
+        `/api/admin/assessments/sheets/${current.id}/status`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: "Submitted" }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to submit the sheet");
+        return;
+      }
+
+      sheetRef.current = result.data;
+      setSheet(result.data);
+      setSaveState("idle");
+      setSuccessMessage(result.message);
+      fetchSubjects(current.session.id);
+    } catch (error) {
+      console.error("Failed to submit sheet:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Enter and the arrow keys move down and up a column, like a spreadsheet
+  const handleCellKeyDown = (
+    e: React.KeyboardEvent<HTMLInputElement>,
+    row: number,
+    col: number
+  ) => {
+    const step =
+      e.key === "Enter" || e.key === "ArrowDown"
+        ? 1
+        : e.key === "ArrowUp"
+          ? -1
+          : 0;
+    if (step === 0) return;
+
+    e.preventDefault();
+    document.getElementById(`score-${row + step}-${col}`)?.focus();
+  };
+
+  const totalFor = (candidateId: string) => {
+    if (!sheet) return null;
+    let total: number | null = null;
+    for (const component of sheet.components) {
+      const key = cellKey(candidateId, component.code);
+      const score = toScore(values[key] ?? "");
+      if (score === null || cellErrors[key] || Number.isNaN(score)) continue;
+      total = (total ?? 0) + score;
+    }
+    return total === null ? null : Math.round(total * 100) / 100;
+  };
+
+  const invalidCount = Object.keys(cellErrors).length;
+  const maxTotal =
+    sheet?.components.reduce((sum, component) => sum + component.maxScore, 0) ??
+    0;
+
+  const renderSaveState = () => {
+    switch (saveState) {
+      case "saving":
+        return (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Loader className="w-4 h-4 animate-spin" />
+            Saving…
+          </span>
+        );
+      case "saved":
+        return (
+          <span className="flex items-center gap-1 text-success">
+            <CheckCircle className="w-4 h-4" />
+            All changes saved
+          </span>
+        );
+      case "pending":
+        return <span className="text-muted-foreground">Unsaved changes</span>;
+      case "error":
+        return (
+          <button
+            onClick={() => flushRef.current()}
+            className="btn btn-outline flex items-center gap-2 text-sm"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Retry save
+          </button>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Compute Assessment
+          </h1>
+          <p className="text-muted-foreground">
+            Enter each candidate&apos;s continuous-assessment and exam scores.
+            Changes save automatically.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        <div className="card p-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Exam Session</label>
+              <select
+                value={sessionId}
+                onChange={(e) => setSessionId(e.target.value)}
+                className="form-select"
+              >
+                <option value="">Select a session</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Subject</label>
+              <select
+                value={subjectCode}
+                onChange={(e) => setSubjectCode(e.target.value)}
+                disabled={!sessionId}
+                className="form-select"
+              >
+                <option value="">Select a subject</option>
+                {subjects.map((subject) => (
+                  <option key={subject.id} value={subject.code}>
+                    {subject.name} ({subject.candidates} candidate(s),{" "}
+                    {subject.scores} score(s) entered
+                    {subject.status !== "Draft" &&
+                      `, ${subject.status.toLowerCase()}`}
+                    )
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          sheet &&
+          (sheet.candidates.length === 0 ? (
+            <div className="card p-8 text-center text-muted-foreground">
+              <ClipboardList className="w-8 h-8 mx-auto mb-2" />
+              None of your candidates take this subject.
+            </div>
+          ) : (
+            <div className="card p-0 overflow-hidden">
+              <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b border-border text-sm">
+                <span className="text-muted-foreground">
+                  {sheet.subject.name} · {sheet.candidates.length} candidate(s)
+                  {restored > 0 &&
+                    ` · ${restored} unsaved score(s) restored from this device`}
+                </span>
+                <div className="flex items-center gap-3">
+                  {renderSaveState()}
+                  {isEditable(sheet) &&
+                    sheet.id &&
+                    sheet.allowedTransitions.includes("Submitted") && (
+                      <button
+                        onClick={handleSubmit}
+                        disabled={isSubmitting || saveState === "saving"}
+                        className="btn btn-primary flex items-center gap-2 text-sm"
+                      >
+                        {isSubmitting ? (
+                          <Loader className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Send className="w-4 h-4" />
+                        )}
+                        Submit for Moderation
+                      </button>
+                    )}
+                </div>
+              </div>
+
+              {!isEditable(sheet) && (
+                <div className="alert alert-warning m-4 flex items-center gap-2 text-sm">
+                  <Lock className="w-4 h-4" />
+                  This sheet is {sheet.status.toLowerCase()} and can only be
+                  changed by a moderator through Modify Assessment.
+                </div>
+              )}
+
+              {invalidCount > 0 && (
+                <div className="alert alert-error m-4 flex items-center gap-2 text-sm">
+                  <AlertTriangle className="w-4 h-4" />
+                  {invalidCount} score(s) are out of range and have not been
+                  saved.
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="p-3">Reg. Number</th>
+                      <th className="p-3">Candidate</th>
+                      {sheet.components.map((component) => (
+                        <th
+                          key={component.code}
+                          className="p-3 text-center"
+                          title={component.label}
+                        >
+                          {component.code}
+                          <span className="block text-xs font-normal">
+                            / {component.maxScore}
+                          </span>
+                        </th>
+                      ))}
+                      <th className="p-3 text-center">
+                        Total
+                        <span className="block text-xs font-normal">
+                          / {maxTotal}
+                        </span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sheet.candidates.map((candidate, row) => {
+                      const total = totalFor(candidate.id);
+                      return (
+                        <tr
+                          key={candidate.id}
+                          className="border-b border-border"
+                        >
+                          <td className="p-3 font-mono whitespace-nowrap">
+                            {candidate.registrationNumber}
+                          </td>
+                          <td className="p-3 whitespace-nowrap">
+                            {candidate.surname} {candidate.firstName}
+                          </td>
+                          {sheet.components.map((component, col) => {
+                            const key = cellKey(candidate.id, component.code);
+                            return (
+                              <td key={component.code} className="p-1">
+                                <input
+                                  id={`score-${row}-${col}`}
+                                  inputMode="decimal"
+                                  value={values[key] ?? ""}
+                                  readOnly={!isEditable(sheet)}
+                                  onChange={(e) =>
+                                    handleCellChange(
+                                      key,
+                                      e.target.value,
+                                      component
+                                    )
+                                  }
+                                  onKeyDown={(e) =>
+                                    handleCellKeyDown(e, row, col)
+                                  }
+                                  title={cellErrors[key]}
+                                  className={`form-input w-20 text-center mx-auto ${
+                                    cellErrors[key] ? "border-error" : ""
+                                  }`}
+                                />
+                              </td>
+                            );
+                          })}
+                          <td className="p-3 text-center font-medium">
+                            {total === null ? "—" : total}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComputeAssessment;
@@ -0,0 +1,601 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  FileText,
+  Loader,
+  Upload,
+  X,
+} from "lucide-react";
+
+type Component = { code: string; label?: string; maxScore: number };
+
+type SessionOption = { id: string; name: string; components: Component[] };
+
+type SubjectOption = {
+  id: string;
+  code: string;
+  name: string;
+  candidates: number;
+  status: string;
+};
+
+type Mapping = {
+  registrationNumber: string | null;
+  components: Record<string, string | null>;
+};
+
+interface ImportRowReport {
+  rowNumber: number;
+  registrationNumber: string;
+  valid: boolean;
+  errors: Record<string, string>;
+  candidate?: { surname: string; firstName: string };
+  scores: Record<string, number>;
+  replaces: Record<string, number>;
+}
+
+interface ImportPreview {
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    scores: number;
+    replaced: number;
+    notInFile: number;
+  };
+  sheet: { status: string; canEdit: boolean };
+  columns: { key: string; label: string }[];
+  mapping: Mapping;
+  mappingErrors: Record<string, string>;
+  report: ImportRowReport[];
+  notInFile: {
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+  }[];
+}
+
+/**
+ * Bring continuous-assessment and exam scores in from a teacher's
+ * spreadsheet. The file is matched to the sheet and previewed first; only
+ * valid rows are saved, and blank cells never clear a saved score.
+ */
+const ImportAssessment = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [subjects, setSubjects] = useState<SubjectOption[]>([]);
+  const [subjectCode, setSubjectCode] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [reason, setReason] = useState("");
+  const [showValidRows, setShowValidRows] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/assessments");
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load exam sessions");
+          return;
+        }
+
+        setSessions(result.data.sessions);
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+        setApiError("Network error. Please check your connection.");
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  useEffect(() => {
+    setSubjects([]);
+    setSubjectCode("");
+    if (!sessionId) return;
+
+    let cancelled = false;
+
+    const fetchSubjects = async () => {
+      try {
+        const response = await fetch(
+          `/api/admin/assessments?examSessionId=${encodeURIComponent(sessionId)}`
+        );
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load subjects");
+          return;
+        }
+
+        setSubjects(result.data.subjects);
+      } catch (error) {
+        console.error("Failed to load subjects:", error);
+        if (!cancelled) {
+          setApiError("Network error. Please check your connection.");
+        }
+      }
+    };
+
+    fetchSubjects();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    setPreview(null);
+    setReason("");
+  }, [sessionId, subjectCode]);
+
+  const session = sessions.find((option) => option.id === sessionId);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setPreview(null);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    if (selected && !/\.(csv|xlsx)$/i.test(selected.name)) {
+      setApiError("Only .csv and .xlsx files are supported");
+      setFile(null);
+      return;
+    }
+
+    setFile(selected);
+  };
+
+  const downloadTemplate = () => {
+    if (!session) return;
+    const headers = [
+      "Registration Number",
+      "Candidate Name",
+      ...session.components.map((component) => component.code),
+    ];
+    const blob = new Blob([headers.join(",") + "\n"], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `score-import-${subjectCode || "template"}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const submit = async (dryRun: boolean, mapping?: Mapping) => {
+    if (!file || !sessionId || !subjectCode) {
+      setApiError("Choose a session, a subject and a file to upload");
+      return;
+    }
+
+    setIsProcessing(true);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      body.append("examSessionId", sessionId);
+      body.append("subjectCode", subjectCode);
+      body.append("dryRun", String(dryRun));
+      if (reason.trim()) body.append("reason", reason.trim());
+      if (mapping) {
+        body.append(
+          "mapping",
+          JSON.stringify({
+            registrationNumber: mapping.registrationNumber ?? undefined,
+            components: mapping.components,
+          })
+        );
+      }
+
+      const response = await fetch("/api/admin/assessments/import", {
+        method: "POST",
+        body,
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Import failed. Please try again.");
+        return;
+      }
+
+      setPreview(result.data);
+
+      if (!result.dryRun) {
+        setSuccessMessage(result.message);
+        setFile(null);
+        setReason("");
+      }
+    } catch (error) {
+      console.error("Score import error:", error);
+      setApiError("Network error. Please check your connection and try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Re-check the file whenever a column is remapped
+  const remap = (changes: Partial<Mapping>) => {
+    if (!preview) return;
+    submit(true, { ...preview.mapping, ...changes });
+  };
+
+  const renderColumnSelect = (
+    value: string | null,
+    onChange: (column: string | null) => void
+  ) => (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={isProcessing}
+      className="form-select"
+    >
+      <option value="">Not imported</option>
+      {preview?.columns.map((column) => (
+        <option key={column.key} value={column.key}>
+          {column.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  const mappingError = (field: string) =>
+    preview?.mappingErrors[field] && (
+      <p className="text-error text-sm mt-1">{preview.mappingErrors[field]}</p>
+    );
+
+  const needsReason =
+    !!preview && preview.sheet.canEdit && preview.sheet.status !== "Draft";
+  const visibleRows = preview
+    ? showValidRows
+      ? preview.report
+      : preview.report.filter((row) => !row.valid)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">
+              Import Scores
+            </h1>
+            <p className="text-muted-foreground">
+              Load scores from a CSV or Excel file, matched to candidates by
+              registration number.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={downloadTemplate}
+            disabled={!session}
+            className="btn btn-outline"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Download Template
+          </button>
+        </div>
+
+        {apiError && (
+          <div className="alert alert-error flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-error flex-shrink-0" />
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="alert alert-success flex items-start gap-2">
+            <CheckCircle className="w-5 h-5 text-success flex-shrink-0" />
+            <p className="text-sm text-success">{successMessage}</p>
+          </div>
+        )}
+
+        <div className="card p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Exam Session</label>
+              <select
+                value={sessionId}
+                onChange={(e) => setSessionId(e.target.value)}
+                className="form-select"
+              >
+                <option value="">Select a session</option>
+                {sessions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Subject</label>
+              <select
+                value={subjectCode}
+                onChange={(e) => setSubjectCode(e.target.value)}
+                disabled={!sessionId}
+                className="form-select"
+              >
+                <option value="">Select a subject</option>
+                {subjects.map((subject) => (
+                  <option key={subject.id} value={subject.code}>
+                    {subject.name} ({subject.candidates} candidate(s)
+                    {subject.status !== "Draft" &&
+                      `, ${subject.status.toLowerCase()}`}
+                    )
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-border rounded-lg p-8 cursor-pointer hover:border-primary/50 transition-colors">
+            <Upload className="w-10 h-10 text-primary mb-3" />
+            <span className="font-medium text-foreground">
+              {file ? file.name : "Choose a .csv or .xlsx file"}
+            </span>
+            <span className="text-xs text-muted-foreground mt-1">
+              One row per candidate. Columns named after the components (such as
+              CA1 or EXAM) are matched automatically; blank cells are skipped.
+            </span>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {preview && !preview.sheet.canEdit && (
+            <div className="alert alert-warning text-sm">
+              This sheet is {preview.sheet.status.toLowerCase()}. You can
+              preview the file, but only a moderator can change its scores.
+            </div>
+          )}
+
+          {needsReason && (
+            <div>
+              <label className="form-label">Reason for Changes</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className="form-input"
+                placeholder={`This sheet is ${preview.sheet.status.toLowerCase()}. Give a reason; it is kept in the audit log.`}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => submit(true, preview?.mapping)}
+              disabled={isProcessing || !file || !subjectCode}
+              className="btn btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isProcessing ? (
+                <Loader className="w-4 h-4 mr-2 animate-spin" />
+              ) : null}
+              Validate File
+            </button>
+            <button
+              type="button"
+              onClick={() => submit(false, preview?.mapping)}
+              disabled={
+                isProcessing ||
+                !file ||
+                !preview?.summary.scores ||
+                (needsReason && !reason.trim())
+              }
+              className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import {preview?.summary.scores ?? 0} Score(s)
+            </button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="card p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-foreground">
+              Column Mapping
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="form-label">Registration Number</label>
+                {renderColumnSelect(
+                  preview.mapping.registrationNumber,
+                  (column) => remap({ registrationNumber: column })
+                )}
+                {mappingError("registrationNumber")}
+              </div>
+              {Object.entries(preview.mapping.components).map(
+                ([code, column]) => (
+                  <div key={code}>
+                    <label className="form-label">{code}</label>
+                    {renderColumnSelect(column, (next) =>
+                      remap({
+                        components: {
+                          ...preview.mapping.components,
+                          [code]: next,
+                        },
+                      })
+                    )}
+                    {mappingError(`components.${code}`)}
+                  </div>
+                )
+              )}
+            </div>
+            {mappingError("components")}
+          </div>
+        )}
+
+        {preview && preview.report.length > 0 && (
+          <div className="card p-6 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold text-foreground">
+                  {preview.summary.totalRows}
+                </p>
+                <p className="text-xs text-muted-foreground">Rows</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-success">
+                  {preview.summary.validRows}
+                </p>
+                <p className="text-xs text-muted-foreground">Valid</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-error">
+                  {preview.summary.invalidRows}
+                </p>
+                <p className="text-xs text-muted-foreground">With errors</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-warning">
+                  {preview.summary.replaced}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Saved scores replaced
+                </p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-foreground">
+                  {preview.summary.notInFile}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Candidates not in file
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-foreground">
+                Validation Report
+              </h3>
+              <label className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={showValidRows}
+                  onChange={(e) => setShowValidRows(e.target.checked)}
+                  className="mr-2"
+                />
+                Show valid rows
+              </label>
+            </div>
+
+            {visibleRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No rows with errors.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left">
+                      <th className="py-2 pr-4">Row</th>
+                      <th className="py-2 pr-4">Reg. Number</th>
+                      <th className="py-2 pr-4">Candidate</th>
+                      <th className="py-2 pr-4">Scores</th>
+                      <th className="py-2">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map((row) => (
+                      <tr
+                        key={row.rowNumber}
+                        className="border-b border-border align-top"
+                      >
+                        <td className="py-2 pr-4">{row.rowNumber}</td>
+                        <td className="py-2 pr-4 font-mono whitespace-nowrap">
+                          {row.registrationNumber || "—"}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {row.candidate
+                            ? `${row.candidate.surname} ${row.candidate.firstName}`
+                            : "—"}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {Object.entries(row.scores).map(([code, score]) => (
+                            <span
+                              key={code}
+                              className={`mr-3 ${
+                                code in row.replaces ? "text-warning" : ""
+                              }`}
+                              title={
+                                code in row.replaces
+                                  ? `Replaces the saved ${row.replaces[code]}`
+                                  : undefined
+                              }
+                            >
+                              {code}:{" "}
+                              {code in row.replaces &&
+                                `${row.replaces[code]} → `}
+                              {score}
+                            </span>
+                          ))}
+                        </td>
+                        <td className="py-2">
+                          {row.valid ? (
+                            <span className="inline-flex items-center text-success">
+                              <CheckCircle className="w-4 h-4 mr-1" /> Valid
+                            </span>
+                          ) : (
+                            <ul className="list-disc list-inside text-error">
+                              {Object.entries(row.errors).map(
+                                ([field, error]) => (
+                                  <li key={field}>
+                                    <span className="font-medium">
+                                      {field}:
+                                    </span>{" "}
+                                    {error}
+                                  </li>
+                                )
+                              )}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {preview.notInFile.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-muted-foreground">
+                  {preview.notInFile.length} candidate(s) taking this subject
+                  are not in the file
+                </summary>
+                <ul className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-1">
+                  {preview.notInFile.map((candidate) => (
+                    <li
+                      key={candidate.registrationNumber}
+                      className="flex items-center gap-2"
+                    >
+                      <X className="w-3 h-3 text-muted-foreground" />
+                      <span className="font-mono">
+                        {candidate.registrationNumber}
+                      </span>
+                      {candidate.surname} {candidate.firstName}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportAssessment;
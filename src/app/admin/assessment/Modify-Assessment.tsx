@@ -0,0 +1,608 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { ArrowLeft, ClipboardList, Loader, Lock, Save } from "lucide-react";
+import Modal from "@/components/glob/Modal";
+import { checkScore } from "@/lib/validation/assessment";
+
+type Component = { code: string; label?: string; maxScore: number };
+
+type SessionOption = { id: string; name: string };
+
+type SheetSummary = {
+  id: string;
+  status: string;
+  statusChangedAt: string | null;
+  updatedAt: string;
+  subject: { code: string; name: string };
+  school: { id: string; centerNumber: string; centerName: string };
+  _count: { scores: number };
+};
+
+type Sheet = {
+  id: string;
+  status: string;
+  statusChangedAt: string | null;
+  canEdit: boolean;
+  allowedTransitions: string[];
+  session: { id: string; name: string; status: string };
+  subject: { id: string; code: string; name: string };
+  school: { id: string; centerNumber: string; centerName: string };
+  components: Component[];
+  candidates: {
+    id: string;
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+  }[];
+  scores: Record<string, number>;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Draft: "bg-muted-10 text-muted-foreground",
+  Submitted: "bg-warning-10 text-warning",
+  Moderated: "bg-primary-10 text-primary",
+  Locked: "bg-success-10 text-success",
+};
+
+const transitionLabel = (from: string, to: string) => {
+  switch (to) {
+    case "Submitted":
+      return "Submit";
+    case "Moderated":
+      return from === "Locked" ? "Unlock" : "Mark Moderated";
+    case "Locked":
+      return "Lock";
+    case "Draft":
+      return "Return to Draft";
+    default:
+      return to;
+  }
+};
+
+// Mirrors the server rules: returning and unlocking need a reason
+const needsReason = (from: string, to: string) =>
+  to === "Draft" || from === "Locked";
+
+const cellKey = (candidateId: string, component: string) =>
+  `${candidateId}.${component}`;
+
+const toScore = (text: string) => (text.trim() === "" ? null : Number(text));
+
+/**
+ * Moderation of submitted score sheets: review, correct with a reason, and
+ * move each sheet on to Moderated and Locked, or back to the school.
+ */
+const ModifyAssessment = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [sheets, setSheets] = useState<SheetSummary[]>([]);
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const [changeReason, setChangeReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Transition waiting for a reason
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/assessments");
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load exam sessions");
+          return;
+        }
+
+        setSessions(result.data.sessions);
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+        setApiError("Network error. Please check your connection.");
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const fetchSheets = useCallback(async (examSessionId: string) => {
+    setIsLoading(true);
+    setApiError(null);
+    try {
+      const response = await fetch(
+        `/api/admin/assessments/sheets?examSessionId=${encodeURIComponent(examSessionId)}`
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load score sheets");
+        return;
+      }
+
+      setSheets(result.data.sheets);
+    } catch (error) {
+      console.error("Failed to load score sheets:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setSheets([]);
+    setSheet(null);
+    if (sessionId) fetchSheets(sessionId);
+  }, [sessionId, fetchSheets]);
+
+  const showSheet = (data: Sheet) => {
+    setSheet(data);
+    setValues(
+      Object.fromEntries(
+        Object.entries(data.scores).map(([key, score]) => [key, String(score)])
+      )
+    );
+    setCellErrors({});
+    setChangeReason("");
+  };
+
+  const openSheet = async (id: string) => {
+    setIsLoading(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/assessments/sheets/${id}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load the score sheet");
+        return;
+      }
+
+      showSheet(result.data);
+    } catch (error) {
+      console.error("Failed to load score sheet:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const closeSheet = () => {
+    setSheet(null);
+    setSuccessMessage(null);
+    if (sessionId) fetchSheets(sessionId);
+  };
+
+  const editable = !!sheet && sheet.canEdit && sheet.status !== "Locked";
+
+  // Cells whose text no longer matches the saved score
+  const changedCells = sheet
+    ? Object.keys(values).filter(
+        (key) =>
+          toScore(values[key]) !==
+          (key in sheet.scores ? sheet.scores[key] : null)
+      )
+    : [];
+
+  const handleCellChange = (
+    key: string,
+    text: string,
+    component: Component
+  ) => {
+    setValues((prev) => ({ ...prev, [key]: text }));
+
+    const score = toScore(text);
+    const problem =
+      score === null
+        ? null
+        : Number.isNaN(score)
+          ? "Score must be a number"
+          : checkScore(score, component);
+    setCellErrors((prev) => {
+      const next = { ...prev };
+      if (problem) next[key] = problem;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const saveChanges = async () => {
+    if (!sheet || changedCells.length === 0) return;
+
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsBusy(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/assessments/sheets/${sheet.id}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            scores: changedCells.map((key) => {
+              const [candidateId, component] = key.split(".");
+              return { candidateId, component, score: toScore(values[key]) };
+            }),
+            reason: changeReason.trim() || undefined,
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setCellErrors((prev) => ({ ...prev, ...(result.errors || {}) }));
+        setApiError(result.message || "Failed to save changes");
+        return;
+      }
+
+      await openSheet(sheet.id);
+      setSuccessMessage(result.message);
+    } catch (error) {
+      console.error("Failed to save changes:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changeStatus = async (to: string, statusReason?: string) => {
+    if (!sheet) return;
+
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsBusy(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/assessments/sheets/${sheet.id}/status`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: to, reason: statusReason }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to change the sheet status");
+        return;
+      }
+
+      showSheet(result.data);
+      setSuccessMessage(result.message);
+      setPendingStatus(null);
+      setReason("");
+    } catch (error) {
+      console.error("Failed to change sheet status:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTransition = (to: string) => {
+    if (!sheet) return;
+    if (changedCells.length > 0) {
+      setApiError("Save or discard your score changes first.");
+      return;
+    }
+    if (needsReason(sheet.status, to)) {
+      setPendingStatus(to);
+      return;
+    }
+    changeStatus(to);
+  };
+
+  const renderStatus = (status: string) => (
+    <span
+      className={`px-2 py-1 rounded text-xs font-medium ${
+        STATUS_STYLES[status] ?? ""
+      }`}
+    >
+      {status}
+    </span>
+  );
+
+  const invalidCount = Object.keys(cellErrors).length;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Modify Assessment
+          </h1>
+          <p className="text-muted-foreground">
+            Moderate submitted score sheets. Every change after submission is
+            recorded with its reason.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        {!sheet && (
+          <div className="card p-6">
+            <label className="form-label">Exam Session</label>
+            <select
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+              className="form-select"
+            >
+              <option value="">Select a session</option>
+              {sessions.map((session) => (
+                <option key={session.id} value={session.id}>
+                  {session.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : sheet ? (
+          <div className="card p-0 overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b border-border">
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={closeSheet}
+                  className="p-1 rounded-lg hover:bg-muted-10 transition-colors"
+                  title="Back to sheets"
+                >
+                  <ArrowLeft className="w-5 h-5" />
+                </button>
+                <div>
+                  <h2 className="font-semibold text-foreground">
+                    {sheet.subject.name} · {sheet.school.centerNumber}{" "}
+                    {sheet.school.centerName}
+                  </h2>
+                  <p className="text-sm text-muted-foreground">
+                    {sheet.session.name} · {sheet.candidates.length}{" "}
+                    candidate(s)
+                  </p>
+                </div>
+                {renderStatus(sheet.status)}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {sheet.allowedTransitions.map((to) => (
+                  <button
+                    key={to}
+                    onClick={() => handleTransition(to)}
+                    disabled={isBusy}
+                    className={`btn text-sm ${
+                      to === "Draft" ? "btn-outline" : "btn-primary"
+                    }`}
+                  >
+                    {transitionLabel(sheet.status, to)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {sheet.status === "Locked" && (
+              <div className="alert alert-warning m-4 flex items-center gap-2 text-sm">
+                <Lock className="w-4 h-4" />
+                This sheet is locked. A Super Admin must unlock it before any
+                score can change.
+              </div>
+            )}
+
+            {invalidCount > 0 && (
+              <div className="alert alert-error m-4 text-sm">
+                {invalidCount} score(s) are out of range.
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="p-3">Reg. Number</th>
+                    <th className="p-3">Candidate</th>
+                    {sheet.components.map((component) => (
+                      <th
+                        key={component.code}
+                        className="p-3 text-center"
+                        title={component.label}
+                      >
+                        {component.code}
+                        <span className="block text-xs font-normal">
+                          / {component.maxScore}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.candidates.map((candidate) => (
+                    <tr key={candidate.id} className="border-b border-border">
+                      <td className="p-3 font-mono whitespace-nowrap">
+                        {candidate.registrationNumber}
+                      </td>
+                      <td className="p-3 whitespace-nowrap">
+                        {candidate.surname} {candidate.firstName}
+                      </td>
+                      {sheet.components.map((component) => {
+                        const key = cellKey(candidate.id, component.code);
+                        return (
+                          <td key={component.code} className="p-1">
+                            <input
+                              inputMode="decimal"
+                              value={values[key] ?? ""}
+                              readOnly={!editable}
+                              onChange={(e) =>
+                                handleCellChange(key, e.target.value, component)
+                              }
+                              title={cellErrors[key]}
+                              className={`form-input w-20 text-center mx-auto ${
+                                cellErrors[key]
+                                  ? "border-error"
+                                  : changedCells.includes(key)
+                                    ? "border-primary"
+                                    : ""
+                              }`}
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {editable && (
+              <div className="p-4 space-y-4 border-t border-border">
+                {sheet.status !== "Draft" && (
+                  <div>
+                    <label className="form-label">Reason for Changes</label>
+                    <textarea
+                      value={changeReason}
+                      onChange={(e) => setChangeReason(e.target.value)}
+                      rows={2}
+                      className="form-input"
+                      placeholder="Required. Kept in the audit log with every changed score."
+                    />
+                  </div>
+                )}
+                <div className="flex items-center justify-end gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {changedCells.length} changed score(s)
+                  </span>
+                  {changedCells.length > 0 && (
+                    <button
+                      onClick={() => showSheet(sheet)}
+                      disabled={isBusy}
+                      className="btn btn-outline"
+                    >
+                      Discard
+                    </button>
+                  )}
+                  <button
+                    onClick={saveChanges}
+                    disabled={
+                      isBusy ||
+                      changedCells.length === 0 ||
+                      invalidCount > 0 ||
+                      (sheet.status !== "Draft" && !changeReason.trim())
+                    }
+                    className="btn btn-primary flex items-center gap-2"
+                  >
+                    {isBusy ? (
+                      <Loader className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4" />
+                    )}
+                    Save Changes
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          sessionId &&
+          (sheets.length === 0 ? (
+            <div className="card p-8 text-center text-muted-foreground">
+              <ClipboardList className="w-8 h-8 mx-auto mb-2" />
+              No score sheets have been started for this session yet.
+            </div>
+          ) : (
+            <div className="card p-0 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="p-3">Centre</th>
+                    <th className="p-3">Subject</th>
+                    <th className="p-3 text-center">Scores</th>
+                    <th className="p-3">Status</th>
+                    <th className="p-3">Last Change</th>
+                    <th className="p-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheets.map((summary) => (
+                    <tr key={summary.id} className="border-b border-border">
+                      <td className="p-3 whitespace-nowrap">
+                        <span className="font-mono">
+                          {summary.school.centerNumber}
+                        </span>{" "}
+                        {summary.school.centerName}
+                      </td>
+                      <td className="p-3">{summary.subject.name}</td>
+                      <td className="p-3 text-center">
+                        {summary._count.scores}
+                      </td>
+                      <td className="p-3">{renderStatus(summary.status)}</td>
+                      <td className="p-3 whitespace-nowrap text-muted-foreground">
+                        {new Date(
+                          summary.statusChangedAt ?? summary.updatedAt
+                        ).toLocaleString()}
+                      </td>
+                      <td className="p-3 text-right">
+                        <button
+                          onClick={() => openSheet(summary.id)}
+                          className="btn btn-outline text-sm"
+                        >
+                          Open
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+
+        <Modal
+          isOpen={!!pendingStatus}
+          onClose={() => {
+            setPendingStatus(null);
+            setReason("");
+          }}
+          title={
+            sheet && pendingStatus
+              ? transitionLabel(sheet.status, pendingStatus)
+              : ""
+          }
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Give a reason for this change. It is kept in the audit log.
+            </p>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="form-input"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={() =>
+                  pendingStatus && changeStatus(pendingStatus, reason.trim())
+                }
+                disabled={!reason.trim() || isBusy}
+                className="btn btn-primary"
+              >
+                Confirm
+              </button>
+            </div>
+          </div>
+        </Modal>
+      </div>
+    </div>
+  );
+};
+
+export default ModifyAssessment;
@@ -0,0 +1,243 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import { ClipboardList, Loader } from "lucide-react";
+
+type SessionOption = { id: string; name: string };
+
+type SubjectResult = {
+  complete: boolean;
+  total: number | null;
+  grade: string | null;
+  passed: boolean;
+  position: number | null;
+};
+
+type Results = {
+  scheme: { passMark: number; aggregateSubjects: number };
+  subjects: { code: string; name: string }[];
+  candidates: {
+    id: string;
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+    subjectsGraded: number;
+    passes: number;
+    average: number | null;
+    aggregate: number | null;
+    position: number | null;
+    subjects: Record<string, SubjectResult>;
+  }[];
+  computedAt: string | null;
+};
+
+const ordinal = (position: number) => {
+  const tens = position % 100;
+  if (tens >= 11 && tens <= 13) return `${position}th`;
+  return `${position}${["th", "st", "nd", "rd"][position % 10] ?? "th"}`;
+};
+
+/**
+ * Graded results of this centre's candidates for a session, best aggregate
+ * first. Tied candidates share a position.
+ */
+const ViewAssessments = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [results, setResults] = useState<Results | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/assessments");
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load exam sessions");
+          return;
+        }
+
+        setSessions(result.data.sessions);
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+        setApiError("Network error. Please check your connection.");
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchResults = async () => {
+      setIsLoading(true);
+      setApiError(null);
+      try {
+        const response = await fetch(
+          `/api/admin/assessments/results?examSessionId=${encodeURIComponent(sessionId)}`
+        );
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load results");
+          return;
+        }
+
+        setResults(result.data);
+      } catch (error) {
+        console.error("Failed to load results:", error);
+        if (!cancelled) {
+          setApiError("Network error. Please check your connection.");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            View Assessments
+          </h1>
+          <p className="text-muted-foreground">
+            Grades, aggregates and positions, updated whenever scores are saved.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+
+        <div className="card p-6">
+          <label className="form-label">Exam Session</label>
+          <select
+            value={sessionId}
+            onChange={(e) => setSessionId(e.target.value)}
+            className="form-select"
+          >
+            <option value="">Select a session</option>
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                {session.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          results &&
+          (results.candidates.length === 0 ? (
+            <div className="card p-8 text-center text-muted-foreground">
+              <ClipboardList className="w-8 h-8 mx-auto mb-2" />
+              No scores have been entered for this session yet.
+            </div>
+          ) : (
+            <div className="card p-0 overflow-hidden">
+              <p className="p-4 border-b border-border text-sm text-muted-foreground">
+                Pass mark {results.scheme.passMark}. The aggregate adds the
+                grade points of the best {results.scheme.aggregateSubjects}{" "}
+                subjects; candidates with fewer graded subjects are not ranked.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="p-3">Pos.</th>
+                      <th className="p-3">Reg. Number</th>
+                      <th className="p-3">Candidate</th>
+                      {results.subjects.map((subject) => (
+                        <th
+                          key={subject.code}
+                          className="p-3 text-center"
+                          title={subject.name}
+                        >
+                          {subject.code}
+                        </th>
+                      ))}
+                      <th className="p-3 text-center">Passes</th>
+                      <th className="p-3 text-center">Average</th>
+                      <th className="p-3 text-center">Aggregate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.candidates.map((candidate) => (
+                      <tr key={candidate.id} className="border-b border-border">
+                        <td className="p-3">
+                          {candidate.position
+                            ? ordinal(candidate.position)
+                            : "—"}
+                        </td>
+                        <td className="p-3 font-mono whitespace-nowrap">
+                          {candidate.registrationNumber}
+                        </td>
+                        <td className="p-3 whitespace-nowrap">
+                          {candidate.surname} {candidate.firstName}
+                        </td>
+                        {results.subjects.map((subject) => {
+                          const result = candidate.subjects[subject.code];
+                          return (
+                            <td
+                              key={subject.code}
+                              className={`p-3 text-center ${
+                                result?.complete && !result.passed
+                                  ? "text-error"
+                                  : ""
+                              }`}
+                              title={
+                                result?.complete
+                                  ? `${result.total} · ${ordinal(result.position!)} in ${subject.code}`
+                                  : result
+                                    ? "Incomplete"
+                                    : undefined
+                              }
+                            >
+                              {result?.complete
+                                ? result.grade
+                                : result
+                                  ? "…"
+                                  : ""}
+                            </td>
+                          );
+                        })}
+                        <td className="p-3 text-center">
+                          {candidate.passes}/{candidate.subjectsGraded}
+                        </td>
+                        <td className="p-3 text-center">
+                          {candidate.average ?? "—"}
+                        </td>
+                        <td className="p-3 text-center font-medium">
+                          {candidate.aggregate ?? "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ViewAssessments;
@@ -0,0 +1,139 @@
+"use client";
+import React, { useState, useEffect } from "react";
+import { AlertTriangle, CalendarClock, Download, Loader } from "lucide-react";
+
+type TimetablePaper = {
+  id: string;
+  paper: string;
+  startTime: string;
+  duration: number;
+  start: string;
+  subject: { code: string; name: string };
+  clashesWith: string[];
+};
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "Africa/Lagos",
+  });
+
+interface CandidateTimetableProps {
+  candidateId: string;
+}
+
+/**
+ * The papers a candidate sits, with a calendar download to hand to them.
+ */
+const CandidateTimetable = ({ candidateId }: CandidateTimetableProps) => {
+  const [papers, setPapers] = useState<TimetablePaper[]>([]);
+  const [unscheduled, setUnscheduled] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTimetable = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/admin/candidates/${candidateId}/timetable`
+        );
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.success) {
+          setError(result.message || "Failed to load the timetable");
+          return;
+        }
+
+        setPapers(result.data.papers);
+        setUnscheduled(result.data.unscheduledSubjects);
+      } catch (err) {
+        console.error("Failed to load candidate timetable:", err);
+        if (!cancelled) {
+          setError("Network error. Please check your connection.");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchTimetable();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [candidateId]);
+
+  const hasClashes = papers.some((paper) => paper.clashesWith.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between border-b border-border pb-2">
+        <h4 className="font-medium text-foreground flex items-center gap-2">
+          <CalendarClock className="w-4 h-4" />
+          Exam Timetable
+        </h4>
+        {papers.length > 0 && (
+          <a
+            href={`/api/admin/candidates/${candidateId}/timetable?format=ics`}
+            className="btn btn-outline flex items-center gap-2 text-sm"
+          >
+            <Download className="w-4 h-4" />
+            Download (.ics)
+          </a>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Loader className="w-5 h-5 animate-spin text-primary" />
+      ) : error ? (
+        <div className="alert alert-error">{error}</div>
+      ) : papers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          None of this candidate&apos;s subjects have been timetabled yet.
+        </p>
+      ) : (
+        <>
+          {hasClashes && (
+            <div className="alert alert-error flex items-center gap-2 text-sm">
+              <AlertTriangle className="w-4 h-4" />
+              Some papers share a slot. Contact the exam office before the exam.
+            </div>
+          )}
+          <table className="w-full text-sm">
+            <tbody>
+              {papers.map((paper) => (
+                <tr
+                  key={paper.id}
+                  className={`border-b border-border ${
+                    paper.clashesWith.length > 0 ? "text-error" : ""
+                  }`}
+                >
+                  <td className="py-2 pr-4">{formatDay(paper.start)}</td>
+                  <td className="py-2 pr-4">{paper.startTime}</td>
+                  <td className="py-2 pr-4">
+                    {paper.subject.name} {paper.paper}
+                  </td>
+                  <td className="py-2 text-right">{paper.duration} min</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {unscheduled > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {unscheduled} chosen subject(s) are not on the timetable yet.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CandidateTimetable;
@@ -0,0 +1,323 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  GitMerge,
+  Loader,
+  XCircle,
+  Users,
+} from "lucide-react";
+
+type CandidateSummary = {
+  id: string;
+  registrationNumber: string;
+  surname: string;
+  firstName: string;
+  otherName: string | null;
+  dateOfBirth: string;
+  gender: string;
+  state: string;
+  lga: string;
+  registrationStatus: string;
+  createdAt: string;
+  school: { id: string; centerNumber: string; centerName: string };
+  examSession: { id: string; name: string } | null;
+};
+
+type DuplicateFlag = {
+  id: string;
+  reasons: ("NIN" | "PHONE" | "NAME_DOB")[];
+  score: number;
+  status: string;
+  resolutionNote: string | null;
+  createdAt: string;
+  candidate: CandidateSummary;
+  matchedCandidate: CandidateSummary;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  NIN: "Same NIN",
+  PHONE: "Same phone number",
+  NAME_DOB: "Same name and date of birth",
+};
+
+const STATUSES = ["Open", "Merged", "Dismissed"];
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const CandidateCard = ({
+  title,
+  candidate,
+}: {
+  title: string;
+  candidate: CandidateSummary;
+}) => (
+  <div className="border border-border rounded-lg p-4 space-y-1 text-sm">
+    <p className="text-xs uppercase text-muted-foreground">{title}</p>
+    <p className="font-semibold text-foreground">
+      {[candidate.surname, candidate.firstName, candidate.otherName]
+        .filter(Boolean)
+        .join(" ")}
+    </p>
+    <p className="text-muted-foreground">{candidate.registrationNumber}</p>
+    <p>
+      {candidate.gender} · born {formatDate(candidate.dateOfBirth)}
+    </p>
+    <p>
+      {candidate.lga}, {candidate.state}
+    </p>
+    <p>
+      {candidate.school.centerName} ({candidate.school.centerNumber})
+    </p>
+    <p className="text-muted-foreground">
+      {candidate.examSession?.name || "No exam session"} ·{" "}
+      {candidate.registrationStatus} · registered{" "}
+      {formatDate(candidate.createdAt)}
+    </p>
+  </div>
+);
+
+const DuplicateReview = () => {
+  const [status, setStatus] = useState("Open");
+  const [flags, setFlags] = useState<DuplicateFlag[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyFlagId, setBusyFlagId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchFlags = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      setApiError(null);
+
+      try {
+        const params = new URLSearchParams({ status, limit: "20" });
+        if (cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/admin/duplicates?${params}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load the duplicate queue");
+          return;
+        }
+
+        setFlags((prev) =>
+          cursor ? [...prev, ...result.data.flags] : result.data.flags
+        );
+        setNextCursor(result.data.pageInfo.nextCursor);
+        setTotalCount(result.data.pageInfo.totalCount);
+      } catch (error) {
+        console.error("Failed to load duplicate queue:", error);
+        setApiError("Network error. Please check your connection.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    fetchFlags();
+  }, [fetchFlags]);
+
+  const resolve = async (
+    flag: DuplicateFlag,
+    body: { action: "merge"; keepCandidateId: string } | { action: "dismiss" }
+  ) => {
+    setBusyFlagId(flag.id);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/duplicates/${flag.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, note: notes[flag.id] || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Action failed. Please try again.");
+        return;
+      }
+
+      setSuccessMessage(result.message);
+      fetchFlags();
+    } catch (error) {
+      console.error("Failed to resolve duplicate flag:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setBusyFlagId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">
+              Duplicate Review
+            </h1>
+            <p className="text-muted-foreground">
+              Registrations that look like the same person. Merge to keep one
+              record and cancel the other, or dismiss false matches.
+            </p>
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="form-select w-40"
+          >
+            {STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {apiError && (
+          <div className="alert alert-error flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {apiError}
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="alert alert-success flex items-center gap-2">
+            <CheckCircle className="w-5 h-5" />
+            {successMessage}
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          {totalCount} {status.toLowerCase()} flag{totalCount === 1 ? "" : "s"}
+        </p>
+
+        {!isLoading && flags.length === 0 && !apiError && (
+          <div className="card p-8 text-center text-muted-foreground">
+            No {status.toLowerCase()} duplicate flags.
+          </div>
+        )}
+
+        {flags.map((flag) => (
+          <div key={flag.id} className="card p-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="px-2 py-1 text-xs rounded-full bg-warning/10 text-warning font-medium">
+                Score {flag.score}
+              </span>
+              {flag.reasons.map((reason) => (
+                <span
+                  key={reason}
+                  className="px-2 py-1 text-xs rounded-full bg-muted text-foreground"
+                >
+                  {REASON_LABELS[reason] ?? reason}
+                </span>
+              ))}
+              <span className="ml-auto text-xs text-muted-foreground">
+                Flagged {formatDate(flag.createdAt)}
+              </span>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <CandidateCard
+                title="New registration"
+                candidate={flag.candidate}
+              />
+              <CandidateCard
+                title="Existing registration"
+                candidate={flag.matchedCandidate}
+              />
+            </div>
+
+            {flag.status === "Open" ? (
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  placeholder="Note (optional)"
+                  value={notes[flag.id] || ""}
+                  onChange={(e) =>
+                    setNotes((prev) => ({ ...prev, [flag.id]: e.target.value }))
+                  }
+                  className="form-input"
+                />
+                <div className="flex flex-wrap justify-end gap-2">
+                  <button
+                    onClick={() => resolve(flag, { action: "dismiss" })}
+                    disabled={busyFlagId === flag.id}
+                    className="btn btn-outline flex items-center gap-2"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Not a Duplicate
+                  </button>
+                  <button
+                    onClick={() =>
+                      resolve(flag, {
+                        action: "merge",
+                        keepCandidateId: flag.matchedCandidate.id,
+                      })
+                    }
+                    disabled={busyFlagId === flag.id}
+                    className="btn btn-primary flex items-center gap-2"
+                  >
+                    {busyFlagId === flag.id ? (
+                      <Loader className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <GitMerge className="w-4 h-4" />
+                    )}
+                    Keep Existing
+                  </button>
+                  <button
+                    onClick={() =>
+                      resolve(flag, {
+                        action: "merge",
+                        keepCandidateId: flag.candidate.id,
+                      })
+                    }
+                    disabled={busyFlagId === flag.id}
+                    className="btn btn-primary flex items-center gap-2"
+                  >
+                    <GitMerge className="w-4 h-4" />
+                    Keep New
+                  </button>
+                </div>
+              </div>
+            ) : (
+              flag.resolutionNote && (
+                <p className="text-sm text-muted-foreground">
+                  Note: {flag.resolutionNote}
+                </p>
+              )
+            )}
+          </div>
+        ))}
+
+        {isLoading && (
+          <div className="flex justify-center text-muted-foreground">
+            <Loader className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+
+        {nextCursor && !isLoading && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => fetchFlags(nextCursor)}
+              className="btn btn-outline"
+            >
+              Load More
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,316 @@
+"use client";
+import React, { useState } from "react";
+import {
+  Upload,
+  FileText,
+  CheckCircle,
+  AlertCircle,
+  Loader,
+  X,
+} from "lucide-react";
+
+interface ImportRowReport {
+  rowNumber: number;
+  valid: boolean;
+  errors: Record<string, string>;
+  candidate?: { surname: string; firstName: string; nin: string };
+}
+
+interface ImportSummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+}
+
+const TEMPLATE_HEADERS = [
+  "Surname",
+  "First Name",
+  "Other Name",
+  "Date of Birth",
+  "Gender",
+  "State",
+  "LGA",
+  "NIN",
+  "Phone Number",
+  "Disability",
+  "Subjects",
+];
+
+const ImportCandidates = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [acceptedTerms, setAcceptedTerms] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [rows, setRows] = useState<ImportRowReport[]>([]);
+  const [showValidRows, setShowValidRows] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const resetReport = () => {
+    setSummary(null);
+    setRows([]);
+    setApiError(null);
+    setSuccessMessage(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    resetReport();
+
+    if (selected && !/\.(csv|xlsx)$/i.test(selected.name)) {
+      setApiError("Only .csv and .xlsx files are supported");
+      setFile(null);
+      return;
+    }
+
+    setFile(selected);
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([TEMPLATE_HEADERS.join(",") + "\n"], {
+      type: "text/csv",
+    });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "candidate-import-template.csv";
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      setApiError("Please choose a file to upload");
+      return;
+    }
+    if (!acceptedTerms) {
+      setApiError(
+        "Please confirm that every candidate has accepted the terms and conditions"
+      );
+      return;
+    }
+
+    setIsProcessing(true);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      body.append("dryRun", String(dryRun));
+      body.append("acceptedTerms", String(acceptedTerms));
+
+      const response = await fetch("/api/admin/candidates/import", {
+        method: "POST",
+        body,
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Import failed. Please try again.");
+        return;
+      }
+
+      setSummary(result.data.summary);
+      setRows(result.data.rows);
+
+      if (!result.dryRun) {
+        setSuccessMessage(result.message);
+        setFile(null);
+      }
+    } catch (error) {
+      console.error("Import error:", error);
+      setApiError("Network error. Please check your connection and try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const visibleRows = showValidRows ? rows : rows.filter((row) => !row.valid);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Bulk Import</h2>
+          <p className="text-muted-foreground text-sm">
+            Register many candidates at once from a CSV or Excel file
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={downloadTemplate}
+          className="btn btn-outline"
+        >
+          <FileText className="w-4 h-4 mr-2" />
+          Download Template
+        </button>
+      </div>
+
+      {apiError && (
+        <div className="alert alert-error flex items-start gap-2">
+          <AlertCircle className="w-5 h-5 text-error flex-shrink-0" />
+          <p className="text-sm text-error">{apiError}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="alert alert-success flex items-start gap-2">
+          <CheckCircle className="w-5 h-5 text-success flex-shrink-0" />
+          <p className="text-sm text-success">{successMessage}</p>
+        </div>
+      )}
+
+      <div className="card space-y-4">
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-border rounded-lg p-8 cursor-pointer hover:border-primary/50 transition-colors">
+          <Upload className="w-10 h-10 text-primary mb-3" />
+          <span className="font-medium text-foreground">
+            {file ? file.name : "Choose a .csv or .xlsx file"}
+          </span>
+          <span className="text-xs text-muted-foreground mt-1">
+            Maximum 1,000 candidates and 5MB per file. List subjects by code or
+            name, separated by semicolons.
+          </span>
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </label>
+
+        <label className="flex items-start">
+          <input
+            type="checkbox"
+            checked={acceptedTerms}
+            onChange={(e) => setAcceptedTerms(e.target.checked)}
+            className="mt-1 mr-2"
+          />
+          <span className="text-sm">
+            I confirm that every candidate in this file has read and accepted
+            the examination terms and conditions.
+          </span>
+        </label>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => submit(true)}
+            disabled={isProcessing || !file}
+            className="btn btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? (
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+            ) : null}
+            Validate File
+          </button>
+          <button
+            type="button"
+            onClick={() => submit(false)}
+            disabled={isProcessing || !file || !summary?.validRows}
+            className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {summary?.validRows ?? 0} Valid Rows
+          </button>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="card space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-foreground">
+                {summary.totalRows}
+              </p>
+              <p className="text-xs text-muted-foreground">Rows</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-success">
+                {summary.validRows}
+              </p>
+              <p className="text-xs text-muted-foreground">Valid</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-error">
+                {summary.invalidRows}
+              </p>
+              <p className="text-xs text-muted-foreground">With errors</p>
+            </div>
+          </div>
+
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-foreground">
+              Validation Report
+            </h3>
+            <label className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={showValidRows}
+                onChange={(e) => setShowValidRows(e.target.checked)}
+                className="mr-2"
+              />
+              Show valid rows
+            </label>
+          </div>
+
+          {visibleRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No rows with errors.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-left">
+                    <th className="py-2 pr-4">Row</th>
+                    <th className="py-2 pr-4">Candidate</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2">Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr
+                      key={row.rowNumber}
+                      className="border-b border-border align-top"
+                    >
+                      <td className="py-2 pr-4">{row.rowNumber}</td>
+                      <td className="py-2 pr-4">
+                        {row.candidate
+                          ? `${row.candidate.surname} ${row.candidate.firstName} (${row.candidate.nin})`
+                          : "—"}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {row.valid ? (
+                          <span className="inline-flex items-center text-success">
+                            <CheckCircle className="w-4 h-4 mr-1" /> Valid
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center text-error">
+                            <X className="w-4 h-4 mr-1" /> Invalid
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <ul className="list-disc list-inside text-error">
+                          {Object.entries(row.errors).map(([field, error]) => (
+                            <li key={field}>
+                              <span className="font-medium">{field}:</span>{" "}
+                              {error}
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportCandidates;
@@ -0,0 +1,601 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import {
+  Search,
+  Save,
+  Loader,
+  AlertCircle,
+  CheckCircle,
+  Lock,
+  Upload,
+  User,
+  X,
+} from "lucide-react";
+import { useStatesAndLgas } from "@/hooks/useStatesAndLgas";
+import {
+  SubjectPicker,
+  useSubjectCatalogue,
+} from "./enrol/(component)/components/SubjectPicker";
+
+// sessionStorage key used to hand a candidate over from View Candidate
+export const MODIFY_CANDIDATE_STORAGE_KEY = "modifyCandidateId";
+
+/**
+ * Remember which candidate the Modify Candidate screen should open next.
+ */
+export const openCandidateForEdit = (candidateId: string) => {
+  sessionStorage.setItem(MODIFY_CANDIDATE_STORAGE_KEY, candidateId);
+};
+
+type SearchResult = {
+  id: string;
+  registrationNumber: string;
+  surname: string;
+  firstName: string;
+  otherName: string | null;
+  registrationStatus: string;
+};
+
+type CandidateDetails = SearchResult & {
+  dateOfBirth: string;
+  gender: string;
+  state: string;
+  lga: string;
+  nin: string;
+  phoneNumber: string;
+  disability: string | null;
+  passportPhotoUrl: string | null;
+  subjects: { code: string; name: string }[];
+  examSession: { id: string; name: string } | null;
+  editable: boolean;
+  editBlockedReason: string | null;
+};
+
+type EditableFields = {
+  surname: string;
+  firstName: string;
+  otherName: string;
+  dateOfBirth: string;
+  gender: string;
+  state: string;
+  lga: string;
+  nin: string;
+  phoneNumber: string;
+  disability: string;
+  subjects: string[];
+};
+
+type TextField = Exclude<keyof EditableFields, "subjects">;
+
+const DISABILITIES = [
+  "None",
+  "Visual",
+  "Hearing",
+  "Physical",
+  "Learning",
+  "Other",
+];
+
+const toFormFields = (candidate: CandidateDetails): EditableFields => ({
+  surname: candidate.surname,
+  firstName: candidate.firstName,
+  otherName: candidate.otherName || "",
+  dateOfBirth: candidate.dateOfBirth.slice(0, 10),
+  gender: candidate.gender,
+  state: candidate.state,
+  lga: candidate.lga,
+  nin: candidate.nin,
+  phoneNumber: candidate.phoneNumber,
+  disability: candidate.disability || "None",
+  subjects: candidate.subjects.map((subject) => subject.code),
+});
+
+const sameValue = (a: string | string[], b: string | string[]) =>
+  Array.isArray(a) && Array.isArray(b)
+    ? [...a].sort().join() === [...b].sort().join()
+    : a === b;
+
+const ModifyCandidate = () => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [candidate, setCandidate] = useState<CandidateDetails | null>(null);
+  const [formData, setFormData] = useState<EditableFields | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const { subjects: subjectCatalogue, rules: subjectRules } =
+    useSubjectCatalogue();
+  const { states, lgas, isLoadingStates, isLoadingLgas } = useStatesAndLgas(
+    formData?.state ?? ""
+  );
+
+  const loadCandidate = useCallback(async (id: string) => {
+    setIsLoading(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    setErrors({});
+
+    try {
+      const response = await fetch(`/api/admin/candidates/${id}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load candidate");
+        return;
+      }
+
+      setCandidate(result.data);
+      setFormData(toFormFields(result.data));
+      setResults([]);
+    } catch (error) {
+      console.error("Failed to load candidate:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Open the candidate picked from View Candidate, if any
+  useEffect(() => {
+    const candidateId = sessionStorage.getItem(MODIFY_CANDIDATE_STORAGE_KEY);
+    if (candidateId) {
+      sessionStorage.removeItem(MODIFY_CANDIDATE_STORAGE_KEY);
+      loadCandidate(candidateId);
+    }
+  }, [loadCandidate]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchTerm.trim()) return;
+
+    setIsSearching(true);
+    setApiError(null);
+
+    try {
+      const params = new URLSearchParams({
+        search: searchTerm.trim(),
+        limit: "10",
+      });
+      const response = await fetch(`/api/admin/candidates?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Search failed");
+        return;
+      }
+
+      setResults(result.data.candidates);
+      if (result.data.candidates.length === 0) {
+        setApiError("No candidate matched your search");
+      }
+    } catch (error) {
+      console.error("Candidate search failed:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => {
+      if (!prev) return prev;
+      // A new state invalidates the chosen LGA
+      return name === "state"
+        ? { ...prev, state: value, lga: "" }
+        : { ...prev, [name]: value };
+    });
+    if (errors[name]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+    }
+  };
+
+  const handleSubjectsChange = useCallback((codes: string[]) => {
+    setFormData((prev) => (prev ? { ...prev, subjects: codes } : prev));
+  }, []);
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!candidate || !file) return;
+
+    setIsUploadingPhoto(true);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    try {
+      const body = new FormData();
+      body.append("passport", file);
+
+      const response = await fetch(
+        `/api/admin/candidates/${candidate.id}/photo`,
+        { method: "POST", body }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Photo upload failed. Please try again.");
+        return;
+      }
+
+      setCandidate((prev) =>
+        prev
+          ? { ...prev, passportPhotoUrl: result.data.passportPhotoUrl }
+          : prev
+      );
+      setSuccessMessage(result.message);
+    } catch (error) {
+      console.error("Passport photo upload failed:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsUploadingPhoto(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!candidate || !formData) return;
+
+    // Only send the fields that were actually changed
+    const original = toFormFields(candidate);
+    const changes = Object.fromEntries(
+      Object.entries(formData).filter(
+        ([field, value]) =>
+          !sameValue(original[field as keyof EditableFields], value)
+      )
+    );
+
+    if (Object.keys(changes).length === 0) {
+      setSuccessMessage("No changes to save");
+      return;
+    }
+
+    setIsSaving(true);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/candidates/${candidate.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setErrors(result.errors || {});
+        setApiError(result.message || "Update failed. Please try again.");
+        return;
+      }
+
+      const updated = {
+        ...candidate,
+        ...result.data.candidate,
+      } as CandidateDetails;
+      setCandidate(updated);
+      setFormData(toFormFields(updated));
+      setSuccessMessage(result.message);
+    } catch (error) {
+      console.error("Candidate update failed:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const closeCandidate = () => {
+    setCandidate(null);
+    setFormData(null);
+    setErrors({});
+    setApiError(null);
+    setSuccessMessage(null);
+  };
+
+  const renderInput = (
+    name: TextField,
+    label: string,
+    type: string = "text"
+  ) => (
+    <div>
+      <label className="form-label">{label}</label>
+      <input
+        type={type}
+        name={name}
+        value={formData?.[name] ?? ""}
+        onChange={handleInputChange}
+        disabled={!candidate?.editable}
+        className={`form-input ${errors[name] ? "border-error" : ""}`}
+      />
+      {errors[name] && (
+        <p className="text-error text-sm mt-1">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  // Older records may hold a spelling that is no longer in the list
+  const renderLocationSelect = (
+    name: "state" | "lga",
+    label: string,
+    options: string[],
+    isLoadingOptions: boolean
+  ) => {
+    const value = formData?.[name] ?? "";
+    const choices =
+      value && !options.includes(value) ? [value, ...options] : options;
+
+    return (
+      <div>
+        <label className="form-label">{label}</label>
+        <select
+          name={name}
+          value={value}
+          onChange={handleInputChange}
+          disabled={!candidate?.editable || isLoadingOptions}
+          className={`form-select ${errors[name] ? "border-error" : ""}`}
+        >
+          <option value="">
+            {isLoadingOptions ? "Loading..." : `Select ${label}`}
+          </option>
+          {choices.map((choice) => (
+            <option key={choice} value={choice}>
+              {choice}
+            </option>
+          ))}
+        </select>
+        {errors[name] && (
+          <p className="text-error text-sm mt-1">{errors[name]}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Modify Candidate
+          </h1>
+          <p className="text-muted-foreground">
+            Correct a candidate&apos;s details while registration is open. Every
+            change is recorded in the candidate&apos;s audit history.
+          </p>
+        </div>
+
+        {apiError && (
+          <div className="alert alert-error flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {apiError}
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="alert alert-success flex items-center gap-2">
+            <CheckCircle className="w-5 h-5" />
+            {successMessage}
+          </div>
+        )}
+
+        {!candidate && (
+          <div className="card p-6 space-y-4">
+            <form onSubmit={handleSearch} className="flex gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search by name, registration number, NIN or phone"
+                  className="form-input pl-10"
+                />
+              </div>
+              <button
+                type="submit"
+                className="btn btn-primary flex items-center gap-2"
+                disabled={isSearching}
+              >
+                {isSearching ? (
+                  <Loader className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Search className="w-4 h-4" />
+                )}
+                Search
+              </button>
+            </form>
+
+            {results.length > 0 && (
+              <ul className="divide-y divide-border border border-border rounded-lg">
+                {results.map((result) => (
+                  <li key={result.id}>
+                    <button
+                      type="button"
+                      onClick={() => loadCandidate(result.id)}
+                      className="w-full text-left px-4 py-3 hover:bg-muted flex justify-between items-center"
+                    >
+                      <span>
+                        <span className="font-medium text-foreground">
+                          {result.surname} {result.firstName}{" "}
+                          {result.otherName || ""}
+                        </span>
+                        <span className="block text-sm text-muted-foreground">
+                          {result.registrationNumber}
+                        </span>
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {result.registrationStatus}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {isLoading && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader className="w-4 h-4 animate-spin" />
+                Loading candidate...
+              </div>
+            )}
+          </div>
+        )}
+
+        {candidate && formData && (
+          <form onSubmit={handleSubmit} className="card p-6 space-y-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-semibold text-foreground">
+                  {candidate.registrationNumber}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  {candidate.examSession?.name || "No exam session"} ·{" "}
+                  {candidate.registrationStatus}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={closeCandidate}
+                className="p-2 hover:bg-muted rounded-lg"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {!candidate.editable && (
+              <div className="alert alert-error flex items-center gap-2">
+                <Lock className="w-5 h-5" />
+                {candidate.editBlockedReason}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {renderInput("surname", "Surname")}
+              {renderInput("firstName", "First Name")}
+              {renderInput("otherName", "Other Name")}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {renderInput("dateOfBirth", "Date of Birth", "date")}
+              <div>
+                <label className="form-label">Gender</label>
+                <select
+                  name="gender"
+                  value={formData.gender}
+                  onChange={handleInputChange}
+                  disabled={!candidate.editable}
+                  className="form-select"
+                >
+                  <option value="Male">Male</option>
+                  <option value="Female">Female</option>
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Disability</label>
+                <select
+                  name="disability"
+                  value={formData.disability}
+                  onChange={handleInputChange}
+                  disabled={!candidate.editable}
+                  className="form-select"
+                >
+                  {DISABILITIES.map((disability) => (
+                    <option key={disability} value={disability}>
+                      {disability}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderLocationSelect("state", "State", states, isLoadingStates)}
+              {renderLocationSelect("lga", "LGA", lgas, isLoadingLgas)}
+              {renderInput("nin", "NIN")}
+              {renderInput("phoneNumber", "Phone Number", "tel")}
+            </div>
+
+            <div className="flex items-center gap-4">
+              {candidate.passportPhotoUrl ? (
+                <Image
+                  src={candidate.passportPhotoUrl}
+                  alt="Passport photo"
+                  width={80}
+                  height={96}
+                  unoptimized
+                  className="w-20 h-24 rounded-lg object-cover border border-border"
+                />
+              ) : (
+                <div className="w-20 h-24 bg-muted rounded-lg flex items-center justify-center">
+                  <User className="w-8 h-8 text-muted-foreground" />
+                </div>
+              )}
+              {candidate.editable && (
+                <label className="btn btn-outline flex items-center gap-2 cursor-pointer">
+                  {isUploadingPhoto ? (
+                    <Loader className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4" />
+                  )}
+                  Replace Photo
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    onChange={handlePhotoChange}
+                    disabled={isUploadingPhoto}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+
+            <SubjectPicker
+              subjects={subjectCatalogue}
+              rules={subjectRules}
+              selected={formData.subjects}
+              onChange={handleSubjectsChange}
+              error={errors.subjects}
+              disabled={!candidate.editable}
+            />
+
+            {candidate.editable && (
+              <div className="flex justify-end gap-3 pt-4 border-t border-border">
+                <button
+                  type="button"
+                  onClick={() => setFormData(toFormFields(candidate))}
+                  className="btn btn-outline"
+                  disabled={isSaving}
+                >
+                  Reset
+                </button>
+                <button
+                  type="submit"
+                  className="btn btn-primary flex items-center gap-2"
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <Loader className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4" />
+                  )}
+                  Save Changes
+                </button>
+              </div>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModifyCandidate;
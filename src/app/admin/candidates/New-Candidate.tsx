@@ -16,9 +16,7 @@ import {
   LocationEdit,
   Edit,
 } from "lucide-react";
-
-// Cache for LGAs to avoid repeated API calls
-const lgaCache = new Map<string, string[]>();
+import { useStatesAndLgas } from "@/hooks/useStatesAndLgas";
 
 // Define types for our form data
 interface FormData {
@@ -63,11 +61,14 @@ export default function CandidateRegistrationPage() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [passportPreview, setPassportPreview] = useState<string | null>(null);
-  const [states, setStates] = useState<string[]>([]);
-  const [lgas, setLgas] = useState<string[]>([]);
-  const [isLoadingStates, setIsLoadingStates] = useState(false);
-  const [isLoadingLgas, setIsLoadingLgas] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
+  const {
+    states,
+    lgas,
+    isLoadingStates,
+    isLoadingLgas,
+    error: locationError,
+  } = useStatesAndLgas(formData.state);
 
   // Check cache validity on mount
   useEffect(() => {
@@ -120,79 +121,10 @@ export default function CandidateRegistrationPage() {
     }
   }, [passportPreview]);
 
-  // Fetch states data on component mount
-  useEffect(() => {
-    const fetchStatesData = async () => {
-      setIsLoadingStates(true);
-      setApiError(null);
-      try {
-        const cached = localStorage.getItem("cachedStates");
-        if (cached) {
-          setStates(JSON.parse(cached));
-          return;
-        }
-
-        const res = await fetch("https://apinigeria.vercel.app/api/v1/states");
-        if (!res.ok) {
-          throw new Error("Failed to fetch states");
-        }
-
-        const data = await res.json();
-        const statesList = data.states || [];
-        setStates(statesList);
-        localStorage.setItem("cachedStates", JSON.stringify(statesList));
-        localStorage.setItem("cachedTimestamp", Date.now().toString());
-      } catch (error) {
-        console.error("Failed to load states");
-        setApiError("Failed to load states data. Please try again later.");
-      } finally {
-        setIsLoadingStates(false);
-      }
-    };
-
-    fetchStatesData();
-  }, []);
-
-  // Fetch LGAs when state changes
+  // Surface reference data failures with the other API errors
   useEffect(() => {
-    const fetchLgasData = async () => {
-      if (!formData.state) {
-        setLgas([]);
-        return;
-      }
-
-      if (lgaCache.has(formData.state)) {
-        setLgas(lgaCache.get(formData.state) || []);
-        return;
-      }
-
-      setIsLoadingLgas(true);
-      setApiError(null);
-      try {
-        const res = await fetch(
-          `https://apinigeria.vercel.app/api/v1/lga?state=${encodeURIComponent(
-            formData.state
-          )}`
-        );
-
-        if (!res.ok) {
-          throw new Error("Failed to fetch LGAs");
-        }
-
-        const data = await res.json();
-        const lgasList = data.lgas || [];
-        setLgas(lgasList);
-        lgaCache.set(formData.state, lgasList);
-      } catch (error) {
-        console.error("Failed to load LGAs");
-        setApiError("Failed to load LGAs data. Please try again later.");
-      } finally {
-        setIsLoadingLgas(false);
-      }
-    };
-
-    fetchLgasData();
-  }, [formData.state]);
+    if (locationError) setApiError(locationError);
+  }, [locationError]);
 
   const handleInputChange = (
     e: React.ChangeEvent<
@@ -1,80 +0,0 @@
-"use client";
-
-import React, { useState } from "react";
-import Modal from "@/components/glob/Modal";
-
-const PaymentForm = () => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    amount: "",
-    description: "",
-  });
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    // Handle form submission
-    console.log(formData);
-    setIsOpen(false);
-  };
-
-  return (
-    <>
-      <button onClick={() => setIsOpen(true)} className="btn btn-primary">
-        Make Payment
-      </button>
-
-      <Modal
-        isOpen={isOpen}
-        onClose={() => setIsOpen(false)}
-        title="Make a Payment"
-      >
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="amount" className="form-label">
-              Amount
-            </label>
-            <input
-              type="number"
-              id="amount"
-              value={formData.amount}
-              onChange={(e) =>
-                setFormData({ ...formData, amount: e.target.value })
-              }
-              className="form-input"
-              required
-            />
-          </div>
-          <div>
-            <label htmlFor="description" className="form-label">
-              Description
-            </label>
-            <textarea
-              id="description"
-              value={formData.description}
-              onChange={(e) =>
-                setFormData({ ...formData, description: e.target.value })
-              }
-              className="form-textarea"
-              rows={3}
-              required
-            />
-          </div>
-          <div className="flex justify-end space-x-2">
-            <button
-              type="button"
-              onClick={() => setIsOpen(false)}
-              className="btn btn-outline"
-            >
-              Cancel
-            </button>
-            <button type="submit" className="btn btn-primary">
-              Submit Payment
-            </button>
-          </div>
-        </form>
-      </Modal>
-    </>
-  );
-};
-
-export default PaymentForm;
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useMemo } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Search,
   Filter,
@@ -12,7 +12,6 @@ import {
   Calendar,
   MapPin,
   Phone,
-  Mail,
   FileText,
   ChevronDown,
   X,
@@ -21,124 +20,78 @@ import {
   Clock,
   SortAsc,
   SortDesc,
+  Loader,
 } from "lucide-react";
+import CandidateTimetable from "./Candidate-Timetable";
 
-// Mock candidate data
+// Candidate row as returned by GET /api/admin/candidates
 type Candidate = {
   id: string;
+  registrationNumber: string;
   surname: string;
   firstName: string;
-  otherName: string;
-  email: string;
+  otherName: string | null;
   phoneNumber: string;
   dateOfBirth: string;
   gender: string;
   state: string;
   lga: string;
   nin: string;
-  disability: string;
-  registrationDate: string;
-  status: string;
-  examScore: number | null;
-  profilePhoto: null;
+  disability: string | null;
+  registrationStatus: string;
+  examSession: { id: string; name: string } | null;
+  createdAt: string;
 };
 
-const mockCandidates: Candidate[] = [
-  {
-    id: "CEC-001",
-    surname: "Adebayo",
-    firstName: "Olumide",
-    otherName: "Tunde",
-    email: "olumide.adebayo@email.com",
-    phoneNumber: "08012345678",
-    dateOfBirth: "1995-03-15",
-    gender: "Male",
-    state: "Lagos",
-    lga: "Ikeja",
-    nin: "12345678901",
-    disability: "",
-    registrationDate: "2024-01-15",
-    status: "Active",
-    examScore: 85,
-    profilePhoto: null,
-  },
-  {
-    id: "CEC-002",
-    surname: "Okafor",
-    firstName: "Chioma",
-    otherName: "Grace",
-    email: "chioma.okafor@email.com",
-    phoneNumber: "08087654321",
-    dateOfBirth: "1992-07-22",
-    gender: "Female",
-    state: "Anambra",
-    lga: "Awka North",
-    nin: "98765432101",
-    disability: "",
-    registrationDate: "2024-01-18",
-    status: "Active",
-    examScore: 92,
-    profilePhoto: null,
-  },
-  {
-    id: "CEC-003",
-    surname: "Ibrahim",
-    firstName: "Amina",
-    otherName: "",
-    email: "amina.ibrahim@email.com",
-    phoneNumber: "08056789012",
-    dateOfBirth: "1998-11-08",
-    gender: "Female",
-    state: "Kano",
-    lga: "Fagge",
-    nin: "11223344556",
-    disability: "Visual",
-    registrationDate: "2024-01-20",
-    status: "Pending",
-    examScore: null,
-    profilePhoto: null,
-  },
-  {
-    id: "CEC-004",
-    surname: "Eze",
-    firstName: "Chukwuemeka",
-    otherName: "Paul",
-    email: "chukwuemeka.eze@email.com",
-    phoneNumber: "08098765432",
-    dateOfBirth: "1990-05-12",
-    gender: "Male",
-    state: "Enugu",
-    lga: "Enugu North",
-    nin: "55667788990",
-    disability: "",
-    registrationDate: "2024-01-25",
-    status: "Inactive",
-    examScore: 78,
-    profilePhoto: null,
-  },
-  {
-    id: "CEC-004",
-    surname: "Eze",
-    firstName: "Chukwuemeka",
-    otherName: "Paul",
-    email: "chukwuemeka.eze@email.com",
-    phoneNumber: "08098765432",
-    dateOfBirth: "1990-05-12",
-    gender: "Male",
-    state: "Enugu",
-    lga: "Enugu North",
-    nin: "55667788990",
-    disability: "",
-    registrationDate: "2024-01-25",
-    status: "Active",
-    examScore: 88,
-    profilePhoto: null,
-  },
+type CandidateStats = {
+  total: number;
+  byStatus: Record<string, number>;
+};
+
+const REGISTRATION_STATUSES = [
+  "Pending",
+  "Submitted",
+  "Verified",
+  "Rejected",
+  "Cancelled",
 ];
 
-const CandidateViewPage = () => {
-  const [candidates, setCandidates] = useState<Candidate[]>(mockCandidates);
+// Table column -> server-side sort field
+const SORT_FIELDS: Record<string, string> = {
+  registrationNumber: "registrationNumber",
+  fullName: "surname",
+  state: "state",
+  registrationStatus: "registrationStatus",
+  createdAt: "createdAt",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+interface CandidateViewPageProps {
+  // Opens the Modify Candidate screen; edit buttons are hidden without it
+  onEdit?: (candidateId: string) => void;
+}
+
+const CandidateViewPage = ({ onEdit }: CandidateViewPageProps) => {
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [stats, setStats] = useState<CandidateStats>({
+    total: 0,
+    byStatus: {},
+  });
+  const [uniqueStates, setUniqueStates] = useState<string[]>([]);
+  const [totalCount, setTotalCount] = useState<number>(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Cursors of the pages already visited, so "Previous" can go back
+  const [cursorStack, setCursorStack] = useState<(string | null)[]>([null]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [actionMessage, setActionMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>("");
+  const [debouncedSearch, setDebouncedSearch] = useState<string>("");
   const [selectedStatus, setSelectedStatus] = useState<string>("All");
   const [selectedState, setSelectedState] = useState<string>("All");
   const [selectedGender, setSelectedGender] = useState<string>("All");
@@ -147,7 +100,6 @@ const CandidateViewPage = () => {
     direction: "" | "ascending" | "descending";
   }>({ key: "", direction: "" });
   const [selectedCandidates, setSelectedCandidates] = useState<string[]>([]);
-  const [currentPage, setCurrentPage] = useState<number>(1);
   const [itemsPerPage, setItemsPerPage] = useState<number>(10);
   const [showExportMenu, setShowExportMenu] = useState<boolean>(false);
   const [showFilters, setShowFilters] = useState<boolean>(false);
@@ -155,85 +107,127 @@ const CandidateViewPage = () => {
     null
   );
 
-  // Get unique values for filters
-  const uniqueStates = [...new Set(candidates.map((c) => c.state))];
-  const uniqueStatuses = [...new Set(candidates.map((c) => c.status))];
-
-  // Filter and search candidates
-  const filteredCandidates = useMemo(() => {
-    return candidates.filter((candidate) => {
-      const matchesSearch =
-        searchTerm === "" ||
-        candidate.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        candidate.surname.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        candidate.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        candidate.otherName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        candidate.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        candidate.phoneNumber.toLowerCase().includes(searchTerm.toLowerCase());
-
-      const matchesStatus =
-        selectedStatus === "All" || candidate.status === selectedStatus;
-
-      const matchesState =
-        selectedState === "All" || candidate.state === selectedState;
-
-      const matchesGender =
-        selectedGender === "All" || candidate.gender === selectedGender;
-
-      return matchesSearch && matchesStatus && matchesState && matchesGender;
-    });
-  }, [candidates, searchTerm, selectedStatus, selectedState, selectedGender]);
-
-  // Sort candidates
-  const sortedCandidates = useMemo(() => {
-    if (!sortConfig.key) return filteredCandidates;
-
-    // Type guard to ensure sortConfig.key is a valid keyof Candidate
-    if (
-      (
-        [
-          "id",
-          "surname",
-          "firstName",
-          "otherName",
-          "email",
-          "phoneNumber",
-          "dateOfBirth",
-          "gender",
-          "state",
-          "lga",
-          "nin",
-          "disability",
-          "registrationDate",
-          "status",
-          "examScore",
-          "profilePhoto",
-        ] as string[]
-      ).includes(sortConfig.key)
-    ) {
-      return [...filteredCandidates].sort((a, b) => {
-        const key = sortConfig.key as keyof Candidate;
-        const aValue = a[key] ?? "";
-        const bValue = b[key] ?? "";
-        if (aValue < bValue) {
-          return sortConfig.direction === "ascending" ? -1 : 1;
-        }
-        if (aValue > bValue) {
-          return sortConfig.direction === "ascending" ? 1 : -1;
-        }
-        return 0;
-      });
+  const currentCursor = cursorStack[cursorStack.length - 1];
+  const currentPage = cursorStack.length;
+
+  // Debounce search input before hitting the API
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Any change to the query restarts paging from the first page
+  useEffect(() => {
+    setCursorStack([null]);
+    setSelectedCandidates([]);
+  }, [
+    debouncedSearch,
+    selectedStatus,
+    selectedState,
+    selectedGender,
+    sortConfig,
+    itemsPerPage,
+  ]);
+
+  const fetchCandidates = useCallback(async () => {
+    setIsLoading(true);
+    setApiError(null);
+
+    const params = new URLSearchParams({ limit: String(itemsPerPage) });
+    if (currentCursor) params.set("cursor", currentCursor);
+    if (debouncedSearch) params.set("search", debouncedSearch);
+    if (selectedStatus !== "All") params.set("status", selectedStatus);
+    if (selectedState !== "All") params.set("state", selectedState);
+    if (selectedGender !== "All") params.set("gender", selectedGender);
+    if (sortConfig.key && sortConfig.direction) {
+      params.set("sortBy", SORT_FIELDS[sortConfig.key]);
+      params.set(
+        "sortOrder",
+        sortConfig.direction === "ascending" ? "asc" : "desc"
+      );
+    }
+
+    try {
+      const response = await fetch(`/api/admin/candidates?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load candidates");
+        return;
+      }
+
+      setCandidates(result.data.candidates);
+      setNextCursor(result.data.pageInfo.nextCursor);
+      setTotalCount(result.data.pageInfo.totalCount);
+      setStats(result.data.stats);
+      setUniqueStates(result.data.filters.states);
+    } catch (error) {
+      console.error("Failed to load candidates:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
     }
-    return filteredCandidates;
-  }, [filteredCandidates, sortConfig]);
+  }, [
+    currentCursor,
+    itemsPerPage,
+    debouncedSearch,
+    selectedStatus,
+    selectedState,
+    selectedGender,
+    sortConfig,
+  ]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  const goToNextPage = () => {
+    if (nextCursor) setCursorStack((stack) => [...stack, nextCursor]);
+  };
+
+  const goToPreviousPage = () => {
+    setCursorStack((stack) => (stack.length > 1 ? stack.slice(0, -1) : stack));
+  };
+
+  // Send the selected Pending candidates for verification
+  const submitSelected = async () => {
+    if (selectedCandidates.length === 0) return;
+
+    setIsSubmitting(true);
+    setActionMessage(null);
 
-  // Paginate candidates
-  const paginatedCandidates = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return sortedCandidates.slice(startIndex, startIndex + itemsPerPage);
-  }, [sortedCandidates, currentPage, itemsPerPage]);
+    try {
+      const response = await fetch("/api/admin/candidates/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ candidateIds: selectedCandidates }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setActionMessage({
+          type: "error",
+          text: result.message || "Submission failed. Please try again.",
+        });
+        return;
+      }
 
-  const totalPages = Math.ceil(sortedCandidates.length / itemsPerPage);
+      setActionMessage({
+        type: result.success ? "success" : "error",
+        text: result.message,
+      });
+      setSelectedCandidates([]);
+      fetchCandidates();
+    } catch (error) {
+      console.error("Failed to submit candidates:", error);
+      setActionMessage({
+        type: "error",
+        text: "Network error. Please check your connection.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
   // Sort handler
   const handleSort = (key: string) => {
@@ -247,7 +241,7 @@ const CandidateViewPage = () => {
   // Selection handlers
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedCandidates(paginatedCandidates.map((c) => c.id));
+      setSelectedCandidates(candidates.map((c) => c.id));
     } else {
       setSelectedCandidates([]);
     }
@@ -269,14 +263,13 @@ const CandidateViewPage = () => {
       dataToExport ||
       (selectedCandidates.length > 0
         ? candidates.filter((c) => selectedCandidates.includes(c.id))
-        : sortedCandidates);
+        : candidates);
 
     const headers = [
-      "Registration ID",
+      "Registration Number",
       "Surname",
       "First Name",
       "Other Name",
-      "Email",
       "Phone Number",
       "Date of Birth",
       "Gender",
@@ -286,29 +279,28 @@ const CandidateViewPage = () => {
       "Disability",
       "Registration Date",
       "Status",
-      "Exam Score",
     ];
 
     const csvContent = [
       headers.join(","),
       ...data.map((candidate) =>
         [
-          candidate.id,
+          candidate.registrationNumber,
           candidate.surname,
           candidate.firstName,
           candidate.otherName || "",
-          candidate.email,
           candidate.phoneNumber,
-          candidate.dateOfBirth,
+          candidate.dateOfBirth.split("T")[0],
           candidate.gender,
           candidate.state,
           candidate.lga,
           candidate.nin,
           candidate.disability || "None",
-          candidate.registrationDate,
-          candidate.status,
-          candidate.examScore || "N/A",
-        ].join(",")
+          candidate.createdAt.split("T")[0],
+          candidate.registrationStatus,
+        ]
+          .map((value) => `"${String(value).replace(/"/g, '""')}"`)
+          .join(",")
       ),
     ].join("\n");
 
@@ -341,11 +333,13 @@ const CandidateViewPage = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case "Active":
+      case "Verified":
         return "text-success bg-success-10 border-success-20";
       case "Pending":
+      case "Submitted":
         return "text-warning bg-warning-10 border-warning-20";
-      case "Inactive":
+      case "Rejected":
+      case "Cancelled":
         return "text-error bg-error-10 border-error-20";
       default:
         return "text-muted-foreground bg-muted-10 border-muted-20";
@@ -354,11 +348,13 @@ const CandidateViewPage = () => {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case "Active":
+      case "Verified":
         return <CheckCircle className="w-3 h-3" />;
       case "Pending":
+      case "Submitted":
         return <Clock className="w-3 h-3" />;
-      case "Inactive":
+      case "Rejected":
+      case "Cancelled":
         return <AlertCircle className="w-3 h-3" />;
       default:
         return null;
@@ -396,7 +392,7 @@ const CandidateViewPage = () => {
                   Total Candidates
                 </p>
                 <p className="text-2xl font-bold text-foreground">
-                  {candidates.length}
+                  {stats.total}
                 </p>
               </div>
               <Users className="w-8 h-8 text-primary" />
@@ -405,9 +401,9 @@ const CandidateViewPage = () => {
           <div className="card">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-muted-foreground text-sm">Active</p>
+                <p className="text-muted-foreground text-sm">Verified</p>
                 <p className="text-2xl font-bold text-success">
-                  {candidates.filter((c) => c.status === "Active").length}
+                  {stats.byStatus.Verified ?? 0}
                 </p>
               </div>
               <CheckCircle className="w-8 h-8 text-success" />
@@ -418,7 +414,7 @@ const CandidateViewPage = () => {
               <div>
                 <p className="text-muted-foreground text-sm">Pending</p>
                 <p className="text-2xl font-bold text-warning">
-                  {candidates.filter((c) => c.status === "Pending").length}
+                  {stats.byStatus.Pending ?? 0}
                 </p>
               </div>
               <Clock className="w-8 h-8 text-warning" />
@@ -427,15 +423,9 @@ const CandidateViewPage = () => {
           <div className="card">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-muted-foreground text-sm">Avg Score</p>
+                <p className="text-muted-foreground text-sm">Submitted</p>
                 <p className="text-2xl font-bold text-accent">
-                  {Math.round(
-                    candidates
-                      .filter((c) => c.examScore !== null)
-                      .reduce((acc, c) => acc + (c.examScore ?? 0), 0) /
-                      (candidates.filter((c) => c.examScore !== null).length ||
-                        1)
-                  ) || 0}
+                  {stats.byStatus.Submitted ?? 0}
                 </p>
               </div>
               <FileText className="w-8 h-8 text-accent" />
@@ -443,6 +433,26 @@ const CandidateViewPage = () => {
           </div>
         </div>
 
+        {actionMessage && (
+          <div
+            className={`alert ${
+              actionMessage.type === "success" ? "alert-success" : "alert-error"
+            } flex items-center justify-between gap-2 mb-6`}
+          >
+            <span className="flex items-center gap-2">
+              {actionMessage.type === "success" ? (
+                <CheckCircle className="w-5 h-5" />
+              ) : (
+                <AlertCircle className="w-5 h-5" />
+              )}
+              {actionMessage.text}
+            </span>
+            <button onClick={() => setActionMessage(null)}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Filters and Search */}
         <div className="card mb-6">
           <div className="p-4 border-b border-border">
@@ -453,7 +463,7 @@ const CandidateViewPage = () => {
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                   <input
                     type="text"
-                    placeholder="Search candidates..."
+                    placeholder="Search by name, registration number, NIN or phone..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="form-input pl-10"
@@ -477,6 +487,22 @@ const CandidateViewPage = () => {
                 />
               </button>
 
+              {/* Submit for verification */}
+              {selectedCandidates.length > 0 && (
+                <button
+                  onClick={submitSelected}
+                  disabled={isSubmitting}
+                  className="btn btn-outline flex items-center gap-2"
+                >
+                  {isSubmitting ? (
+                    <Loader className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="w-4 h-4" />
+                  )}
+                  Submit Selected ({selectedCandidates.length})
+                </button>
+              )}
+
               {/* Export */}
               <div className="relative">
                 <button
@@ -524,7 +550,7 @@ const CandidateViewPage = () => {
                       <hr className="my-2 border-border" />
                       <button
                         onClick={() => {
-                          exportToCSV(paginatedCandidates);
+                          exportToCSV(candidates);
                           setShowExportMenu(false);
                         }}
                         className="w-full text-left px-3 py-2 text-sm hover:bg-muted-10 rounded text-primary"
@@ -561,7 +587,7 @@ const CandidateViewPage = () => {
                     className="form-select"
                   >
                     <option value="All">All Statuses</option>
-                    {uniqueStatuses.map((status) => (
+                    {REGISTRATION_STATUSES.map((status) => (
                       <option key={status} value={status}>
                         {status}
                       </option>
@@ -608,8 +634,7 @@ const CandidateViewPage = () => {
                   Clear Filters
                 </button>
                 <p className="text-sm text-muted-foreground">
-                  Showing {sortedCandidates.length} of {candidates.length}{" "}
-                  candidates
+                  {totalCount} of {stats.total} candidates match
                 </p>
               </div>
             </div>
@@ -626,27 +651,31 @@ const CandidateViewPage = () => {
                     <input
                       type="checkbox"
                       checked={
-                        selectedCandidates.length ===
-                          paginatedCandidates.length &&
-                        paginatedCandidates.length > 0
+                        selectedCandidates.length === candidates.length &&
+                        candidates.length > 0
                       }
                       onChange={(e) => handleSelectAll(e.target.checked)}
                       className="rounded border-border"
                     />
                   </th>
                   {[
-                    { key: "id", label: "ID" },
+                    { key: "registrationNumber", label: "Reg. No." },
                     { key: "fullName", label: "Full Name" },
-                    { key: "email", label: "Email" },
                     { key: "phoneNumber", label: "Phone" },
                     { key: "state", label: "State" },
-                    { key: "status", label: "Status" },
-                    { key: "examScore", label: "Score" },
+                    { key: "registrationStatus", label: "Status" },
+                    { key: "createdAt", label: "Registered" },
                   ].map((column) => (
                     <th
                       key={column.key}
-                      className="px-4 py-3 text-left text-sm font-medium text-foreground cursor-pointer hover:bg-muted-10 dark:hover:bg-muted-20"
-                      onClick={() => handleSort(column.key)}
+                      className={`px-4 py-3 text-left text-sm font-medium text-foreground ${
+                        SORT_FIELDS[column.key]
+                          ? "cursor-pointer hover:bg-muted-10 dark:hover:bg-muted-20"
+                          : ""
+                      }`}
+                      onClick={() =>
+                        SORT_FIELDS[column.key] && handleSort(column.key)
+                      }
                     >
                       <div className="flex items-center gap-1">
                         {column.label}
@@ -665,88 +694,117 @@ const CandidateViewPage = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
-                {paginatedCandidates.map((candidate) => (
-                  <tr
-                    key={candidate.id}
-                    className="hover:bg-muted-10 dark:hover:bg-muted-20"
-                  >
-                    <td className="px-4 py-3">
-                      <input
-                        type="checkbox"
-                        checked={selectedCandidates.includes(candidate.id)}
-                        onChange={(e) =>
-                          handleSelectCandidate(candidate.id, e.target.checked)
-                        }
-                        className="rounded border-border"
-                      />
+                {isLoading && (
+                  <tr>
+                    <td
+                      colSpan={8}
+                      className="px-4 py-6 text-center text-sm text-muted-foreground"
+                    >
+                      <Loader className="w-4 h-4 animate-spin inline mr-2" />
+                      Loading candidates...
                     </td>
-                    <td className="px-4 py-3 text-sm font-medium text-foreground">
-                      {candidate.id}
+                  </tr>
+                )}
+                {!isLoading && apiError && (
+                  <tr>
+                    <td
+                      colSpan={8}
+                      className="px-4 py-6 text-center text-sm text-error"
+                    >
+                      {apiError}
                     </td>
-                    <td className="px-4 py-3">
-                      <div className="flex items-center gap-3">
-                        <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
-                          <Users className="w-4 h-4 text-muted-foreground" />
-                        </div>
-                        <div>
-                          <div className="text-sm font-medium text-foreground">
-                            {`${candidate.surname} ${candidate.firstName} ${candidate.otherName || ""}`.trim()}
+                  </tr>
+                )}
+                {!isLoading && !apiError && candidates.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={8}
+                      className="px-4 py-6 text-center text-sm text-muted-foreground"
+                    >
+                      No candidates found
+                    </td>
+                  </tr>
+                )}
+                {!isLoading &&
+                  candidates.map((candidate) => (
+                    <tr
+                      key={candidate.id}
+                      className="hover:bg-muted-10 dark:hover:bg-muted-20"
+                    >
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedCandidates.includes(candidate.id)}
+                          onChange={(e) =>
+                            handleSelectCandidate(
+                              candidate.id,
+                              e.target.checked
+                            )
+                          }
+                          className="rounded border-border"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm font-medium text-foreground">
+                        {candidate.registrationNumber}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-3">
+                          <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
+                            <Users className="w-4 h-4 text-muted-foreground" />
                           </div>
-                          <div className="text-sm text-muted-foreground">
-                            {candidate.gender}
+                          <div>
+                            <div className="text-sm font-medium text-foreground">
+                              {`${candidate.surname} ${candidate.firstName} ${candidate.otherName || ""}`.trim()}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {candidate.gender}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-4 py-3 text-sm text-muted-foreground">
-                      {candidate.email}
-                    </td>
-                    <td className="px-4 py-3 text-sm text-muted-foreground">
-                      {candidate.phoneNumber}
-                    </td>
-                    <td className="px-4 py-3 text-sm text-muted-foreground">
-                      <div className="flex items-center gap-1">
-                        <MapPin className="w-3 h-3" />
-                        {candidate.state}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span
-                        className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium border rounded-full ${getStatusColor(candidate.status)}`}
-                      >
-                        {getStatusIcon(candidate.status)}
-                        {candidate.status}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3 text-sm text-muted-foreground">
-                      {candidate.examScore ? (
+                      </td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        {candidate.phoneNumber}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        <div className="flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {candidate.state}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
                         <span
-                          className={`font-medium ${candidate.examScore >= 80 ? "text-success" : candidate.examScore >= 60 ? "text-warning" : "text-error"}`}
+                          className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium border rounded-full ${getStatusColor(candidate.registrationStatus)}`}
                         >
-                          {candidate.examScore}%
+                          {getStatusIcon(candidate.registrationStatus)}
+                          {candidate.registrationStatus}
                         </span>
-                      ) : (
-                        <span className="text-muted-foreground">N/A</span>
-                      )}
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="flex items-center gap-2">
-                        <button
-                          className="p-1 text-primary hover:bg-primary-10 rounded"
-                          onClick={() => setSelectedCandidate(candidate)}
-                        >
-                          <Eye className="w-4 h-4" />
-                        </button>
-                        <button className="p-1 text-success hover:bg-success-10 rounded">
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <button className="p-1 text-error hover:bg-error-10 rounded">
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        {formatDate(candidate.createdAt)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <button
+                            className="p-1 text-primary hover:bg-primary-10 rounded"
+                            onClick={() => setSelectedCandidate(candidate)}
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                          {onEdit && (
+                            <button
+                              className="p-1 text-success hover:bg-success-10 rounded"
+                              onClick={() => onEdit(candidate.id)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button className="p-1 text-error hover:bg-error-10 rounded">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
               </tbody>
             </table>
           </div>
@@ -770,36 +828,20 @@ const CandidateViewPage = () => {
 
             <div className="flex items-center gap-2">
               <button
-                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-                disabled={currentPage === 1}
+                onClick={goToPreviousPage}
+                disabled={currentPage === 1 || isLoading}
                 className="btn btn-sm btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Previous
               </button>
 
-              <div className="flex gap-1">
-                {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                  const page =
-                    Math.max(1, Math.min(totalPages - 4, currentPage - 2)) + i;
-                  return (
-                    <button
-                      key={page}
-                      onClick={() => setCurrentPage(page)}
-                      className={`btn btn-sm ${
-                        currentPage === page ? "btn-primary" : "btn-outline"
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  );
-                })}
-              </div>
+              <span className="text-sm text-muted-foreground px-2">
+                Page {currentPage}
+              </span>
 
               <button
-                onClick={() =>
-                  setCurrentPage(Math.min(totalPages, currentPage + 1))
-                }
-                disabled={currentPage === totalPages}
+                onClick={goToNextPage}
+                disabled={!nextCursor || isLoading}
                 className="btn btn-sm btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Next
@@ -807,9 +849,12 @@ const CandidateViewPage = () => {
             </div>
 
             <p className="text-sm text-muted-foreground">
-              Showing {(currentPage - 1) * itemsPerPage + 1} to{" "}
-              {Math.min(currentPage * itemsPerPage, sortedCandidates.length)} of{" "}
-              {sortedCandidates.length} candidates
+              Showing{" "}
+              {candidates.length === 0
+                ? 0
+                : (currentPage - 1) * itemsPerPage + 1}{" "}
+              to {(currentPage - 1) * itemsPerPage + candidates.length} of{" "}
+              {totalCount} candidates
             </p>
           </div>
         </div>
@@ -842,23 +887,18 @@ const CandidateViewPage = () => {
                         {`${selectedCandidate.surname} ${selectedCandidate.firstName} ${selectedCandidate.otherName || ""}`.trim()}
                       </h3>
                       <p className="text-muted-foreground">
-                        {selectedCandidate.id}
+                        {selectedCandidate.registrationNumber}
                       </p>
                       <div className="flex items-center gap-2 mt-2">
                         <span
-                          className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium border rounded-full ${getStatusColor(selectedCandidate.status)}`}
+                          className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium border rounded-full ${getStatusColor(selectedCandidate.registrationStatus)}`}
                         >
-                          {getStatusIcon(selectedCandidate.status)}
-                          {selectedCandidate.status}
+                          {getStatusIcon(selectedCandidate.registrationStatus)}
+                          {selectedCandidate.registrationStatus}
                         </span>
-                        {selectedCandidate.examScore && (
+                        {selectedCandidate.examSession && (
                           <span className="text-sm text-muted-foreground">
-                            Score:{" "}
-                            <span
-                              className={`font-medium ${selectedCandidate.examScore >= 80 ? "text-success" : selectedCandidate.examScore >= 60 ? "text-warning" : "text-error"}`}
-                            >
-                              {selectedCandidate.examScore}%
-                            </span>
+                            {selectedCandidate.examSession.name}
                           </span>
                         )}
                       </div>
@@ -879,7 +919,7 @@ const CandidateViewPage = () => {
                             Date of Birth:
                           </span>
                           <span className="font-medium text-foreground">
-                            {selectedCandidate.dateOfBirth}
+                            {formatDate(selectedCandidate.dateOfBirth)}
                           </span>
                         </div>
 
@@ -899,14 +939,6 @@ const CandidateViewPage = () => {
                           </span>
                         </div>
 
-                        <div className="flex items-center gap-2">
-                          <Mail className="w-4 h-4 text-muted-foreground" />
-                          <span className="text-muted-foreground">Email:</span>
-                          <span className="font-medium text-foreground">
-                            {selectedCandidate.email}
-                          </span>
-                        </div>
-
                         <div className="flex items-center gap-2">
                           <FileText className="w-4 h-4 text-muted-foreground" />
                           <span className="text-muted-foreground">NIN:</span>
@@ -957,13 +989,15 @@ const CandidateViewPage = () => {
                             Registered:
                           </span>
                           <span className="font-medium text-foreground">
-                            {selectedCandidate.registrationDate}
+                            {formatDate(selectedCandidate.createdAt)}
                           </span>
                         </div>
                       </div>
                     </div>
                   </div>
 
+                  <CandidateTimetable candidateId={selectedCandidate.id} />
+
                   {/* Actions */}
                   <div className="flex justify-end gap-3 pt-4 border-t border-border">
                     <button
@@ -973,10 +1007,15 @@ const CandidateViewPage = () => {
                       <Download className="w-4 h-4" />
                       Export Details
                     </button>
-                    <button className="btn btn-primary flex items-center gap-2">
-                      <Edit className="w-4 h-4" />
-                      Edit Candidate
-                    </button>
+                    {onEdit && (
+                      <button
+                        onClick={() => onEdit(selectedCandidate.id)}
+                        className="btn btn-primary flex items-center gap-2"
+                      >
+                        <Edit className="w-4 h-4" />
+                        Edit Candidate
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
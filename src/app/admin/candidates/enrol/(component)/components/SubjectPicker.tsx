@@ -0,0 +1,168 @@
+"use client";
+import { useEffect, useState } from "react";
+import { BookOpen, Lock } from "lucide-react";
+import {
+  DEFAULT_SUBJECT_RULES,
+  type CatalogueSubject,
+  type SubjectRules,
+} from "@/lib/validation/subject";
+
+interface SubjectCatalogueState {
+  subjects: CatalogueSubject[];
+  rules: SubjectRules;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load the subject catalogue and the open session's selection rules.
+ */
+export const useSubjectCatalogue = (): SubjectCatalogueState => {
+  const [state, setState] = useState<SubjectCatalogueState>({
+    subjects: [],
+    rules: DEFAULT_SUBJECT_RULES,
+    isLoading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    const fetchCatalogue = async () => {
+      try {
+        const res = await fetch("/api/admin/candidates/subjects");
+        const result = await res.json();
+
+        if (!res.ok || !result.success) {
+          throw new Error(result.message || "Failed to load subjects");
+        }
+
+        setState({
+          subjects: result.data.subjects,
+          rules: result.data.rules,
+          isLoading: false,
+          error: null,
+        });
+      } catch (error) {
+        console.error("Failed to load subjects:", error);
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: "Failed to load subjects. Please try again later.",
+        }));
+      }
+    };
+
+    fetchCatalogue();
+  }, []);
+
+  return state;
+};
+
+interface SubjectPickerProps {
+  subjects: CatalogueSubject[];
+  rules: SubjectRules;
+  selected: string[];
+  onChange: (codes: string[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+export const SubjectPicker = ({
+  subjects,
+  rules,
+  selected,
+  onChange,
+  error,
+  disabled = false,
+}: SubjectPickerProps) => {
+  const selectedSet = new Set(selected);
+
+  // Compulsory subjects are always part of the selection
+  useEffect(() => {
+    if (disabled || subjects.length === 0) return;
+    const missing = rules.compulsory.filter(
+      (code) =>
+        !selected.includes(code) &&
+        subjects.some((subject) => subject.code === code)
+    );
+    if (missing.length > 0) onChange([...selected, ...missing]);
+  }, [disabled, subjects, rules, selected, onChange]);
+
+  const blockedBy = (code: string) => {
+    const group = rules.exclusive.find((codes) => codes.includes(code));
+    return group?.find((other) => other !== code && selectedSet.has(other));
+  };
+
+  const toggle = (code: string) => {
+    if (selectedSet.has(code)) {
+      onChange(selected.filter((value) => value !== code));
+    } else {
+      onChange([...selected, code]);
+    }
+  };
+
+  const atMaximum = selected.length >= rules.maxSubjects;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="form-label flex items-center gap-2 mb-0">
+          <BookOpen className="w-4 h-4" />
+          Subjects *
+        </label>
+        <span
+          className={`text-sm ${
+            selected.length < rules.minSubjects
+              ? "text-warning"
+              : "text-success"
+          }`}
+        >
+          {selected.length} selected ({rules.minSubjects}–{rules.maxSubjects}{" "}
+          required)
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+        {subjects.map((subject) => {
+          const isSelected = selectedSet.has(subject.code);
+          const isCompulsory = rules.compulsory.includes(subject.code);
+          const conflict = blockedBy(subject.code);
+          const isDisabled =
+            disabled ||
+            isCompulsory ||
+            (!isSelected && (atMaximum || Boolean(conflict)));
+
+          return (
+            <label
+              key={subject.code}
+              title={
+                conflict
+                  ? `Cannot be taken with ${conflict}`
+                  : isCompulsory
+                    ? "Compulsory subject"
+                    : undefined
+              }
+              className={`flex items-center gap-2 p-2 border rounded-lg text-sm ${
+                isSelected ? "border-primary bg-primary/5" : "border-border"
+              } ${isDisabled && !isSelected ? "opacity-50" : ""} ${
+                isDisabled ? "cursor-not-allowed" : "cursor-pointer"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected}
+                disabled={isDisabled}
+                onChange={() => toggle(subject.code)}
+              />
+              <span className="flex-1">{subject.name}</span>
+              {isCompulsory && (
+                <Lock className="w-3 h-3 text-muted-foreground" />
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      {error && <p className="mt-1 text-sm text-error">{error}</p>}
+    </div>
+  );
+};
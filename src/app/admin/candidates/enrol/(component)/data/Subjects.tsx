@@ -1,27 +0,0 @@
-export const allSubjects = [
-  "English Language",
-  "Mathematics",
-  "Civic Education",
-  "Computer Studies",
-  "Physics",
-  "Chemistry",
-  "Biology",
-  "Agricultural Science",
-  "Economics",
-  "Commerce",
-  "Accounting",
-  "Government",
-  "Geography",
-  "History",
-  "Literature in English",
-  "Christian Religious Studies",
-  "Islamic Religious Studies",
-  "French",
-  "Igbo Language",
-  "Home Economics",
-  "Fine Arts",
-  "Music",
-  "Physical Education",
-  "Technical Drawing",
-  "Further Mathematics",
-];
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import {
@@ -16,9 +16,12 @@ import {
   LocationEdit,
   Edit,
 } from "lucide-react";
-
-// Cache for LGAs to avoid repeated API calls
-const lgaCache = new Map<string, string[]>();
+import { useStatesAndLgas } from "@/hooks/useStatesAndLgas";
+import { checkSubjectSelection } from "@/lib/validation/subject";
+import {
+  SubjectPicker,
+  useSubjectCatalogue,
+} from "./(component)/components/SubjectPicker";
 
 // Define types for our form data
 interface FormData {
@@ -35,10 +38,26 @@ interface FormData {
   disability: string;
   passport: File | null;
 
+  // Subject codes
+  subjects: string[];
+
   // Terms acceptance
   acceptedTerms: boolean;
 }
 
+// Saved candidate details returned by the registration API
+interface RegistrationDetails {
+  registrationNumber: string;
+  fullName: string;
+  dateOfBirth: string;
+  gender: string;
+  examSession: string | null;
+  registrationDate: string;
+  status: string;
+  // Set when the candidate was saved but part of the registration was not
+  notice: string | null;
+}
+
 export default function CandidateRegistrationPage() {
   const router = useRouter();
   const [step, setStep] = useState(1);
@@ -56,6 +75,9 @@ export default function CandidateRegistrationPage() {
     disability: "",
     passport: null,
 
+    // Subject codes
+    subjects: [],
+
     // Terms acceptance
     acceptedTerms: false,
   });
@@ -63,11 +85,19 @@ export default function CandidateRegistrationPage() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [passportPreview, setPassportPreview] = useState<string | null>(null);
-  const [states, setStates] = useState<string[]>([]);
-  const [lgas, setLgas] = useState<string[]>([]);
-  const [isLoadingStates, setIsLoadingStates] = useState(false);
-  const [isLoadingLgas, setIsLoadingLgas] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
+  const {
+    states,
+    lgas,
+    isLoadingStates,
+    isLoadingLgas,
+    error: locationError,
+  } = useStatesAndLgas(formData.state);
+  const {
+    subjects: subjectCatalogue,
+    rules: subjectRules,
+    error: subjectsError,
+  } = useSubjectCatalogue();
 
   // Check cache validity on mount
   useEffect(() => {
@@ -93,7 +123,7 @@ export default function CandidateRegistrationPage() {
     // Load saved form data if it exists and is still valid
     const cachedFormData = localStorage.getItem("cachedFormData");
     if (cachedFormData) {
-      setFormData(JSON.parse(cachedFormData));
+      setFormData((prev) => ({ ...prev, ...JSON.parse(cachedFormData) }));
     }
 
     const cachedPassportPreview = localStorage.getItem("cachedPassportPreview");
@@ -120,79 +150,10 @@ export default function CandidateRegistrationPage() {
     }
   }, [passportPreview]);
 
-  // Fetch states data on component mount
+  // Surface reference data failures with the other API errors
   useEffect(() => {
-    const fetchStatesData = async () => {
-      setIsLoadingStates(true);
-      setApiError(null);
-      try {
-        const cached = localStorage.getItem("cachedStates");
-        if (cached) {
-          setStates(JSON.parse(cached));
-          return;
-        }
-
-        const res = await fetch("https://apinigeria.vercel.app/api/v1/states");
-        if (!res.ok) {
-          throw new Error("Failed to fetch states");
-        }
-
-        const data = await res.json();
-        const statesList = data.states || [];
-        setStates(statesList);
-        localStorage.setItem("cachedStates", JSON.stringify(statesList));
-        localStorage.setItem("cachedTimestamp", Date.now().toString());
-      } catch (error) {
-        console.error("Failed to load states");
-        setApiError("Failed to load states data. Please try again later.");
-      } finally {
-        setIsLoadingStates(false);
-      }
-    };
-
-    fetchStatesData();
-  }, []);
-
-  // Fetch LGAs when state changes
-  useEffect(() => {
-    const fetchLgasData = async () => {
-      if (!formData.state) {
-        setLgas([]);
-        return;
-      }
-
-      if (lgaCache.has(formData.state)) {
-        setLgas(lgaCache.get(formData.state) || []);
-        return;
-      }
-
-      setIsLoadingLgas(true);
-      setApiError(null);
-      try {
-        const res = await fetch(
-          `https://apinigeria.vercel.app/api/v1/lga?state=${encodeURIComponent(
-            formData.state
-          )}`
-        );
-
-        if (!res.ok) {
-          throw new Error("Failed to fetch LGAs");
-        }
-
-        const data = await res.json();
-        const lgasList = data.lgas || [];
-        setLgas(lgasList);
-        lgaCache.set(formData.state, lgasList);
-      } catch (error) {
-        console.error("Failed to load LGAs");
-        setApiError("Failed to load LGAs data. Please try again later.");
-      } finally {
-        setIsLoadingLgas(false);
-      }
-    };
-
-    fetchLgasData();
-  }, [formData.state]);
+    if (locationError) setApiError(locationError);
+  }, [locationError]);
 
   const handleInputChange = (
     e: React.ChangeEvent<
@@ -222,6 +183,11 @@ export default function CandidateRegistrationPage() {
     }
   };
 
+  const handleSubjectsChange = useCallback((codes: string[]) => {
+    setFormData((prev) => ({ ...prev, subjects: codes }));
+    setErrors((prev) => (prev.subjects ? { ...prev, subjects: "" } : prev));
+  }, []);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -279,6 +245,13 @@ export default function CandidateRegistrationPage() {
     if (!formData.passport)
       newErrors.passport = "Passport photograph is required";
 
+    const subjectError = checkSubjectSelection(
+      formData.subjects,
+      subjectRules,
+      subjectCatalogue
+    );
+    if (subjectError) newErrors.subjects = subjectError;
+
     // Validate phone number format
     if (
       formData.phoneNumber &&
@@ -337,6 +310,7 @@ export default function CandidateRegistrationPage() {
       phoneNumber: "",
       disability: "",
       passport: null,
+      subjects: [],
       acceptedTerms: false,
     });
     setPassportPreview(null);
@@ -378,6 +352,9 @@ export default function CandidateRegistrationPage() {
       );
       submitFormData.append("disability", formData.disability || "None");
       submitFormData.append("acceptedTerms", formData.acceptedTerms.toString());
+      formData.subjects.forEach((code) =>
+        submitFormData.append("subjects", code)
+      );
 
       // Append passport file
       if (formData.passport) {
@@ -385,7 +362,7 @@ export default function CandidateRegistrationPage() {
       }
 
       // Make API call to backend
-      const response = await fetch("enrol/api/register", {
+      const response = await fetch("/api/admin/candidates", {
         method: "POST",
         body: submitFormData,
         // Don't set Content-Type header - let the browser set it for FormData
@@ -397,11 +374,22 @@ export default function CandidateRegistrationPage() {
         // Registration successful
         console.log("Registration successful:", result);
 
-        // Store registration details for success page
-        const registrationDetails = {
-          registrationId: result.data.registrationId,
-          registrationDate: result.data.registrationDate,
-          status: result.data.status,
+        // Store the saved record for the success page
+        const registrationDetails: RegistrationDetails = {
+          registrationNumber: result.data.registrationNumber,
+          fullName: [
+            result.data.surname,
+            result.data.firstName,
+            result.data.otherName,
+          ]
+            .filter(Boolean)
+            .join(" "),
+          dateOfBirth: result.data.dateOfBirth,
+          gender: result.data.gender,
+          examSession: result.data.examSession?.name ?? null,
+          registrationDate: result.data.createdAt,
+          status: result.data.registrationStatus,
+          notice: result.warning ? result.message : null,
         };
 
         // Store in sessionStorage (temporary storage)
@@ -432,6 +420,7 @@ export default function CandidateRegistrationPage() {
             "nin",
             "phoneNumber",
             "passport",
+            "subjects",
           ];
           const hasStep1Errors = Object.keys(result.errors).some((field) =>
             step1Fields.includes(field)
@@ -442,7 +431,9 @@ export default function CandidateRegistrationPage() {
           }
         } else {
           // General error
-          setApiError(result.error || "Registration failed. Please try again.");
+          setApiError(
+            result.message || "Registration failed. Please try again."
+          );
         }
       }
     } catch (error) {
@@ -476,11 +467,8 @@ export default function CandidateRegistrationPage() {
   };
 
   // Add this to your component to show registration details on success page
-  const [registrationDetails, setRegistrationDetails] = useState<{
-    registrationId: string;
-    registrationDate: string;
-    status: string;
-  } | null>(null);
+  const [registrationDetails, setRegistrationDetails] =
+    useState<RegistrationDetails | null>(null);
 
   // Add this useEffect to load registration details when reaching success step
   useEffect(() => {
@@ -764,7 +752,7 @@ export default function CandidateRegistrationPage() {
                 <div className="border-2 border-dashed border-border rounded-lg p-4 text-center">
                   <input
                     type="file"
-                    accept="image/*"
+                    accept="image/jpeg,image/png,image/webp"
                     onChange={handleFileChange}
                     className="hidden"
                     id="passport-upload"
@@ -793,7 +781,7 @@ export default function CandidateRegistrationPage() {
                           Click to upload passport photo
                         </span>
                         <span className="text-xs text-muted-foreground">
-                          Max 2MB, JPG/PNG
+                          Max 2MB, JPG/PNG/WebP
                         </span>
                       </div>
                     )}
@@ -805,6 +793,20 @@ export default function CandidateRegistrationPage() {
               </div>
             </div>
 
+            <div className="card">
+              {subjectsError ? (
+                <p className="text-sm text-error">{subjectsError}</p>
+              ) : (
+                <SubjectPicker
+                  subjects={subjectCatalogue}
+                  rules={subjectRules}
+                  selected={formData.subjects}
+                  onChange={handleSubjectsChange}
+                  error={errors.subjects}
+                />
+              )}
+            </div>
+
             <button
               type="button"
               onClick={() => {
@@ -950,6 +952,27 @@ export default function CandidateRegistrationPage() {
                   </div>
                 </div>
               </div>
+
+              {/* Subjects */}
+              <div className="space-y-3 mt-6">
+                <h4 className="font-medium text-foreground border-b border-border pb-2">
+                  Subjects ({formData.subjects.length})
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {subjectCatalogue
+                    .filter((subject) =>
+                      formData.subjects.includes(subject.code)
+                    )
+                    .map((subject) => (
+                      <span
+                        key={subject.code}
+                        className="px-2 py-1 text-xs rounded-full bg-primary/10 text-primary"
+                      >
+                        {subject.name}
+                      </span>
+                    ))}
+                </div>
+              </div>
             </div>
 
             {/* Navigation */}
@@ -1105,6 +1128,12 @@ export default function CandidateRegistrationPage() {
               Your examination registration has been completed successfully.
             </p>
 
+            {registrationDetails?.notice && (
+              <div className="alert alert-warning max-w-md mx-auto mb-6 text-sm text-left">
+                {registrationDetails.notice}
+              </div>
+            )}
+
             {/* Candidate Info Card */}
             <div className="max-w-md mx-auto card text-left space-y-4">
               {/* Candidate Photo */}
@@ -1128,20 +1157,34 @@ export default function CandidateRegistrationPage() {
               <div className="space-y-2 text-sm">
                 <p>
                   <span className="font-semibold">Full Name:</span>{" "}
-                  {`${formData.surname} ${formData.firstName} ${formData.otherName || ""}`.trim()}
+                  {registrationDetails?.fullName || "N/A"}
                 </p>
                 <p>
                   <span className="font-semibold">Date of Birth:</span>{" "}
-                  {formData.dateOfBirth || "N/A"}
+                  {registrationDetails?.dateOfBirth
+                    ? new Date(
+                        registrationDetails.dateOfBirth
+                      ).toLocaleDateString()
+                    : "N/A"}
                 </p>
                 <p>
                   <span className="font-semibold">Gender:</span>{" "}
-                  {formData.gender || "N/A"}
+                  {registrationDetails?.gender || "N/A"}
+                </p>
+                {registrationDetails?.examSession && (
+                  <p>
+                    <span className="font-semibold">Exam Session:</span>{" "}
+                    {registrationDetails.examSession}
+                  </p>
+                )}
+                <p>
+                  <span className="font-semibold">Status:</span>{" "}
+                  {registrationDetails?.status || "N/A"}
                 </p>
                 <p>
                   <span className="font-semibold">Registration No:</span>{" "}
                   <strong>
-                    CEC-{Math.random().toString(36).substr(2, 9).toUpperCase()}
+                    {registrationDetails?.registrationNumber || "N/A"}
                   </strong>
                 </p>
               </div>
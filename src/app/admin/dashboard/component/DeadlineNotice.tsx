@@ -1,61 +1,74 @@
 import { Clock, Calendar } from "lucide-react";
-import { useEffect, useState } from "react";
+import type { CalendarEvent } from "@/hooks/useCalendar";
 
 interface DeadlineNoticeProps {
-  deadline: string;
+  deadline: CalendarEvent | null;
+  isLoading?: boolean;
   className?: string;
   variant?: "simple" | "detailed";
 }
 
-// Function to get the next Saturday from a given date
-const getNextSaturday = (date: Date): Date => {
-  const result = new Date(date);
-  result.setDate(result.getDate() + ((6 - result.getDay() + 7) % 7));
-  return result;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const countdownText = (closesAt: Date, label: string) => {
+  const days = Math.ceil((closesAt.getTime() - Date.now()) / DAY_MS);
+  if (days <= 1) return `${label} closes within a day`;
+  return `${days} days until ${label.toLowerCase()} closes`;
 };
 
 export default function DeadlineNotice({
   deadline,
+  isLoading = false,
   className = "",
   variant = "simple",
 }: DeadlineNoticeProps) {
-  const [saturdayDeadline, setSaturdayDeadline] = useState<string>(deadline);
+  if (isLoading) {
+    return variant === "detailed" ? (
+      <div className="card mb-10 animate-pulse h-36" />
+    ) : null;
+  }
 
-  // Ensure deadline is always a Saturday
-  useEffect(() => {
-    const initialDate = new Date(deadline);
-    if (initialDate.getDay() !== 6) {
-      // 6 = Saturday
-      const nextSaturday = getNextSaturday(initialDate);
-      setSaturdayDeadline(nextSaturday.toISOString().split("T")[0]);
-    }
-  }, [deadline]);
+  if (!deadline) {
+    return variant === "detailed" ? (
+      <div className="card mb-10">
+        <p className="text-sm text-muted-foreground">Registration Deadline</p>
+        <h3 className="text-lg font-semibold mt-1">
+          No exam session is open for registration
+        </h3>
+      </div>
+    ) : null;
+  }
 
-  // Calculate days until deadline
-  const daysUntilDeadline = Math.ceil(
-    (new Date(saturdayDeadline).getTime() - new Date().getTime()) /
-      (1000 * 60 * 60 * 24)
-  );
+  const closesAt = new Date(deadline.start);
+  const isLate = deadline.type === "LATE_REGISTRATION_CLOSES";
+  const label = isLate ? "Late registration" : "Registration";
 
   // Format full date with day name
-  const formattedDate = new Date(saturdayDeadline).toLocaleDateString("en-NG", {
+  const formattedDate = closesAt.toLocaleDateString("en-NG", {
     weekday: "long",
     day: "numeric",
     month: "long",
     year: "numeric",
   });
 
+  const formattedTime = closesAt.toLocaleTimeString("en-NG", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
   if (variant === "detailed") {
     return (
       <div className="card mb-10">
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm text-muted-foreground">
-              Registration Deadline
+              {isLate ? "Late Registration Deadline" : "Registration Deadline"}
             </p>
             <h3 className="text-2xl font-bold mt-1">{formattedDate}</h3>
             <p className="text-sm text-muted-foreground mt-2">
-              Final date for registration (Saturday)
+              {deadline.sessionName} {label.toLowerCase()} closes at{" "}
+              {formattedTime}
+              {isLate && "; a late fee applies"}
             </p>
           </div>
           <div className="bg-success-10 p-3 rounded-full dark:bg-success-20">
@@ -64,9 +77,7 @@ export default function DeadlineNotice({
         </div>
         <div className="mt-4 flex items-center gap-2 px-3 py-2 bg-warning-10 text-warning rounded-lg dark:bg-warning-20 dark:text-warning-80">
           <Clock className="w-4 h-4" />
-          <span className="text-sm">
-            {daysUntilDeadline} days until registration closes
-          </span>
+          <span className="text-sm">{countdownText(closesAt, label)}</span>
         </div>
       </div>
     );
@@ -78,7 +89,7 @@ export default function DeadlineNotice({
     >
       <Clock className="w-4 h-4" />
       <span>
-        {daysUntilDeadline} days until registration closes on Saturday
+        {countdownText(closesAt, label)} on {formattedDate}
       </span>
     </div>
   );
@@ -1,51 +1,131 @@
 // components/admin/UpcomingEvents.tsx
-import { Calendar } from "lucide-react";
-
-const mockEvents = [
-  { date: "2025-09-10", title: "Registration Deadline" },
-  { date: "2025-09-15", title: "MOCK Exam - Physics" },
-  { date: "2025-09-16", title: "MOCK Exam - English" },
-  { date: "2025-09-18", title: "MOCK Exam - Chemistry" },
-  { date: "2025-09-22", title: "MOCK Exam - Biology" },
-  { date: "2025-09-25", title: "MOCK Exam - Mathematics" },
-  { date: "2025-10-01", title: "Results Release" },
-  { date: "2025-10-05", title: "Parent-Teacher Meeting" },
-];
-
-export default function UpcomingEvents() {
+import { useState } from "react";
+import { Calendar, Check, Download, Link2 } from "lucide-react";
+import type { CalendarEvent, CalendarEventType } from "@/hooks/useCalendar";
+
+interface UpcomingEventsProps {
+  events: CalendarEvent[];
+  feedUrl: string | null;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+const TYPE_STYLES: Record<CalendarEventType, string> = {
+  REGISTRATION_OPENS: "bg-success-10 text-success",
+  REGISTRATION_CLOSES: "bg-warning-10 text-warning",
+  LATE_REGISTRATION_CLOSES: "bg-error-10 text-error",
+  EXAM: "bg-primary-10 text-primary",
+  RESULT_RELEASE: "bg-info-10 text-info",
+};
+
+const TYPE_LABELS: Record<CalendarEventType, string> = {
+  REGISTRATION_OPENS: "Registration",
+  REGISTRATION_CLOSES: "Deadline",
+  LATE_REGISTRATION_CLOSES: "Late Deadline",
+  EXAM: "Exam",
+  RESULT_RELEASE: "Results",
+};
+
+export default function UpcomingEvents({
+  events,
+  feedUrl,
+  isLoading = false,
+  error = null,
+}: UpcomingEventsProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      console.error("Failed to copy calendar link");
+    }
+  };
+
   return (
     <div className="card">
-      <div className="flex items-center gap-2 mb-5">
-        <div className="p-2 bg-primary-10 rounded-lg">
-          <Calendar className="w-5 h-5 text-primary" />
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold text-foreground">
-            Upcoming Events
-          </h3>
-          <p className="text-sm text-muted-foreground">
-            Important dates to remember
-          </p>
+      <div className="flex items-center justify-between gap-2 mb-5">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-primary-10 rounded-lg">
+            <Calendar className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">
+              Upcoming Events
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              Important dates to remember
+            </p>
+          </div>
         </div>
+
+        {feedUrl && (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={copyFeedUrl}
+              className="btn btn-outline flex items-center gap-2 text-sm"
+              title="Copy a link your calendar app can subscribe to"
+            >
+              {copied ? (
+                <Check className="w-4 h-4" />
+              ) : (
+                <Link2 className="w-4 h-4" />
+              )}
+              {copied ? "Copied" : "Subscribe"}
+            </button>
+            <a
+              href="/api/admin/calendar?format=ics"
+              className="btn btn-outline flex items-center gap-2 text-sm"
+              title="Download as a calendar file"
+            >
+              <Download className="w-4 h-4" />
+              .ics
+            </a>
+          </div>
+        )}
       </div>
 
-      <ul className="space-y-4 mt-6 max-h-96 overflow-y-auto pr-2">
-        {mockEvents.map((event, i) => (
-          <li
-            key={i}
-            className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted-10 dark:hover:bg-muted-20 transition-colors"
-          >
-            <div className="text-sm font-medium text-primary min-w-[80px]">
-              {new Date(event.date).toLocaleDateString("en-GB", {
-                day: "2-digit",
-                month: "short",
-              })}
-            </div>
-            <hr className="border-l border-border h-6" />
-            <span className="text-sm text-foreground">{event.title}</span>
-          </li>
-        ))}
-      </ul>
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground mt-6">Loading dates...</p>
+      ) : events.length === 0 && !error ? (
+        <p className="text-sm text-muted-foreground mt-6">
+          No upcoming exam dates have been scheduled.
+        </p>
+      ) : (
+        <ul className="space-y-4 mt-6 max-h-96 overflow-y-auto pr-2">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted-10 dark:hover:bg-muted-20 transition-colors"
+            >
+              <div className="text-sm font-medium text-primary min-w-[80px]">
+                {new Date(event.start).toLocaleDateString("en-GB", {
+                  day: "2-digit",
+                  month: "short",
+                  ...(event.allDay ? { timeZone: "UTC" } : {}),
+                })}
+              </div>
+              <hr className="border-l border-border h-6" />
+              <span className="text-sm text-foreground flex-1">
+                {event.title}
+              </span>
+              <span
+                className={`px-2 py-0.5 text-xs rounded-full font-medium ${
+                  TYPE_STYLES[event.type]
+                }`}
+              >
+                {TYPE_LABELS[event.type]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
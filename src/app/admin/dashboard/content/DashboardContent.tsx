@@ -6,8 +6,11 @@ import QuickLinksX from "../component/QuickLinksX";
 import DeadlineNotice from "../component/DeadlineNotice";
 import TrendInsights from "../component/TrendsInsights";
 import UpcomingEvents from "../component/UpcomingEvents";
+import { useCalendar } from "@/hooks/useCalendar";
 
 const DashboardContent = () => {
+  const { events, nextDeadline, feedUrl, isLoading, error } = useCalendar();
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
@@ -20,7 +23,8 @@ const DashboardContent = () => {
       </div>
 
       <DeadlineNotice
-        deadline="2025-10-30"
+        deadline={nextDeadline}
+        isLoading={isLoading}
         className="my-4"
         variant="detailed"
       />
@@ -30,7 +34,12 @@ const DashboardContent = () => {
       <RecentActivity />
       <QuickLinks />
       <QuickLinksX />
-      <UpcomingEvents />
+      <UpcomingEvents
+        events={events}
+        feedUrl={feedUrl}
+        isLoading={isLoading}
+        error={error}
+      />
     </div>
   );
 };
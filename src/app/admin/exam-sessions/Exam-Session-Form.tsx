@@ -0,0 +1,575 @@
+"use client";
+import React, { useState } from "react";
+import { Loader, Save, X } from "lucide-react";
+import { DEFAULT_ASSESSMENT_COMPONENTS } from "@/lib/validation/assessment";
+import { DEFAULT_SUBJECT_RULES } from "@/lib/validation/subject";
+
+export type ExamSessionRecord = {
+  id: string;
+  name: string;
+  description: string | null;
+  examDate: string;
+  examTime: string;
+  duration: number;
+  registrationStartDate: string;
+  registrationEndDate: string;
+  lateRegistrationEndDate: string | null;
+  resultReleaseDate: string | null;
+  registrationFee: string;
+  feeRules: {
+    earlyBird: {
+      until: string;
+      type: "amount" | "percent";
+      value: number;
+    } | null;
+    lateFee: number;
+    subjectFees: Record<string, number>;
+  } | null;
+  status: string;
+  isActive: boolean;
+  subjectRules: {
+    compulsory: string[];
+    minSubjects: number;
+    maxSubjects: number;
+    exclusive: string[][];
+  } | null;
+  assessmentComponents: { code: string; maxScore: number }[] | null;
+  allowedTransitions: string[];
+  _count: { candidates: number; schools: number };
+};
+
+type FormFields = {
+  name: string;
+  description: string;
+  examDate: string;
+  examTime: string;
+  duration: string;
+  registrationStartDate: string;
+  registrationEndDate: string;
+  lateRegistrationEndDate: string;
+  resultReleaseDate: string;
+  registrationFee: string;
+  earlyBirdUntil: string;
+  earlyBirdType: string;
+  earlyBirdValue: string;
+  lateFee: string;
+  subjectFees: string;
+  isActive: boolean;
+  useDefaultRules: boolean;
+  compulsory: string;
+  minSubjects: string;
+  maxSubjects: string;
+  exclusive: string;
+  assessmentComponents: string;
+};
+
+// "CA1:20, CA2:20, EXAM:60"
+const formatComponents = (components: { code: string; maxScore: number }[]) =>
+  components
+    .map((component) => `${component.code}:${component.maxScore}`)
+    .join(", ");
+
+const parseComponents = (value: string) =>
+  value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [code, maxScore] = part.split(":").map((piece) => piece.trim());
+      return { code: code.toUpperCase(), maxScore: Number(maxScore) };
+    });
+
+// "FRE:1500, MUS:1000"
+const formatSubjectFees = (fees: Record<string, number>) =>
+  Object.entries(fees)
+    .map(([code, amount]) => `${code}:${amount}`)
+    .join(", ");
+
+const parseSubjectFees = (value: string) =>
+  Object.fromEntries(
+    value
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => {
+        const [code, amount] = part.split(":").map((piece) => piece.trim());
+        return [code.toUpperCase(), Number(amount)];
+      })
+  );
+
+// Edits to any of these are sent as one feeRules object
+const FEE_RULE_FIELDS = [
+  "earlyBirdUntil",
+  "earlyBirdType",
+  "earlyBirdValue",
+  "lateFee",
+  "subjectFees",
+] as const;
+
+// <input type="date"> wants YYYY-MM-DD
+const toDateInput = (value: string) => value.slice(0, 10);
+
+const toFormFields = (session?: ExamSessionRecord): FormFields => {
+  const rules = session?.subjectRules ?? DEFAULT_SUBJECT_RULES;
+  const earlyBird = session?.feeRules?.earlyBird;
+
+  return {
+    name: session?.name ?? "",
+    description: session?.description ?? "",
+    examDate: session ? toDateInput(session.examDate) : "",
+    examTime: session?.examTime ?? "09:00 AM",
+    duration: session ? String(session.duration) : "180",
+    registrationStartDate: session
+      ? toDateInput(session.registrationStartDate)
+      : "",
+    registrationEndDate: session
+      ? toDateInput(session.registrationEndDate)
+      : "",
+    lateRegistrationEndDate: session?.lateRegistrationEndDate
+      ? toDateInput(session.lateRegistrationEndDate)
+      : "",
+    resultReleaseDate: session?.resultReleaseDate
+      ? toDateInput(session.resultReleaseDate)
+      : "",
+    registrationFee: session ? String(Number(session.registrationFee)) : "",
+    earlyBirdUntil: earlyBird ? toDateInput(earlyBird.until) : "",
+    earlyBirdType: earlyBird?.type ?? "percent",
+    earlyBirdValue: earlyBird ? String(earlyBird.value) : "",
+    lateFee: session?.feeRules?.lateFee ? String(session.feeRules.lateFee) : "",
+    subjectFees: session?.feeRules
+      ? formatSubjectFees(session.feeRules.subjectFees)
+      : "",
+    isActive: session?.isActive ?? true,
+    useDefaultRules: !session?.subjectRules,
+    compulsory: rules.compulsory.join(", "),
+    minSubjects: String(rules.minSubjects),
+    maxSubjects: String(rules.maxSubjects),
+    exclusive: rules.exclusive.map((group) => group.join(", ")).join("; "),
+    assessmentComponents: session?.assessmentComponents
+      ? formatComponents(session.assessmentComponents)
+      : "",
+  };
+};
+
+const splitCodes = (value: string) =>
+  value
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+
+interface ExamSessionFormProps {
+  session?: ExamSessionRecord;
+  onSaved: (message: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Create or edit an exam session. Only changed fields are sent on edit.
+ */
+const ExamSessionForm = ({
+  session,
+  onSaved,
+  onCancel,
+}: ExamSessionFormProps) => {
+  const [initial] = useState(() => toFormFields(session));
+  const [formData, setFormData] = useState<FormFields>(initial);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const termsLocked = !!session && session._count.candidates > 0;
+
+  const handleInputChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value, type } = e.target as HTMLInputElement;
+    const checked = (e.target as HTMLInputElement).checked;
+
+    setFormData((prev) => ({
+      ...prev,
+      [name]: type === "checkbox" ? checked : value,
+    }));
+
+    if (errors[name]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+    }
+  };
+
+  const buildPayload = () => {
+    const subjectRules = formData.useDefaultRules
+      ? null
+      : {
+          compulsory: splitCodes(formData.compulsory),
+          minSubjects: Number(formData.minSubjects),
+          maxSubjects: Number(formData.maxSubjects),
+          exclusive: formData.exclusive
+            .split(";")
+            .map(splitCodes)
+            .filter((group) => group.length > 0),
+        };
+
+    // Blank fee fields charge the registration fee alone
+    const feeRules =
+      formData.earlyBirdUntil ||
+      formData.earlyBirdValue ||
+      formData.lateFee ||
+      formData.subjectFees.trim()
+        ? {
+            earlyBird:
+              formData.earlyBirdUntil || formData.earlyBirdValue
+                ? {
+                    until: formData.earlyBirdUntil
+                      ? `${formData.earlyBirdUntil}T00:00:00`
+                      : "",
+                    type: formData.earlyBirdType,
+                    value: Number(formData.earlyBirdValue),
+                  }
+                : null,
+            lateFee: Number(formData.lateFee || 0),
+            subjectFees: parseSubjectFees(formData.subjectFees),
+          }
+        : null;
+
+    const payload: Record<string, unknown> = {
+      name: formData.name,
+      description: formData.description || null,
+      examDate: formData.examDate,
+      examTime: formData.examTime,
+      duration: formData.duration,
+      registrationStartDate: formData.registrationStartDate,
+      // Registration stays open until the end of the chosen day
+      registrationEndDate: formData.registrationEndDate
+        ? `${formData.registrationEndDate}T23:59:59`
+        : "",
+      lateRegistrationEndDate: formData.lateRegistrationEndDate
+        ? `${formData.lateRegistrationEndDate}T23:59:59`
+        : null,
+      resultReleaseDate: formData.resultReleaseDate || null,
+      registrationFee: formData.registrationFee,
+      feeRules,
+      isActive: formData.isActive,
+      subjectRules,
+      // Blank uses the default components
+      assessmentComponents: formData.assessmentComponents.trim()
+        ? parseComponents(formData.assessmentComponents)
+        : null,
+    };
+
+    if (!session) return payload;
+
+    // On edit send only what changed
+    const rulesChanged = (
+      [
+        "useDefaultRules",
+        "compulsory",
+        "minSubjects",
+        "maxSubjects",
+        "exclusive",
+      ] as const
+    ).some((field) => formData[field] !== initial[field]);
+    const feesChanged = FEE_RULE_FIELDS.some(
+      (field) => formData[field] !== initial[field]
+    );
+
+    return Object.fromEntries(
+      Object.entries(payload).filter(([field]) =>
+        field === "subjectRules"
+          ? rulesChanged
+          : field === "feeRules"
+            ? feesChanged
+            : formData[field as keyof FormFields] !==
+              initial[field as keyof FormFields]
+      )
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setApiError(null);
+
+    const payload = buildPayload();
+    if (session && Object.keys(payload).length === 0) {
+      onSaved("No changes were made");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        session
+          ? `/api/admin/exam-sessions/${session.id}`
+          : "/api/admin/exam-sessions",
+        {
+          method: session ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        // "subjectRules.minSubjects" -> the minSubjects input;
+        // "assessmentComponents.0.maxScore" -> the components input;
+        // "feeRules.earlyBird.until" -> the earlyBirdUntil input
+        setErrors(
+          Object.fromEntries(
+            Object.entries<string>(result.errors || {}).map(
+              ([field, message]) => [
+                field
+                  .replace(/^subjectRules\.(\w+).*$/, "$1")
+                  .replace(/^assessmentComponents\..*$/, "assessmentComponents")
+                  .replace(/^feeRules\.earlyBird\.until$/, "earlyBirdUntil")
+                  .replace(/^feeRules\.earlyBird.*$/, "earlyBirdValue")
+                  .replace(/^feeRules\.lateFee$/, "lateFee")
+                  .replace(/^feeRules\..*$/, "subjectFees"),
+                message,
+              ]
+            )
+          )
+        );
+        setApiError(result.message || "Failed to save the exam session");
+        return;
+      }
+
+      onSaved(result.message);
+    } catch (error) {
+      console.error("Failed to save exam session:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderInput = (
+    name: keyof FormFields,
+    label: string,
+    type: string = "text",
+    disabled: boolean = false
+  ) => (
+    <div>
+      <label className="form-label">{label}</label>
+      <input
+        type={type}
+        name={name}
+        value={String(formData[name])}
+        onChange={handleInputChange}
+        disabled={disabled}
+        className={`form-input ${errors[name] ? "border-error" : ""}`}
+      />
+      {errors[name] && (
+        <p className="text-error text-sm mt-1">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="card p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-foreground">
+          {session ? `Edit ${session.name}` : "New Exam Session"}
+        </h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1 rounded-lg hover:bg-muted-10 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {apiError && <div className="alert alert-error">{apiError}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderInput("name", "Session Name")}
+        {renderInput(
+          "registrationFee",
+          "Registration Fee (₦)",
+          "number",
+          termsLocked
+        )}
+      </div>
+
+      <div>
+        <label className="form-label">Description</label>
+        <textarea
+          name="description"
+          value={formData.description}
+          onChange={handleInputChange}
+          rows={2}
+          className="form-input"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {renderInput("examDate", "Exam Date", "date")}
+        {renderInput("examTime", "Exam Time (e.g. 09:00 AM)")}
+        {renderInput("duration", "Duration (minutes)", "number")}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {renderInput("registrationStartDate", "Registration Opens", "date")}
+        {renderInput("registrationEndDate", "Registration Closes", "date")}
+        {renderInput(
+          "lateRegistrationEndDate",
+          "Late Registration Closes (optional)",
+          "date"
+        )}
+        {renderInput("resultReleaseDate", "Result Release (optional)", "date")}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          name="isActive"
+          checked={formData.isActive}
+          onChange={handleInputChange}
+        />
+        Active (inactive sessions never accept registrations)
+      </label>
+
+      {termsLocked && (
+        <p className="text-sm text-muted-foreground">
+          The fee and subject rules are locked because candidates have already
+          registered for this session.
+        </p>
+      )}
+
+      <div className="space-y-4 border-t border-border pt-4">
+        <h3 className="font-semibold text-foreground">Fee Rules</h3>
+        <p className="text-sm text-muted-foreground">
+          Applied to each candidate when the school is invoiced, on top of the
+          registration fee. Leave blank to charge the registration fee alone.
+          The late fee is charged to candidates registered after registration
+          closes, during late registration.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {renderInput(
+            "earlyBirdUntil",
+            "Early-Bird Discount Before",
+            "date",
+            termsLocked
+          )}
+          <div>
+            <label className="form-label">Discount Type</label>
+            <select
+              name="earlyBirdType"
+              value={formData.earlyBirdType}
+              onChange={handleInputChange}
+              disabled={termsLocked}
+              className="form-select"
+            >
+              <option value="percent">Percentage of the fee</option>
+              <option value="amount">Fixed amount (₦)</option>
+            </select>
+          </div>
+          {renderInput(
+            "earlyBirdValue",
+            "Early-Bird Discount",
+            "number",
+            termsLocked
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderInput(
+            "lateFee",
+            "Late Registration Fee (₦)",
+            "number",
+            termsLocked
+          )}
+          {renderInput(
+            "subjectFees",
+            "Subject Fees (e.g. FRE:1500, MUS:1000)",
+            "text",
+            termsLocked
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4 border-t border-border pt-4">
+        <h3 className="font-semibold text-foreground">Subject Rules</h3>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            name="useDefaultRules"
+            checked={formData.useDefaultRules}
+            onChange={handleInputChange}
+            disabled={termsLocked}
+          />
+          Use the default rules (English and Mathematics compulsory, 8 to 9
+          subjects)
+        </label>
+
+        {!formData.useDefaultRules && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderInput(
+              "compulsory",
+              "Compulsory Subject Codes (comma separated)",
+              "text",
+              termsLocked
+            )}
+            {renderInput(
+              "exclusive",
+              "Exclusive Groups (e.g. CRS, IRS; FRE, IGB)",
+              "text",
+              termsLocked
+            )}
+            {renderInput(
+              "minSubjects",
+              "Minimum Subjects",
+              "number",
+              termsLocked
+            )}
+            {renderInput(
+              "maxSubjects",
+              "Maximum Subjects",
+              "number",
+              termsLocked
+            )}
+          </div>
+        )}
+        {errors.subjectRules && (
+          <p className="text-error text-sm">{errors.subjectRules}</p>
+        )}
+      </div>
+
+      <div className="space-y-4 border-t border-border pt-4">
+        <h3 className="font-semibold text-foreground">Assessment Components</h3>
+        <p className="text-sm text-muted-foreground">
+          Columns of the score sheet with their maximum scores. Leave blank for
+          the default ({formatComponents(DEFAULT_ASSESSMENT_COMPONENTS)}).
+          Components cannot change once scores have been entered.
+        </p>
+        {renderInput(
+          "assessmentComponents",
+          "Components (e.g. CA1:20, CA2:20, EXAM:60)"
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="btn btn-outline">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="btn btn-primary flex items-center gap-2"
+        >
+          {isSaving ? (
+            <Loader className="w-4 h-4 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4" />
+          )}
+          {session ? "Save Changes" : "Create Session"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ExamSessionForm;
@@ -0,0 +1,552 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  AlertCircle,
+  CalendarClock,
+  CalendarPlus,
+  CheckCircle,
+  Edit,
+  Loader,
+  Scale,
+  School,
+  Trash2,
+} from "lucide-react";
+import Modal from "@/components/glob/Modal";
+import ExamSessionForm, { type ExamSessionRecord } from "./Exam-Session-Form";
+import GradingSchemeEditor from "./Grading-Scheme";
+import TimetableEditor from "./Timetable-Editor";
+
+type SchoolOption = {
+  id: string;
+  centerNumber: string;
+  centerName: string;
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Upcoming: "bg-muted text-foreground",
+  Registration_Open: "bg-success/10 text-success",
+  Registration_Closed: "bg-warning/10 text-warning",
+  In_Progress: "bg-primary/10 text-primary",
+  Completed: "bg-muted text-muted-foreground",
+  Cancelled: "bg-error/10 text-error",
+};
+
+const transitionLabel = (from: string, to: string) => {
+  switch (to) {
+    case "Registration_Open":
+      return from === "Registration_Closed"
+        ? "Reopen Registration"
+        : "Open Registration";
+    case "Registration_Closed":
+      return "Close Registration";
+    case "In_Progress":
+      return "Start Exam";
+    case "Completed":
+      return "Complete";
+    case "Cancelled":
+      return "Cancel Session";
+    default:
+      return to;
+  }
+};
+
+// Mirrors the server rules: cancelling and reopening need a reason
+const needsReason = (from: string, to: string) =>
+  to === "Cancelled" ||
+  (from === "Registration_Closed" && to === "Registration_Open");
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const formatFee = (value: string) =>
+  `₦${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+const ExamSessions = () => {
+  const [sessions, setSessions] = useState<ExamSessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ExamSessionRecord | "new" | null>(
+    null
+  );
+  const [timetableFor, setTimetableFor] = useState<ExamSessionRecord | null>(
+    null
+  );
+  const [gradingFor, setGradingFor] = useState<ExamSessionRecord | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Transition waiting for a reason
+  const [pendingTransition, setPendingTransition] = useState<{
+    session: ExamSessionRecord;
+    to: string;
+  } | null>(null);
+  const [reason, setReason] = useState("");
+
+  // School attachment
+  const [schoolsFor, setSchoolsFor] = useState<ExamSessionRecord | null>(null);
+  const [schoolSearch, setSchoolSearch] = useState("");
+  const [schoolOptions, setSchoolOptions] = useState<SchoolOption[]>([]);
+  const [selectedSchools, setSelectedSchools] = useState<SchoolOption[]>([]);
+
+  const fetchSessions = useCallback(async () => {
+    setIsLoading(true);
+    setApiError(null);
+
+    try {
+      const response = await fetch("/api/admin/exam-sessions");
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load exam sessions");
+        return;
+      }
+
+      setSessions(result.data.sessions);
+    } catch (error) {
+      console.error("Failed to load exam sessions:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const request = async (
+    sessionId: string,
+    url: string,
+    init: RequestInit
+  ): Promise<boolean> => {
+    setBusyId(sessionId);
+    setApiError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Action failed. Please try again.");
+        return false;
+      }
+
+      setSuccessMessage(result.message);
+      await fetchSessions();
+      return true;
+    } catch (error) {
+      console.error("Exam session action failed:", error);
+      setApiError("Network error. Please check your connection.");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const changeStatus = async (
+    session: ExamSessionRecord,
+    to: string,
+    changeReason?: string
+  ) => {
+    const done = await request(
+      session.id,
+      `/api/admin/exam-sessions/${session.id}/status`,
+      {
+        method: "POST",
+        body: JSON.stringify({ status: to, reason: changeReason }),
+      }
+    );
+    if (done) {
+      setPendingTransition(null);
+      setReason("");
+    }
+  };
+
+  const handleTransition = (session: ExamSessionRecord, to: string) => {
+    if (needsReason(session.status, to)) {
+      setPendingTransition({ session, to });
+      return;
+    }
+    changeStatus(session, to);
+  };
+
+  const deleteSession = (session: ExamSessionRecord) =>
+    request(session.id, `/api/admin/exam-sessions/${session.id}`, {
+      method: "DELETE",
+    });
+
+  const openSchools = async (session: ExamSessionRecord) => {
+    setSchoolsFor(session);
+    setSchoolSearch("");
+    setSelectedSchools([]);
+
+    try {
+      const response = await fetch(`/api/admin/exam-sessions/${session.id}`);
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setSelectedSchools(result.data.schools);
+      }
+    } catch (error) {
+      console.error("Failed to load session schools:", error);
+    }
+  };
+
+  // Search schools as the admin types
+  useEffect(() => {
+    if (!schoolsFor) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams();
+        if (schoolSearch.trim()) params.set("search", schoolSearch.trim());
+        const response = await fetch(`/api/admin/schools?${params}`);
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setSchoolOptions(result.data.schools);
+        }
+      } catch (error) {
+        console.error("Failed to search schools:", error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [schoolSearch, schoolsFor]);
+
+  const toggleSchool = (school: SchoolOption) => {
+    setSelectedSchools((prev) =>
+      prev.some((selected) => selected.id === school.id)
+        ? prev.filter((selected) => selected.id !== school.id)
+        : [...prev, school]
+    );
+  };
+
+  const saveSchools = async () => {
+    if (!schoolsFor) return;
+    const done = await request(
+      schoolsFor.id,
+      `/api/admin/exam-sessions/${schoolsFor.id}/schools`,
+      {
+        method: "PUT",
+        body: JSON.stringify({
+          schoolIds: selectedSchools.map((school) => school.id),
+        }),
+      }
+    );
+    if (done) setSchoolsFor(null);
+  };
+
+  if (timetableFor) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-5xl mx-auto">
+          <TimetableEditor
+            session={timetableFor}
+            onClose={() => setTimetableFor(null)}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (gradingFor) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-4xl mx-auto">
+          <GradingSchemeEditor
+            session={gradingFor}
+            onClose={() => setGradingFor(null)}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (editing) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-4xl mx-auto">
+          <ExamSessionForm
+            session={editing === "new" ? undefined : editing}
+            onCancel={() => setEditing(null)}
+            onSaved={(message) => {
+              setEditing(null);
+              setSuccessMessage(message);
+              fetchSessions();
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">
+              Exam Sessions
+            </h1>
+            <p className="text-muted-foreground">
+              Create sessions, manage their registration window and move them
+              through the exam lifecycle.
+            </p>
+          </div>
+          <button
+            onClick={() => setEditing("new")}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <CalendarPlus className="w-4 h-4" />
+            New Session
+          </button>
+        </div>
+
+        {apiError && (
+          <div className="alert alert-error flex items-center gap-2">
+            <AlertCircle className="w-5 h-5" />
+            {apiError}
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="alert alert-success flex items-center gap-2">
+            <CheckCircle className="w-5 h-5" />
+            {successMessage}
+          </div>
+        )}
+
+        {isLoading && sessions.length === 0 && (
+          <div className="flex justify-center text-muted-foreground">
+            <Loader className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+
+        {!isLoading && sessions.length === 0 && !apiError && (
+          <div className="card p-8 text-center text-muted-foreground">
+            No exam sessions yet.
+          </div>
+        )}
+
+        {sessions.map((session) => (
+          <div key={session.id} className="card p-4 space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <h2 className="font-semibold text-foreground">
+                  {session.name}
+                  {!session.isActive && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      (inactive)
+                    </span>
+                  )}
+                </h2>
+                {session.description && (
+                  <p className="text-sm text-muted-foreground">
+                    {session.description}
+                  </p>
+                )}
+              </div>
+              <span
+                className={`px-2 py-1 text-xs rounded-full font-medium ${
+                  STATUS_STYLES[session.status] ?? "bg-muted"
+                }`}
+              >
+                {session.status.replace(/_/g, " ")}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+              <p>
+                <span className="text-muted-foreground">Exam: </span>
+                {formatDate(session.examDate)} {session.examTime} (
+                {session.duration} min)
+              </p>
+              <p>
+                <span className="text-muted-foreground">Registration: </span>
+                {formatDate(session.registrationStartDate)} –{" "}
+                {formatDate(session.registrationEndDate)}
+                {session.lateRegistrationEndDate &&
+                  ` (late until ${formatDate(session.lateRegistrationEndDate)})`}
+              </p>
+              <p>
+                <span className="text-muted-foreground">Fee: </span>
+                {formatFee(session.registrationFee)}
+                {session.feeRules && " + fee rules"}
+              </p>
+              <p>
+                <span className="text-muted-foreground">Candidates: </span>
+                {session._count.candidates} ·{" "}
+                {session._count.schools > 0
+                  ? `${session._count.schools} school(s)`
+                  : "All schools"}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {session.allowedTransitions.map((to) => (
+                <button
+                  key={to}
+                  onClick={() => handleTransition(session, to)}
+                  disabled={busyId === session.id}
+                  className={`btn ${
+                    to === "Cancelled" ? "btn-outline" : "btn-primary"
+                  }`}
+                >
+                  {transitionLabel(session.status, to)}
+                </button>
+              ))}
+              <button
+                onClick={() => setTimetableFor(session)}
+                disabled={busyId === session.id}
+                className="btn btn-outline flex items-center gap-2"
+              >
+                <CalendarClock className="w-4 h-4" />
+                Timetable
+              </button>
+              {session.status !== "Cancelled" && (
+                <button
+                  onClick={() => setGradingFor(session)}
+                  disabled={busyId === session.id}
+                  className="btn btn-outline flex items-center gap-2"
+                >
+                  <Scale className="w-4 h-4" />
+                  Grading
+                </button>
+              )}
+              {!["Completed", "Cancelled"].includes(session.status) && (
+                <>
+                  <button
+                    onClick={() => openSchools(session)}
+                    disabled={busyId === session.id}
+                    className="btn btn-outline flex items-center gap-2"
+                  >
+                    <School className="w-4 h-4" />
+                    Schools
+                  </button>
+                  <button
+                    onClick={() => setEditing(session)}
+                    disabled={busyId === session.id}
+                    className="btn btn-outline flex items-center gap-2"
+                  >
+                    <Edit className="w-4 h-4" />
+                    Edit
+                  </button>
+                </>
+              )}
+              {session.status === "Upcoming" &&
+                session._count.candidates === 0 && (
+                  <button
+                    onClick={() => deleteSession(session)}
+                    disabled={busyId === session.id}
+                    className="btn btn-outline flex items-center gap-2 text-error"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Modal
+        isOpen={!!pendingTransition}
+        onClose={() => {
+          setPendingTransition(null);
+          setReason("");
+        }}
+        title={
+          pendingTransition
+            ? transitionLabel(
+                pendingTransition.session.status,
+                pendingTransition.to
+              )
+            : ""
+        }
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Give a reason for this change. It is kept in the audit log.
+          </p>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            className="form-input"
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={() =>
+                pendingTransition &&
+                changeStatus(
+                  pendingTransition.session,
+                  pendingTransition.to,
+                  reason.trim()
+                )
+              }
+              disabled={!reason.trim() || !!busyId}
+              className="btn btn-primary"
+            >
+              Confirm
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!schoolsFor}
+        onClose={() => setSchoolsFor(null)}
+        title="Session Schools"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Limit registration to the selected schools. Leave the list empty to
+            open the session to every school.
+          </p>
+          <input
+            type="text"
+            placeholder="Search by center number or name"
+            value={schoolSearch}
+            onChange={(e) => setSchoolSearch(e.target.value)}
+            className="form-input"
+          />
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {schoolOptions.map((school) => (
+              <label
+                key={school.id}
+                className="flex items-center gap-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedSchools.some(
+                    (selected) => selected.id === school.id
+                  )}
+                  onChange={() => toggleSchool(school)}
+                />
+                {school.centerNumber} – {school.centerName}
+              </label>
+            ))}
+          </div>
+          <p className="text-sm">
+            {selectedSchools.length > 0
+              ? `${selectedSchools.length} school(s) selected`
+              : "Open to all schools"}
+          </p>
+          <div className="flex justify-end">
+            <button
+              onClick={saveSchools}
+              disabled={!!busyId}
+              className="btn btn-primary"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default ExamSessions;
@@ -0,0 +1,416 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { Loader, Plus, RotateCcw, Save, Trash2, X } from "lucide-react";
+import type { ExamSessionRecord } from "./Exam-Session-Form";
+
+type Component = { code: string; label?: string; maxScore: number };
+
+type Scheme = {
+  weights: Record<string, number>;
+  boundaries: { grade: string; min: number; points: number }[];
+  passMark: number;
+  rounding: { decimals: number; mode: string };
+  aggregateSubjects: number;
+};
+
+type BoundaryFields = { grade: string; min: string; points: string };
+
+type SchemeFields = {
+  weights: Record<string, string>;
+  boundaries: BoundaryFields[];
+  passMark: string;
+  decimals: string;
+  mode: string;
+  aggregateSubjects: string;
+};
+
+const ROUNDING_OPTIONS = [
+  { value: "half_up", label: "Nearest (half up)" },
+  { value: "down", label: "Always down" },
+  { value: "up", label: "Always up" },
+];
+
+const toFields = (scheme: Scheme, components: Component[]): SchemeFields => ({
+  weights: Object.fromEntries(
+    components.map((component) => [
+      component.code,
+      String(scheme.weights[component.code] ?? component.maxScore),
+    ])
+  ),
+  boundaries: scheme.boundaries.map((boundary) => ({
+    grade: boundary.grade,
+    min: String(boundary.min),
+    points: String(boundary.points),
+  })),
+  passMark: String(scheme.passMark),
+  decimals: String(scheme.rounding.decimals),
+  mode: scheme.rounding.mode,
+  aggregateSubjects: String(scheme.aggregateSubjects),
+});
+
+interface GradingSchemeEditorProps {
+  session: ExamSessionRecord;
+  onClose: () => void;
+}
+
+/**
+ * Component weights, grade boundaries, pass mark, rounding and aggregate
+ * rules of an exam session. Saving regrades every school's results.
+ */
+const GradingSchemeEditor = ({
+  session,
+  onClose,
+}: GradingSchemeEditorProps) => {
+  const [components, setComponents] = useState<Component[]>([]);
+  const [formData, setFormData] = useState<SchemeFields | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const applyResult = (data: {
+    components: Component[];
+    scheme: Scheme;
+    isDefault: boolean;
+  }) => {
+    setComponents(data.components);
+    setFormData(toFields(data.scheme, data.components));
+    setIsDefault(data.isDefault);
+  };
+
+  const fetchScheme = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/exam-sessions/${session.id}/grading`
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load the grading scheme");
+        return;
+      }
+
+      applyResult(result.data);
+    } catch (error) {
+      console.error("Failed to load grading scheme:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session.id]);
+
+  useEffect(() => {
+    fetchScheme();
+  }, [fetchScheme]);
+
+  const update = (changes: Partial<SchemeFields>) => {
+    setFormData((prev) => (prev ? { ...prev, ...changes } : prev));
+    setErrors({});
+  };
+
+  const updateBoundary = (
+    index: number,
+    field: keyof BoundaryFields,
+    value: string
+  ) => {
+    if (!formData) return;
+    update({
+      boundaries: formData.boundaries.map((boundary, i) =>
+        i === index ? { ...boundary, [field]: value } : boundary
+      ),
+    });
+  };
+
+  const save = async (restoreDefault: boolean) => {
+    if (!formData) return;
+    if (
+      restoreDefault &&
+      !window.confirm("Restore the default grading scheme and regrade?")
+    ) {
+      return;
+    }
+
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsSaving(true);
+
+    const scheme = restoreDefault
+      ? null
+      : {
+          weights: Object.fromEntries(
+            Object.entries(formData.weights).map(([code, weight]) => [
+              code,
+              Number(weight),
+            ])
+          ),
+          boundaries: formData.boundaries.map((boundary) => ({
+            grade: boundary.grade,
+            min: Number(boundary.min),
+            points: Number(boundary.points),
+          })),
+          passMark: Number(formData.passMark),
+          rounding: {
+            decimals: Number(formData.decimals),
+            mode: formData.mode,
+          },
+          aggregateSubjects: Number(formData.aggregateSubjects),
+        };
+
+    try {
+      const response = await fetch(
+        `/api/admin/exam-sessions/${session.id}/grading`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ scheme }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        // "scheme.boundaries.3.min" -> boundaries, "scheme.rounding.decimals" -> decimals
+        setErrors(
+          Object.fromEntries(
+            Object.entries<string>(result.errors || {}).map(
+              ([field, message]) => [
+                field
+                  .replace(/^scheme\./, "")
+                  .replace(/^(boundaries|weights)\..*$/, "$1")
+                  .replace(/^rounding\./, ""),
+                message,
+              ]
+            )
+          )
+        );
+        setApiError(result.message || "Failed to save the grading scheme");
+        return;
+      }
+
+      applyResult(result.data);
+      setSuccessMessage(result.message);
+    } catch (error) {
+      console.error("Failed to save grading scheme:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderError = (name: string) =>
+    errors[name] && <p className="text-error text-sm mt-1">{errors[name]}</p>;
+
+  return (
+    <div className="card p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">
+            Grading: {session.name}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {isDefault
+              ? "This session uses the default scheme."
+              : "This session has its own scheme."}{" "}
+            Saving regrades every school&apos;s results.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-muted-10 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {apiError && <div className="alert alert-error">{apiError}</div>}
+      {successMessage && (
+        <div className="alert alert-success">{successMessage}</div>
+      )}
+
+      {isLoading || !formData ? (
+        <div className="flex justify-center py-8">
+          <Loader className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <h3 className="font-semibold text-foreground">Component Weights</h3>
+            <p className="text-sm text-muted-foreground">
+              Share of the final total, in percent. Weights are scaled to add up
+              to 100.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {components.map((component) => (
+                <div key={component.code}>
+                  <label className="form-label">
+                    {component.code} (/{component.maxScore})
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.weights[component.code] ?? ""}
+                    onChange={(e) =>
+                      update({
+                        weights: {
+                          ...formData.weights,
+                          [component.code]: e.target.value,
+                        },
+                      })
+                    }
+                    className="form-input"
+                  />
+                </div>
+              ))}
+            </div>
+            {renderError("weights")}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold text-foreground">Grade Boundaries</h3>
+            <p className="text-sm text-muted-foreground">
+              Best grade first. A total at or above the minimum earns the grade;
+              the points add up to the aggregate, so lower is better.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4">Grade</th>
+                  <th className="py-2 pr-4">Minimum Total</th>
+                  <th className="py-2 pr-4">Points</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {formData.boundaries.map((boundary, index) => (
+                  <tr key={index} className="border-b border-border">
+                    {(["grade", "min", "points"] as const).map((field) => (
+                      <td key={field} className="py-1 pr-4">
+                        <input
+                          type={field === "grade" ? "text" : "number"}
+                          value={boundary[field]}
+                          onChange={(e) =>
+                            updateBoundary(index, field, e.target.value)
+                          }
+                          className="form-input"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() =>
+                          update({
+                            boundaries: formData.boundaries.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                        className="p-1 hover:bg-muted-10 rounded text-error"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() =>
+                update({
+                  boundaries: [
+                    ...formData.boundaries,
+                    { grade: "", min: "", points: "" },
+                  ],
+                })
+              }
+              className="btn btn-outline flex items-center gap-2 text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              Add Grade
+            </button>
+            {renderError("boundaries")}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="form-label">Pass Mark</label>
+              <input
+                type="number"
+                value={formData.passMark}
+                onChange={(e) => update({ passMark: e.target.value })}
+                className="form-input"
+              />
+              {renderError("passMark")}
+            </div>
+            <div>
+              <label className="form-label">Aggregate of Best Subjects</label>
+              <input
+                type="number"
+                value={formData.aggregateSubjects}
+                onChange={(e) => update({ aggregateSubjects: e.target.value })}
+                className="form-input"
+              />
+              {renderError("aggregateSubjects")}
+            </div>
+            <div>
+              <label className="form-label">Round Totals To</label>
+              <select
+                value={formData.decimals}
+                onChange={(e) => update({ decimals: e.target.value })}
+                className="form-select"
+              >
+                <option value="0">Whole numbers</option>
+                <option value="1">1 decimal place</option>
+                <option value="2">2 decimal places</option>
+              </select>
+              {renderError("decimals")}
+            </div>
+            <div>
+              <label className="form-label">Rounding</label>
+              <select
+                value={formData.mode}
+                onChange={(e) => update({ mode: e.target.value })}
+                className="form-select"
+              >
+                {ROUNDING_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {!isDefault && (
+              <button
+                onClick={() => save(true)}
+                disabled={isSaving}
+                className="btn btn-outline flex items-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restore Default
+              </button>
+            )}
+            <button
+              onClick={() => save(false)}
+              disabled={isSaving}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isSaving ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save Scheme
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GradingSchemeEditor;
@@ -0,0 +1,417 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  AlertTriangle,
+  Edit,
+  Loader,
+  Plus,
+  Save,
+  Trash2,
+  X,
+} from "lucide-react";
+import type { ExamSessionRecord } from "./Exam-Session-Form";
+
+type TimetableEntry = {
+  id: string;
+  paper: string;
+  date: string;
+  startTime: string;
+  duration: number;
+  start: string;
+  end: string;
+  subject: { id: string; code: string; name: string };
+};
+
+type TimetableClash = {
+  entryIds: [string, string];
+  subjects: [string, string];
+  candidates: number;
+};
+
+type CatalogueSubject = { id: string; code: string; name: string };
+
+type EntryFields = {
+  subjectCode: string;
+  paper: string;
+  date: string;
+  startTime: string;
+  duration: string;
+};
+
+const EMPTY_ENTRY: EntryFields = {
+  subjectCode: "",
+  paper: "Paper 1",
+  date: "",
+  startTime: "09:00 AM",
+  duration: "120",
+};
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+interface TimetableEditorProps {
+  session: ExamSessionRecord;
+  onClose: () => void;
+}
+
+/**
+ * Papers of an exam session. Overlapping papers of different subjects are
+ * saved but flagged with the number of candidates who take both.
+ */
+const TimetableEditor = ({ session, onClose }: TimetableEditorProps) => {
+  const [entries, setEntries] = useState<TimetableEntry[]>([]);
+  const [clashes, setClashes] = useState<TimetableClash[]>([]);
+  const [subjects, setSubjects] = useState<CatalogueSubject[]>([]);
+  const [locked, setLocked] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<EntryFields>(EMPTY_ENTRY);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const fetchTimetable = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/exam-sessions/${session.id}/timetable`
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load the timetable");
+        return;
+      }
+
+      setEntries(result.data.entries);
+      setClashes(result.data.clashes);
+      setSubjects(result.data.subjects);
+      setLocked(result.data.session.locked);
+    } catch (error) {
+      console.error("Failed to load timetable:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session.id]);
+
+  useEffect(() => {
+    fetchTimetable();
+  }, [fetchTimetable]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    if (errors[name]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(EMPTY_ENTRY);
+    setErrors({});
+  };
+
+  const startEdit = (entry: TimetableEntry) => {
+    setEditingId(entry.id);
+    setErrors({});
+    setFormData({
+      subjectCode: entry.subject.code,
+      paper: entry.paper,
+      date: entry.date.slice(0, 10),
+      startTime: entry.startTime,
+      duration: String(entry.duration),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(
+        editingId
+          ? `/api/admin/exam-sessions/${session.id}/timetable/${editingId}`
+          : `/api/admin/exam-sessions/${session.id}/timetable`,
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(formData),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setErrors(result.errors || {});
+        setApiError(result.message || "Failed to save the paper");
+        return;
+      }
+
+      setSuccessMessage(result.message);
+      resetForm();
+      fetchTimetable();
+    } catch (error) {
+      console.error("Failed to save timetable entry:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteEntry = async (entry: TimetableEntry) => {
+    if (
+      !window.confirm(
+        `Remove ${entry.subject.code} ${entry.paper} from the timetable?`
+      )
+    ) {
+      return;
+    }
+
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(
+        `/api/admin/exam-sessions/${session.id}/timetable/${entry.id}`,
+        { method: "DELETE" }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to remove the paper");
+        return;
+      }
+
+      if (editingId === entry.id) resetForm();
+      setSuccessMessage(result.message);
+      fetchTimetable();
+    } catch (error) {
+      console.error("Failed to delete timetable entry:", error);
+      setApiError("Network error. Please check your connection.");
+    }
+  };
+
+  const clashesFor = (entryId: string) =>
+    clashes.filter((clash) => clash.entryIds.includes(entryId));
+
+  const renderInput = (
+    name: keyof EntryFields,
+    label: string,
+    type = "text"
+  ) => (
+    <div>
+      <label className="form-label">{label}</label>
+      <input
+        type={type}
+        name={name}
+        value={formData[name]}
+        onChange={handleInputChange}
+        className={`form-input ${errors[name] ? "border-error" : ""}`}
+      />
+      {errors[name] && (
+        <p className="text-error text-sm mt-1">{errors[name]}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="card p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">
+            Timetable: {session.name}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Times are West Africa Time. Papers cannot start before{" "}
+            {formatDay(session.examDate)}.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-muted-10 transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {apiError && <div className="alert alert-error">{apiError}</div>}
+      {successMessage && (
+        <div className="alert alert-success">{successMessage}</div>
+      )}
+
+      {clashes.length > 0 && (
+        <div className="alert alert-error space-y-1">
+          <p className="font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {clashes.length} clash(es) on this timetable
+          </p>
+          <ul className="text-sm list-disc pl-6">
+            {clashes.map((clash) => (
+              <li key={clash.entryIds.join("-")}>
+                {clash.subjects.join(" and ")} share a slot; {clash.candidates}{" "}
+                candidate(s) take both
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!locked && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 border-b border-border pb-6"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label className="form-label">Subject</label>
+              <select
+                name="subjectCode"
+                value={formData.subjectCode}
+                onChange={handleInputChange}
+                className={`form-select ${
+                  errors.subjectCode ? "border-error" : ""
+                }`}
+              >
+                <option value="">Select subject</option>
+                {subjects.map((subject) => (
+                  <option key={subject.id} value={subject.code}>
+                    {subject.name} ({subject.code})
+                  </option>
+                ))}
+              </select>
+              {errors.subjectCode && (
+                <p className="text-error text-sm mt-1">{errors.subjectCode}</p>
+              )}
+            </div>
+            {renderInput("paper", "Paper")}
+            {renderInput("date", "Date", "date")}
+            {renderInput("startTime", "Start Time (e.g. 09:00 AM)")}
+            {renderInput("duration", "Duration (minutes)", "number")}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="btn btn-outline"
+              >
+                Cancel Edit
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isSaving ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : editingId ? (
+                <Save className="w-4 h-4" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              {editingId ? "Save Paper" : "Add Paper"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading && entries.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          No papers have been scheduled yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-2 pr-4">Date</th>
+                <th className="py-2 pr-4">Time</th>
+                <th className="py-2 pr-4">Subject</th>
+                <th className="py-2 pr-4">Paper</th>
+                <th className="py-2 pr-4">Duration</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => {
+                const entryClashes = clashesFor(entry.id);
+                return (
+                  <tr
+                    key={entry.id}
+                    className={`border-b border-border ${
+                      editingId === entry.id ? "bg-primary-10" : ""
+                    }`}
+                  >
+                    <td className="py-2 pr-4">{formatDay(entry.date)}</td>
+                    <td className="py-2 pr-4">{entry.startTime}</td>
+                    <td className="py-2 pr-4">
+                      {entry.subject.name} ({entry.subject.code})
+                      {entryClashes.length > 0 && (
+                        <span
+                          className="ml-2 inline-flex items-center gap-1 text-xs text-error"
+                          title={entryClashes
+                            .map((clash) => clash.subjects.join(" / "))
+                            .join(", ")}
+                        >
+                          <AlertTriangle className="w-3 h-3" />
+                          Clash
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{entry.paper}</td>
+                    <td className="py-2 pr-4">{entry.duration} min</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {!locked && (
+                        <>
+                          <button
+                            onClick={() => startEdit(entry)}
+                            className="p-1 hover:bg-muted-10 rounded"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => deleteEntry(entry)}
+                            className="p-1 hover:bg-muted-10 rounded text-error"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimetableEditor;
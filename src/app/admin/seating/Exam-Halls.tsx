@@ -0,0 +1,283 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { Building2, Edit, Loader, Plus, Save, Trash2 } from "lucide-react";
+
+type ExamHall = {
+  id: string;
+  name: string;
+  capacity: number;
+  isActive: boolean;
+  _count: { seats: number };
+};
+
+type HallFields = { name: string; capacity: string };
+
+const EMPTY_HALL: HallFields = { name: "", capacity: "" };
+
+/**
+ * The rooms at this centre where candidates sit papers.
+ */
+const ExamHalls = () => {
+  const [halls, setHalls] = useState<ExamHall[]>([]);
+  const [totalCapacity, setTotalCapacity] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<HallFields>(EMPTY_HALL);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const fetchHalls = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/halls");
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load exam halls");
+        return;
+      }
+
+      setHalls(result.data.halls);
+      setTotalCapacity(result.data.totalCapacity);
+    } catch (error) {
+      console.error("Failed to load exam halls:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHalls();
+  }, [fetchHalls]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+
+    if (errors[name]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(EMPTY_HALL);
+    setErrors({});
+  };
+
+  // Shared by the form and the activate/deactivate toggle
+  const saveHall = async (
+    url: string,
+    method: "POST" | "PATCH" | "DELETE",
+    body?: Record<string, unknown>
+  ) => {
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setErrors(result.errors || {});
+        setApiError(result.message || "Failed to save the exam hall");
+        return false;
+      }
+
+      setSuccessMessage(result.message);
+      fetchHalls();
+      return true;
+    } catch (error) {
+      console.error("Failed to save exam hall:", error);
+      setApiError("Network error. Please check your connection.");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await saveHall(
+      editingId ? `/api/admin/halls/${editingId}` : "/api/admin/halls",
+      editingId ? "PATCH" : "POST",
+      formData
+    );
+    if (saved) resetForm();
+  };
+
+  const deleteHall = async (hall: ExamHall) => {
+    if (!window.confirm(`Delete ${hall.name}?`)) return;
+    const deleted = await saveHall(`/api/admin/halls/${hall.id}`, "DELETE");
+    if (deleted && editingId === hall.id) resetForm();
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Exam Halls</h1>
+          <p className="text-muted-foreground">
+            Record the halls at your centre and how many candidates each one
+            seats. Active halls seat {totalCapacity} candidate(s) in total.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Hall Name</label>
+              <input
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                className={`form-input ${errors.name ? "border-error" : ""}`}
+              />
+              {errors.name && (
+                <p className="text-error text-sm mt-1">{errors.name}</p>
+              )}
+            </div>
+            <div>
+              <label className="form-label">Capacity (seats)</label>
+              <input
+                type="number"
+                name="capacity"
+                value={formData.capacity}
+                onChange={handleInputChange}
+                className={`form-input ${errors.capacity ? "border-error" : ""}`}
+              />
+              {errors.capacity && (
+                <p className="text-error text-sm mt-1">{errors.capacity}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="btn btn-outline"
+              >
+                Cancel Edit
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isSaving ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : editingId ? (
+                <Save className="w-4 h-4" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              {editingId ? "Save Hall" : "Add Hall"}
+            </button>
+          </div>
+        </form>
+
+        {isLoading && halls.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : halls.length === 0 ? (
+          <div className="card p-8 text-center text-muted-foreground">
+            <Building2 className="w-8 h-8 mx-auto mb-2" />
+            No exam halls have been added yet.
+          </div>
+        ) : (
+          <div className="card p-0 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="p-3">Hall</th>
+                  <th className="p-3">Capacity</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {halls.map((hall) => (
+                  <tr
+                    key={hall.id}
+                    className={`border-b border-border ${
+                      editingId === hall.id ? "bg-primary-10" : ""
+                    }`}
+                  >
+                    <td className="p-3 font-medium">{hall.name}</td>
+                    <td className="p-3">{hall.capacity}</td>
+                    <td className="p-3">
+                      <button
+                        onClick={() =>
+                          saveHall(`/api/admin/halls/${hall.id}`, "PATCH", {
+                            isActive: !hall.isActive,
+                          })
+                        }
+                        disabled={isSaving}
+                        className={`px-2 py-1 text-xs rounded-full font-medium ${
+                          hall.isActive
+                            ? "bg-success/10 text-success"
+                            : "bg-muted text-muted-foreground"
+                        }`}
+                        title={hall.isActive ? "Deactivate" : "Activate"}
+                      >
+                        {hall.isActive ? "Active" : "Inactive"}
+                      </button>
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => {
+                          setEditingId(hall.id);
+                          setErrors({});
+                          setFormData({
+                            name: hall.name,
+                            capacity: String(hall.capacity),
+                          });
+                        }}
+                        className="p-1 hover:bg-muted-10 rounded"
+                        title="Edit"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      {hall._count.seats === 0 && (
+                        <button
+                          onClick={() => deleteHall(hall)}
+                          disabled={isSaving}
+                          className="p-1 hover:bg-muted-10 rounded text-error"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamHalls;
@@ -0,0 +1,302 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { Armchair, Loader, Printer } from "lucide-react";
+
+type Paper = {
+  id: string;
+  paper: string;
+  date: string;
+  startTime: string;
+  subject: { code: string; name: string };
+  examSession: { id: string; name: string };
+  candidates: number;
+  seated: number;
+};
+
+type SeatingPlan = {
+  strategy: string | null;
+  allocatedAt: string | null;
+  seated: number;
+  unseated: number;
+  halls: {
+    id: string;
+    name: string;
+    capacity: number;
+    seats: {
+      seatNumber: number;
+      candidate: {
+        registrationNumber: string;
+        surname: string;
+        firstName: string;
+        otherName: string | null;
+      };
+    }[];
+  }[];
+};
+
+const STRATEGIES = [
+  { value: "Alphabetical", label: "Alphabetical (surname)" },
+  { value: "Registration_Number", label: "Registration number order" },
+  { value: "Shuffled", label: "Shuffled (separates classmates)" },
+];
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+
+/**
+ * Allocate halls and seats to this centre's candidates for a paper and
+ * print the resulting seating plan.
+ */
+const SeatingPlanPage = () => {
+  const [papers, setPapers] = useState<Paper[]>([]);
+  const [paperId, setPaperId] = useState("");
+  const [strategy, setStrategy] = useState("Shuffled");
+  const [plan, setPlan] = useState<SeatingPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isAllocating, setIsAllocating] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchPapers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/seating");
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load papers");
+        return;
+      }
+
+      setPapers(result.data.papers);
+    } catch (error) {
+      console.error("Failed to load papers:", error);
+      setApiError("Network error. Please check your connection.");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPapers();
+  }, [fetchPapers]);
+
+  useEffect(() => {
+    if (!paperId) {
+      setPlan(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchPlan = async () => {
+      setIsLoading(true);
+      setApiError(null);
+      try {
+        const response = await fetch(
+          `/api/admin/seating?timetableEntryId=${encodeURIComponent(paperId)}`
+        );
+        const result = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load the seating plan");
+          return;
+        }
+
+        setPlan(result.data);
+      } catch (error) {
+        console.error("Failed to load seating plan:", error);
+        if (!cancelled) {
+          setApiError("Network error. Please check your connection.");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPlan();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paperId]);
+
+  const allocate = async () => {
+    if (
+      plan &&
+      plan.seated > 0 &&
+      !window.confirm("Replace the current seating plan for this paper?")
+    ) {
+      return;
+    }
+
+    setApiError(null);
+    setSuccessMessage(null);
+    setIsAllocating(true);
+
+    try {
+      const response = await fetch("/api/admin/seating", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timetableEntryId: paperId, strategy }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to allocate seats");
+        return;
+      }
+
+      setPlan(result.data);
+      setSuccessMessage(result.message);
+      fetchPapers();
+    } catch (error) {
+      console.error("Failed to allocate seats:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsAllocating(false);
+    }
+  };
+
+  const selectedPaper = papers.find((paper) => paper.id === paperId);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Seating Plan</h1>
+          <p className="text-muted-foreground">
+            Give each candidate sitting a paper a hall and seat number, then
+            print the plan for the invigilators.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        <div className="card p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Paper</label>
+              <select
+                value={paperId}
+                onChange={(e) => {
+                  setPaperId(e.target.value);
+                  setSuccessMessage(null);
+                }}
+                className="form-select"
+              >
+                <option value="">Select a paper</option>
+                {papers.map((paper) => (
+                  <option key={paper.id} value={paper.id}>
+                    {formatDay(paper.date)} {paper.startTime} ·{" "}
+                    {paper.subject.name} {paper.paper} ({paper.seated}/
+                    {paper.candidates} seated)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Strategy</label>
+              <select
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value)}
+                className="form-select"
+              >
+                {STRATEGIES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {plan && plan.seated > 0 && (
+              <button
+                onClick={() =>
+                  window.open(
+                    `/api/admin/seating/plan?timetableEntryId=${encodeURIComponent(paperId)}`,
+                    "_blank"
+                  )
+                }
+                className="btn btn-outline flex items-center gap-2"
+              >
+                <Printer className="w-4 h-4" />
+                Print Seating Plan
+              </button>
+            )}
+            <button
+              onClick={allocate}
+              disabled={!paperId || isAllocating}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isAllocating ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : (
+                <Armchair className="w-4 h-4" />
+              )}
+              {plan && plan.seated > 0 ? "Reallocate Seats" : "Allocate Seats"}
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          plan &&
+          selectedPaper && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {plan.seated > 0
+                  ? `${plan.seated} candidate(s) seated${
+                      plan.strategy
+                        ? ` (${plan.strategy.replace(/_/g, " ").toLowerCase()})`
+                        : ""
+                    }.`
+                  : "No seats have been allocated for this paper yet."}
+                {plan.unseated > 0 &&
+                  ` ${plan.unseated} candidate(s) registered since then have no seat; reallocate to include them.`}
+              </p>
+
+              {plan.halls.map((hall) => (
+                <div key={hall.id} className="card p-4">
+                  <h3 className="font-semibold text-foreground mb-2">
+                    {hall.name}{" "}
+                    <span className="text-sm text-muted-foreground font-normal">
+                      {hall.seats.length} of {hall.capacity} seats
+                    </span>
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+                    {hall.seats.map((seat) => (
+                      <div key={seat.seatNumber} className="flex gap-2">
+                        <span className="w-8 text-right text-muted-foreground">
+                          {seat.seatNumber}
+                        </span>
+                        <span className="font-mono">
+                          {seat.candidate.registrationNumber}
+                        </span>
+                        <span className="truncate">
+                          {seat.candidate.surname} {seat.candidate.firstName}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeatingPlanPage;
@@ -0,0 +1,449 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  ArrowLeft,
+  FileText,
+  Loader,
+  Paperclip,
+  Send,
+  Upload,
+} from "lucide-react";
+import Modal from "@/components/glob/Modal";
+import { formatAmount } from "./Make-Payment";
+import type { DisputeRecord } from "./Log-Dispute";
+
+type DisputeComment = {
+  id: string;
+  createdAt: string;
+  body: string;
+  statusFrom: string | null;
+  statusTo: string | null;
+  author: { id: string; name: string; role: string };
+};
+
+type DisputeAttachment = {
+  id: string;
+  createdAt: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  url: string;
+};
+
+type DisputeDetail = DisputeRecord & {
+  comments: DisputeComment[];
+  attachments: DisputeAttachment[];
+  nextStatuses: string[];
+};
+
+export const DISPUTE_STATUS_STYLES: Record<string, string> = {
+  Open: "bg-warning-10 text-warning",
+  Under_Review: "bg-primary-10 text-primary",
+  Resolved: "bg-success-10 text-success",
+  Rejected: "bg-error-10 text-error",
+};
+
+export const EVIDENCE_ACCEPT =
+  "image/jpeg,image/png,image/webp,application/pdf";
+
+const STATUS_ACTIONS: Record<string, string> = {
+  Under_Review: "Start Review",
+  Resolved: "Resolve",
+  Rejected: "Reject",
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+interface DisputeThreadProps {
+  disputeId: string;
+  onBack: () => void;
+}
+
+/**
+ * One dispute: what was raised, the evidence, and the conversation with
+ * the examination office. Closed disputes are read-only.
+ */
+const DisputeThread = ({ disputeId, onBack }: DisputeThreadProps) => {
+  const [dispute, setDispute] = useState<DisputeDetail | null>(null);
+  const [comment, setComment] = useState("");
+  const [evidence, setEvidence] = useState<File[]>([]);
+  const [closing, setClosing] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchDispute = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/disputes/${disputeId}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load the dispute");
+        return;
+      }
+
+      setDispute(result.data);
+    } catch (error) {
+      console.error("Failed to load dispute:", error);
+      setApiError("Network error. Please check your connection.");
+    }
+  }, [disputeId]);
+
+  useEffect(() => {
+    fetchDispute();
+  }, [fetchDispute]);
+
+  // Shared by the comment, evidence and status actions
+  const submit = async (
+    path: string,
+    init: RequestInit,
+    fallback: string,
+    onDone: () => void
+  ) => {
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(
+        `/api/admin/disputes/${disputeId}${path}`,
+        init
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(
+          result.errors?.evidence ||
+            result.errors?.note ||
+            result.message ||
+            fallback
+        );
+        return;
+      }
+
+      onDone();
+      setSuccessMessage(result.message);
+      fetchDispute();
+    } catch (error) {
+      console.error(`${fallback}:`, error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const postComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(
+      "/comments",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: comment.trim() }),
+      },
+      "Failed to post the comment",
+      () => setComment("")
+    );
+  };
+
+  const uploadEvidence = () => {
+    const body = new FormData();
+    evidence.forEach((file) => body.append("evidence", file));
+    submit(
+      "/attachments",
+      { method: "POST", body },
+      "Failed to attach the evidence",
+      () => setEvidence([])
+    );
+  };
+
+  const changeStatus = (status: string, statusNote?: string) => {
+    submit(
+      "",
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, note: statusNote }),
+      },
+      "Failed to update the dispute",
+      () => {
+        setClosing(null);
+        setNote("");
+      }
+    );
+  };
+
+  const isClosed =
+    dispute?.status === "Resolved" || dispute?.status === "Rejected";
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <button
+          onClick={onBack}
+          className="btn btn-outline flex items-center gap-1"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All Disputes
+        </button>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        {!dispute ? (
+          !apiError && (
+            <div className="flex justify-center py-12">
+              <Loader className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          )
+        ) : (
+          <>
+            <div className="card p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-mono text-muted-foreground">
+                    {dispute.reference}
+                  </p>
+                  <h1 className="text-2xl font-bold text-foreground">
+                    {dispute.subject}
+                  </h1>
+                  <p className="text-sm text-muted-foreground">
+                    {dispute.school.centerNumber} {dispute.school.centerName} ·
+                    logged by {dispute.createdBy.name} on{" "}
+                    {new Date(dispute.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    DISPUTE_STATUS_STYLES[dispute.status] ?? ""
+                  }`}
+                >
+                  {dispute.status.replace(/_/g, " ")}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                <p>
+                  <span className="text-muted-foreground">Invoice: </span>
+                  <span className="font-mono">{dispute.invoice.number}</span>
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Total: </span>
+                  {formatAmount(dispute.invoice.total)}
+                </p>
+                {dispute.payment && (
+                  <>
+                    <p>
+                      <span className="text-muted-foreground">Payment: </span>
+                      <span className="font-mono">
+                        {dispute.payment.reference}
+                      </span>
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">Amount: </span>
+                      {formatAmount(dispute.payment.amount)} (
+                      {dispute.payment.status})
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <p className="text-sm whitespace-pre-wrap">
+                {dispute.description}
+              </p>
+
+              {dispute.resolution && (
+                <div
+                  className={`alert ${
+                    dispute.status === "Resolved"
+                      ? "alert-success"
+                      : "alert-error"
+                  }`}
+                >
+                  <p className="text-sm font-medium">Outcome</p>
+                  <p className="text-sm whitespace-pre-wrap">
+                    {dispute.resolution}
+                  </p>
+                </div>
+              )}
+
+              {dispute.nextStatuses.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {dispute.nextStatuses.map((next) => (
+                    <button
+                      key={next}
+                      onClick={() =>
+                        next === "Under_Review"
+                          ? changeStatus(next)
+                          : setClosing(next)
+                      }
+                      disabled={isBusy}
+                      className={`btn ${
+                        next === "Rejected" ? "btn-outline" : "btn-primary"
+                      }`}
+                    >
+                      {STATUS_ACTIONS[next] ?? next}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="card p-6 space-y-3">
+              <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                <Paperclip className="w-5 h-5" />
+                Evidence
+              </h2>
+              {dispute.attachments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No files have been attached.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {dispute.attachments.map((file) => (
+                    <li key={file.id} className="flex items-center gap-2">
+                      <FileText className="w-4 h-4 text-muted-foreground" />
+                      <a
+                        href={file.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline text-sm"
+                      >
+                        {file.fileName}
+                      </a>
+                      <span className="text-xs text-muted-foreground">
+                        {formatSize(file.size)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {!isClosed && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="file"
+                    multiple
+                    accept={EVIDENCE_ACCEPT}
+                    onChange={(e) =>
+                      setEvidence(Array.from(e.target.files ?? []))
+                    }
+                    className="form-input flex-1"
+                  />
+                  <button
+                    onClick={uploadEvidence}
+                    disabled={evidence.length === 0 || isBusy}
+                    className="btn btn-outline flex items-center gap-1"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Attach
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="card p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-foreground">
+                Conversation
+              </h2>
+              {dispute.comments.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No comments yet.
+                </p>
+              )}
+              {dispute.comments.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`p-3 rounded border border-border ${
+                    entry.author.role === "Super_Admin" ? "bg-muted-10" : ""
+                  }`}
+                >
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                      {entry.author.name}
+                    </span>
+                    {entry.author.role === "Super_Admin" &&
+                      " (Examination Office)"}{" "}
+                    · {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                  {entry.statusTo && (
+                    <p className="text-xs font-medium mt-1">
+                      Moved to {entry.statusTo.replace(/_/g, " ")}
+                    </p>
+                  )}
+                  <p className="text-sm mt-1 whitespace-pre-wrap">
+                    {entry.body}
+                  </p>
+                </div>
+              ))}
+
+              {isClosed ? (
+                <p className="text-sm text-muted-foreground">
+                  This dispute is closed. Log a new one if the problem
+                  continues.
+                </p>
+              ) : (
+                <form onSubmit={postComment} className="space-y-2">
+                  <textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={3}
+                    placeholder="Write a reply"
+                    className="form-input"
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={!comment.trim() || isBusy}
+                      className="btn btn-primary flex items-center gap-1"
+                    >
+                      <Send className="w-4 h-4" />
+                      Post
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          </>
+        )}
+
+        <Modal
+          isOpen={!!closing}
+          onClose={() => {
+            setClosing(null);
+            setNote("");
+          }}
+          title={closing === "Resolved" ? "Resolve Dispute" : "Reject Dispute"}
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Tell the centre the outcome. It is emailed to them and the dispute
+              is closed.
+            </p>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={4}
+              className="form-input"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={() => closing && changeStatus(closing, note.trim())}
+                disabled={!note.trim() || isBusy}
+                className="btn btn-primary"
+              >
+                {closing ? STATUS_ACTIONS[closing] : ""}
+              </button>
+            </div>
+          </div>
+        </Modal>
+      </div>
+    </div>
+  );
+};
+
+export default DisputeThread;
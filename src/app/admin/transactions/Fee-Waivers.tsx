@@ -0,0 +1,355 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { BadgePercent, Loader, Search, Trash2 } from "lucide-react";
+
+type SessionOption = { id: string; name: string };
+
+type FeeWaiverRecord = {
+  id: string;
+  createdAt: string;
+  percent: number;
+  reason: string;
+  invoiced: boolean;
+  candidate: {
+    id: string;
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+    otherName: string | null;
+    disability: string | null;
+    school: { centerNumber: string; centerName: string };
+    examSession: SessionOption | null;
+  };
+  grantedBy: { id: string; name: string };
+};
+
+const EMPTY_FORM = { registrationNumber: "", percent: "100", reason: "" };
+
+/**
+ * Super_Admin waivers of candidates' fees, for example on grounds of
+ * disability. A waiver is applied when the candidate is invoiced, so it
+ * can only be changed while they are not on an invoice.
+ */
+const FeeWaivers = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [search, setSearch] = useState("");
+  const [waivers, setWaivers] = useState<FeeWaiverRecord[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchWaivers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (sessionId) params.set("examSessionId", sessionId);
+      if (search.trim()) params.set("search", search.trim());
+
+      const response = await fetch(`/api/admin/fee-waivers?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load fee waivers");
+        return;
+      }
+
+      setWaivers(result.data);
+    } catch (error) {
+      console.error("Failed to load fee waivers:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, search]);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/exam-sessions");
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+          setSessions(result.data.sessions);
+        }
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  useEffect(() => {
+    fetchWaivers();
+  }, [fetchWaivers]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+
+    if (errors[name]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+    }
+  };
+
+  const grantWaiver = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch("/api/admin/fee-waivers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setErrors(result.errors || {});
+        setApiError(result.message || "Failed to grant the waiver");
+        return;
+      }
+
+      setForm(EMPTY_FORM);
+      setSuccessMessage(result.message);
+      fetchWaivers();
+    } catch (error) {
+      console.error("Failed to grant fee waiver:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revokeWaiver = async (waiver: FeeWaiverRecord) => {
+    if (
+      !window.confirm(
+        `Revoke the ${waiver.percent}% waiver for ${waiver.candidate.registrationNumber}?`
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/fee-waivers/${waiver.id}`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to revoke the waiver");
+        return;
+      }
+
+      setSuccessMessage(result.message);
+      fetchWaivers();
+    } catch (error) {
+      console.error("Failed to revoke fee waiver:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Fee Waivers</h1>
+          <p className="text-muted-foreground">
+            Reduce a candidate&apos;s fees, for example on grounds of
+            disability. The waiver is applied when their school raises the
+            invoice.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        <form onSubmit={grantWaiver} className="card p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            Grant a Waiver
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="form-label">Registration Number</label>
+              <input
+                name="registrationNumber"
+                value={form.registrationNumber}
+                onChange={handleInputChange}
+                className={`form-input ${
+                  errors.registrationNumber ? "border-error" : ""
+                }`}
+              />
+              {errors.registrationNumber && (
+                <p className="form-error">{errors.registrationNumber}</p>
+              )}
+            </div>
+            <div>
+              <label className="form-label">Waiver (% of fees)</label>
+              <input
+                type="number"
+                name="percent"
+                min={1}
+                max={100}
+                value={form.percent}
+                onChange={handleInputChange}
+                className={`form-input ${errors.percent ? "border-error" : ""}`}
+              />
+              {errors.percent && <p className="form-error">{errors.percent}</p>}
+            </div>
+            <div>
+              <label className="form-label">Reason</label>
+              <input
+                name="reason"
+                value={form.reason}
+                onChange={handleInputChange}
+                placeholder="e.g. Visual impairment"
+                className={`form-input ${errors.reason ? "border-error" : ""}`}
+              />
+              {errors.reason && <p className="form-error">{errors.reason}</p>}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={
+                !form.registrationNumber.trim() || !form.reason.trim() || isBusy
+              }
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isBusy ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : (
+                <BadgePercent className="w-4 h-4" />
+              )}
+              Grant Waiver
+            </button>
+          </div>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={sessionId}
+            onChange={(e) => setSessionId(e.target.value)}
+            className="form-select max-w-xs"
+          >
+            <option value="">All sessions</option>
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                {session.name}
+              </option>
+            ))}
+          </select>
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or registration number"
+              className="form-input pl-9"
+            />
+          </div>
+        </div>
+
+        {isLoading && waivers.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : waivers.length === 0 ? (
+          <div className="card p-8 text-center text-muted-foreground">
+            <BadgePercent className="w-8 h-8 mx-auto mb-2" />
+            No fee waivers have been granted.
+          </div>
+        ) : (
+          <div className="card p-0 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="p-3">Candidate</th>
+                    <th className="p-3">Centre</th>
+                    <th className="p-3">Session</th>
+                    <th className="p-3 text-right">Waiver</th>
+                    <th className="p-3">Reason</th>
+                    <th className="p-3">Granted</th>
+                    <th className="p-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {waivers.map((waiver) => (
+                    <tr key={waiver.id} className="border-b border-border">
+                      <td className="p-3">
+                        <p className="font-mono">
+                          {waiver.candidate.registrationNumber}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {waiver.candidate.surname}{" "}
+                          {waiver.candidate.firstName}
+                          {waiver.candidate.disability &&
+                            waiver.candidate.disability !== "None" &&
+                            ` · ${waiver.candidate.disability} disability`}
+                        </p>
+                      </td>
+                      <td className="p-3">
+                        {waiver.candidate.school.centerNumber}{" "}
+                        {waiver.candidate.school.centerName}
+                      </td>
+                      <td className="p-3">
+                        {waiver.candidate.examSession?.name ?? "—"}
+                      </td>
+                      <td className="p-3 text-right whitespace-nowrap">
+                        {waiver.percent}%
+                      </td>
+                      <td className="p-3">{waiver.reason}</td>
+                      <td className="p-3 whitespace-nowrap">
+                        <p>{new Date(waiver.createdAt).toLocaleDateString()}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {waiver.grantedBy.name}
+                        </p>
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-right">
+                        {waiver.invoiced ? (
+                          <span className="px-2 py-1 rounded text-xs font-medium bg-success-10 text-success">
+                            Invoiced
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => revokeWaiver(waiver)}
+                            disabled={isBusy}
+                            className="btn btn-outline flex items-center gap-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FeeWaivers;
@@ -0,0 +1,435 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { Loader, MessageSquareWarning, Paperclip, Send } from "lucide-react";
+import { formatAmount, type InvoiceRecord } from "./Make-Payment";
+import DisputeThread, {
+  DISPUTE_STATUS_STYLES,
+  EVIDENCE_ACCEPT,
+} from "./DisputeThread";
+
+export type DisputeRecord = {
+  id: string;
+  reference: string;
+  subject: string;
+  description: string;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  resolution: string | null;
+  school: { centerNumber: string; centerName: string };
+  invoice: { id: string; number: string; total: string; status: string };
+  payment: {
+    id: string;
+    reference: string;
+    amount: string;
+    method: string;
+    status: string;
+  } | null;
+  createdBy: { name: string };
+  _count: { comments: number; attachments: number };
+};
+
+type InvoicePayment = {
+  id: string;
+  reference: string;
+  amount: string;
+  status: string;
+};
+
+const initialForm = {
+  invoiceId: "",
+  paymentId: "",
+  subject: "",
+  description: "",
+};
+
+/**
+ * Raise a query about an invoice or payment and follow it through with the
+ * examination office. Super admins see every centre's disputes and move
+ * them along.
+ */
+const LogDispute = () => {
+  const [status, setStatus] = useState("");
+  const [disputes, setDisputes] = useState<DisputeRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [canReview, setCanReview] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [formData, setFormData] = useState(initialForm);
+  const [evidence, setEvidence] = useState<File[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchDisputes = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (status) params.set("status", status);
+        if (cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/admin/disputes?${params}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load disputes");
+          return;
+        }
+
+        setDisputes((current) =>
+          cursor ? [...current, ...result.data.disputes] : result.data.disputes
+        );
+        setNextCursor(result.data.pageInfo.nextCursor);
+        setCanReview(result.data.canReview);
+      } catch (error) {
+        console.error("Failed to load disputes:", error);
+        setApiError("Network error. Please check your connection.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  // Only school admins log disputes, so only they need the invoice list
+  useEffect(() => {
+    if (canReview) return;
+
+    const fetchInvoices = async () => {
+      try {
+        const response = await fetch("/api/admin/invoices");
+        const result = await response.json();
+        if (response.ok && result.success) setInvoices(result.data);
+      } catch (error) {
+        console.error("Failed to load invoices:", error);
+      }
+    };
+
+    fetchInvoices();
+  }, [canReview]);
+
+  useEffect(() => {
+    setPayments([]);
+    if (!formData.invoiceId) return;
+
+    const fetchPayments = async () => {
+      try {
+        const response = await fetch(
+          `/api/admin/invoices/${formData.invoiceId}`
+        );
+        const result = await response.json();
+        if (response.ok && result.success) setPayments(result.data.payments);
+      } catch (error) {
+        console.error("Failed to load invoice payments:", error);
+      }
+    };
+
+    fetchPayments();
+  }, [formData.invoiceId]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+      ...(name === "invoiceId" ? { paymentId: "" } : {}),
+    }));
+    if (errors[name]) {
+      setErrors((prev) => ({ ...prev, [name]: "" }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    setErrors({});
+
+    try {
+      const body = new FormData();
+      Object.entries(formData).forEach(([key, value]) => {
+        if (value) body.append(key, value);
+      });
+      evidence.forEach((file) => body.append("evidence", file));
+
+      const response = await fetch("/api/admin/disputes", {
+        method: "POST",
+        body,
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to log the dispute");
+        if (result.errors) setErrors(result.errors);
+        return;
+      }
+
+      setSuccessMessage(result.message);
+      setFormData(initialForm);
+      setEvidence([]);
+      fetchDisputes();
+    } catch (error) {
+      console.error("Failed to log dispute:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (selectedId) {
+    return (
+      <DisputeThread
+        disputeId={selectedId}
+        onBack={() => {
+          setSelectedId(null);
+          fetchDisputes();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            {canReview ? "Payment Disputes" : "Log a Dispute"}
+          </h1>
+          <p className="text-muted-foreground">
+            {canReview
+              ? "Review the disputes centres have raised about their invoices and payments."
+              : "Raise a problem with an invoice or payment and follow it up with the examination office."}
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        {!canReview && (
+          <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">
+              New Dispute
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="form-label">Invoice *</label>
+                <select
+                  name="invoiceId"
+                  value={formData.invoiceId}
+                  onChange={handleInputChange}
+                  className={`form-select ${errors.invoiceId ? "border-error" : ""}`}
+                >
+                  <option value="">Select an invoice</option>
+                  {invoices.map((invoice) => (
+                    <option key={invoice.id} value={invoice.id}>
+                      {invoice.number} · {formatAmount(invoice.total)}
+                    </option>
+                  ))}
+                </select>
+                {errors.invoiceId && (
+                  <p className="form-error">{errors.invoiceId}</p>
+                )}
+              </div>
+              <div>
+                <label className="form-label">Payment</label>
+                <select
+                  name="paymentId"
+                  value={formData.paymentId}
+                  onChange={handleInputChange}
+                  disabled={payments.length === 0}
+                  className={`form-select ${errors.paymentId ? "border-error" : ""}`}
+                >
+                  <option value="">The invoice as a whole</option>
+                  {payments.map((payment) => (
+                    <option key={payment.id} value={payment.id}>
+                      {payment.reference} · {formatAmount(payment.amount)} ·{" "}
+                      {payment.status}
+                    </option>
+                  ))}
+                </select>
+                {errors.paymentId && (
+                  <p className="form-error">{errors.paymentId}</p>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="form-label">Subject *</label>
+              <input
+                type="text"
+                name="subject"
+                value={formData.subject}
+                onChange={handleInputChange}
+                placeholder="e.g. Bank transfer not reflected"
+                className={`form-input ${errors.subject ? "border-error" : ""}`}
+              />
+              {errors.subject && <p className="form-error">{errors.subject}</p>}
+            </div>
+            <div>
+              <label className="form-label">Description *</label>
+              <textarea
+                name="description"
+                value={formData.description}
+                onChange={handleInputChange}
+                rows={4}
+                placeholder="What happened, when, and the amounts involved"
+                className={`form-input ${errors.description ? "border-error" : ""}`}
+              />
+              {errors.description && (
+                <p className="form-error">{errors.description}</p>
+              )}
+            </div>
+            <div>
+              <label className="form-label flex items-center gap-1">
+                <Paperclip className="w-4 h-4" />
+                Evidence (up to 5 images or PDFs, 5MB each)
+              </label>
+              <input
+                type="file"
+                multiple
+                accept={EVIDENCE_ACCEPT}
+                onChange={(e) => setEvidence(Array.from(e.target.files ?? []))}
+                className="form-input"
+              />
+              {errors.evidence && (
+                <p className="form-error">{errors.evidence}</p>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="btn btn-primary flex items-center gap-2"
+              >
+                {isSubmitting ? (
+                  <Loader className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4" />
+                )}
+                Log Dispute
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <h2 className="text-lg font-semibold text-foreground">Disputes</h2>
+          <div>
+            <label className="form-label">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="form-select"
+            >
+              <option value="">All</option>
+              {Object.keys(DISPUTE_STATUS_STYLES).map((value) => (
+                <option key={value} value={value}>
+                  {value.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {disputes.length === 0 ? (
+          isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="card p-8 text-center text-muted-foreground">
+              <MessageSquareWarning className="w-8 h-8 mx-auto mb-2" />
+              No disputes have been logged.
+            </div>
+          )
+        ) : (
+          <div className="card p-0 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="p-3">Reference</th>
+                    <th className="p-3">Subject</th>
+                    {canReview && <th className="p-3">Centre</th>}
+                    <th className="p-3">Concerning</th>
+                    <th className="p-3">Last Activity</th>
+                    <th className="p-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {disputes.map((dispute) => (
+                    <tr
+                      key={dispute.id}
+                      onClick={() => setSelectedId(dispute.id)}
+                      className="border-b border-border cursor-pointer hover:bg-muted-10"
+                    >
+                      <td className="p-3 font-mono whitespace-nowrap">
+                        {dispute.reference}
+                      </td>
+                      <td className="p-3">
+                        <p>{dispute.subject}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {dispute._count.comments} comment(s) ·{" "}
+                          {dispute._count.attachments} file(s)
+                        </p>
+                      </td>
+                      {canReview && (
+                        <td className="p-3">
+                          {dispute.school.centerNumber}{" "}
+                          {dispute.school.centerName}
+                        </td>
+                      )}
+                      <td className="p-3 font-mono">
+                        {dispute.payment?.reference ?? dispute.invoice.number}
+                      </td>
+                      <td className="p-3 whitespace-nowrap">
+                        {new Date(dispute.updatedAt).toLocaleDateString()}
+                      </td>
+                      <td className="p-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            DISPUTE_STATUS_STYLES[dispute.status] ?? ""
+                          }`}
+                        >
+                          {dispute.status.replace(/_/g, " ")}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => fetchDisputes(nextCursor)}
+              disabled={isLoading}
+              className="btn btn-outline"
+            >
+              {isLoading ? "Loading..." : "Load More"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LogDispute;
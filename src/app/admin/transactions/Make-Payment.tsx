@@ -0,0 +1,531 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  FilePlus,
+  Loader,
+  Receipt,
+} from "lucide-react";
+import Modal from "@/components/glob/Modal";
+import PaymentForm from "./PaymentForm";
+import VerificationCode, { type Verification } from "./VerificationCode";
+
+type SessionOption = { id: string; name: string };
+
+type FeeLine = {
+  kind: string;
+  description: string;
+  amount: string | number;
+};
+
+type InvoiceLine = FeeLine & {
+  id: string;
+  registrationNumber: string | null;
+};
+
+type Unbilled = {
+  session: SessionOption;
+  candidates: {
+    id: string;
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+    lines: FeeLine[];
+    total: number;
+  }[];
+  registrationFee: string;
+  total: string;
+};
+
+export type InvoiceRecord = {
+  id: string;
+  number: string;
+  status: string;
+  total: string;
+  amountPaid: string;
+  balance: string;
+  dueDate: string | null;
+  createdAt: string;
+  candidateCount: number;
+  examSession: SessionOption;
+  school: { centerNumber: string; centerName: string };
+  verification: Verification;
+};
+
+export const INVOICE_STATUS_STYLES: Record<string, string> = {
+  Unpaid: "bg-warning-10 text-warning",
+  Part_Paid: "bg-primary-10 text-primary",
+  Paid: "bg-success-10 text-success",
+  Cancelled: "bg-muted-10 text-muted-foreground",
+};
+
+export const formatAmount = (value: string | number) =>
+  `₦${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+// Discounts and waivers reduce what is owed
+const CREDIT_KINDS = ["Early_Bird_Discount", "Waiver"];
+
+/**
+ * Fee lines grouped by candidate, in the order the fees were applied.
+ */
+const FeeBreakdown = ({
+  lines,
+  total,
+}: {
+  lines: InvoiceLine[];
+  total: string | number;
+}) => (
+  <div className="max-h-80 overflow-auto border border-border rounded">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground border-b border-border">
+          <th className="p-2">Registration No.</th>
+          <th className="p-2">Item</th>
+          <th className="p-2 text-right">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line, index) => (
+          <tr key={line.id} className="border-b border-border">
+            <td className="p-2 font-mono whitespace-nowrap">
+              {line.registrationNumber !== lines[index - 1]?.registrationNumber
+                ? line.registrationNumber
+                : ""}
+            </td>
+            <td className="p-2">{line.description}</td>
+            <td
+              className={`p-2 text-right whitespace-nowrap ${
+                CREDIT_KINDS.includes(line.kind) ? "text-success" : ""
+              }`}
+            >
+              {formatAmount(line.amount)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr className="font-semibold">
+          <td className="p-2" colSpan={2}>
+            Total
+          </td>
+          <td className="p-2 text-right whitespace-nowrap">
+            {formatAmount(total)}
+          </td>
+        </tr>
+      </tfoot>
+    </table>
+  </div>
+);
+
+/**
+ * Raise registration fee invoices for the centre's candidates and record
+ * the bank payments made against them.
+ */
+const MakePayment = () => {
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [unbilled, setUnbilled] = useState<Unbilled | null>(null);
+  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [breakdowns, setBreakdowns] = useState<Record<string, InvoiceLine[]>>(
+    {}
+  );
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [cancelling, setCancelling] = useState<InvoiceRecord | null>(null);
+  const [reason, setReason] = useState("");
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchInvoices = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/invoices");
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load invoices");
+        return;
+      }
+
+      setInvoices(result.data);
+    } catch (error) {
+      console.error("Failed to load invoices:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchUnbilled = useCallback(async (examSessionId: string) => {
+    if (!examSessionId) {
+      setUnbilled(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/admin/invoices/unbilled?examSessionId=${encodeURIComponent(examSessionId)}`
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load candidates to bill");
+        return;
+      }
+
+      setUnbilled(result.data);
+    } catch (error) {
+      console.error("Failed to load candidates to bill:", error);
+      setApiError("Network error. Please check your connection.");
+    }
+  }, []);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/admin/assessments");
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load exam sessions");
+          return;
+        }
+
+        setSessions(result.data.sessions);
+      } catch (error) {
+        console.error("Failed to load exam sessions:", error);
+        setApiError("Network error. Please check your connection.");
+      }
+    };
+
+    fetchSessions();
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  useEffect(() => {
+    fetchUnbilled(sessionId);
+  }, [sessionId, fetchUnbilled]);
+
+  const toggleBreakdown = async (invoiceId: string) => {
+    if (expanded === invoiceId) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(invoiceId);
+    if (breakdowns[invoiceId]) return;
+
+    try {
+      const response = await fetch(`/api/admin/invoices/${invoiceId}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to load the invoice lines");
+        setExpanded(null);
+        return;
+      }
+
+      setBreakdowns((prev) => ({ ...prev, [invoiceId]: result.data.lines }));
+    } catch (error) {
+      console.error("Failed to load invoice lines:", error);
+      setApiError("Network error. Please check your connection.");
+      setExpanded(null);
+    }
+  };
+
+  const refresh = (message: string) => {
+    setSuccessMessage(message);
+    setApiError(null);
+    fetchInvoices();
+    fetchUnbilled(sessionId);
+  };
+
+  const raiseInvoice = async () => {
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch("/api/admin/invoices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ examSessionId: sessionId }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to raise the invoice");
+        return;
+      }
+
+      refresh(result.message);
+    } catch (error) {
+      console.error("Failed to raise invoice:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const cancelInvoice = async () => {
+    if (!cancelling) return;
+
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(
+        `/api/admin/invoices/${cancelling.id}/cancel`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason: reason.trim() }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to cancel the invoice");
+        return;
+      }
+
+      setCancelling(null);
+      setReason("");
+      refresh(result.message);
+    } catch (error) {
+      console.error("Failed to cancel invoice:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Make a Payment</h1>
+          <p className="text-muted-foreground">
+            Invoice registration fees for your candidates, then record the bank
+            payment for each invoice.
+          </p>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        <div className="card p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            Raise an Invoice
+          </h2>
+          <div>
+            <label className="form-label">Exam Session</label>
+            <select
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+              className="form-select"
+            >
+              <option value="">Select a session</option>
+              {sessions.map((session) => (
+                <option key={session.id} value={session.id}>
+                  {session.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {unbilled &&
+            (unbilled.candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Every registered candidate in this session is already on an
+                invoice.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <p className="text-sm">
+                    {unbilled.candidates.length} candidate(s) not yet invoiced,
+                    registration fee {formatAmount(unbilled.registrationFee)}{" "}
+                    each before discounts, late fees, subject fees and waivers:{" "}
+                    <span className="font-semibold">
+                      {formatAmount(unbilled.total)}
+                    </span>
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setShowPreview((prev) => !prev)}
+                      className="btn btn-outline flex items-center gap-1"
+                    >
+                      {showPreview ? (
+                        <ChevronUp className="w-4 h-4" />
+                      ) : (
+                        <ChevronDown className="w-4 h-4" />
+                      )}
+                      Breakdown
+                    </button>
+                    <button
+                      onClick={raiseInvoice}
+                      disabled={isBusy}
+                      className="btn btn-primary flex items-center gap-2"
+                    >
+                      {isBusy ? (
+                        <Loader className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <FilePlus className="w-4 h-4" />
+                      )}
+                      Raise Invoice
+                    </button>
+                  </div>
+                </div>
+                {showPreview && (
+                  <FeeBreakdown
+                    lines={unbilled.candidates.flatMap((candidate) =>
+                      candidate.lines.map((line, index) => ({
+                        ...line,
+                        id: `${candidate.id}-${index}`,
+                        registrationNumber: candidate.registrationNumber,
+                        description: `${line.description}: ${candidate.surname} ${candidate.firstName}`,
+                      }))
+                    )}
+                    total={unbilled.total}
+                  />
+                )}
+              </div>
+            ))}
+        </div>
+
+        {isLoading && invoices.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : invoices.length === 0 ? (
+          <div className="card p-8 text-center text-muted-foreground">
+            <Receipt className="w-8 h-8 mx-auto mb-2" />
+            No invoices have been raised yet.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {invoices.map((invoice) => (
+              <div key={invoice.id} className="card p-6 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-semibold font-mono">{invoice.number}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {invoice.examSession.name} · {invoice.candidateCount}{" "}
+                      candidate(s)
+                    </p>
+                  </div>
+                  <span
+                    className={`px-2 py-1 rounded text-xs font-medium ${
+                      INVOICE_STATUS_STYLES[invoice.status] ?? ""
+                    }`}
+                  >
+                    {invoice.status.replace(/_/g, " ")}
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                  <p>
+                    <span className="text-muted-foreground">Total: </span>
+                    {formatAmount(invoice.total)}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Paid: </span>
+                    {formatAmount(invoice.amountPaid)}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Balance: </span>
+                    {formatAmount(invoice.balance)}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Due: </span>
+                    {invoice.dueDate
+                      ? new Date(invoice.dueDate).toLocaleDateString()
+                      : "—"}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {(invoice.status === "Unpaid" ||
+                    invoice.status === "Part_Paid") && (
+                    <PaymentForm invoice={invoice} onRecorded={refresh} />
+                  )}
+                  <button
+                    onClick={() => toggleBreakdown(invoice.id)}
+                    className="btn btn-outline flex items-center gap-1"
+                  >
+                    {expanded === invoice.id ? (
+                      <ChevronUp className="w-4 h-4" />
+                    ) : (
+                      <ChevronDown className="w-4 h-4" />
+                    )}
+                    Breakdown
+                  </button>
+                  <VerificationCode
+                    title={`Verify Invoice ${invoice.number}`}
+                    verification={invoice.verification}
+                  />
+                  {invoice.status === "Unpaid" && (
+                    <button
+                      onClick={() => setCancelling(invoice)}
+                      className="btn btn-outline"
+                    >
+                      Cancel Invoice
+                    </button>
+                  )}
+                </div>
+
+                {expanded === invoice.id &&
+                  (breakdowns[invoice.id] ? (
+                    <FeeBreakdown
+                      lines={breakdowns[invoice.id]}
+                      total={invoice.total}
+                    />
+                  ) : (
+                    <Loader className="w-5 h-5 animate-spin text-primary" />
+                  ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Modal
+          isOpen={!!cancelling}
+          onClose={() => {
+            setCancelling(null);
+            setReason("");
+          }}
+          title={cancelling ? `Cancel Invoice ${cancelling.number}` : ""}
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Its candidates can be invoiced again afterwards. Give a reason; it
+              is kept in the audit log.
+            </p>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="form-input"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={cancelInvoice}
+                disabled={reason.trim().length < 3 || isBusy}
+                className="btn btn-primary"
+              >
+                Cancel Invoice
+              </button>
+            </div>
+          </div>
+        </Modal>
+      </div>
+    </div>
+  );
+};
+
+export default MakePayment;
@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useState } from "react";
+import Modal from "@/components/glob/Modal";
+
+export type PayableInvoice = {
+  id: string;
+  number: string;
+  balance: string;
+};
+
+type PaymentFormProps = {
+  invoice: PayableInvoice;
+  onRecorded: (message: string) => void;
+};
+
+const METHODS = [
+  { value: "Online", label: "Pay Online (Card or Bank App)" },
+  { value: "Bank_Transfer", label: "Bank Transfer" },
+  { value: "Bank_Deposit", label: "Bank Deposit (Teller)" },
+];
+
+/**
+ * Pays an invoice online through the payment gateway, or records a bank
+ * payment that is confirmed against the bank statement before the invoice
+ * is marked paid.
+ */
+const PaymentForm = ({ invoice, onRecorded }: PaymentFormProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    amount: "",
+    method: "Online",
+    payerReference: "",
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const open = () => {
+    setFormData({
+      amount: String(Number(invoice.balance)),
+      method: "Online",
+      payerReference: "",
+    });
+    setErrors({});
+    setApiError(null);
+    setIsOpen(true);
+  };
+
+  const isOnline = formData.method === "Online";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setErrors({});
+    setApiError(null);
+
+    try {
+      const response = await fetch(
+        isOnline ? "/api/admin/payments/online" : "/api/admin/payments",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            isOnline
+              ? { invoiceId: invoice.id, amount: formData.amount }
+              : { invoiceId: invoice.id, ...formData }
+          ),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setErrors(result.errors || {});
+        setApiError(result.message || "Failed to record the payment");
+        return;
+      }
+
+      if (isOnline) {
+        window.location.assign(result.data.authorizationUrl);
+        return;
+      }
+
+      setIsOpen(false);
+      onRecorded(result.message);
+    } catch (error) {
+      console.error("Failed to record payment:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button onClick={open} className="btn btn-primary">
+        Make Payment
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title={`Pay Invoice ${invoice.number}`}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {apiError && <div className="alert alert-error">{apiError}</div>}
+          <div>
+            <label htmlFor="amount" className="form-label">
+              Amount (₦)
+            </label>
+            <input
+              type="number"
+              id="amount"
+              min="0.01"
+              step="0.01"
+              value={formData.amount}
+              onChange={(e) =>
+                setFormData({ ...formData, amount: e.target.value })
+              }
+              className="form-input"
+              required
+            />
+            {errors.amount && (
+              <p className="text-error text-sm mt-1">{errors.amount}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="method" className="form-label">
+              Payment Method
+            </label>
+            <select
+              id="method"
+              value={formData.method}
+              onChange={(e) =>
+                setFormData({ ...formData, method: e.target.value })
+              }
+              className="form-select"
+            >
+              {METHODS.map((method) => (
+                <option key={method.value} value={method.value}>
+                  {method.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {!isOnline && (
+            <div>
+              <label htmlFor="payerReference" className="form-label">
+                Teller or Transfer Reference
+              </label>
+              <input
+                type="text"
+                id="payerReference"
+                value={formData.payerReference}
+                onChange={(e) =>
+                  setFormData({ ...formData, payerReference: e.target.value })
+                }
+                className="form-input"
+                required
+              />
+              {errors.payerReference && (
+                <p className="text-error text-sm mt-1">
+                  {errors.payerReference}
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="btn btn-outline"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn btn-primary"
+            >
+              {isSubmitting
+                ? "Submitting..."
+                : isOnline
+                  ? "Continue to Payment"
+                  : "Submit Payment"}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </>
+  );
+};
+
+export default PaymentForm;
@@ -0,0 +1,84 @@
+"use client";
+import React, { useState } from "react";
+import { Copy, ExternalLink, QrCode as QrIcon } from "lucide-react";
+import Modal from "@/components/glob/Modal";
+import QrCode from "@/components/glob/QrCode";
+
+export type Verification = { code: string; url: string };
+
+interface VerificationCodeProps {
+  title: string;
+  verification: Verification;
+}
+
+/**
+ * The verification QR code and link for an invoice or receipt, for the
+ * centre to print or share with whoever needs to check the document.
+ */
+const VerificationCode = ({ title, verification }: VerificationCodeProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(verification.url);
+      setCopied(true);
+    } catch (error) {
+      console.error("Failed to copy verification link:", error);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="btn btn-outline flex items-center gap-1"
+      >
+        <QrIcon className="w-4 h-4" />
+        Verify
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => {
+          setIsOpen(false);
+          setCopied(false);
+        }}
+        title={title}
+      >
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            <QrCode value={verification.url} />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Scanning the code or opening the link confirms the amount, school,
+            status and issue date of this document.
+          </p>
+          <p className="text-xs font-mono break-all bg-muted-10 p-2 rounded">
+            {verification.code}
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={copyLink}
+              className="btn btn-outline flex items-center gap-1"
+            >
+              <Copy className="w-4 h-4" />
+              {copied ? "Copied" : "Copy Link"}
+            </button>
+            <a
+              href={verification.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="btn btn-primary flex items-center gap-1"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Open
+            </a>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default VerificationCode;
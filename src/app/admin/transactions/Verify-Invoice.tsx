@@ -0,0 +1,164 @@
+"use client";
+import React, { useState } from "react";
+import { CheckCircle, Loader, Search, XCircle } from "lucide-react";
+import { formatAmount } from "./Make-Payment";
+
+type VerifiedDocument = {
+  kind: "invoice" | "receipt";
+  number: string;
+  amount: string;
+  status: string;
+  issuedAt: string;
+  school: { centerNumber: string; centerName: string };
+};
+
+// Accept the bare code or the whole link from the QR code
+const codeFrom = (input: string) => {
+  const value = input.trim();
+  const match = value.match(/\/verify\/invoice\/([^/?#\s]+)/);
+  return match ? decodeURIComponent(match[1]) : value;
+};
+
+/**
+ * Check an invoice or receipt someone has presented against what the
+ * portal issued, by its verification code or QR link.
+ */
+const VerifyInvoice = () => {
+  const [input, setInput] = useState("");
+  const [document, setDocument] = useState<VerifiedDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = codeFrom(input);
+    if (!code) return;
+
+    setIsLoading(true);
+    setApiError(null);
+    setDocument(null);
+    try {
+      const response = await fetch(
+        `/api/verify/invoice/${encodeURIComponent(code)}`
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to verify the document");
+        return;
+      }
+
+      setDocument(result.data);
+    } catch (error) {
+      console.error("Failed to verify document:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const valid =
+    document &&
+    (document.kind === "receipt"
+      ? document.status === "Successful"
+      : document.status !== "Cancelled");
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Verify an Invoice
+          </h1>
+          <p className="text-muted-foreground">
+            Paste the verification code or the link from an invoice or receipt
+            QR code.
+          </p>
+        </div>
+
+        <form onSubmit={verify} className="card p-6 space-y-4">
+          <div>
+            <label className="form-label">Verification Code or Link</label>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={3}
+              className="form-input font-mono text-xs"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!input.trim() || isLoading}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isLoading ? (
+                <Loader className="w-4 h-4 animate-spin" />
+              ) : (
+                <Search className="w-4 h-4" />
+              )}
+              Verify
+            </button>
+          </div>
+        </form>
+
+        {apiError && (
+          <div className="alert alert-error flex items-start gap-2">
+            <XCircle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">{apiError}</p>
+          </div>
+        )}
+
+        {document && (
+          <div className="card p-6 space-y-4">
+            <div
+              className={`alert ${valid ? "alert-success" : "alert-warning"} flex items-start gap-2`}
+            >
+              {valid ? (
+                <CheckCircle className="w-5 h-5 flex-shrink-0" />
+              ) : (
+                <XCircle className="w-5 h-5 flex-shrink-0" />
+              )}
+              <p className="text-sm">
+                {valid
+                  ? `This ${document.kind} is genuine.`
+                  : `This ${document.kind} was issued by the portal but is no longer valid.`}
+              </p>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-muted-foreground">
+                  {document.kind === "receipt" ? "Receipt" : "Invoice"}
+                </dt>
+                <dd className="font-mono">{document.number}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Issued</dt>
+                <dd>{new Date(document.issuedAt).toLocaleDateString()}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Amount</dt>
+                <dd className="font-medium">{formatAmount(document.amount)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Status</dt>
+                <dd>{document.status.replace(/_/g, " ")}</dd>
+              </div>
+              <div className="col-span-2">
+                <dt className="text-muted-foreground">
+                  {document.kind === "receipt" ? "Paid by" : "Billed to"}
+                </dt>
+                <dd>
+                  {document.school.centerNumber} {document.school.centerName}
+                </dd>
+              </div>
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyInvoice;
@@ -0,0 +1,358 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { Check, Loader, Receipt, RefreshCw, X } from "lucide-react";
+import Modal from "@/components/glob/Modal";
+import { formatAmount } from "./Make-Payment";
+import VerificationCode, { type Verification } from "./VerificationCode";
+
+type PaymentRecord = {
+  id: string;
+  reference: string;
+  amount: string;
+  method: string;
+  status: string;
+  payerReference: string | null;
+  createdAt: string;
+  paidAt: string | null;
+  reviewNote: string | null;
+  receipt: Verification | null;
+  invoice: {
+    number: string;
+    school: { centerNumber: string; centerName: string };
+    examSession: { name: string };
+  };
+};
+
+type PaymentPage = {
+  payments: PaymentRecord[];
+  pageInfo: { hasNextPage: boolean; nextCursor: string | null };
+  totalReceived: string;
+  canReview: boolean;
+};
+
+const PAYMENT_STATUS_STYLES: Record<string, string> = {
+  Pending: "bg-warning-10 text-warning",
+  Successful: "bg-success-10 text-success",
+  Failed: "bg-error-10 text-error",
+};
+
+/**
+ * Payments recorded against the centre's invoices. Super admins see every
+ * centre and confirm or reject pending bank payments against the bank
+ * statement.
+ */
+const ViewTransaction = () => {
+  const [status, setStatus] = useState("");
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalReceived, setTotalReceived] = useState("0");
+  const [canReview, setCanReview] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rejecting, setRejecting] = useState<PaymentRecord | null>(null);
+  const [note, setNote] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchPayments = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (status) params.set("status", status);
+        if (cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/admin/payments?${params}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          setApiError(result.message || "Failed to load transactions");
+          return;
+        }
+
+        const page: PaymentPage = result.data;
+        setPayments((current) =>
+          cursor ? [...current, ...page.payments] : page.payments
+        );
+        setNextCursor(page.pageInfo.nextCursor);
+        setTotalReceived(page.totalReceived);
+        setCanReview(page.canReview);
+      } catch (error) {
+        console.error("Failed to load transactions:", error);
+        setApiError("Network error. Please check your connection.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  // Online payments are settled by the gateway; this asks it directly when
+  // its webhook has not arrived
+  const checkStatus = async (payment: PaymentRecord) => {
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/payments/${payment.id}/verify`, {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to check the payment");
+        return;
+      }
+
+      setSuccessMessage(result.message);
+      fetchPayments();
+    } catch (error) {
+      console.error("Failed to check payment:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const review = async (
+    payment: PaymentRecord,
+    outcome: "Successful" | "Failed",
+    reviewNote?: string
+  ) => {
+    setIsBusy(true);
+    setApiError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/payments/${payment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: outcome, note: reviewNote }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setApiError(result.message || "Failed to update the payment");
+        return;
+      }
+
+      setRejecting(null);
+      setNote("");
+      setSuccessMessage(result.message);
+      fetchPayments();
+    } catch (error) {
+      console.error("Failed to review payment:", error);
+      setApiError("Network error. Please check your connection.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">
+              View Transactions
+            </h1>
+            <p className="text-muted-foreground">
+              Total received: {formatAmount(totalReceived)}
+            </p>
+          </div>
+          <div>
+            <label className="form-label">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="form-select"
+            >
+              <option value="">All</option>
+              <option value="Pending">Pending</option>
+              <option value="Successful">Successful</option>
+              <option value="Failed">Failed</option>
+            </select>
+          </div>
+        </div>
+
+        {apiError && <div className="alert alert-error">{apiError}</div>}
+        {successMessage && (
+          <div className="alert alert-success">{successMessage}</div>
+        )}
+
+        {payments.length === 0 ? (
+          isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="card p-8 text-center text-muted-foreground">
+              <Receipt className="w-8 h-8 mx-auto mb-2" />
+              No payments have been recorded yet.
+            </div>
+          )
+        ) : (
+          <div className="card p-0 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="p-3">Date</th>
+                    <th className="p-3">Reference</th>
+                    <th className="p-3">Invoice</th>
+                    {canReview && <th className="p-3">Centre</th>}
+                    <th className="p-3">Method</th>
+                    <th className="p-3 text-right">Amount</th>
+                    <th className="p-3">Status</th>
+                    <th className="p-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {payments.map((payment) => (
+                    <tr key={payment.id} className="border-b border-border">
+                      <td className="p-3 whitespace-nowrap">
+                        {new Date(payment.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="p-3">
+                        <p className="font-mono">{payment.reference}</p>
+                        {payment.payerReference && (
+                          <p className="text-xs text-muted-foreground">
+                            Teller {payment.payerReference}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3">
+                        <p className="font-mono">{payment.invoice.number}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {payment.invoice.examSession.name}
+                        </p>
+                      </td>
+                      {canReview && (
+                        <td className="p-3">
+                          {payment.invoice.school.centerNumber}{" "}
+                          {payment.invoice.school.centerName}
+                        </td>
+                      )}
+                      <td className="p-3 whitespace-nowrap">
+                        {payment.method.replace(/_/g, " ")}
+                      </td>
+                      <td className="p-3 text-right whitespace-nowrap">
+                        {formatAmount(payment.amount)}
+                      </td>
+                      <td className="p-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            PAYMENT_STATUS_STYLES[payment.status] ?? ""
+                          }`}
+                        >
+                          {payment.status}
+                        </span>
+                        {payment.reviewNote && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {payment.reviewNote}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3 whitespace-nowrap text-right">
+                        {payment.status === "Pending" &&
+                          (payment.method === "Online" ? (
+                            <button
+                              onClick={() => checkStatus(payment)}
+                              disabled={isBusy}
+                              className="btn btn-outline flex items-center gap-1"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                              Check Status
+                            </button>
+                          ) : (
+                            canReview && (
+                              <div className="inline-flex gap-2">
+                                <button
+                                  onClick={() => review(payment, "Successful")}
+                                  disabled={isBusy}
+                                  className="btn btn-primary flex items-center gap-1"
+                                >
+                                  <Check className="w-4 h-4" />
+                                  Confirm
+                                </button>
+                                <button
+                                  onClick={() => setRejecting(payment)}
+                                  disabled={isBusy}
+                                  className="btn btn-outline flex items-center gap-1"
+                                >
+                                  <X className="w-4 h-4" />
+                                  Reject
+                                </button>
+                              </div>
+                            )
+                          ))}
+                        {payment.receipt && (
+                          <div className="inline-flex">
+                            <VerificationCode
+                              title={`Verify Receipt ${payment.reference}`}
+                              verification={payment.receipt}
+                            />
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => fetchPayments(nextCursor)}
+              disabled={isLoading}
+              className="btn btn-outline"
+            >
+              {isLoading ? "Loading..." : "Load More"}
+            </button>
+          </div>
+        )}
+
+        <Modal
+          isOpen={!!rejecting}
+          onClose={() => {
+            setRejecting(null);
+            setNote("");
+          }}
+          title={rejecting ? `Reject Payment ${rejecting.reference}` : ""}
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Say why the payment could not be matched. The centre sees this
+              note.
+            </p>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              className="form-input"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={() =>
+                  rejecting && review(rejecting, "Failed", note.trim())
+                }
+                disabled={!note.trim() || isBusy}
+                className="btn btn-primary"
+              >
+                Reject Payment
+              </button>
+            </div>
+          </div>
+        </Modal>
+      </div>
+    </div>
+  );
+};
+
+export default ViewTransaction;
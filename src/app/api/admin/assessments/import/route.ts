@@ -0,0 +1,129 @@
+// File: src/app/api/admin/assessments/import/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { AssessmentImportService } from "@/lib/services/assessmentImportService";
+import { parseSpreadsheet } from "@/lib/utils/spreadsheet";
+import { AssessmentImportMappingSchema } from "@/lib/validation/assessment";
+import { assessmentErrorResponse, validationErrorResponse } from "../responses";
+
+// Upload a CSV or XLSX of scores for one subject. A dry run (the default)
+// previews the column mapping and every mismatch; otherwise the valid rows
+// are saved to the score sheet.
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const examSessionId = formData.get("examSessionId");
+    const subjectCode = formData.get("subjectCode");
+    const dryRun = formData.get("dryRun") !== "false";
+    const reason = formData.get("reason");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Please upload a CSV or XLSX file",
+          error: "MISSING_FILE",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof examSessionId !== "string" || typeof subjectCode !== "string") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session and subject are required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    let mappingJson: unknown = {};
+    try {
+      mappingJson = JSON.parse(String(formData.get("mapping") || "{}"));
+    } catch {
+      mappingJson = null;
+    }
+    const mapping = AssessmentImportMappingSchema.safeParse(mappingJson);
+
+    if (!mapping.success) {
+      return validationErrorResponse(mapping.error);
+    }
+
+    let spreadsheet;
+    try {
+      spreadsheet = await parseSpreadsheet(file);
+    } catch (parseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            parseError instanceof Error
+              ? parseError.message
+              : "The uploaded file could not be read",
+          error: "INVALID_FILE",
+        },
+        { status: 400 }
+      );
+    }
+
+    const validation = await AssessmentImportService.validate(
+      spreadsheet,
+      {
+        examSessionId,
+        subjectCode: subjectCode.trim().toUpperCase(),
+        mapping: mapping.data,
+      },
+      admin
+    );
+
+    const { cells, ...preview } = validation;
+    const validRows = preview.report.filter((row) => row.valid).length;
+    const summary = {
+      totalRows: preview.report.length,
+      validRows,
+      invalidRows: preview.report.length - validRows,
+      scores: cells.length,
+      replaced: preview.report.reduce(
+        (count, row) => count + Object.keys(row.replaces).length,
+        0
+      ),
+      notInFile: preview.notInFile.length,
+    };
+
+    if (dryRun || cells.length === 0) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        message:
+          Object.keys(preview.mappingErrors).length > 0
+            ? "Match the file's columns to the sheet to preview the import"
+            : `${validRows} of ${summary.totalRows} rows are ready to import`,
+        data: { summary, ...preview },
+      });
+    }
+
+    const result = await AssessmentImportService.commit(
+      validation,
+      typeof reason === "string" ? reason : undefined,
+      { admin, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun: false,
+      message: `${result.saved} score(s) imported from ${validRows} row(s)`,
+      data: { summary, ...preview },
+    });
+  } catch (error) {
+    return assessmentErrorResponse(error, "import");
+  }
+}
@@ -0,0 +1,39 @@
+// File: src/app/api/admin/assessments/reports/broadsheet/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestMeta, getSessionAdmin } from "@/lib/server/adminSession";
+import { ResultDocumentService } from "@/lib/services/resultDocumentService";
+import { assessmentErrorResponse } from "../../responses";
+import { pdfResponse } from "../pdf";
+
+// The school's broadsheet for ?examSessionId=; super admins add &schoolId=
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+    const { searchParams } = request.nextUrl;
+    const examSessionId = searchParams.get("examSessionId");
+
+    if (!examSessionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session is required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    const broadsheet = await ResultDocumentService.broadsheet(
+      {
+        examSessionId,
+        schoolId: searchParams.get("schoolId") || undefined,
+      },
+      { admin, ...getRequestMeta(request) }
+    );
+
+    return pdfResponse(broadsheet.pdf, broadsheet.filename);
+  } catch (error) {
+    return assessmentErrorResponse(error, "broadsheet");
+  }
+}
@@ -0,0 +1,13 @@
+// File: src/app/api/admin/assessments/reports/pdf.ts
+
+import { NextResponse } from "next/server";
+
+export function pdfResponse(pdf: Buffer, filename: string) {
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
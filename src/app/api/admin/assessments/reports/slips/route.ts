@@ -0,0 +1,41 @@
+// File: src/app/api/admin/assessments/reports/slips/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestMeta, getSessionAdmin } from "@/lib/server/adminSession";
+import { ResultDocumentService } from "@/lib/services/resultDocumentService";
+import { assessmentErrorResponse } from "../../responses";
+import { pdfResponse } from "../pdf";
+
+// Result slips for ?examSessionId=, one candidate with &candidateId= or the
+// whole school. Super admins add &schoolId=
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+    const { searchParams } = request.nextUrl;
+    const examSessionId = searchParams.get("examSessionId");
+
+    if (!examSessionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session is required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    const slips = await ResultDocumentService.resultSlips(
+      {
+        examSessionId,
+        schoolId: searchParams.get("schoolId") || undefined,
+        candidateId: searchParams.get("candidateId") || undefined,
+      },
+      { admin, ...getRequestMeta(request) }
+    );
+
+    return pdfResponse(slips.pdf, slips.filename);
+  } catch (error) {
+    return assessmentErrorResponse(error, "result slip");
+  }
+}
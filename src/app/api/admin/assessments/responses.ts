@@ -0,0 +1,41 @@
+// File: src/app/api/admin/assessments/responses.ts
+
+import { NextResponse } from "next/server";
+import { sessionErrorResponse } from "@/lib/server/adminSession";
+import { AssessmentError } from "@/lib/services/assessmentService";
+import { ResultDocumentError } from "@/lib/services/resultDocumentService";
+
+export { validationErrorResponse } from "../exam-sessions/responses";
+
+/**
+ * Shared catch block for the assessment routes.
+ */
+export function assessmentErrorResponse(error: unknown, action: string) {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (
+    error instanceof AssessmentError ||
+    error instanceof ResultDocumentError
+  ) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error instanceof AssessmentError ? error.errors : undefined,
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Assessment ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
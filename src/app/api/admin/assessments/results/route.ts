@@ -0,0 +1,34 @@
+// File: src/app/api/admin/assessments/results/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionSchoolAdmin } from "@/lib/server/adminSession";
+import { GradingService } from "@/lib/services/gradingService";
+import { assessmentErrorResponse } from "../responses";
+
+// The school's graded results for ?examSessionId=
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const examSessionId = request.nextUrl.searchParams.get("examSessionId");
+
+    if (!examSessionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session is required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    const results = await GradingService.getResults(
+      examSessionId,
+      admin.schoolId
+    );
+
+    return NextResponse.json({ success: true, data: results });
+  } catch (error) {
+    return assessmentErrorResponse(error, "results lookup");
+  }
+}
@@ -0,0 +1,34 @@
+// File: src/app/api/admin/assessments/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionAdmin,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { AssessmentService } from "@/lib/services/assessmentService";
+import { assessmentErrorResponse } from "./responses";
+
+// Without ?examSessionId= the sessions the admin can enter or moderate scores
+// for; with it, the subjects the school's candidates take in that session
+export async function GET(request: NextRequest) {
+  try {
+    const examSessionId = request.nextUrl.searchParams.get("examSessionId");
+
+    if (!examSessionId) {
+      const sessions = await AssessmentService.listSessions(
+        await getSessionAdmin()
+      );
+      return NextResponse.json({ success: true, data: { sessions } });
+    }
+
+    const admin = await getSessionSchoolAdmin();
+    const subjects = await AssessmentService.listSubjects(
+      examSessionId,
+      admin.schoolId
+    );
+
+    return NextResponse.json({ success: true, data: { subjects } });
+  } catch (error) {
+    return assessmentErrorResponse(error, "lookup");
+  }
+}
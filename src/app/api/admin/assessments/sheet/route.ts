@@ -0,0 +1,69 @@
+// File: src/app/api/admin/assessments/sheet/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { AssessmentService } from "@/lib/services/assessmentService";
+import { AssessmentScoresSchema } from "@/lib/validation/assessment";
+import { assessmentErrorResponse, validationErrorResponse } from "../responses";
+
+// The score sheet for ?examSessionId=&subjectCode=
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { searchParams } = request.nextUrl;
+    const examSessionId = searchParams.get("examSessionId");
+    const subjectCode = searchParams.get("subjectCode");
+
+    if (!examSessionId || !subjectCode) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session and subject are required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    const sheet = await AssessmentService.getSheet(
+      examSessionId,
+      subjectCode.toUpperCase(),
+      admin
+    );
+
+    return NextResponse.json({ success: true, data: sheet });
+  } catch (error) {
+    return assessmentErrorResponse(error, "sheet lookup");
+  }
+}
+
+// Save a batch of edited cells; the whole batch is rejected if any score is
+// out of range. Changes after submission need a reason.
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = AssessmentScoresSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await AssessmentService.saveScores(parsed.data, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.saved + result.cleared} score(s) saved`,
+      data: result,
+    });
+  } catch (error) {
+    return assessmentErrorResponse(error, "save");
+  }
+}
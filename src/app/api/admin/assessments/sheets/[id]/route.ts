@@ -0,0 +1,54 @@
+// File: src/app/api/admin/assessments/sheets/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestMeta, getSessionAdmin } from "@/lib/server/adminSession";
+import { AssessmentService } from "@/lib/services/assessmentService";
+import { AssessmentSheetScoresSchema } from "@/lib/validation/assessment";
+import {
+  assessmentErrorResponse,
+  validationErrorResponse,
+} from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const sheet = await AssessmentService.getSheetById(id, admin);
+
+    return NextResponse.json({ success: true, data: sheet });
+  } catch (error) {
+    return assessmentErrorResponse(error, "sheet lookup");
+  }
+}
+
+// Change scores on a sheet; moderators only once it has been submitted, and
+// then with a reason that is kept in the audit log
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = AssessmentSheetScoresSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const result = await AssessmentService.saveSheetScores(id, parsed.data, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.saved + result.cleared} score(s) saved`,
+      data: result,
+    });
+  } catch (error) {
+    return assessmentErrorResponse(error, "moderation save");
+  }
+}
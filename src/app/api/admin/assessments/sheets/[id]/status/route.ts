@@ -0,0 +1,47 @@
+// File: src/app/api/admin/assessments/sheets/[id]/status/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestMeta, getSessionAdmin } from "@/lib/server/adminSession";
+import { AssessmentService } from "@/lib/services/assessmentService";
+import { AssessmentStatusChangeSchema } from "@/lib/validation/assessment";
+import {
+  assessmentErrorResponse,
+  validationErrorResponse,
+} from "../../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const STATUS_MESSAGES = {
+  Draft: "Sheet returned to the school",
+  Submitted: "Sheet submitted for moderation",
+  Moderated: "Sheet moderated",
+  Locked: "Sheet locked",
+} as const;
+
+// Move a sheet through Draft -> Submitted -> Moderated -> Locked
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = AssessmentStatusChangeSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const sheet = await AssessmentService.transition(id, parsed.data, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: STATUS_MESSAGES[sheet.status],
+      data: sheet,
+    });
+  } catch (error) {
+    return assessmentErrorResponse(error, "status change");
+  }
+}
@@ -0,0 +1,36 @@
+// File: src/app/api/admin/assessments/sheets/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionAdmin } from "@/lib/server/adminSession";
+import { AssessmentService } from "@/lib/services/assessmentService";
+import { assessmentErrorResponse } from "../responses";
+
+// Sheets of ?examSessionId= with their moderation status. Super admins may
+// narrow to one school with &schoolId=
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+    const { searchParams } = request.nextUrl;
+    const examSessionId = searchParams.get("examSessionId");
+
+    if (!examSessionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session is required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    const sheets = await AssessmentService.listSheets(admin, {
+      examSessionId,
+      schoolId: searchParams.get("schoolId") || undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { sheets } });
+  } catch (error) {
+    return assessmentErrorResponse(error, "sheet list");
+  }
+}
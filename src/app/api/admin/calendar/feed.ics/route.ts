@@ -0,0 +1,54 @@
+// File: src/app/api/admin/calendar/feed.ics/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { CalendarError, CalendarService } from "@/lib/services/calendarService";
+
+// Keep recently passed dates in subscribed calendars
+const FEED_HISTORY_DAYS = 90;
+
+// iCalendar subscription feed. Calendar apps cannot send the session cookie,
+// so the admin is identified by the signed token in the link.
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+    if (!token) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Calendar token is required",
+          error: "MISSING_TOKEN",
+        },
+        { status: 401 }
+      );
+    }
+
+    const admin = await CalendarService.resolveFeedToken(token);
+    const from = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const events = await CalendarService.listEvents(admin, from);
+
+    return new NextResponse(CalendarService.toICalendar(events), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="exam-calendar.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    if (error instanceof CalendarError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while building the calendar feed",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// File: src/app/api/admin/calendar/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { CalendarService } from "@/lib/services/calendarService";
+
+// Upcoming registration, exam and result dates for the signed-in admin's
+// sessions, the next registration deadline, and a link calendar apps can
+// subscribe to. ?format=ics downloads the same events as a calendar file.
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+    const events = await CalendarService.listEvents(admin);
+
+    if (request.nextUrl.searchParams.get("format") === "ics") {
+      return new NextResponse(CalendarService.toICalendar(events), {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="exam-calendar.ics"',
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    const token = await CalendarService.createFeedToken(admin);
+    const feedUrl = new URL(
+      "/api/admin/calendar/feed.ics",
+      request.nextUrl.origin
+    );
+    feedUrl.searchParams.set("token", token);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        events,
+        nextDeadline: CalendarService.nextDeadline(events),
+        feedUrl: feedUrl.toString(),
+      },
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    console.error("Calendar error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading the calendar",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// File: src/app/api/admin/candidates/[id]/photo/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import {
+  CandidateServiceError,
+  toCandidateResponse,
+} from "@/lib/services/candidateService";
+import {
+  PassportPhotoError,
+  PassportPhotoService,
+} from "@/lib/services/passportPhotoService";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Replace a candidate's passport photo (multipart field "passport")
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { id } = await params;
+
+    const formData = await request.formData();
+    const passport = formData.get("passport");
+
+    if (!(passport instanceof File) || passport.size === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Passport photograph is required",
+          error: "VALIDATION_ERROR",
+          errors: { passport: "Passport photograph is required" },
+        },
+        { status: 400 }
+      );
+    }
+
+    const candidate = await PassportPhotoService.replace(id, passport, {
+      schoolId: admin.schoolId,
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Passport photo updated successfully",
+      data: toCandidateResponse(candidate),
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (
+      error instanceof PassportPhotoError ||
+      error instanceof CandidateServiceError
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          error: error.code,
+          errors: { passport: error.message },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("Passport photo upload error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+// File: src/app/api/admin/candidates/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import {
+  CandidateService,
+  CandidateServiceError,
+  toDecryptedCandidateResponse,
+} from "@/lib/services/candidateService";
+import {
+  CandidateUpdateSchema,
+  toFieldErrors,
+} from "@/lib/validation/candidate";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function serviceErrorResponse(error: CandidateServiceError) {
+  return NextResponse.json(
+    {
+      success: false,
+      message: error.message,
+      error: error.code,
+      errors: error.errors,
+    },
+    { status: error.status }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { id } = await params;
+
+    const candidate = await CandidateService.getCandidate(id, admin.schoolId);
+    const editBlocker = CandidateService.getEditBlocker(candidate);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...(await toDecryptedCandidateResponse(candidate)),
+        editable: editBlocker === null,
+        editBlockedReason: editBlocker?.message ?? null,
+      },
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof CandidateServiceError) {
+      return serviceErrorResponse(error);
+    }
+
+    console.error("Candidate lookup error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading the candidate",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = CandidateUpdateSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Please correct the highlighted fields",
+          error: "VALIDATION_ERROR",
+          errors: toFieldErrors(parsed.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { candidate, changes } = await CandidateService.updateCandidate(
+      id,
+      parsed.data,
+      {
+        schoolId: admin.schoolId,
+        performedBy: admin.id,
+        ...getRequestMeta(request),
+      }
+    );
+
+    const changedFields = Object.keys(changes);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        changedFields.length > 0
+          ? "Candidate updated successfully"
+          : "No changes were made",
+      data: {
+        candidate: await toDecryptedCandidateResponse(candidate),
+        changedFields,
+      },
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof CandidateServiceError) {
+      return serviceErrorResponse(error);
+    }
+
+    console.error("Candidate update error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
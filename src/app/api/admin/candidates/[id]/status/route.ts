@@ -0,0 +1,34 @@
+// File: src/app/api/admin/candidates/[id]/status/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { changeCandidateStatus } from "../../statusChange";
+import {
+  CandidateStatusChangeSchema,
+  toFieldErrors,
+} from "@/lib/validation/candidate";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  const body = await request.json().catch(() => null);
+  const parsed = CandidateStatusChangeSchema.safeParse(body ?? {});
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Please correct the highlighted fields",
+        error: "VALIDATION_ERROR",
+        errors: toFieldErrors(parsed.error),
+      },
+      { status: 400 }
+    );
+  }
+
+  return changeCandidateStatus(request, id, {
+    to: parsed.data.status,
+    reason: parsed.data.reason,
+  });
+}
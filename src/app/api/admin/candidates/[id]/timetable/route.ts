@@ -0,0 +1,73 @@
+// File: src/app/api/admin/candidates/[id]/timetable/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionSchoolAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { CalendarService } from "@/lib/services/calendarService";
+import {
+  TimetableError,
+  TimetableService,
+} from "@/lib/services/timetableService";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The papers a candidate sits, with clashes flagged. ?format=ics downloads
+// them as a calendar file the candidate can import.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { id } = await params;
+
+    const timetable = await TimetableService.getCandidateTimetable(
+      id,
+      admin.schoolId
+    );
+
+    if (request.nextUrl.searchParams.get("format") === "ics") {
+      const { candidate, papers } = timetable;
+      const calendar = CalendarService.toICalendar(
+        papers.map((paper) => ({
+          id: `${paper.id}-${candidate.id}`,
+          title: `${paper.subject.name} ${paper.paper}`,
+          start: paper.start,
+          end: paper.end,
+          allDay: false,
+          description: `${candidate.registrationNumber} at ${candidate.school.centerName} (${candidate.school.centerNumber})`,
+        })),
+        { name: `Timetable ${candidate.registrationNumber}` }
+      );
+
+      return new NextResponse(calendar, {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": `attachment; filename="timetable-${candidate.registrationNumber.replace(/[^\w-]/g, "_")}.ics"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: timetable });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof TimetableError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Candidate timetable error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading the timetable",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// File: src/app/api/admin/candidates/import/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { CandidateServiceError } from "@/lib/services/candidateService";
+import { CandidateImportService } from "@/lib/services/candidateImportService";
+import { parseSpreadsheet } from "@/lib/utils/spreadsheet";
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    // Default to a dry run so nothing is written unless explicitly asked
+    const dryRun = formData.get("dryRun") !== "false";
+    const acceptedTerms = formData.get("acceptedTerms") === "true";
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Please upload a CSV or XLSX file",
+          error: "MISSING_FILE",
+        },
+        { status: 400 }
+      );
+    }
+
+    let spreadsheet;
+    try {
+      spreadsheet = await parseSpreadsheet(file);
+    } catch (parseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            parseError instanceof Error
+              ? parseError.message
+              : "The uploaded file could not be read",
+          error: "INVALID_FILE",
+        },
+        { status: 400 }
+      );
+    }
+
+    const missingColumns = CandidateImportService.missingColumns(
+      spreadsheet.headers
+    );
+    if (missingColumns.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Missing required columns: ${missingColumns.join(", ")}`,
+          error: "MISSING_COLUMNS",
+          missingColumns,
+        },
+        { status: 400 }
+      );
+    }
+
+    const validation = await CandidateImportService.validate(spreadsheet.rows, {
+      schoolId: admin.schoolId,
+      acceptedTerms,
+    });
+
+    const summary = {
+      totalRows: validation.report.length,
+      validRows: validation.validRows.length,
+      invalidRows: validation.report.length - validation.validRows.length,
+    };
+
+    if (dryRun || validation.validRows.length === 0) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        message:
+          summary.invalidRows > 0
+            ? `${summary.validRows} of ${summary.totalRows} rows are ready to import`
+            : `All ${summary.totalRows} rows are ready to import`,
+        data: { summary, rows: validation.report },
+      });
+    }
+
+    const candidates = await CandidateImportService.commit(validation, {
+      schoolId: admin.schoolId,
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        dryRun: false,
+        message: `${candidates.length} candidates imported successfully`,
+        data: { summary, rows: validation.report, candidates },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof CandidateServiceError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Candidate import error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while importing candidates",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+// File: src/app/api/admin/candidates/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import {
+  CandidateService,
+  CandidateServiceError,
+  toCandidateResponse,
+} from "@/lib/services/candidateService";
+import {
+  PassportPhotoError,
+  PassportPhotoService,
+} from "@/lib/services/passportPhotoService";
+import {
+  CandidateListQuerySchema,
+  CandidateSchema,
+  toFieldErrors,
+} from "@/lib/validation/candidate";
+
+// The enrol form posts multipart data; JSON bodies are accepted as well
+async function readCandidateBody(
+  request: NextRequest
+): Promise<{ body: Record<string, unknown>; passport: File | null }> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (contentType.includes("application/json")) {
+    return { body: await request.json(), passport: null };
+  }
+
+  const formData = await request.formData();
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of formData.entries()) {
+    if (typeof value === "string") body[key] = value;
+  }
+  // Subjects are sent as one "subjects" entry per code
+  body.subjects = formData
+    .getAll("subjects")
+    .filter((value) => typeof value === "string");
+
+  const passport = formData.get("passport");
+  return {
+    body,
+    passport: passport instanceof File && passport.size > 0 ? passport : null,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const { body, passport } = await readCandidateBody(request);
+    const parsed = CandidateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Please correct the highlighted fields",
+          error: "VALIDATION_ERROR",
+          errors: toFieldErrors(parsed.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Reject a bad photo before anything is written
+    const photo = passport
+      ? await PassportPhotoService.process(passport)
+      : null;
+
+    const auditMeta = { performedBy: admin.id, ...getRequestMeta(request) };
+    let candidate = await CandidateService.createCandidate(parsed.data, {
+      schoolId: admin.schoolId,
+      ...auditMeta,
+    });
+
+    // The candidate is committed by now, so a storage failure must not turn
+    // the registration into an error; the photo can be uploaded again later
+    let photoSaved = true;
+    if (photo) {
+      try {
+        candidate = {
+          ...candidate,
+          ...(await PassportPhotoService.attach(
+            candidate.id,
+            photo,
+            auditMeta
+          )),
+        };
+      } catch (error) {
+        console.error("Passport photo storage error:", error);
+        photoSaved = false;
+      }
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: photoSaved
+          ? "Candidate registered successfully"
+          : "Candidate registered, but the passport photo could not be saved. Please upload it again from the candidate's record.",
+        ...(photoSaved ? {} : { warning: "PASSPORT_NOT_SAVED" }),
+        data: toCandidateResponse(candidate),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof CandidateServiceError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          error: error.code,
+          errors: error.errors,
+        },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof PassportPhotoError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          error: error.code,
+          errors: { passport: error.message },
+        },
+        { status: error.status }
+      );
+    }
+
+    console.error("Candidate registration error:", error);
+
+    let errorMessage = "Internal server error. Please try again later.";
+    let errorCode = "INTERNAL_ERROR";
+
+    if (
+      error instanceof Error &&
+      error.message.includes("Unique constraint failed")
+    ) {
+      errorMessage =
+        "Registration failed due to duplicate data. Please check your information and try again.";
+      errorCode = "DUPLICATE_DATA_ERROR";
+    }
+
+    return NextResponse.json(
+      { success: false, message: errorMessage, error: errorCode },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(
+        ([, value]) => value !== "" && value !== "All"
+      )
+    );
+    const parsed = CandidateListQuerySchema.safeParse(params);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Invalid query parameters",
+          error: "VALIDATION_ERROR",
+          errors: toFieldErrors(parsed.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await CandidateService.listCandidates(
+      admin.schoolId,
+      parsed.data
+    );
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    console.error("Candidate list error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading candidates",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+// File: src/app/api/admin/candidates/statusChange.ts
+// Shared handler for the candidate status routes
+
+import { NextRequest, NextResponse } from "next/server";
+import type { RegistrationStatus } from "@prisma/client";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import {
+  CandidateStatusError,
+  CandidateStatusService,
+} from "@/lib/services/candidateStatusService";
+import {
+  CandidateBatchStatusSchema,
+  toFieldErrors,
+} from "@/lib/validation/candidate";
+
+// Per-candidate error code -> HTTP status for single-candidate requests
+const SINGLE_ERROR_STATUS: Record<string, number> = {
+  CANDIDATE_NOT_FOUND: 404,
+  FORBIDDEN_TRANSITION: 403,
+  REASON_REQUIRED: 400,
+  INVALID_TRANSITION: 409,
+  STATUS_CHANGED: 409,
+};
+
+function statusErrorResponse(error: unknown): NextResponse {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (error instanceof CandidateStatusError) {
+    return NextResponse.json(
+      { success: false, message: error.message, error: error.code },
+      { status: error.status }
+    );
+  }
+
+  console.error("Candidate status change error:", error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * Change the status of a single candidate.
+ */
+export async function changeCandidateStatus(
+  request: NextRequest,
+  candidateId: string,
+  change: { to: RegistrationStatus; reason?: string }
+) {
+  try {
+    const admin = await getSessionAdmin();
+
+    const [result] = await CandidateStatusService.transition(
+      [candidateId],
+      change,
+      { admin, ...getRequestMeta(request) }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message, error: result.error },
+        { status: SINGLE_ERROR_STATUS[result.error ?? ""] ?? 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Candidate marked ${change.to}`,
+      data: result,
+    });
+  } catch (error) {
+    return statusErrorResponse(error);
+  }
+}
+
+/**
+ * Move every candidate in the request body to `to`, reporting the outcome
+ * for each one.
+ */
+export async function changeCandidateStatusBatch(
+  request: NextRequest,
+  to: RegistrationStatus
+) {
+  try {
+    const admin = await getSessionAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = CandidateBatchStatusSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Please select the candidates to update",
+          error: "VALIDATION_ERROR",
+          errors: toFieldErrors(parsed.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const results = await CandidateStatusService.transition(
+      parsed.data.candidateIds,
+      { to, reason: parsed.data.reason },
+      { admin, ...getRequestMeta(request) }
+    );
+
+    const updated = results.filter((result) => result.success).length;
+
+    return NextResponse.json({
+      success: updated > 0,
+      message: `${updated} of ${results.length} candidates marked ${to}`,
+      data: {
+        summary: {
+          requested: results.length,
+          updated,
+          failed: results.length - updated,
+        },
+        results,
+      },
+    });
+  } catch (error) {
+    return statusErrorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+// File: src/app/api/admin/candidates/subjects/route.ts
+
+import { NextResponse } from "next/server";
+import {
+  getSessionSchoolAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { CandidateService } from "@/lib/services/candidateService";
+import { SubjectService } from "@/lib/services/subjectService";
+import { DEFAULT_SUBJECT_RULES } from "@/lib/validation/subject";
+
+// Subject catalogue and the selection rules of the school's open session
+export async function GET() {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const [subjects, examSession] = await Promise.all([
+      SubjectService.getCatalogue(),
+      CandidateService.findOpenExamSession(admin.schoolId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        examSession: examSession
+          ? { id: examSession.id, name: examSession.name }
+          : null,
+        subjects: subjects.map(({ code, name }) => ({ code, name })),
+        rules: examSession
+          ? SubjectService.getRules(examSession)
+          : DEFAULT_SUBJECT_RULES,
+      },
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    console.error("Subject catalogue error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading subjects",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,9 @@
+// File: src/app/api/admin/candidates/submit/route.ts
+
+import { NextRequest } from "next/server";
+import { changeCandidateStatusBatch } from "../statusChange";
+
+// Submit many Pending candidates for verification
+export async function POST(request: NextRequest) {
+  return changeCandidateStatusBatch(request, "Submitted");
+}
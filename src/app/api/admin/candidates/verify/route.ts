@@ -0,0 +1,9 @@
+// File: src/app/api/admin/candidates/verify/route.ts
+
+import { NextRequest } from "next/server";
+import { changeCandidateStatusBatch } from "../statusChange";
+
+// Verify many Submitted candidates; Super_Admin only
+export async function POST(request: NextRequest) {
+  return changeCandidateStatusBatch(request, "Verified");
+}
@@ -0,0 +1,30 @@
+// File: src/app/api/admin/disputes/[id]/attachments/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestMeta, getSessionAdmin } from "@/lib/server/adminSession";
+import { DisputeService } from "@/lib/services/disputeService";
+import { disputeErrorResponse, evidenceFiles } from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Attach more evidence to a dispute (multipart field "evidence")
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const formData = await request.formData();
+    const attachments = await DisputeService.addEvidence(
+      id,
+      evidenceFiles(formData),
+      { admin, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json(
+      { success: true, message: "Evidence attached", data: attachments },
+      { status: 201 }
+    );
+  } catch (error) {
+    return disputeErrorResponse(error, "evidence upload");
+  }
+}
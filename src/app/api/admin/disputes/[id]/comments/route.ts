@@ -0,0 +1,33 @@
+// File: src/app/api/admin/disputes/[id]/comments/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionAdmin } from "@/lib/server/adminSession";
+import { DisputeService } from "@/lib/services/disputeService";
+import { DisputeCommentSchema } from "@/lib/validation/dispute";
+import { disputeErrorResponse, validationErrorResponse } from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Post to a dispute's thread
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = DisputeCommentSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const comment = await DisputeService.comment(id, parsed.data.body, admin);
+
+    return NextResponse.json(
+      { success: true, message: "Comment posted", data: comment },
+      { status: 201 }
+    );
+  } catch (error) {
+    return disputeErrorResponse(error, "comment");
+  }
+}
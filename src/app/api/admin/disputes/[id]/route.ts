@@ -0,0 +1,61 @@
+// File: src/app/api/admin/disputes/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { DisputeService } from "@/lib/services/disputeService";
+import { DisputeStatusSchema } from "@/lib/validation/dispute";
+import { disputeErrorResponse, validationErrorResponse } from "../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const STATUS_MESSAGES: Record<string, string> = {
+  Under_Review: "is now under review",
+  Resolved: "resolved",
+  Rejected: "rejected",
+};
+
+// One dispute with its comments and evidence
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const data = await DisputeService.get(id, admin);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return disputeErrorResponse(error, "read");
+  }
+}
+
+// Super_Admin moves a dispute to its next status
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = DisputeStatusSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const dispute = await DisputeService.changeStatus(id, parsed.data, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Dispute ${dispute.reference} ${STATUS_MESSAGES[dispute.status]}`,
+      data: dispute,
+    });
+  } catch (error) {
+    return disputeErrorResponse(error, "status change");
+  }
+}
@@ -0,0 +1,44 @@
+// File: src/app/api/admin/disputes/responses.ts
+
+import { NextResponse } from "next/server";
+import { sessionErrorResponse } from "@/lib/server/adminSession";
+import { DisputeError } from "@/lib/services/disputeService";
+
+export { validationErrorResponse } from "../exam-sessions/responses";
+
+/**
+ * Shared catch block for the dispute routes.
+ */
+export function disputeErrorResponse(error: unknown, action: string) {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (error instanceof DisputeError) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error.errors,
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Dispute ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
+
+// Evidence files sent under the "evidence" multipart field
+export function evidenceFiles(formData: FormData): File[] {
+  return formData
+    .getAll("evidence")
+    .filter((file): file is File => file instanceof File && file.size > 0);
+}
@@ -0,0 +1,76 @@
+// File: src/app/api/admin/disputes/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { DisputeService } from "@/lib/services/disputeService";
+import {
+  DisputeListQuerySchema,
+  DisputeSchema,
+} from "@/lib/validation/dispute";
+import {
+  disputeErrorResponse,
+  evidenceFiles,
+  validationErrorResponse,
+} from "./responses";
+
+// Disputes, most recently active first; see DisputeListQuerySchema
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+
+    const parsed = DisputeListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const data = await DisputeService.list(admin, parsed.data);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return disputeErrorResponse(error, "list");
+  }
+}
+
+// Log a dispute about one of the school's invoices or payments (multipart,
+// with optional "evidence" files)
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const formData = await request.formData();
+    const parsed = DisputeSchema.safeParse({
+      invoiceId: formData.get("invoiceId") ?? undefined,
+      paymentId: formData.get("paymentId") ?? undefined,
+      subject: formData.get("subject") ?? undefined,
+      description: formData.get("description") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const dispute = await DisputeService.create(
+      parsed.data,
+      evidenceFiles(formData),
+      { admin, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Dispute ${dispute.reference} logged`,
+        data: dispute,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return disputeErrorResponse(error, "create");
+  }
+}
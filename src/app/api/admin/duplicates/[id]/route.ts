@@ -0,0 +1,75 @@
+// File: src/app/api/admin/duplicates/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import {
+  DuplicateCheckError,
+  DuplicateCheckService,
+} from "@/lib/services/duplicateCheckService";
+import { toFieldErrors } from "@/lib/validation/candidate";
+import { DuplicateResolutionSchema } from "@/lib/validation/duplicate";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Merge or dismiss a flagged pair; Super_Admin only
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = DuplicateResolutionSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Please correct the highlighted fields",
+          error: "VALIDATION_ERROR",
+          errors: toFieldErrors(parsed.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const auditMeta = { performedBy: admin.id, ...getRequestMeta(request) };
+
+    const flag =
+      parsed.data.action === "merge"
+        ? await DuplicateCheckService.merge(id, parsed.data, auditMeta)
+        : await DuplicateCheckService.dismiss(id, parsed.data.note, auditMeta);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        parsed.data.action === "merge"
+          ? "Duplicate records merged"
+          : "Duplicate flag dismissed",
+      data: flag,
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof DuplicateCheckError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Duplicate resolution error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
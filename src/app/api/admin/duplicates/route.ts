@@ -0,0 +1,53 @@
+// File: src/app/api/admin/duplicates/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionSuperAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { DuplicateCheckService } from "@/lib/services/duplicateCheckService";
+import { toFieldErrors } from "@/lib/validation/candidate";
+import { DuplicateListQuerySchema } from "@/lib/validation/duplicate";
+
+// Duplicate review queue; Super_Admin only
+export async function GET(request: NextRequest) {
+  try {
+    await getSessionSuperAdmin();
+
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(
+        ([, value]) => value !== ""
+      )
+    );
+    const parsed = DuplicateListQuerySchema.safeParse(params);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Invalid query parameters",
+          error: "VALIDATION_ERROR",
+          errors: toFieldErrors(parsed.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await DuplicateCheckService.listFlags(parsed.data);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    console.error("Duplicate queue error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading the duplicate queue",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// File: src/app/api/admin/exam-sessions/[id]/grading/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { GradingService } from "@/lib/services/gradingService";
+import { GradingSchemeUpdateSchema } from "@/lib/validation/grading";
+import {
+  examSessionErrorResponse,
+  validationErrorResponse,
+} from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The session's grading scheme; any admin
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await getSessionAdmin();
+    const { id } = await params;
+
+    const grading = await GradingService.getScheme(id);
+
+    return NextResponse.json({ success: true, data: grading });
+  } catch (error) {
+    return examSessionErrorResponse(error, "grading lookup");
+  }
+}
+
+// Replace the scheme and regrade every school; Super_Admin only
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = GradingSchemeUpdateSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const grading = await GradingService.saveScheme(id, parsed.data.scheme, {
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Grading scheme saved; results regraded for ${grading.regraded} school(s)`,
+      data: grading,
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "grading update");
+  }
+}
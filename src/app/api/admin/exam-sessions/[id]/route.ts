@@ -0,0 +1,80 @@
+// File: src/app/api/admin/exam-sessions/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { ExamSessionService } from "@/lib/services/examSessionService";
+import { ExamSessionUpdateSchema } from "@/lib/validation/examSession";
+import {
+  examSessionErrorResponse,
+  validationErrorResponse,
+} from "../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const session = await ExamSessionService.getSession(id);
+
+    return NextResponse.json({ success: true, data: session });
+  } catch (error) {
+    return examSessionErrorResponse(error, "lookup");
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = ExamSessionUpdateSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { session, changes } = await ExamSessionService.updateSession(
+      id,
+      parsed.data,
+      { performedBy: admin.id, ...getRequestMeta(request) }
+    );
+
+    const changedFields = Object.keys(changes);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        changedFields.length > 0
+          ? "Exam session updated"
+          : "No changes were made",
+      data: { session, changedFields },
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "update");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    await ExamSessionService.deleteSession(id, {
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Exam session deleted",
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "delete");
+  }
+}
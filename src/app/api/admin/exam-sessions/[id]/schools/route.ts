@@ -0,0 +1,47 @@
+// File: src/app/api/admin/exam-sessions/[id]/schools/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { ExamSessionService } from "@/lib/services/examSessionService";
+import { ExamSessionSchoolsSchema } from "@/lib/validation/examSession";
+import {
+  examSessionErrorResponse,
+  validationErrorResponse,
+} from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Replace the schools a session is limited to; [] opens it to all schools
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = ExamSessionSchoolsSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const session = await ExamSessionService.setSchools(
+      id,
+      parsed.data.schoolIds,
+      { performedBy: admin.id, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message:
+        session.schools.length > 0
+          ? `Session limited to ${session.schools.length} school(s)`
+          : "Session is open to all schools",
+      data: session,
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "schools update");
+  }
+}
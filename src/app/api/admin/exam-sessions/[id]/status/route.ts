@@ -0,0 +1,44 @@
+// File: src/app/api/admin/exam-sessions/[id]/status/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { ExamSessionService } from "@/lib/services/examSessionService";
+import { ExamSessionStatusChangeSchema } from "@/lib/validation/examSession";
+import {
+  examSessionErrorResponse,
+  validationErrorResponse,
+} from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Open/close registration, start, complete or cancel a session
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = ExamSessionStatusChangeSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const session = await ExamSessionService.transition(
+      id,
+      { to: parsed.data.status, reason: parsed.data.reason },
+      { performedBy: admin.id, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Session status changed to ${session.status.replace(/_/g, " ")}`,
+      data: session,
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "status change");
+  }
+}
@@ -0,0 +1,69 @@
+// File: src/app/api/admin/exam-sessions/[id]/timetable/[entryId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { TimetableService } from "@/lib/services/timetableService";
+import { TimetableEntryUpdateSchema } from "@/lib/validation/timetable";
+import {
+  examSessionErrorResponse,
+  validationErrorResponse,
+} from "../../../responses";
+import { clashMessage } from "../clashes";
+
+type RouteContext = { params: Promise<{ id: string; entryId: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id, entryId } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = TimetableEntryUpdateSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { entry, clashes, changes } = await TimetableService.updateEntry(
+      id,
+      entryId,
+      parsed.data,
+      { performedBy: admin.id, ...getRequestMeta(request) }
+    );
+
+    const changedFields = Object.keys(changes);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        changedFields.length > 0
+          ? clashMessage("Paper updated", entry.id, clashes)
+          : "No changes were made",
+      data: { entry, clashes, changedFields },
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "timetable update");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id, entryId } = await params;
+
+    await TimetableService.deleteEntry(id, entryId, {
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: "Paper removed from the timetable",
+    });
+  } catch (error) {
+    return examSessionErrorResponse(error, "timetable delete");
+  }
+}
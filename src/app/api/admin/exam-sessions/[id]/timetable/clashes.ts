@@ -0,0 +1,22 @@
+// File: src/app/api/admin/exam-sessions/[id]/timetable/clashes.ts
+
+import type { TimetableClash } from "@/lib/services/timetableService";
+
+/**
+ * "Paper added. It clashes with PHY for 12 candidate(s)" when a saved paper
+ * shares a slot with another subject.
+ */
+export function clashMessage(
+  action: string,
+  entryId: string,
+  clashes: TimetableClash[]
+) {
+  if (clashes.length === 0) return action;
+
+  const details = clashes.map((clash) => {
+    const other = clash.subjects[clash.entryIds[0] === entryId ? 1 : 0];
+    return `${other} for ${clash.candidates} candidate(s)`;
+  });
+
+  return `${action}. It clashes with ${details.join(", ")}`;
+}
@@ -0,0 +1,63 @@
+// File: src/app/api/admin/exam-sessions/[id]/timetable/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { TimetableService } from "@/lib/services/timetableService";
+import { TimetableEntrySchema } from "@/lib/validation/timetable";
+import {
+  examSessionErrorResponse,
+  validationErrorResponse,
+} from "../../responses";
+import { clashMessage } from "./clashes";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The session's papers in sitting order with any clashes; any admin
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await getSessionAdmin();
+    const { id } = await params;
+
+    const timetable = await TimetableService.getTimetable(id);
+
+    return NextResponse.json({ success: true, data: timetable });
+  } catch (error) {
+    return examSessionErrorResponse(error, "timetable lookup");
+  }
+}
+
+// Add a paper to the timetable; Super_Admin only
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = TimetableEntrySchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { entry, clashes } = await TimetableService.createEntry(
+      id,
+      parsed.data,
+      { performedBy: admin.id, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: clashMessage("Paper added", entry.id, clashes),
+        data: { entry, clashes },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return examSessionErrorResponse(error, "timetable create");
+  }
+}
@@ -0,0 +1,55 @@
+// File: src/app/api/admin/exam-sessions/responses.ts
+
+import { NextResponse } from "next/server";
+import type { ZodError } from "zod";
+import { sessionErrorResponse } from "@/lib/server/adminSession";
+import { ExamSessionError } from "@/lib/services/examSessionService";
+import { GradingError } from "@/lib/services/gradingService";
+import { TimetableError } from "@/lib/services/timetableService";
+import { toFieldErrors } from "@/lib/validation/candidate";
+
+export function validationErrorResponse(error: ZodError) {
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Please correct the highlighted fields",
+      error: "VALIDATION_ERROR",
+      errors: toFieldErrors(error),
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Shared catch block for the exam session, timetable and grading routes.
+ */
+export function examSessionErrorResponse(error: unknown, action: string) {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (
+    error instanceof ExamSessionError ||
+    error instanceof TimetableError ||
+    error instanceof GradingError
+  ) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error.errors,
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Exam session ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
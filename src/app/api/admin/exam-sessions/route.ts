@@ -0,0 +1,59 @@
+// File: src/app/api/admin/exam-sessions/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { ExamSessionService } from "@/lib/services/examSessionService";
+import {
+  EXAM_SESSION_STATUSES,
+  ExamSessionSchema,
+} from "@/lib/validation/examSession";
+import { examSessionErrorResponse, validationErrorResponse } from "./responses";
+
+type SessionStatus = (typeof EXAM_SESSION_STATUSES)[number];
+
+// All exam sessions, optionally filtered by ?status=; Super_Admin only
+export async function GET(request: NextRequest) {
+  try {
+    await getSessionSuperAdmin();
+
+    const status = request.nextUrl.searchParams.get("status");
+    const sessions = await ExamSessionService.listSessions({
+      status: EXAM_SESSION_STATUSES.includes(status as SessionStatus)
+        ? (status as SessionStatus)
+        : undefined,
+    });
+
+    return NextResponse.json({ success: true, data: { sessions } });
+  } catch (error) {
+    return examSessionErrorResponse(error, "list");
+  }
+}
+
+// Create a session in the Upcoming state; Super_Admin only
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSuperAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = ExamSessionSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const session = await ExamSessionService.createSession(parsed.data, {
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json(
+      { success: true, message: "Exam session created", data: session },
+      { status: 201 }
+    );
+  } catch (error) {
+    return examSessionErrorResponse(error, "create");
+  }
+}
@@ -0,0 +1,31 @@
+// File: src/app/api/admin/fee-waivers/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { FeeWaiverService } from "@/lib/services/feeWaiverService";
+import { feeWaiverErrorResponse } from "../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Withdraw a waiver before its candidate is invoiced; Super_Admin only
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const waiver = await FeeWaiverService.revoke(id, {
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Fee waiver for ${waiver.candidate.registrationNumber} revoked`,
+    });
+  } catch (error) {
+    return feeWaiverErrorResponse(error, "revoke");
+  }
+}
@@ -0,0 +1,37 @@
+// File: src/app/api/admin/fee-waivers/responses.ts
+
+import { NextResponse } from "next/server";
+import { sessionErrorResponse } from "@/lib/server/adminSession";
+import { FeeWaiverError } from "@/lib/services/feeWaiverService";
+
+export { validationErrorResponse } from "../exam-sessions/responses";
+
+/**
+ * Shared catch block for the fee waiver routes.
+ */
+export function feeWaiverErrorResponse(error: unknown, action: string) {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (error instanceof FeeWaiverError) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error.errors,
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Fee waiver ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,65 @@
+// File: src/app/api/admin/fee-waivers/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { FeeWaiverService } from "@/lib/services/feeWaiverService";
+import {
+  FeeWaiverListQuerySchema,
+  FeeWaiverSchema,
+} from "@/lib/validation/fee";
+import { feeWaiverErrorResponse, validationErrorResponse } from "./responses";
+
+// Waivers, newest first; Super_Admin only
+export async function GET(request: NextRequest) {
+  try {
+    await getSessionSuperAdmin();
+
+    const parsed = FeeWaiverListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const data = await FeeWaiverService.list(parsed.data);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return feeWaiverErrorResponse(error, "list");
+  }
+}
+
+// Grant a candidate a waiver, applied when they are invoiced; Super_Admin
+// only
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSuperAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = FeeWaiverSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const waiver = await FeeWaiverService.grant(parsed.data, {
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `${waiver.percent}% fee waiver granted to ${waiver.candidate.registrationNumber}`,
+        data: waiver,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return feeWaiverErrorResponse(error, "grant");
+  }
+}
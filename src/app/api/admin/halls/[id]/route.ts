@@ -0,0 +1,63 @@
+// File: src/app/api/admin/halls/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { SeatingService } from "@/lib/services/seatingService";
+import { ExamHallUpdateSchema } from "@/lib/validation/seating";
+import {
+  seatingErrorResponse,
+  validationErrorResponse,
+} from "../../seating/responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = ExamHallUpdateSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { hall, changes } = await SeatingService.updateHall(id, parsed.data, {
+      schoolId: admin.schoolId,
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        Object.keys(changes).length > 0
+          ? "Exam hall updated"
+          : "No changes were made",
+      data: hall,
+    });
+  } catch (error) {
+    return seatingErrorResponse(error, "hall update");
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const { id } = await params;
+
+    await SeatingService.deleteHall(id, {
+      schoolId: admin.schoolId,
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({ success: true, message: "Exam hall deleted" });
+  } catch (error) {
+    return seatingErrorResponse(error, "hall delete");
+  }
+}
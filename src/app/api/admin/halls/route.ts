@@ -0,0 +1,52 @@
+// File: src/app/api/admin/halls/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { SeatingService } from "@/lib/services/seatingService";
+import { ExamHallSchema } from "@/lib/validation/seating";
+import {
+  seatingErrorResponse,
+  validationErrorResponse,
+} from "../seating/responses";
+
+// The school's exam halls
+export async function GET() {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const data = await SeatingService.listHalls(admin.schoolId);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return seatingErrorResponse(error, "hall list");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = ExamHallSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const hall = await SeatingService.createHall(parsed.data, {
+      schoolId: admin.schoolId,
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json(
+      { success: true, message: "Exam hall added", data: hall },
+      { status: 201 }
+    );
+  } catch (error) {
+    return seatingErrorResponse(error, "hall create");
+  }
+}
@@ -0,0 +1,36 @@
+// File: src/app/api/admin/invoices/[id]/cancel/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestMeta, getSessionAdmin } from "@/lib/server/adminSession";
+import { InvoiceService } from "@/lib/services/invoiceService";
+import { InvoiceCancelSchema } from "@/lib/validation/payment";
+import { invoiceErrorResponse, validationErrorResponse } from "../../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = InvoiceCancelSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const invoice = await InvoiceService.cancel(id, parsed.data.reason, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Invoice ${invoice.number} cancelled`,
+      data: invoice,
+    });
+  } catch (error) {
+    return invoiceErrorResponse(error, "cancel");
+  }
+}
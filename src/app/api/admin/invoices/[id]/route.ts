@@ -0,0 +1,22 @@
+// File: src/app/api/admin/invoices/[id]/route.ts
+
+import { NextResponse } from "next/server";
+import { getSessionAdmin } from "@/lib/server/adminSession";
+import { InvoiceService } from "@/lib/services/invoiceService";
+import { invoiceErrorResponse } from "../responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// One invoice with its lines and payments
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const data = await InvoiceService.get(id, admin);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return invoiceErrorResponse(error, "lookup");
+  }
+}
@@ -0,0 +1,53 @@
+// File: src/app/api/admin/invoices/responses.ts
+
+import { NextResponse } from "next/server";
+import { sessionErrorResponse } from "@/lib/server/adminSession";
+import { PaymentGatewayError } from "@/lib/server/paymentGateway";
+import { InvoiceError } from "@/lib/services/invoiceService";
+
+export { validationErrorResponse } from "../exam-sessions/responses";
+
+/**
+ * Shared catch block for the invoice and payment routes.
+ */
+export function invoiceErrorResponse(error: unknown, action: string) {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (error instanceof InvoiceError) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error.errors,
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof PaymentGatewayError) {
+    console.error(`Payment gateway ${action} error:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        message:
+          error.status >= 500
+            ? "The payment gateway is unavailable. Please try again later."
+            : error.message,
+        error: error.code,
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Invoice ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
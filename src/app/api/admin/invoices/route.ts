@@ -0,0 +1,68 @@
+// File: src/app/api/admin/invoices/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import type { InvoiceStatus } from "@prisma/client";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { InvoiceService } from "@/lib/services/invoiceService";
+import { InvoiceGenerateSchema } from "@/lib/validation/payment";
+import { invoiceErrorResponse, validationErrorResponse } from "./responses";
+
+const INVOICE_STATUSES: InvoiceStatus[] = [
+  "Unpaid",
+  "Part_Paid",
+  "Paid",
+  "Cancelled",
+];
+
+// Invoices, filtered by ?examSessionId, ?status and (Super_Admin) ?schoolId
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+    const params = request.nextUrl.searchParams;
+    const status = params.get("status");
+
+    const data = await InvoiceService.list(admin, {
+      examSessionId: params.get("examSessionId") || undefined,
+      status: INVOICE_STATUSES.find((value) => value === status),
+      schoolId: params.get("schoolId") || undefined,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return invoiceErrorResponse(error, "list");
+  }
+}
+
+// Raise an invoice for the school's unbilled candidates in a session
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = InvoiceGenerateSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const invoice = await InvoiceService.generate(parsed.data.examSessionId, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Invoice ${invoice.number} raised for ${invoice.candidateCount} candidate(s)`,
+        data: invoice,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return invoiceErrorResponse(error, "generate");
+  }
+}
@@ -0,0 +1,40 @@
+// File: src/app/api/admin/invoices/unbilled/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionSchoolAdmin } from "@/lib/server/adminSession";
+import { InvoiceService } from "@/lib/services/invoiceService";
+import { invoiceErrorResponse } from "../responses";
+
+// What a new invoice for ?examSessionId would cover, candidate by candidate
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const examSessionId = request.nextUrl.searchParams.get("examSessionId");
+
+    if (!examSessionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Exam session is required",
+          error: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { session, candidates, registrationFee, total } =
+      await InvoiceService.unbilled(examSessionId, admin.schoolId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        session: { id: session.id, name: session.name },
+        candidates,
+        registrationFee,
+        total,
+      },
+    });
+  } catch (error) {
+    return invoiceErrorResponse(error, "preview");
+  }
+}
@@ -0,0 +1,46 @@
+// File: src/app/api/admin/payments/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSuperAdmin,
+} from "@/lib/server/adminSession";
+import { PaymentService } from "@/lib/services/paymentService";
+import { PaymentReviewSchema } from "@/lib/validation/payment";
+import {
+  invoiceErrorResponse,
+  validationErrorResponse,
+} from "../../invoices/responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Super_Admin confirms or rejects a pending payment
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionSuperAdmin();
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const parsed = PaymentReviewSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const payment = await PaymentService.review(id, parsed.data, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        payment.status === "Successful"
+          ? `Payment ${payment.reference} confirmed`
+          : `Payment ${payment.reference} rejected`,
+      data: payment,
+    });
+  } catch (error) {
+    return invoiceErrorResponse(error, "payment review");
+  }
+}
@@ -0,0 +1,35 @@
+// File: src/app/api/admin/payments/[id]/verify/route.ts
+
+import { NextResponse } from "next/server";
+import { getSessionAdmin } from "@/lib/server/adminSession";
+import { PaymentService } from "@/lib/services/paymentService";
+import { invoiceErrorResponse } from "../../../invoices/responses";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const OUTCOME_MESSAGES: Record<string, string> = {
+  confirmed: "Payment confirmed",
+  failed: "The payment did not go through",
+  amount_mismatch:
+    "The amount charged does not match; the payment was rejected",
+  pending: "The payment has not been completed yet",
+  already_settled: "This payment is already settled",
+};
+
+// Check a pending online payment with its gateway
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const { id } = await params;
+
+    const { outcome, payment } = await PaymentService.verifyOnline(id, admin);
+
+    return NextResponse.json({
+      success: true,
+      message: OUTCOME_MESSAGES[outcome] ?? "Payment checked",
+      data: payment,
+    });
+  } catch (error) {
+    return invoiceErrorResponse(error, "payment verify");
+  }
+}
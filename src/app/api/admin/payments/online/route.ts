@@ -0,0 +1,43 @@
+// File: src/app/api/admin/payments/online/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { PaymentService } from "@/lib/services/paymentService";
+import { OnlinePaymentSchema } from "@/lib/validation/payment";
+import {
+  invoiceErrorResponse,
+  validationErrorResponse,
+} from "../../invoices/responses";
+
+// Start an online payment; the client sends the payer to authorizationUrl
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = OnlinePaymentSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const { payment, authorizationUrl } = await PaymentService.initiateOnline(
+      parsed.data,
+      { admin, ...getRequestMeta(request) }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Redirecting to the payment page",
+        data: { reference: payment.reference, authorizationUrl },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return invoiceErrorResponse(error, "online payment");
+  }
+}
@@ -0,0 +1,68 @@
+// File: src/app/api/admin/payments/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionAdmin,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { PaymentService } from "@/lib/services/paymentService";
+import {
+  PaymentListQuerySchema,
+  PaymentSchema,
+} from "@/lib/validation/payment";
+import {
+  invoiceErrorResponse,
+  validationErrorResponse,
+} from "../invoices/responses";
+
+// Payments newest first; see PaymentListQuerySchema for the filters
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionAdmin();
+
+    const parsed = PaymentListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const data = await PaymentService.list(admin, parsed.data);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    return invoiceErrorResponse(error, "payment list");
+  }
+}
+
+// Record a bank payment against one of the school's invoices
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = PaymentSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const payment = await PaymentService.record(parsed.data, {
+      admin,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Payment ${payment.reference} recorded and awaiting confirmation`,
+        data: payment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return invoiceErrorResponse(error, "payment record");
+  }
+}
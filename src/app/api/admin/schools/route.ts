@@ -0,0 +1,56 @@
+// File: src/app/api/admin/schools/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionSuperAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { prisma } from "@/lib/server/prisma";
+
+// Active schools for pickers, filtered by ?search= on center number or name;
+// Super_Admin only
+export async function GET(request: NextRequest) {
+  try {
+    await getSessionSuperAdmin();
+
+    const search = request.nextUrl.searchParams.get("search")?.trim();
+
+    const schools = await prisma.school.findMany({
+      where: {
+        isActive: true,
+        ...(search
+          ? {
+              OR: [
+                { centerNumber: { contains: search, mode: "insensitive" } },
+                { centerName: { contains: search, mode: "insensitive" } },
+              ],
+            }
+          : {}),
+      },
+      select: {
+        id: true,
+        centerNumber: true,
+        centerName: true,
+        state: true,
+        lga: true,
+      },
+      orderBy: { centerNumber: "asc" },
+      take: 200,
+    });
+
+    return NextResponse.json({ success: true, data: { schools } });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    console.error("School list error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading schools",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// File: src/app/api/admin/seating/plan/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionSchoolAdmin } from "@/lib/server/adminSession";
+import { SeatingService } from "@/lib/services/seatingService";
+import { seatingErrorResponse } from "../responses";
+
+// Printable seating plan for ?timetableEntryId=, one hall per page
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const timetableEntryId =
+      request.nextUrl.searchParams.get("timetableEntryId");
+
+    if (!timetableEntryId) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "timetableEntryId is required",
+          error: "MISSING_PAPER",
+        },
+        { status: 400 }
+      );
+    }
+
+    const plan = await SeatingService.getPlan(timetableEntryId, admin.schoolId);
+
+    return new NextResponse(SeatingService.renderPlanHtml(plan), {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    return seatingErrorResponse(error, "plan");
+  }
+}
@@ -0,0 +1,37 @@
+// File: src/app/api/admin/seating/responses.ts
+
+import { NextResponse } from "next/server";
+import { sessionErrorResponse } from "@/lib/server/adminSession";
+import { SeatingError } from "@/lib/services/seatingService";
+
+export { validationErrorResponse } from "../exam-sessions/responses";
+
+/**
+ * Shared catch block for the hall and seating routes.
+ */
+export function seatingErrorResponse(error: unknown, action: string) {
+  const sessionResponse = sessionErrorResponse(error);
+  if (sessionResponse) return sessionResponse;
+
+  if (error instanceof SeatingError) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error.errors,
+      },
+      { status: error.status }
+    );
+  }
+
+  console.error(`Seating ${action} error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      message: "Internal server error. Please try again later.",
+      error: "INTERNAL_ERROR",
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,59 @@
+// File: src/app/api/admin/seating/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getRequestMeta,
+  getSessionSchoolAdmin,
+} from "@/lib/server/adminSession";
+import { SeatingService } from "@/lib/services/seatingService";
+import { SeatAllocationSchema } from "@/lib/validation/seating";
+import { seatingErrorResponse, validationErrorResponse } from "./responses";
+
+// Without ?timetableEntryId= the papers the school can seat; with it, the
+// current seating plan for that paper
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+    const timetableEntryId =
+      request.nextUrl.searchParams.get("timetableEntryId");
+
+    if (!timetableEntryId) {
+      const papers = await SeatingService.listPapers(admin.schoolId);
+      return NextResponse.json({ success: true, data: { papers } });
+    }
+
+    const plan = await SeatingService.getPlan(timetableEntryId, admin.schoolId);
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    return seatingErrorResponse(error, "lookup");
+  }
+}
+
+// Allocate (or reallocate) seats for a paper
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getSessionSchoolAdmin();
+
+    const body = await request.json().catch(() => null);
+    const parsed = SeatAllocationSchema.safeParse(body ?? {});
+
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error);
+    }
+
+    const plan = await SeatingService.allocate(parsed.data, {
+      schoolId: admin.schoolId,
+      performedBy: admin.id,
+      ...getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${plan.seated} candidate(s) seated in ${plan.halls.length} hall(s)`,
+      data: plan,
+    });
+  } catch (error) {
+    return seatingErrorResponse(error, "allocation");
+  }
+}
@@ -4,6 +4,7 @@ import { prisma } from "@/lib/server/prisma";
 import { protectData } from "@/lib/security/dataProtection";
 import { EmailService } from "@/lib/services/emailService";
 import { JWTUtils } from "@/lib/server/jwt";
+import { ReferenceDataService } from "@/lib/services/referenceDataService";
 
 const emailService = EmailService.getInstance();
 
@@ -64,6 +65,26 @@ export async function POST(request: NextRequest) {
 
     console.log("✅ All required fields present");
 
+    const location = ReferenceDataService.resolveLocation(
+      body.state,
+      body.lga,
+      await ReferenceDataService.getLocationIndex()
+    );
+
+    if (location.errors) {
+      const [field, message] = Object.entries(location.errors)[0];
+      console.error("❌ Invalid school location:", location.errors);
+      return NextResponse.json(
+        {
+          success: false,
+          message,
+          error: "INVALID_LOCATION",
+          field,
+        },
+        { status: 400 }
+      );
+    }
+
     // Protect sensitive data for lookups - UPDATED to use adminNin
     console.log("🔐 Starting data protection...");
     const [
@@ -367,8 +388,8 @@ export async function POST(request: NextRequest) {
           data: {
             centerNumber: body.centerNumber,
             centerName: body.centerName,
-            state: body.state,
-            lga: body.lga,
+            state: location.state,
+            lga: location.lga,
             schoolEmail: protectedSchoolEmail.encrypted,
             schoolEmailHash: protectedSchoolEmail.searchHash ?? "",
             schoolPhone: protectedSchoolPhone.encrypted,
@@ -0,0 +1,67 @@
+// File: src/app/api/cron/exam-sessions/route.ts
+
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ExamSessionSchedulerService } from "@/lib/services/examSessionSchedulerService";
+
+// Scheduled jobs authenticate with "Authorization: Bearer <CRON_SECRET>",
+// which is what Vercel Cron sends
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+async function runTransitions(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Scheduled jobs are not configured",
+        error: "CRON_NOT_CONFIGURED",
+      },
+      { status: 503 }
+    );
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json(
+      { success: false, message: "Unauthorized", error: "UNAUTHORIZED" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const transitions = await ExamSessionSchedulerService.run();
+
+    return NextResponse.json({
+      success: true,
+      message:
+        transitions.length > 0
+          ? `${transitions.length} session(s) moved on`
+          : "No sessions were due",
+      data: { ranAt: new Date().toISOString(), transitions },
+    });
+  } catch (error) {
+    console.error("Exam session schedule error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while applying scheduled transitions",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron issues GET requests; POST is for the CLI and other schedulers
+export const GET = runTransitions;
+export const POST = runTransitions;
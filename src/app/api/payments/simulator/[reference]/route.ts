@@ -0,0 +1,56 @@
+// File: src/app/api/payments/simulator/[reference]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import {
+  PaymentGatewayError,
+  simulatorRequiresSession,
+} from "@/lib/server/paymentGateway";
+import { InvoiceError } from "@/lib/services/invoiceService";
+import { PaymentService } from "@/lib/services/paymentService";
+
+type RouteContext = { params: Promise<{ reference: string }> };
+
+// The simulator's checkout form posts ?outcome=approve|decline here; in
+// production only a signed-in admin of the paying school can
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = simulatorRequiresSession() ? await getSessionAdmin() : null;
+    const { reference } = await params;
+    const formData = await request.formData();
+
+    await PaymentService.simulateOutcome(
+      reference,
+      formData.get("outcome") === "approve",
+      admin
+    );
+
+    return NextResponse.redirect(
+      new URL(`/pay/simulator/${encodeURIComponent(reference)}`, request.url),
+      303
+    );
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    if (error instanceof PaymentGatewayError || error instanceof InvoiceError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Payment simulator error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
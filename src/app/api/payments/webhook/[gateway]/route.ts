@@ -0,0 +1,42 @@
+// File: src/app/api/payments/webhook/[gateway]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { PaymentGatewayError } from "@/lib/server/paymentGateway";
+import { PaymentService } from "@/lib/services/paymentService";
+
+type RouteContext = { params: Promise<{ gateway: string }> };
+
+// Called by the payment gateway, not by a signed-in admin; the signature
+// over the raw body is the only credential
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { gateway } = await params;
+    const rawBody = await request.text();
+
+    const { outcome } = await PaymentService.processWebhook(
+      gateway,
+      rawBody,
+      request.headers
+    );
+
+    return NextResponse.json({ success: true, outcome });
+  } catch (error) {
+    if (error instanceof PaymentGatewayError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    // A 500 makes the gateway retry later
+    console.error("Payment webhook error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// File: src/app/api/reference/lgas/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { ReferenceDataService } from "@/lib/services/referenceDataService";
+
+// Reference data changes only with a migration
+const CACHE_HEADERS = {
+  "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400",
+};
+
+// LGAs of one state: GET /api/reference/lgas?state=Lagos
+export async function GET(request: NextRequest) {
+  const stateName = request.nextUrl.searchParams.get("state")?.trim();
+
+  if (!stateName) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "The state query parameter is required",
+        error: "VALIDATION_ERROR",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await ReferenceDataService.listLgas(stateName);
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Unknown state: ${stateName}`,
+          error: "STATE_NOT_FOUND",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { headers: CACHE_HEADERS }
+    );
+  } catch (error) {
+    console.error("LGA lookup error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading LGAs",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// File: src/app/api/reference/states/route.ts
+
+import { NextResponse } from "next/server";
+import { ReferenceDataService } from "@/lib/services/referenceDataService";
+
+// Reference data changes only with a migration
+const CACHE_HEADERS = {
+  "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400",
+};
+
+// The 36 states and the FCT
+export async function GET() {
+  try {
+    const states = await ReferenceDataService.listStates();
+
+    return NextResponse.json(
+      { success: true, data: { states } },
+      { headers: CACHE_HEADERS }
+    );
+  } catch (error) {
+    console.error("States lookup error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "An error occurred while loading states",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// File: src/app/api/uploads/[...key]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSessionAdmin,
+  sessionErrorResponse,
+} from "@/lib/server/adminSession";
+import { LocalFileStorage } from "@/lib/server/fileStorage";
+import { prisma } from "@/lib/server/prisma";
+
+type RouteContext = { params: Promise<{ key: string[] }> };
+
+/**
+ * The school an uploaded file belongs to, or null when no record claims
+ * it. Keys are "passports/<candidateId>.jpg" or the storage key of a
+ * dispute attachment.
+ */
+async function schoolOfKey(key: string): Promise<string | null> {
+  const passport = key.match(/^passports\/([^/]+)\.jpg$/);
+  if (passport) {
+    const candidate = await prisma.candidate.findUnique({
+      where: { id: passport[1] },
+      select: { schoolId: true },
+    });
+    return candidate?.schoolId ?? null;
+  }
+
+  if (key.startsWith("disputes/")) {
+    const attachment = await prisma.disputeAttachment.findFirst({
+      where: { storageKey: key },
+      select: { dispute: { select: { schoolId: true } } },
+    });
+    return attachment?.dispute.schoolId ?? null;
+  }
+
+  return null;
+}
+
+// Serves files kept by the local storage backend to signed-in admins:
+// Super_Admins see every file, other admins only their own school's
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await getSessionAdmin();
+    const key = (await params).key.join("/");
+
+    // Files of other schools are reported missing rather than forbidden
+    let file = null;
+    if (
+      admin.role === "Super_Admin" ||
+      (!!admin.schoolId && (await schoolOfKey(key)) === admin.schoolId)
+    ) {
+      try {
+        file = await new LocalFileStorage().read(key);
+      } catch {
+        file = null;
+      }
+    }
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, message: "File not found", error: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    const sessionResponse = sessionErrorResponse(error);
+    if (sessionResponse) return sessionResponse;
+
+    console.error("Upload read error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
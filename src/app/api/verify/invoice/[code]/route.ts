@@ -0,0 +1,33 @@
+// File: src/app/api/verify/invoice/[code]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { InvoiceError, InvoiceService } from "@/lib/services/invoiceService";
+
+type RouteContext = { params: Promise<{ code: string }> };
+
+// Public check of the verification code on an invoice or payment receipt
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params;
+    const document = await InvoiceService.verify(code);
+
+    return NextResponse.json({ success: true, data: document });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Invoice verification error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// File: src/app/api/verify/result/[code]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ResultDocumentError,
+  ResultDocumentService,
+} from "@/lib/services/resultDocumentService";
+
+type RouteContext = { params: Promise<{ code: string }> };
+
+// Public check of the verification code printed on a result slip or
+// broadsheet
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params;
+    const document = await ResultDocumentService.verify(code);
+
+    return NextResponse.json({ success: true, data: document });
+  } catch (error) {
+    if (error instanceof ResultDocumentError) {
+      return NextResponse.json(
+        { success: false, message: error.message, error: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error("Result verification error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Internal server error. Please try again later.",
+        error: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import React from "react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { CheckCircle, CreditCard, XCircle } from "lucide-react";
+import { AdminSessionError, getSessionAdmin } from "@/lib/server/adminSession";
+import {
+  PaymentGatewayError,
+  simulatorRequiresSession,
+} from "@/lib/server/paymentGateway";
+import { InvoiceError } from "@/lib/services/invoiceService";
+import { PaymentService } from "@/lib/services/paymentService";
+
+type PageProps = { params: Promise<{ reference: string }> };
+
+export const dynamic = "force-dynamic";
+
+const formatAmount = (value: string) =>
+  `₦${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+/**
+ * Checkout page of the local payment simulator. Only reachable while the
+ * simulator is the configured gateway, and in production only by a
+ * signed-in admin of the paying school.
+ */
+export default async function SimulatorCheckoutPage({ params }: PageProps) {
+  const { reference } = await params;
+
+  let payment: Awaited<ReturnType<typeof PaymentService.simulatorCheckout>>;
+  try {
+    const admin = simulatorRequiresSession() ? await getSessionAdmin() : null;
+    payment = await PaymentService.simulatorCheckout(
+      decodeURIComponent(reference),
+      admin
+    );
+  } catch (error) {
+    if (
+      error instanceof AdminSessionError ||
+      error instanceof PaymentGatewayError ||
+      error instanceof InvoiceError
+    ) {
+      notFound();
+    }
+    throw error;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="card p-8 w-full max-w-md space-y-6">
+        <div className="flex items-center gap-3">
+          <CreditCard className="w-6 h-6 text-primary" />
+          <h1 className="text-xl font-bold text-foreground">
+            Payment Simulator
+          </h1>
+        </div>
+
+        <div className="alert alert-warning text-sm">
+          Test payments only. No money is moved.
+        </div>
+
+        <dl className="grid grid-cols-2 gap-3 text-sm">
+          <dt className="text-muted-foreground">Reference</dt>
+          <dd className="font-mono">{payment.reference}</dd>
+          <dt className="text-muted-foreground">Invoice</dt>
+          <dd className="font-mono">{payment.invoice.number}</dd>
+          <dt className="text-muted-foreground">Centre</dt>
+          <dd>{payment.invoice.school.centerName}</dd>
+          <dt className="text-muted-foreground">Amount</dt>
+          <dd className="font-semibold">
+            {formatAmount(payment.amount.toFixed(2))}
+          </dd>
+        </dl>
+
+        {payment.status === "Pending" ? (
+          <form
+            method="POST"
+            action={`/api/payments/simulator/${encodeURIComponent(payment.reference)}`}
+            className="flex gap-3"
+          >
+            <button
+              type="submit"
+              name="outcome"
+              value="approve"
+              className="btn btn-primary flex-1"
+            >
+              Approve Payment
+            </button>
+            <button
+              type="submit"
+              name="outcome"
+              value="decline"
+              className="btn btn-outline flex-1"
+            >
+              Decline
+            </button>
+          </form>
+        ) : (
+          <div
+            className={`alert ${
+              payment.status === "Successful" ? "alert-success" : "alert-error"
+            } flex items-start gap-2`}
+          >
+            {payment.status === "Successful" ? (
+              <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-5 h-5 flex-shrink-0" />
+            )}
+            <p className="text-sm">
+              {payment.status === "Successful"
+                ? "Payment approved."
+                : payment.reviewNote || "Payment declined."}
+            </p>
+          </div>
+        )}
+
+        <Link href="/admin" className="btn btn-outline w-full text-center">
+          Return to the portal
+        </Link>
+      </div>
+    </div>
+  );
+}
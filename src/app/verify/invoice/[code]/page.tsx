@@ -0,0 +1,104 @@
+import React from "react";
+import { CheckCircle, AlertTriangle, XCircle } from "lucide-react";
+import { InvoiceError, InvoiceService } from "@/lib/services/invoiceService";
+
+type PageProps = { params: Promise<{ code: string }> };
+
+type Verified = Awaited<ReturnType<typeof InvoiceService.verify>>;
+
+export const dynamic = "force-dynamic";
+
+const formatAmount = (value: { toString(): string }) =>
+  `₦${Number(value.toString()).toLocaleString("en-NG", {
+    minimumFractionDigits: 2,
+  })}`;
+
+/**
+ * Public check of an invoice or payment receipt. Anyone holding the
+ * document can confirm it was issued by the portal and where it stands.
+ */
+export default async function VerifyInvoicePage({ params }: PageProps) {
+  const { code } = await params;
+
+  let document: Verified | null = null;
+  try {
+    document = await InvoiceService.verify(decodeURIComponent(code));
+  } catch (error) {
+    if (!(error instanceof InvoiceError)) throw error;
+  }
+
+  const label = document?.kind === "receipt" ? "receipt" : "invoice";
+  const settled =
+    document &&
+    (document.kind === "receipt"
+      ? document.status === "Successful"
+      : document.status !== "Cancelled");
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="card p-8 w-full max-w-xl space-y-6">
+        <h1 className="text-2xl font-bold text-foreground">
+          Invoice Verification
+        </h1>
+
+        {!document ? (
+          <div className="alert alert-error flex items-start gap-2">
+            <XCircle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">
+              This code does not match any invoice or receipt issued by the
+              portal.
+            </p>
+          </div>
+        ) : (
+          <>
+            {settled ? (
+              <div className="alert alert-success flex items-start gap-2">
+                <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">
+                  This {label} is genuine and was issued by the portal.
+                </p>
+              </div>
+            ) : (
+              <div className="alert alert-warning flex items-start gap-2">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">
+                  This {label} was issued by the portal but is no longer valid.
+                  Ask the centre for its current documents.
+                </p>
+              </div>
+            )}
+
+            <dl className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-muted-foreground">
+                  {document.kind === "receipt" ? "Receipt" : "Invoice"}
+                </dt>
+                <dd className="font-mono">{document.number}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Issued</dt>
+                <dd>{document.issuedAt.toLocaleDateString("en-GB")}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Amount</dt>
+                <dd className="font-medium">{formatAmount(document.amount)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Status</dt>
+                <dd>{document.status.replace(/_/g, " ")}</dd>
+              </div>
+              <div className="col-span-2">
+                <dt className="text-muted-foreground">
+                  {document.kind === "receipt" ? "Paid by" : "Billed to"}
+                </dt>
+                <dd>
+                  {document.school.centerNumber} {document.school.centerName}
+                </dd>
+              </div>
+            </dl>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React from "react";
+import { CheckCircle, AlertTriangle, XCircle } from "lucide-react";
+import {
+  ResultDocumentError,
+  ResultDocumentService,
+} from "@/lib/services/resultDocumentService";
+
+type PageProps = { params: Promise<{ code: string }> };
+
+type Verified = Awaited<ReturnType<typeof ResultDocumentService.verify>>;
+
+type SlipSubject = {
+  code: string;
+  name: string;
+  grade: string | null;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Public check of a printed result slip or broadsheet. Anyone holding the
+ * document can compare it with what was issued.
+ */
+export default async function VerifyResultPage({ params }: PageProps) {
+  const { code } = await params;
+
+  let document: Verified | null = null;
+  try {
+    document = await ResultDocumentService.verify(decodeURIComponent(code));
+  } catch (error) {
+    if (!(error instanceof ResultDocumentError)) throw error;
+  }
+
+  const result =
+    document && "result" in document
+      ? (document.result as {
+          registrationNumber: string;
+          name: string;
+          subjects: SlipSubject[];
+          aggregate: number | null;
+        })
+      : null;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="card p-8 w-full max-w-xl space-y-6">
+        <h1 className="text-2xl font-bold text-foreground">
+          Result Verification
+        </h1>
+
+        {!document ? (
+          <div className="alert alert-error flex items-start gap-2">
+            <XCircle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">
+              No result slip or broadsheet was issued with the code{" "}
+              <span className="font-mono">{decodeURIComponent(code)}</span>.
+            </p>
+          </div>
+        ) : (
+          <>
+            {document.status === "valid" ? (
+              <div className="alert alert-success flex items-start gap-2">
+                <CheckCircle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">
+                  This {document.kind === "Slip" ? "result slip" : "broadsheet"}{" "}
+                  is genuine and its results are current.
+                </p>
+              </div>
+            ) : (
+              <div className="alert alert-warning flex items-start gap-2">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">
+                  This document was issued by the portal, but the results have
+                  changed since. Ask the centre for a fresh copy.
+                </p>
+              </div>
+            )}
+
+            <dl className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Code</dt>
+                <dd className="font-mono">{document.code}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Issued</dt>
+                <dd>{document.issuedAt.toLocaleDateString("en-GB")}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Exam Session</dt>
+                <dd>{document.session ?? "—"}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Centre</dt>
+                <dd>
+                  {document.school
+                    ? `${document.school.centerNumber} ${document.school.centerName}`
+                    : "—"}
+                </dd>
+              </div>
+              {result ? (
+                <>
+                  <div>
+                    <dt className="text-muted-foreground">Candidate</dt>
+                    <dd>{result.name}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">
+                      Registration Number
+                    </dt>
+                    <dd className="font-mono">{result.registrationNumber}</dd>
+                  </div>
+                </>
+              ) : (
+                "candidates" in document && (
+                  <div>
+                    <dt className="text-muted-foreground">Candidates</dt>
+                    <dd>
+                      {document.candidates} in {document.subjects} subject(s)
+                    </dd>
+                  </div>
+                )
+              )}
+            </dl>
+
+            {result && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="py-2">Subject</th>
+                    <th className="py-2 text-center">Grade as issued</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.subjects.map((subject) => (
+                    <tr key={subject.code} className="border-b border-border">
+                      <td className="py-2">{subject.name}</td>
+                      <td className="py-2 text-center font-medium">
+                        {subject.grade ?? "—"}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-2 font-medium">Aggregate</td>
+                    <td className="py-2 text-center font-medium">
+                      {result.aggregate ?? "—"}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
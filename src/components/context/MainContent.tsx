@@ -6,19 +6,33 @@ import PlaceholderContent from "@/app/admin/dashboard/content/PlaceholderContent
 
 // Candidate Forms
 import NewCandidate from "@/app/admin/candidates/New-Candidate";
-// import ModifyCandidate from "../forms/Modify-Candidate";
+import ImportCandidates from "@/app/admin/candidates/Import-Candidates";
+import ModifyCandidate, {
+  openCandidateForEdit,
+} from "@/app/admin/candidates/Modify-Candidate";
 import ViewCandidate from "@/app/admin/candidates/View-Candidate";
+import DuplicateReview from "@/app/admin/candidates/Duplicate-Review";
+
+// Exam Centre
+import ExamHalls from "@/app/admin/seating/Exam-Halls";
+import SeatingPlan from "@/app/admin/seating/Seating-Plan";
+
+// Administration
+import ExamSessions from "@/app/admin/exam-sessions/Exam-Sessions";
 
 // Assessment Forms
-// import ComputeAssessment from "../forms/Compute-Assessment";
-// import ModifyAssessment from "../forms/Modify-Assessment";
-// import ViewAssessments from "../forms/View-Assessments";
+import ComputeAssessment from "@/app/admin/assessment/Compute-Assessment";
+import ImportAssessment from "@/app/admin/assessment/Import-Assessment";
+import ModifyAssessment from "@/app/admin/assessment/Modify-Assessment";
+import AssessmentReports from "@/app/admin/assessment/Assessment-Reports";
+import ViewAssessments from "@/app/admin/assessment/View-Assessments";
 
 // Transaction Forms
-// import MakePayment from "../forms/Make-Payment";
-// import ViewTransaction from "../forms/View-Transaction";
-// import VerifyInvoice from "../forms/Verify-Invoice";
-// import LogDispute from "../forms/Log-Dispute";
+import MakePayment from "@/app/admin/transactions/Make-Payment";
+import ViewTransaction from "@/app/admin/transactions/View-Transaction";
+import VerifyInvoice from "@/app/admin/transactions/Verify-Invoice";
+import LogDispute from "@/app/admin/transactions/Log-Dispute";
+import FeeWaivers from "@/app/admin/transactions/Fee-Waivers";
 
 // Reports
 // import PhotoCard from "../forms/Photo-Card";
@@ -31,27 +45,43 @@ import ViewCandidate from "@/app/admin/candidates/View-Candidate";
 // import DataValidation from "../forms/Data-Validation";
 // import DocumentVerification from "../forms/Document-Verification";
 
+// View Candidate inside the dashboard can hand candidates to Modify Candidate
+function ViewCandidateWithEdit() {
+  const { setActiveMenu } = useNavigation();
+
+  return (
+    <ViewCandidate
+      onEdit={(candidateId) => {
+        openCandidateForEdit(candidateId);
+        setActiveMenu("modify-candidate");
+      }}
+    />
+  );
+}
+
 const contentMap: Record<string, React.ReactNode> = {
   // Dashboard
   dashboard: <DashboardContent />,
 
   // Candidates
   "new-candidate": <NewCandidate />,
-  "modify-candidate": <PlaceholderContent />,
-  "view-candidate": <ViewCandidate />,
+  "import-candidates": <ImportCandidates />,
+  "modify-candidate": <ModifyCandidate />,
+  "view-candidate": <ViewCandidateWithEdit />,
   "candidate-reports": <PlaceholderContent />,
 
   // Assessment
-  "compute-assessment": <PlaceholderContent />,
-  "modify-assessment": <PlaceholderContent />,
-  "view-assessments": <PlaceholderContent />,
-  "assessment-reports": <PlaceholderContent />,
+  "compute-assessment": <ComputeAssessment />,
+  "import-assessment": <ImportAssessment />,
+  "modify-assessment": <ModifyAssessment />,
+  "view-assessments": <ViewAssessments />,
+  "assessment-reports": <AssessmentReports />,
 
   // Transaction
-  "make-payment": <PlaceholderContent />,
-  "view-transaction": <PlaceholderContent />,
-  "verify-invoice": <PlaceholderContent />,
-  "log-dispute": <PlaceholderContent />,
+  "make-payment": <MakePayment />,
+  "view-transaction": <ViewTransaction />,
+  "verify-invoice": <VerifyInvoice />,
+  "log-dispute": <LogDispute />,
 
   // Reports
   "photo-card": <PlaceholderContent />,
@@ -62,7 +92,16 @@ const contentMap: Record<string, React.ReactNode> = {
   // Validation
   "entry-schedule": <PlaceholderContent />,
   "data-validation": <PlaceholderContent />,
+  "duplicate-review": <DuplicateReview />,
   "document-verification": <PlaceholderContent />,
+
+  // Exam Centre
+  "exam-halls": <ExamHalls />,
+  "seating-plan": <SeatingPlan />,
+
+  // Administration
+  "exam-sessions": <ExamSessions />,
+  "fee-waivers": <FeeWaivers />,
 };
 
 const MainContent = () => {
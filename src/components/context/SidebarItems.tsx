@@ -12,6 +12,10 @@ import {
   Send,
   Settings,
   BarChart3,
+  Upload,
+  Building2,
+  LayoutGrid,
+  BadgePercent,
 } from "lucide-react";
 
 export const SidebarItems = [
@@ -28,6 +32,7 @@ export const SidebarItems = [
     hasSubmenu: true,
     submenu: [
       { id: "new-candidate", label: "New Candidate", icon: User },
+      { id: "import-candidates", label: "Bulk Import", icon: Upload },
       { id: "modify-candidate", label: "Modify Candidate", icon: Settings },
       { id: "view-candidate", label: "View Candidate", icon: FileText },
       { id: "candidate-reports", label: "Candidate Reports", icon: BarChart3 },
@@ -44,6 +49,7 @@ export const SidebarItems = [
         label: "Compute Assessment",
         icon: CheckSquare,
       },
+      { id: "import-assessment", label: "Import Scores", icon: Upload },
       { id: "modify-assessment", label: "Modify Assessment", icon: Settings },
       { id: "view-assessments", label: "View Assessments", icon: FileText },
       {
@@ -93,6 +99,7 @@ export const SidebarItems = [
     submenu: [
       { id: "entry-schedule", label: "Entry Schedule", icon: Calendar },
       { id: "data-validation", label: "Data Validation", icon: CheckSquare },
+      { id: "duplicate-review", label: "Duplicate Review", icon: Users },
       {
         id: "document-verification",
         label: "Document Verification",
@@ -100,4 +107,24 @@ export const SidebarItems = [
       },
     ],
   },
+  {
+    id: "exam-centre",
+    label: "Exam Centre",
+    icon: Building2,
+    hasSubmenu: true,
+    submenu: [
+      { id: "exam-halls", label: "Exam Halls", icon: Building2 },
+      { id: "seating-plan", label: "Seating Plan", icon: LayoutGrid },
+    ],
+  },
+  {
+    id: "administration",
+    label: "Administration",
+    icon: Settings,
+    hasSubmenu: true,
+    submenu: [
+      { id: "exam-sessions", label: "Exam Sessions", icon: Calendar },
+      { id: "fee-waivers", label: "Fee Waivers", icon: BadgePercent },
+    ],
+  },
 ];
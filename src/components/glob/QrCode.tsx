@@ -0,0 +1,32 @@
+// File: src/components/glob/QrCode.tsx
+import React from "react";
+import { encodeQrCode, qrCodePath } from "@/lib/utils/qrcode";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Dark modules on a white ground so it scans the same in either theme
+const QrCode = ({ value, size = 192, className }: QrCodeProps) => {
+  const code = encodeQrCode(value);
+  const extent = code.size + 8;
+
+  return (
+    <svg
+      viewBox={`0 0 ${extent} ${extent}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+      className={className}
+    >
+      <rect width={extent} height={extent} fill="#ffffff" />
+      <path d={qrCodePath(code)} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
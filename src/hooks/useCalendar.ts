@@ -0,0 +1,68 @@
+// hooks/useCalendar.ts
+"use client";
+
+import { useState, useEffect } from "react";
+
+export type CalendarEventType =
+  | "REGISTRATION_OPENS"
+  | "REGISTRATION_CLOSES"
+  | "LATE_REGISTRATION_CLOSES"
+  | "EXAM"
+  | "RESULT_RELEASE";
+
+export interface CalendarEvent {
+  id: string;
+  type: CalendarEventType;
+  title: string;
+  examSessionId: string;
+  sessionName: string;
+  start: string;
+  end: string | null;
+  allDay: boolean;
+}
+
+/**
+ * Upcoming exam session dates, the next registration deadline and the
+ * subscription link, from the admin calendar API.
+ */
+export function useCalendar() {
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [nextDeadline, setNextDeadline] = useState<CalendarEvent | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCalendar = async () => {
+      try {
+        const res = await fetch("/api/admin/calendar");
+        if (!res.ok) {
+          throw new Error("Failed to fetch calendar");
+        }
+
+        const result = await res.json();
+        if (cancelled) return;
+        setEvents(result.data?.events || []);
+        setNextDeadline(result.data?.nextDeadline || null);
+        setFeedUrl(result.data?.feedUrl || null);
+      } catch {
+        console.error("Failed to load calendar");
+        if (!cancelled) {
+          setError("Failed to load upcoming dates. Please try again later.");
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchCalendar();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { events, nextDeadline, feedUrl, isLoading, error };
+}
@@ -0,0 +1,83 @@
+// hooks/useStatesAndLgas.ts
+"use client";
+
+import { useState, useEffect } from "react";
+
+// LGAs rarely change, so keep them for the lifetime of the page
+const lgaCache = new Map<string, string[]>();
+
+/**
+ * State list plus the LGAs of the selected state, from the reference API.
+ */
+export function useStatesAndLgas(state: string) {
+  const [states, setStates] = useState<string[]>([]);
+  const [lgas, setLgas] = useState<string[]>([]);
+  const [isLoadingStates, setIsLoadingStates] = useState(false);
+  const [isLoadingLgas, setIsLoadingLgas] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStates = async () => {
+      setIsLoadingStates(true);
+      try {
+        const res = await fetch("/api/reference/states");
+        if (!res.ok) {
+          throw new Error("Failed to fetch states");
+        }
+
+        const result = await res.json();
+        setStates(result.data?.states || []);
+      } catch {
+        console.error("Failed to load states");
+        setError("Failed to load states data. Please try again later.");
+      } finally {
+        setIsLoadingStates(false);
+      }
+    };
+
+    fetchStates();
+  }, []);
+
+  useEffect(() => {
+    if (!state || lgaCache.has(state)) {
+      setLgas(state ? lgaCache.get(state) || [] : []);
+      setIsLoadingLgas(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchLgas = async () => {
+      setIsLoadingLgas(true);
+      setError(null);
+      try {
+        const res = await fetch(
+          `/api/reference/lgas?state=${encodeURIComponent(state)}`
+        );
+        if (!res.ok) {
+          throw new Error("Failed to fetch LGAs");
+        }
+
+        const result = await res.json();
+        const lgasList: string[] = result.data?.lgas || [];
+        lgaCache.set(state, lgasList);
+        if (!cancelled) setLgas(lgasList);
+      } catch {
+        console.error("Failed to load LGAs");
+        if (!cancelled) {
+          setError("Failed to load LGAs data. Please try again later.");
+        }
+      } finally {
+        if (!cancelled) setIsLoadingLgas(false);
+      }
+    };
+
+    fetchLgas();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state]);
+
+  return { states, lgas, isLoadingStates, isLoadingLgas, error };
+}
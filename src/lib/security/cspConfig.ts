@@ -7,7 +7,6 @@ export const cspConfig = {
     "blob:",
     "https://cecportal.vercel.app",
     "https://cecms.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://localhost",
     "http://localhost",
     "https://127.0.0.1",
@@ -22,7 +21,6 @@ export const cspConfig = {
     "'report-sample'",
     "blob:",
     "https://cecportal.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://cecms.vercel.app",
     "https://localhost",
     "http://localhost",
@@ -44,7 +42,6 @@ export const cspConfig = {
     "https://fonts.googleapis.com",
     "https://cecportal.vercel.app",
     "https://cecms.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://localhost",
     "http://localhost",
     "https://127.0.0.1",
@@ -59,7 +56,6 @@ export const cspConfig = {
     "data:",
     "blob:",
     "https://cecportal.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://cecms.vercel.app",
     "https://ui-avatars.com",
     "https://res.cloudinary.com",
@@ -84,7 +80,6 @@ export const cspConfig = {
     "https://fonts.gstatic.com",
     "https://cecportal.vercel.app",
     "https://cecms.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://localhost",
     "http://localhost",
     "https://127.0.0.1",
@@ -98,7 +93,6 @@ export const cspConfig = {
     "'self'",
     "blob:",
     "https://cecportal.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://cecms.vercel.app",
     "https://localhost",
     "http://localhost",
@@ -129,7 +123,6 @@ export const cspConfig = {
     "blob:",
     "data:",
     "https://cecportal.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://cecms.vercel.app",
     "https://localhost",
     "http://localhost",
@@ -144,7 +137,6 @@ export const cspConfig = {
     "'self'",
     "blob:",
     "https://cecportal.vercel.app",
-    "https://apinigeria.vercel.app",
     "https://cecms.vercel.app",
     "https://localhost",
     "http://localhost",
@@ -164,7 +156,6 @@ export const cspConfig = {
   formAction: [
     "'self'",
     "https://cecportal.vercel.app",
-    "https://apinigeria.vercel.app",
   ],
 
   // Security directives (✅ empty arrays instead of booleans)
@@ -0,0 +1,133 @@
+// File: src/lib/server/adminSession.ts
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminRole } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+
+export interface SessionAdmin {
+  id: string;
+  role: AdminRole;
+  schoolId: string | null;
+  isActive: boolean;
+}
+
+class AdminSessionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "AdminSessionError";
+  }
+}
+
+/**
+ * Resolve the admin behind the "session-token" cookie.
+ * Throws AdminSessionError when there is no valid, active session.
+ */
+export async function getSessionAdmin(): Promise<SessionAdmin> {
+  const cookieStore = await cookies();
+  const sessionToken = cookieStore.get("session-token")?.value;
+
+  if (!sessionToken) {
+    throw new AdminSessionError(
+      "Unauthorized: No session token",
+      "NO_SESSION",
+      401
+    );
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { sessionToken },
+    include: {
+      adminUser: {
+        select: { id: true, role: true, schoolId: true, isActive: true },
+      },
+    },
+  });
+
+  if (!session || session.expires < new Date()) {
+    // Delete expired session
+    if (session) {
+      await prisma.session.delete({ where: { id: session.id } });
+    }
+    throw new AdminSessionError(
+      "Unauthorized: Session expired",
+      "SESSION_EXPIRED",
+      401
+    );
+  }
+
+  if (!session.adminUser.isActive) {
+    throw new AdminSessionError(
+      "Account deactivated",
+      "ACCOUNT_DEACTIVATED",
+      403
+    );
+  }
+
+  return session.adminUser;
+}
+
+/**
+ * Resolve the session admin and require them to be attached to a school.
+ */
+export async function getSessionSchoolAdmin(): Promise<
+  SessionAdmin & { schoolId: string }
+> {
+  const admin = await getSessionAdmin();
+
+  if (!admin.schoolId) {
+    throw new AdminSessionError(
+      "Your account is not linked to a school",
+      "NO_SCHOOL",
+      403
+    );
+  }
+
+  return { ...admin, schoolId: admin.schoolId };
+}
+
+/**
+ * Resolve the session admin and require the Super_Admin role.
+ */
+export async function getSessionSuperAdmin(): Promise<SessionAdmin> {
+  const admin = await getSessionAdmin();
+
+  if (admin.role !== "Super_Admin") {
+    throw new AdminSessionError(
+      "Only a Super Admin can perform this action",
+      "FORBIDDEN",
+      403
+    );
+  }
+
+  return admin;
+}
+
+/**
+ * Convert an AdminSessionError into the JSON response shape used by the API.
+ * Returns null for any other error so callers can fall through.
+ */
+export function sessionErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof AdminSessionError)) return null;
+
+  return NextResponse.json(
+    { success: false, message: error.message, error: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * Request metadata recorded on audit log entries.
+ */
+export function getRequestMeta(request: NextRequest) {
+  return {
+    ipAddress:
+      request.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown",
+    userAgent: request.headers.get("user-agent") || "unknown",
+  };
+}
+
+export { AdminSessionError };
@@ -0,0 +1,158 @@
+// File: src/lib/server/fileStorage.ts
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface StoredFile {
+  key: string;
+  url: string;
+}
+
+/**
+ * Where uploaded files live. Keys are relative, slash-separated paths such
+ * as "passports/<candidateId>.jpg"; saving to an existing key replaces it.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  save(key: string, data: Buffer, contentType: string): Promise<StoredFile>;
+  remove(key: string): Promise<void>;
+}
+
+// Served back by GET /api/uploads/[...key]
+export const LOCAL_UPLOAD_URL_PREFIX = "/api/uploads";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+};
+
+function assertSafeKey(key: string) {
+  if (
+    !key ||
+    key.startsWith("/") ||
+    key.split("/").some((part) => part === "" || part === "." || part === "..")
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export class LocalFileStorage implements StorageAdapter {
+  readonly name = "local";
+
+  constructor(
+    private root: string = process.env.UPLOAD_DIR ||
+      path.join(process.cwd(), "storage", "uploads")
+  ) {}
+
+  private resolve(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.root, ...key.split("/"));
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredFile> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    // Version the URL so browsers pick up replaced files
+    return {
+      key,
+      url: `${LOCAL_UPLOAD_URL_PREFIX}/${key}?v=${Date.now()}`,
+    };
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Read a stored file, or null when it does not exist.
+   */
+  async read(
+    key: string
+  ): Promise<{ data: Buffer; contentType: string } | null> {
+    try {
+      const data = await fs.readFile(this.resolve(key));
+      const contentType =
+        CONTENT_TYPES[path.extname(key).toLowerCase()] ||
+        "application/octet-stream";
+      return { data, contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
+
+export class CloudinaryStorage implements StorageAdapter {
+  readonly name = "cloudinary";
+
+  // The config module throws when Cloudinary is not configured, so it is
+  // only loaded once this backend is actually used
+  private async client() {
+    const { default: cloudinary } = await import("@/lib/utils/cloudinary");
+    return cloudinary;
+  }
+
+  private publicId(key: string): string {
+    assertSafeKey(key);
+    return key.replace(/\.[^/.]+$/, "");
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredFile> {
+    const cloudinary = await this.client();
+
+    const result = await new Promise<{ secure_url: string }>(
+      (resolve, reject) => {
+        cloudinary.uploader
+          .upload_stream(
+            {
+              public_id: this.publicId(key),
+              resource_type: "image",
+              overwrite: true,
+              invalidate: true,
+            },
+            (error, uploaded) => {
+              if (error || !uploaded) {
+                reject(error ?? new Error("Cloudinary upload failed"));
+              } else {
+                resolve(uploaded);
+              }
+            }
+          )
+          .end(data);
+      }
+    );
+
+    return { key, url: result.secure_url };
+  }
+
+  async remove(key: string): Promise<void> {
+    const cloudinary = await this.client();
+    await cloudinary.uploader.destroy(this.publicId(key), {
+      invalidate: true,
+    });
+  }
+}
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * The configured storage backend. STORAGE_DRIVER picks "local" or
+ * "cloudinary"; without it Cloudinary is used only when it is configured.
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    const driver =
+      process.env.STORAGE_DRIVER ||
+      (process.env.CLOUDINARY_CLOUD_NAME ? "cloudinary" : "local");
+
+    storage =
+      driver === "cloudinary"
+        ? new CloudinaryStorage()
+        : new LocalFileStorage();
+  }
+  return storage;
+}
@@ -19,6 +19,8 @@ export interface TokenOptions {
   subject?: string;
 }
 
+const DOCUMENT_AUDIENCE = "cecms-documents";
+
 class JWTError extends Error {
   constructor(
     message: string,
@@ -213,6 +215,64 @@ export class JWTUtils {
     });
   }
 
+  /**
+   * Generate the verification code printed on an issued document. Codes
+   * never expire and carry the document's issue time, so the same document
+   * always gets the same code. They are signed for their own audience and
+   * are not accepted anywhere a login token is.
+   * SERVER-SIDE ONLY
+   */
+  static async generateDocumentToken(data: {
+    kind: string;
+    reference: string;
+    issuedAt: Date;
+  }): Promise<string> {
+    try {
+      return await new SignJWT({ type: "document", ref: data.reference })
+        .setProtectedHeader({ alg: "HS256" })
+        .setIssuedAt(data.issuedAt)
+        .setIssuer("cecms-system")
+        .setAudience(DOCUMENT_AUDIENCE)
+        .setSubject(data.kind)
+        .sign(this.getSecretKey());
+    } catch (error) {
+      console.error("JWT generation error:", error);
+      throw new JWTError("Failed to generate JWT token", "GENERATION_FAILED");
+    }
+  }
+
+  /**
+   * Verify a document verification code
+   * SERVER-SIDE ONLY
+   */
+  static async verifyDocumentToken(token: string): Promise<{
+    kind: string;
+    reference: string;
+  }> {
+    try {
+      const { payload } = await jwtVerify(token, this.getSecretKey(), {
+        issuer: "cecms-system",
+        audience: DOCUMENT_AUDIENCE,
+      });
+
+      if (
+        payload.type !== "document" ||
+        typeof payload.ref !== "string" ||
+        !payload.sub
+      ) {
+        throw new JWTError(
+          "Invalid token type for document verification",
+          "INVALID_TOKEN_TYPE"
+        );
+      }
+
+      return { kind: payload.sub, reference: payload.ref };
+    } catch (error) {
+      if (error instanceof JWTError) throw error;
+      throw new JWTError("Token verification failed", "VERIFICATION_FAILED");
+    }
+  }
+
   /**
    * Verify email verification token
    * SERVER-SIDE ONLY
@@ -0,0 +1,359 @@
+// File: src/lib/server/paymentGateway.ts
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/server/prisma";
+import { emailService } from "@/lib/services/emailService";
+
+export type GatewayPaymentStatus = "Pending" | "Successful" | "Failed";
+
+// What the gateway knows about one payment; amounts are in kobo
+export interface GatewayCharge {
+  reference: string;
+  status: GatewayPaymentStatus;
+  amount: number;
+  paidAt: Date | null;
+  gatewayReference: string | null;
+}
+
+// A verified webhook call. Replays of the same call carry the same id.
+export interface GatewayEvent extends GatewayCharge {
+  id: string;
+  payload: Record<string, unknown>;
+}
+
+export interface GatewayCheckout {
+  authorizationUrl: string;
+  gatewayReference: string | null;
+}
+
+/**
+ * An online payment provider. Payments are identified by our own reference
+ * throughout; the gateway's id is only kept for support queries.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  // Start a payment and return the page the payer is sent to
+  initialize(input: {
+    reference: string;
+    amount: number;
+    email: string;
+    callbackUrl: string;
+  }): Promise<GatewayCheckout>;
+  // Ask the gateway where a payment stands
+  verify(reference: string): Promise<GatewayCharge>;
+  // Check a webhook's signature and read it; null for events of no interest
+  handleWebhook(rawBody: string, headers: Headers): GatewayEvent | null;
+}
+
+class PaymentGatewayError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 502
+  ) {
+    super(message);
+    this.name = "PaymentGatewayError";
+  }
+}
+
+export function signPayload(
+  secret: string,
+  body: string,
+  algorithm: "sha256" | "sha512"
+): string {
+  return createHmac(algorithm, secret).update(body, "utf8").digest("hex");
+}
+
+function assertSignature(
+  expected: string,
+  received: string | null,
+  gateway: string
+) {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(received ?? "", "hex");
+  if (a.length === 0 || a.length !== b.length || !timingSafeEqual(a, b)) {
+    throw new PaymentGatewayError(
+      `Invalid ${gateway} webhook signature`,
+      "INVALID_SIGNATURE",
+      401
+    );
+  }
+}
+
+function parseBody(rawBody: string) {
+  try {
+    return JSON.parse(rawBody) as Record<string, unknown>;
+  } catch {
+    throw new PaymentGatewayError(
+      "Webhook body is not valid JSON",
+      "INVALID_PAYLOAD",
+      400
+    );
+  }
+}
+
+/**
+ * Stands in for a real gateway on local runs. Its checkout page lets the
+ * tester approve or decline a payment (signed-in admins only in
+ * production), which sends a signed webhook through
+ * the same path a real gateway would. It keeps no state of its own: verify
+ * reports what its last webhook for the payment said.
+ */
+export class SimulatorGateway implements PaymentGateway {
+  readonly name = "simulator";
+  static readonly SIGNATURE_HEADER = "x-simulator-signature";
+
+  private get secret(): string {
+    const secret = process.env.PAYMENT_SIMULATOR_SECRET;
+    if (secret) return secret;
+    if (process.env.NODE_ENV === "production") {
+      throw new PaymentGatewayError(
+        "PAYMENT_SIMULATOR_SECRET is not configured",
+        "GATEWAY_NOT_CONFIGURED",
+        500
+      );
+    }
+    return "local-payment-simulator";
+  }
+
+  async initialize(input: { reference: string }): Promise<GatewayCheckout> {
+    return {
+      authorizationUrl: `${emailService.getBaseUrl()}/pay/simulator/${encodeURIComponent(
+        input.reference
+      )}`,
+      gatewayReference: `SIM-${input.reference}`,
+    };
+  }
+
+  async verify(reference: string): Promise<GatewayCharge> {
+    const event = await prisma.paymentEvent.findFirst({
+      where: { gateway: this.name, reference },
+      orderBy: { receivedAt: "desc" },
+    });
+    const payload = (event?.payload ?? {}) as {
+      amount?: number;
+      paidAt?: string;
+    };
+
+    return {
+      reference,
+      status: event?.status ?? "Pending",
+      amount: payload.amount ?? 0,
+      paidAt: payload.paidAt ? new Date(payload.paidAt) : null,
+      gatewayReference: `SIM-${reference}`,
+    };
+  }
+
+  /**
+   * The signed webhook the simulator sends when the tester approves or
+   * declines a payment.
+   */
+  webhook(reference: string, amount: number, approved: boolean) {
+    const body = JSON.stringify({
+      id: randomUUID(),
+      event: approved ? "charge.success" : "charge.failed",
+      reference,
+      amount,
+      paidAt: approved ? new Date().toISOString() : null,
+    });
+    const headers = new Headers({
+      "content-type": "application/json",
+      [SimulatorGateway.SIGNATURE_HEADER]: signPayload(
+        this.secret,
+        body,
+        "sha256"
+      ),
+    });
+    return { body, headers };
+  }
+
+  handleWebhook(rawBody: string, headers: Headers): GatewayEvent | null {
+    assertSignature(
+      signPayload(this.secret, rawBody, "sha256"),
+      headers.get(SimulatorGateway.SIGNATURE_HEADER),
+      this.name
+    );
+
+    const payload = parseBody(rawBody);
+    if (
+      typeof payload.id !== "string" ||
+      typeof payload.reference !== "string"
+    ) {
+      return null;
+    }
+
+    return {
+      id: payload.id,
+      reference: payload.reference,
+      status: payload.event === "charge.success" ? "Successful" : "Failed",
+      amount: Number(payload.amount) || 0,
+      paidAt:
+        typeof payload.paidAt === "string" ? new Date(payload.paidAt) : null,
+      gatewayReference: `SIM-${payload.reference}`,
+      payload,
+    };
+  }
+}
+
+type PaystackTransaction = {
+  id: number;
+  reference: string;
+  status: string;
+  amount: number;
+  paid_at: string | null;
+};
+
+/**
+ * Paystack (https://paystack.com/docs/api). Webhooks are signed with
+ * HMAC-SHA512 of the raw body using the secret key.
+ */
+export class PaystackGateway implements PaymentGateway {
+  readonly name = "paystack";
+  private static readonly API_URL = "https://api.paystack.co";
+  static readonly SIGNATURE_HEADER = "x-paystack-signature";
+
+  private get secret(): string {
+    const secret = process.env.PAYSTACK_SECRET_KEY;
+    if (!secret) {
+      throw new PaymentGatewayError(
+        "PAYSTACK_SECRET_KEY is not configured",
+        "GATEWAY_NOT_CONFIGURED",
+        500
+      );
+    }
+    return secret;
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${PaystackGateway.API_URL}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.secret}`,
+        "Content-Type": "application/json",
+      },
+      signal: AbortSignal.timeout(10_000),
+    });
+    const result = (await response.json().catch(() => null)) as {
+      status?: boolean;
+      message?: string;
+      data?: T;
+    } | null;
+
+    if (!response.ok || !result?.status || !result.data) {
+      throw new PaymentGatewayError(
+        result?.message || `Paystack request failed (${response.status})`,
+        "GATEWAY_ERROR"
+      );
+    }
+    return result.data;
+  }
+
+  private static charge(transaction: PaystackTransaction): GatewayCharge {
+    return {
+      reference: transaction.reference,
+      status:
+        transaction.status === "success"
+          ? "Successful"
+          : transaction.status === "failed" || transaction.status === "reversed"
+            ? "Failed"
+            : "Pending",
+      amount: transaction.amount,
+      paidAt: transaction.paid_at ? new Date(transaction.paid_at) : null,
+      gatewayReference: String(transaction.id),
+    };
+  }
+
+  async initialize(input: {
+    reference: string;
+    amount: number;
+    email: string;
+    callbackUrl: string;
+  }): Promise<GatewayCheckout> {
+    const data = await this.request<{
+      authorization_url: string;
+      access_code: string;
+    }>("/transaction/initialize", {
+      method: "POST",
+      body: JSON.stringify({
+        reference: input.reference,
+        amount: input.amount,
+        email: input.email,
+        currency: "NGN",
+        callback_url: input.callbackUrl,
+      }),
+    });
+
+    return {
+      authorizationUrl: data.authorization_url,
+      gatewayReference: data.access_code,
+    };
+  }
+
+  async verify(reference: string): Promise<GatewayCharge> {
+    const data = await this.request<PaystackTransaction>(
+      `/transaction/verify/${encodeURIComponent(reference)}`
+    );
+    return PaystackGateway.charge(data);
+  }
+
+  handleWebhook(rawBody: string, headers: Headers): GatewayEvent | null {
+    assertSignature(
+      signPayload(this.secret, rawBody, "sha512"),
+      headers.get(PaystackGateway.SIGNATURE_HEADER),
+      this.name
+    );
+
+    const payload = parseBody(rawBody);
+    const data = payload.data as PaystackTransaction | undefined;
+    if (payload.event !== "charge.success" || !data?.reference) return null;
+
+    return {
+      ...PaystackGateway.charge(data),
+      id: `${payload.event}:${data.id}`,
+      payload,
+    };
+  }
+}
+
+let gateway: PaymentGateway | null = null;
+
+/**
+ * Whether the simulator's checkout may only be used by signed-in admins.
+ * Outside local runs anyone holding a payment reference could otherwise
+ * approve it.
+ */
+export function simulatorRequiresSession(): boolean {
+  return process.env.NODE_ENV === "production";
+}
+
+/**
+ * The configured gateway. PAYMENT_GATEWAY picks "paystack" or "simulator";
+ * without it Paystack is used when it is configured and the simulator
+ * otherwise. In production the simulator is never a fallback: it has to be
+ * chosen explicitly and given PAYMENT_SIMULATOR_SECRET.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (!gateway) {
+    const driver =
+      process.env.PAYMENT_GATEWAY ||
+      (process.env.PAYSTACK_SECRET_KEY ? "paystack" : "simulator");
+
+    if (
+      driver !== "paystack" &&
+      process.env.NODE_ENV === "production" &&
+      (process.env.PAYMENT_GATEWAY !== "simulator" ||
+        !process.env.PAYMENT_SIMULATOR_SECRET)
+    ) {
+      throw new PaymentGatewayError(
+        "Online payments are not configured",
+        "GATEWAY_NOT_CONFIGURED",
+        503
+      );
+    }
+
+    gateway =
+      driver === "paystack" ? new PaystackGateway() : new SimulatorGateway();
+  }
+  return gateway;
+}
+
+export { PaymentGatewayError };
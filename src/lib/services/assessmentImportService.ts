@@ -0,0 +1,343 @@
+// File: src/lib/services/assessmentImportService.ts
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import {
+  AssessmentError,
+  AssessmentService,
+  scoreKey,
+} from "@/lib/services/assessmentService";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import {
+  normaliseHeader,
+  type ParsedSpreadsheet,
+} from "@/lib/utils/spreadsheet";
+import {
+  checkScore,
+  type AssessmentComponent,
+  type AssessmentImportMapping,
+} from "@/lib/validation/assessment";
+
+export const MAX_SCORE_IMPORT_ROWS = 1000;
+
+// A full import (1000 rows of 10 components) is saved in one statement;
+// written this way it takes well under a second of the 15s transaction
+const MAX_SCORE_IMPORT_CELLS = 10_000;
+
+// Normalised headers recognised as the registration number column
+const REGISTRATION_HEADERS = [
+  "registrationnumber",
+  "registrationno",
+  "regnumber",
+  "regno",
+  "examnumber",
+  "examno",
+  "candidatenumber",
+];
+
+export interface ScoreImportColumns {
+  registrationNumber: string | null;
+  components: Record<string, string | null>;
+}
+
+export interface ScoreImportRowReport {
+  rowNumber: number;
+  registrationNumber: string;
+  valid: boolean;
+  errors: Record<string, string>;
+  candidate?: { surname: string; firstName: string };
+  scores: Record<string, number>;
+  // Saved scores this row would replace with a different value
+  replaces: Record<string, number>;
+}
+
+interface ScoreCell {
+  candidateId: string;
+  component: string;
+  score: number;
+}
+
+export interface ScoreImportValidation {
+  examSessionId: string;
+  subjectCode: string;
+  sheet: {
+    status: string;
+    canEdit: boolean;
+    subject: { code: string; name: string };
+  };
+  columns: { key: string; label: string }[];
+  mapping: ScoreImportColumns;
+  mappingErrors: Record<string, string>;
+  report: ScoreImportRowReport[];
+  notInFile: {
+    registrationNumber: string;
+    surname: string;
+    firstName: string;
+  }[];
+  cells: ScoreCell[];
+}
+
+type ImportContext = {
+  admin: SessionAdmin & { schoolId: string };
+} & Omit<AuditMeta, "performedBy">;
+
+// Blank cells are skipped, so an import never clears a saved score
+function parseCell(text: string): number | null {
+  const value = text.trim().replace(/,/g, ".");
+  if (value === "") return null;
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : NaN;
+}
+
+export class AssessmentImportService {
+  /**
+   * Columns feeding the registration number and each component: the
+   * requested ones where given, otherwise a header matching the component
+   * code or label, such as "CA1" or "First CA".
+   */
+  static resolveMapping(
+    headers: string[],
+    components: AssessmentComponent[],
+    requested: AssessmentImportMapping
+  ) {
+    const present = new Set(headers);
+    const mappingErrors: Record<string, string> = {};
+
+    const pick = (field: string, column: string | null | undefined) => {
+      if (!column) return null;
+      if (present.has(column)) return column;
+      mappingErrors[field] = "This column is not in the file";
+      return null;
+    };
+
+    const registrationNumber =
+      requested.registrationNumber !== undefined
+        ? pick("registrationNumber", requested.registrationNumber)
+        : (REGISTRATION_HEADERS.find((header) => present.has(header)) ?? null);
+
+    const mapping: ScoreImportColumns = {
+      registrationNumber,
+      components: {},
+    };
+
+    for (const component of components) {
+      const field = `components.${component.code}`;
+      mapping.components[component.code] =
+        component.code in requested.components
+          ? pick(field, requested.components[component.code])
+          : ([component.code, component.label]
+              .filter((name): name is string => !!name)
+              .map(normaliseHeader)
+              .find((header) => present.has(header)) ?? null);
+    }
+
+    if (!registrationNumber && !mappingErrors.registrationNumber) {
+      mappingErrors.registrationNumber =
+        "Choose the column holding registration numbers";
+    }
+
+    const used = new Map<string, string>();
+    if (registrationNumber) used.set(registrationNumber, "registrationNumber");
+    for (const [code, column] of Object.entries(mapping.components)) {
+      if (!column) continue;
+      if (used.has(column)) {
+        mappingErrors[`components.${code}`] =
+          "This column is already mapped to another field";
+      } else {
+        used.set(column, `components.${code}`);
+      }
+    }
+
+    if (Object.values(mapping.components).every((column) => !column)) {
+      mappingErrors.components = "Map at least one component to a column";
+    }
+
+    return { mapping, mappingErrors };
+  }
+
+  /**
+   * Match every row to a candidate on the sheet and range-check its scores,
+   * reporting unknown or repeated registration numbers, bad scores and
+   * candidates the file leaves out. Nothing is written.
+   */
+  static async validate(
+    spreadsheet: ParsedSpreadsheet,
+    query: {
+      examSessionId: string;
+      subjectCode: string;
+      mapping: AssessmentImportMapping;
+    },
+    admin: SessionAdmin & { schoolId: string }
+  ): Promise<ScoreImportValidation> {
+    if (spreadsheet.rows.length === 0) {
+      throw new AssessmentError(
+        "The uploaded file has no score rows.",
+        "EMPTY_IMPORT"
+      );
+    }
+
+    if (spreadsheet.rows.length > MAX_SCORE_IMPORT_ROWS) {
+      throw new AssessmentError(
+        `A single import is limited to ${MAX_SCORE_IMPORT_ROWS} rows.`,
+        "IMPORT_TOO_LARGE"
+      );
+    }
+
+    const sheet = await AssessmentService.getSheet(
+      query.examSessionId,
+      query.subjectCode,
+      admin
+    );
+
+    const { mapping, mappingErrors } = this.resolveMapping(
+      spreadsheet.headers,
+      sheet.components,
+      query.mapping
+    );
+
+    const result: ScoreImportValidation = {
+      examSessionId: sheet.session.id,
+      subjectCode: sheet.subject.code,
+      sheet: {
+        status: sheet.status,
+        canEdit: sheet.canEdit,
+        subject: { code: sheet.subject.code, name: sheet.subject.name },
+      },
+      columns: spreadsheet.headers.map((key, index) => ({
+        key,
+        label: spreadsheet.labels[index] || key,
+      })),
+      mapping,
+      mappingErrors,
+      report: [],
+      notInFile: [],
+      cells: [],
+    };
+
+    if (Object.keys(mappingErrors).length > 0) return result;
+
+    const candidates = new Map(
+      sheet.candidates.map((candidate) => [
+        candidate.registrationNumber.toUpperCase(),
+        candidate,
+      ])
+    );
+    const mapped = sheet.components.filter(
+      (component) => mapping.components[component.code]
+    );
+    const firstRowFor = new Map<string, number>();
+
+    for (const row of spreadsheet.rows) {
+      const registrationNumber = (
+        row.values[mapping.registrationNumber!] ?? ""
+      ).toUpperCase();
+      const candidate = candidates.get(registrationNumber);
+      const errors: Record<string, string> = {};
+      const scores: Record<string, number> = {};
+      const replaces: Record<string, number> = {};
+
+      if (!registrationNumber) {
+        errors.registrationNumber = "Registration number is missing";
+      } else if (!candidate) {
+        errors.registrationNumber =
+          "No candidate with this registration number takes this subject at your centre";
+      } else if (firstRowFor.has(registrationNumber)) {
+        errors.registrationNumber = `Also on row ${firstRowFor.get(registrationNumber)}`;
+      } else {
+        firstRowFor.set(registrationNumber, row.rowNumber);
+      }
+
+      for (const component of mapped) {
+        const score = parseCell(
+          row.values[mapping.components[component.code]!] ?? ""
+        );
+        if (score === null) continue;
+
+        const problem = Number.isNaN(score)
+          ? "Score must be a number"
+          : checkScore(score, component);
+        if (problem) {
+          errors[component.code] = problem;
+          continue;
+        }
+
+        scores[component.code] = score;
+        const saved = candidate
+          ? sheet.scores[scoreKey(candidate.id, component.code)]
+          : undefined;
+        if (saved !== undefined && saved !== score) {
+          replaces[component.code] = saved;
+        }
+      }
+
+      if (
+        Object.keys(scores).length === 0 &&
+        Object.keys(errors).length === 0
+      ) {
+        errors.scores = "No scores in this row";
+      }
+
+      const valid = Object.keys(errors).length === 0;
+      if (valid) {
+        for (const [component, score] of Object.entries(scores)) {
+          result.cells.push({ candidateId: candidate!.id, component, score });
+        }
+      }
+
+      result.report.push({
+        rowNumber: row.rowNumber,
+        registrationNumber,
+        valid,
+        errors,
+        ...(candidate
+          ? {
+              candidate: {
+                surname: candidate.surname,
+                firstName: candidate.firstName,
+              },
+            }
+          : {}),
+        scores,
+        replaces,
+      });
+    }
+
+    result.notInFile = sheet.candidates
+      .filter(
+        (candidate) =>
+          !firstRowFor.has(candidate.registrationNumber.toUpperCase())
+      )
+      .map(({ registrationNumber, surname, firstName }) => ({
+        registrationNumber,
+        surname,
+        firstName,
+      }));
+
+    return result;
+  }
+
+  /**
+   * Save the scores of every valid row through the score sheet, so the
+   * sheet's moderation rules, audit trail and regrading all apply. Imports
+   * larger than the save has been sized for are refused outright.
+   */
+  static async commit(
+    validation: ScoreImportValidation,
+    reason: string | undefined,
+    context: ImportContext
+  ) {
+    if (validation.cells.length > MAX_SCORE_IMPORT_CELLS) {
+      throw new AssessmentError(
+        `A single import is limited to ${MAX_SCORE_IMPORT_CELLS} scores. Split the file and import each part`,
+        "IMPORT_TOO_LARGE"
+      );
+    }
+
+    return AssessmentService.saveScores(
+      {
+        examSessionId: validation.examSessionId,
+        subjectCode: validation.subjectCode,
+        scores: validation.cells,
+        reason,
+      },
+      { ...context, source: "spreadsheet_import" }
+    );
+  }
+}
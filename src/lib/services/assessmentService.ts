@@ -0,0 +1,855 @@
+// File: src/lib/services/assessmentService.ts
+import { randomUUID } from "crypto";
+import type {
+  AdminRole,
+  AssessmentStatus,
+  ExamSessionStatus,
+  Prisma,
+  RegistrationStatus,
+} from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { GradingService } from "@/lib/services/gradingService";
+import {
+  checkScore,
+  parseAssessmentComponents,
+  type AssessmentScoresInput,
+  type AssessmentSheetScoresInput,
+} from "@/lib/validation/assessment";
+
+// Candidates whose registration still stands
+const ASSESSED_STATUSES: RegistrationStatus[] = [
+  "Pending",
+  "Submitted",
+  "Verified",
+];
+
+// Scores are never taken for a cancelled session
+const CLOSED_STATUSES: ExamSessionStatus[] = ["Cancelled"];
+
+interface TransitionRule {
+  roles: AdminRole[];
+  requiresReason: boolean;
+  auditAction: string;
+}
+
+const ALL_ROLES: AdminRole[] = ["Super_Admin", "Admin", "Operator"];
+const MODERATOR_ROLES: AdminRole[] = ["Super_Admin", "Admin"];
+
+// from -> to -> rule. Anything not listed here is rejected.
+const TRANSITIONS: Partial<
+  Record<AssessmentStatus, Partial<Record<AssessmentStatus, TransitionRule>>>
+> = {
+  Draft: {
+    Submitted: {
+      roles: ALL_ROLES,
+      requiresReason: false,
+      auditAction: "ASSESSMENT_SUBMITTED",
+    },
+  },
+  Submitted: {
+    Moderated: {
+      roles: MODERATOR_ROLES,
+      requiresReason: false,
+      auditAction: "ASSESSMENT_MODERATED",
+    },
+    Draft: {
+      roles: MODERATOR_ROLES,
+      requiresReason: true,
+      auditAction: "ASSESSMENT_RETURNED",
+    },
+  },
+  Moderated: {
+    Locked: {
+      roles: MODERATOR_ROLES,
+      requiresReason: false,
+      auditAction: "ASSESSMENT_LOCKED",
+    },
+    Draft: {
+      roles: MODERATOR_ROLES,
+      requiresReason: true,
+      auditAction: "ASSESSMENT_RETURNED",
+    },
+  },
+  Locked: {
+    Moderated: {
+      roles: ["Super_Admin"],
+      requiresReason: true,
+      auditAction: "ASSESSMENT_UNLOCKED",
+    },
+  },
+};
+
+// Who may change scores while a sheet is in each state
+const EDIT_ROLES: Record<AssessmentStatus, AdminRole[]> = {
+  Draft: ALL_ROLES,
+  Submitted: MODERATOR_ROLES,
+  Moderated: MODERATOR_ROLES,
+  Locked: [],
+};
+
+class AssessmentError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "AssessmentError";
+  }
+}
+
+type SheetContext = { admin: SessionAdmin; source?: string } & Omit<
+  AuditMeta,
+  "performedBy"
+>;
+
+type SheetSession = {
+  id: string;
+  name: string;
+  status: ExamSessionStatus;
+  assessmentComponents: Prisma.JsonValue;
+};
+
+type SheetSubject = { id: string; code: string; name: string };
+
+type SheetTarget = {
+  session: SheetSession;
+  subject: SheetSubject;
+  schoolId: string;
+  assessment: { id: string; status: AssessmentStatus } | null;
+};
+
+// Key of a cell in the score grid and in field errors
+export const scoreKey = (candidateId: string, component: string) =>
+  `${candidateId}.${component}`;
+
+/**
+ * Statuses a sheet may move to next, given the admin's role.
+ */
+export function allowedAssessmentTransitions(
+  from: AssessmentStatus,
+  role: AdminRole
+): AssessmentStatus[] {
+  return Object.entries(TRANSITIONS[from] ?? {})
+    .filter(([, rule]) => rule.roles.includes(role))
+    .map(([to]) => to as AssessmentStatus);
+}
+
+export type AssessmentSheet = Awaited<
+  ReturnType<typeof AssessmentService.getSheetById>
+>;
+
+const sessionSelect = {
+  id: true,
+  name: true,
+  status: true,
+  assessmentComponents: true,
+} satisfies Prisma.ExamSessionSelect;
+
+export class AssessmentService {
+  private static async audit(
+    tx: Prisma.TransactionClient,
+    action: string,
+    details: Prisma.InputJsonObject,
+    context: SheetContext,
+    schoolId: string
+  ) {
+    await tx.adminAuditLog.create({
+      data: {
+        adminUserId: context.admin.id,
+        schoolId,
+        action,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  /**
+   * The school an admin works on; null for super admins, who act across
+   * schools.
+   */
+  static schoolOf(admin: SessionAdmin): string | null {
+    if (admin.role === "Super_Admin") return null;
+    if (!admin.schoolId) {
+      throw new AssessmentError(
+        "Your account is not linked to a school",
+        "NO_SCHOOL",
+        403
+      );
+    }
+    return admin.schoolId;
+  }
+
+  private static schoolScope(
+    schoolId: string | null
+  ): Prisma.ExamSessionWhereInput {
+    return {
+      status: { notIn: CLOSED_STATUSES },
+      ...(schoolId
+        ? {
+            OR: [
+              { schools: { none: {} } },
+              { schools: { some: { id: schoolId } } },
+            ],
+          }
+        : {}),
+    };
+  }
+
+  private static eligibleWhere(
+    schoolId: string,
+    examSessionId: string,
+    subjectId: string
+  ): Prisma.CandidateWhereInput {
+    return {
+      schoolId,
+      examSessionId,
+      registrationStatus: { in: ASSESSED_STATUSES },
+      subjects: { some: { subjectId } },
+    };
+  }
+
+  /**
+   * Sessions scores can be entered for, most recent exam first. Super
+   * admins see every session.
+   */
+  static async listSessions(admin: SessionAdmin) {
+    const sessions = await prisma.examSession.findMany({
+      where: this.schoolScope(this.schoolOf(admin)),
+      select: { ...sessionSelect, examDate: true },
+      orderBy: { examDate: "desc" },
+    });
+
+    return sessions.map(({ assessmentComponents, ...session }) => ({
+      ...session,
+      components: parseAssessmentComponents(assessmentComponents),
+    }));
+  }
+
+  /**
+   * Subjects the school's candidates take in a session, with how many
+   * candidates take each, how many scores have been entered and where the
+   * sheet is in moderation.
+   */
+  static async listSubjects(examSessionId: string, schoolId: string) {
+    await this.getSession(examSessionId, schoolId);
+
+    const [taken, assessments] = await Promise.all([
+      prisma.candidateSubject.groupBy({
+        by: ["subjectId"],
+        where: {
+          candidate: {
+            schoolId,
+            examSessionId,
+            registrationStatus: { in: ASSESSED_STATUSES },
+          },
+        },
+        _count: { _all: true },
+      }),
+      prisma.assessment.findMany({
+        where: { examSessionId, schoolId },
+        select: {
+          subjectId: true,
+          status: true,
+          _count: { select: { scores: true } },
+        },
+      }),
+    ]);
+
+    const subjects = await prisma.subject.findMany({
+      where: { id: { in: taken.map((row) => row.subjectId) } },
+      select: { id: true, code: true, name: true },
+      orderBy: { name: "asc" },
+    });
+
+    const candidatesBySubject = new Map(
+      taken.map((row) => [row.subjectId, row._count._all])
+    );
+    const sheetsBySubject = new Map(
+      assessments.map((row) => [row.subjectId, row])
+    );
+
+    return subjects.map((subject) => ({
+      ...subject,
+      candidates: candidatesBySubject.get(subject.id) ?? 0,
+      scores: sheetsBySubject.get(subject.id)?._count.scores ?? 0,
+      status: sheetsBySubject.get(subject.id)?.status ?? "Draft",
+    }));
+  }
+
+  /**
+   * Sheets of a session with their moderation status. School admins see
+   * their own school's; super admins every school's, optionally filtered.
+   */
+  static async listSheets(
+    admin: SessionAdmin,
+    query: { examSessionId: string; schoolId?: string }
+  ) {
+    const schoolId = this.schoolOf(admin) ?? query.schoolId;
+
+    return prisma.assessment.findMany({
+      where: {
+        examSessionId: query.examSessionId,
+        ...(schoolId ? { schoolId } : {}),
+      },
+      include: {
+        subject: { select: { code: true, name: true } },
+        school: {
+          select: { id: true, centerNumber: true, centerName: true },
+        },
+        _count: { select: { scores: true } },
+      },
+      orderBy: [
+        { school: { centerNumber: "asc" } },
+        { subject: { name: "asc" } },
+      ],
+    });
+  }
+
+  private static async getSession(
+    examSessionId: string,
+    schoolId: string
+  ): Promise<SheetSession> {
+    const session = await prisma.examSession.findFirst({
+      where: { id: examSessionId, ...this.schoolScope(schoolId) },
+      select: sessionSelect,
+    });
+
+    if (!session) {
+      throw new AssessmentError(
+        "Exam session not found",
+        "EXAM_SESSION_NOT_FOUND",
+        404,
+        { examSessionId: "Exam session not found" }
+      );
+    }
+
+    return session;
+  }
+
+  private static async getSubject(code: string): Promise<SheetSubject> {
+    const subject = await prisma.subject.findUnique({
+      where: { code },
+      select: { id: true, code: true, name: true },
+    });
+
+    if (!subject) {
+      throw new AssessmentError("Subject not found", "SUBJECT_NOT_FOUND", 404, {
+        subjectCode: "Subject not found",
+      });
+    }
+
+    return subject;
+  }
+
+  private static async findTarget(
+    examSessionId: string,
+    subjectCode: string,
+    schoolId: string
+  ): Promise<SheetTarget> {
+    const [session, subject] = await Promise.all([
+      this.getSession(examSessionId, schoolId),
+      this.getSubject(subjectCode),
+    ]);
+
+    const assessment = await prisma.assessment.findUnique({
+      where: {
+        examSessionId_schoolId_subjectId: {
+          examSessionId,
+          schoolId,
+          subjectId: subject.id,
+        },
+      },
+      select: { id: true, status: true },
+    });
+
+    return { session, subject, schoolId, assessment };
+  }
+
+  // A sheet by id, within the admin's reach
+  private static async findTargetById(
+    id: string,
+    admin: SessionAdmin
+  ): Promise<SheetTarget> {
+    const schoolId = this.schoolOf(admin);
+
+    const assessment = await prisma.assessment.findFirst({
+      where: {
+        id,
+        ...(schoolId ? { schoolId } : {}),
+        examSession: { status: { notIn: CLOSED_STATUSES } },
+      },
+      include: {
+        examSession: { select: sessionSelect },
+        subject: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    if (!assessment) {
+      throw new AssessmentError(
+        "Assessment sheet not found",
+        "ASSESSMENT_NOT_FOUND",
+        404
+      );
+    }
+
+    return {
+      session: assessment.examSession,
+      subject: assessment.subject,
+      schoolId: assessment.schoolId,
+      assessment: { id: assessment.id, status: assessment.status },
+    };
+  }
+
+  private static async buildSheet(target: SheetTarget, role: AdminRole) {
+    const { session, subject, schoolId } = target;
+
+    const [school, candidates, assessment] = await Promise.all([
+      prisma.school.findUniqueOrThrow({
+        where: { id: schoolId },
+        select: { id: true, centerNumber: true, centerName: true },
+      }),
+      prisma.candidate.findMany({
+        where: this.eligibleWhere(schoolId, session.id, subject.id),
+        select: {
+          id: true,
+          registrationNumber: true,
+          surname: true,
+          firstName: true,
+          otherName: true,
+        },
+        orderBy: { registrationNumber: "asc" },
+      }),
+      target.assessment
+        ? prisma.assessment.findUnique({
+            where: { id: target.assessment.id },
+            include: {
+              scores: {
+                select: { candidateId: true, component: true, score: true },
+              },
+            },
+          })
+        : null,
+    ]);
+
+    const scores: Record<string, number> = {};
+    for (const row of assessment?.scores ?? []) {
+      scores[scoreKey(row.candidateId, row.component)] = row.score.toNumber();
+    }
+
+    const status = assessment?.status ?? "Draft";
+
+    return {
+      id: assessment?.id ?? null,
+      status,
+      statusChangedAt: assessment?.statusChangedAt ?? null,
+      canEdit: EDIT_ROLES[status].includes(role),
+      allowedTransitions: allowedAssessmentTransitions(status, role),
+      session: { id: session.id, name: session.name, status: session.status },
+      subject,
+      school,
+      components: parseAssessmentComponents(session.assessmentComponents),
+      candidates,
+      scores,
+      updatedAt: assessment?.updatedAt ?? null,
+    };
+  }
+
+  /**
+   * The score sheet for one subject at the school: every candidate taking
+   * it, in registration-number order, with the scores entered so far.
+   */
+  static async getSheet(
+    examSessionId: string,
+    subjectCode: string,
+    admin: SessionAdmin & { schoolId: string }
+  ) {
+    const target = await this.findTarget(
+      examSessionId,
+      subjectCode,
+      admin.schoolId
+    );
+    return this.buildSheet(target, admin.role);
+  }
+
+  static async getSheetById(id: string, admin: SessionAdmin) {
+    const target = await this.findTargetById(id, admin);
+    return this.buildSheet(target, admin.role);
+  }
+
+  /**
+   * Save a batch of cells from the score grid. Every score is range-checked
+   * first and nothing is written unless the whole batch is valid; a null
+   * score clears the cell. The school's results are regraded once the
+   * scores are committed.
+   */
+  static async saveScores(
+    input: AssessmentScoresInput,
+    context: SheetContext & { admin: { schoolId: string } }
+  ) {
+    const target = await this.findTarget(
+      input.examSessionId,
+      input.subjectCode,
+      context.admin.schoolId
+    );
+    return this.writeScores(target, input, context);
+  }
+
+  static async saveSheetScores(
+    id: string,
+    input: AssessmentSheetScoresInput,
+    context: SheetContext
+  ) {
+    const target = await this.findTargetById(id, context.admin);
+    return this.writeScores(target, input, context);
+  }
+
+  /**
+   * Drafts are open to the school; submitted and moderated sheets only to
+   * moderators, with a reason and an audit diff of every changed cell.
+   * Locked sheets refuse all writes.
+   */
+  private static async writeScores(
+    target: SheetTarget,
+    input: AssessmentSheetScoresInput,
+    context: SheetContext
+  ) {
+    const { session, subject, schoolId } = target;
+    const status = target.assessment?.status ?? "Draft";
+    const reason = input.reason?.trim() || undefined;
+
+    if (status === "Locked") {
+      throw new AssessmentError(
+        "This sheet is locked. A Super Admin must unlock it before scores can change",
+        "ASSESSMENT_LOCKED",
+        409
+      );
+    }
+
+    if (!EDIT_ROLES[status].includes(context.admin.role)) {
+      throw new AssessmentError(
+        `This sheet is ${status.toLowerCase()}; only a moderator can change it`,
+        "ASSESSMENT_NOT_EDITABLE",
+        403
+      );
+    }
+
+    if (status !== "Draft" && !reason) {
+      throw new AssessmentError(
+        "Give a reason for changing a sheet after submission",
+        "REASON_REQUIRED",
+        400,
+        { reason: "A reason is required" }
+      );
+    }
+
+    const components = new Map(
+      parseAssessmentComponents(session.assessmentComponents).map(
+        (component) => [component.code, component]
+      )
+    );
+
+    const registrationNumbers = new Map(
+      (
+        await prisma.candidate.findMany({
+          where: this.eligibleWhere(schoolId, session.id, subject.id),
+          select: { id: true, registrationNumber: true },
+        })
+      ).map((candidate) => [candidate.id, candidate.registrationNumber])
+    );
+
+    // A later edit of the same cell in the batch wins
+    const cells = new Map(
+      input.scores.map((cell) => [
+        scoreKey(cell.candidateId, cell.component),
+        cell,
+      ])
+    );
+
+    const errors: Record<string, string> = {};
+    for (const [key, cell] of cells) {
+      const component = components.get(cell.component);
+      if (!registrationNumbers.has(cell.candidateId)) {
+        errors[key] = "Candidate does not take this subject";
+      } else if (!component) {
+        errors[key] = `Unknown component ${cell.component}`;
+      } else if (cell.score !== null) {
+        const problem = checkScore(cell.score, component);
+        if (problem) errors[key] = problem;
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new AssessmentError(
+        `${Object.keys(errors).length} score(s) are invalid; nothing was saved`,
+        "VALIDATION_ERROR",
+        400,
+        errors
+      );
+    }
+
+    const values = [...cells.values()];
+    const saved = values.filter((cell) => cell.score !== null);
+    const cleared = values.filter((cell) => cell.score === null);
+
+    const assessment = await prisma.$transaction(
+      async (tx) => {
+        const sheet = await tx.assessment.upsert({
+          where: {
+            examSessionId_schoolId_subjectId: {
+              examSessionId: session.id,
+              schoolId,
+              subjectId: subject.id,
+            },
+          },
+          create: {
+            examSessionId: session.id,
+            schoolId,
+            subjectId: subject.id,
+          },
+          // Touch the sheet so updatedAt reflects the last save
+          update: { updatedAt: new Date() },
+        });
+
+        // Moved on (e.g. locked) since the checks above
+        if (sheet.status !== status) {
+          throw new AssessmentError(
+            `This sheet was ${sheet.status.toLowerCase()} while you were editing. Reload it and try again`,
+            "ASSESSMENT_STATUS_CHANGED",
+            409
+          );
+        }
+
+        // Read for the whole sheet; cells outside the batch are ignored
+        const previous = new Map(
+          status === "Draft"
+            ? []
+            : (
+                await tx.assessmentScore.findMany({
+                  where: {
+                    assessmentId: sheet.id,
+                    candidateId: {
+                      in: [...new Set(values.map((cell) => cell.candidateId))],
+                    },
+                  },
+                  select: { candidateId: true, component: true, score: true },
+                })
+              ).map((row) => [
+                scoreKey(row.candidateId, row.component),
+                row.score.toNumber(),
+              ])
+        );
+
+        // One statement for the whole batch, so an imported sheet of
+        // thousands of cells costs the same round trips as a single edit
+        if (saved.length > 0) {
+          await tx.$executeRaw`
+            INSERT INTO "public"."assessment_scores"
+              ("id", "assessmentId", "candidateId", "component", "score", "maxScore", "updatedById", "updatedAt")
+            SELECT cell."id", ${sheet.id}, cell."candidateId", cell."component",
+                   cell."score", cell."maxScore", ${context.admin.id}, NOW()
+            FROM UNNEST(
+              ${saved.map(() => randomUUID())}::text[],
+              ${saved.map((cell) => cell.candidateId)}::text[],
+              ${saved.map((cell) => cell.component)}::text[],
+              ${saved.map((cell) => String(cell.score))}::numeric[],
+              ${saved.map((cell) => components.get(cell.component)!.maxScore)}::int[]
+            ) AS cell("id", "candidateId", "component", "score", "maxScore")
+            ON CONFLICT ("assessmentId", "candidateId", "component")
+            DO UPDATE SET "score" = EXCLUDED."score",
+                          "maxScore" = EXCLUDED."maxScore",
+                          "updatedById" = EXCLUDED."updatedById",
+                          "updatedAt" = NOW()
+          `;
+        }
+
+        if (cleared.length > 0) {
+          await tx.assessmentScore.deleteMany({
+            where: {
+              assessmentId: sheet.id,
+              OR: cleared.map((cell) => ({
+                candidateId: cell.candidateId,
+                component: cell.component,
+              })),
+            },
+          });
+        }
+
+        if (status === "Draft") {
+          await this.audit(
+            tx,
+            "ASSESSMENT_SCORES_SAVED",
+            {
+              assessmentId: sheet.id,
+              examSessionId: session.id,
+              subject: subject.code,
+              saved: saved.length,
+              cleared: cleared.length,
+              ...(context.source ? { source: context.source } : {}),
+            },
+            context,
+            schoolId
+          );
+        } else {
+          // "<registration number> <component>" -> before/after
+          const changes: Record<
+            string,
+            { from: number | null; to: number | null }
+          > = {};
+          for (const [key, cell] of cells) {
+            const from = previous.get(key) ?? null;
+            if (from === cell.score) continue;
+            changes[
+              `${registrationNumbers.get(cell.candidateId)} ${cell.component}`
+            ] = { from, to: cell.score };
+          }
+
+          await this.audit(
+            tx,
+            "ASSESSMENT_SCORES_MODERATED",
+            {
+              assessmentId: sheet.id,
+              examSessionId: session.id,
+              subject: subject.code,
+              status,
+              reason: reason!,
+              changes,
+              ...(context.source ? { source: context.source } : {}),
+            },
+            context,
+            schoolId
+          );
+        }
+
+        return sheet;
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+
+    await GradingService.regradeSchool(session.id, schoolId);
+
+    return {
+      id: assessment.id,
+      saved: saved.length,
+      cleared: cleared.length,
+      updatedAt: assessment.updatedAt,
+    };
+  }
+
+  /**
+   * Move a sheet through moderation. Submitting needs a score in every
+   * cell, and the update is guarded on the current status so concurrent
+   * moves cannot both apply.
+   */
+  static async transition(
+    id: string,
+    change: { status: AssessmentStatus; reason?: string },
+    context: SheetContext
+  ) {
+    const target = await this.findTargetById(id, context.admin);
+    const from = target.assessment!.status;
+    const to = change.status;
+    const rule = TRANSITIONS[from]?.[to];
+    const reason = change.reason?.trim() || undefined;
+
+    if (!rule) {
+      throw new AssessmentError(
+        `A ${from.toLowerCase()} sheet cannot be moved to ${to.toLowerCase()}`,
+        "INVALID_TRANSITION",
+        409
+      );
+    }
+
+    if (!rule.roles.includes(context.admin.role)) {
+      throw new AssessmentError(
+        from === "Locked"
+          ? "Only a Super Admin can unlock a sheet"
+          : "You are not allowed to make this change",
+        "FORBIDDEN",
+        403
+      );
+    }
+
+    if (rule.requiresReason && !reason) {
+      throw new AssessmentError(
+        "A reason is required for this change",
+        "REASON_REQUIRED",
+        400,
+        { reason: "A reason is required" }
+      );
+    }
+
+    if (to === "Submitted") {
+      const components = parseAssessmentComponents(
+        target.session.assessmentComponents
+      );
+      const eligible = this.eligibleWhere(
+        target.schoolId,
+        target.session.id,
+        target.subject.id
+      );
+      const [candidates, scored] = await Promise.all([
+        prisma.candidate.count({ where: eligible }),
+        prisma.assessmentScore.count({
+          where: {
+            assessmentId: id,
+            component: { in: components.map((component) => component.code) },
+            candidate: eligible,
+          },
+        }),
+      ]);
+      const missing = candidates * components.length - scored;
+
+      if (missing > 0) {
+        throw new AssessmentError(
+          `${missing} score(s) are still missing. Complete the sheet before submitting it`,
+          "INCOMPLETE_SHEET",
+          409
+        );
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.assessment.updateMany({
+        where: { id, status: from },
+        data: {
+          status: to,
+          statusChangedAt: new Date(),
+          statusChangedById: context.admin.id,
+        },
+      });
+
+      if (count === 0) {
+        throw new AssessmentError(
+          "This sheet was changed by someone else. Reload it and try again",
+          "ASSESSMENT_STATUS_CHANGED",
+          409
+        );
+      }
+
+      await this.audit(
+        tx,
+        rule.auditAction,
+        {
+          assessmentId: id,
+          examSessionId: target.session.id,
+          subject: target.subject.code,
+          from,
+          to,
+          ...(reason ? { reason } : {}),
+        },
+        context,
+        target.schoolId
+      );
+    });
+
+    return this.getSheetById(id, context.admin);
+  }
+}
+
+export { AssessmentError };
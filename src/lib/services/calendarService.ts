@@ -0,0 +1,329 @@
+// File: src/lib/services/calendarService.ts
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import { JWTUtils } from "@/lib/server/jwt";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import { startOfUtcDay, toExamInstant } from "@/lib/utils/examTime";
+
+export type CalendarEventType =
+  | "REGISTRATION_OPENS"
+  | "REGISTRATION_CLOSES"
+  | "LATE_REGISTRATION_CLOSES"
+  | "EXAM"
+  | "RESULT_RELEASE";
+
+// What the iCalendar renderer needs from an event
+export interface ICalendarEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+  description?: string;
+}
+
+export interface CalendarEvent {
+  id: string;
+  type: CalendarEventType;
+  title: string;
+  examSessionId: string;
+  sessionName: string;
+  // Exact instant for timed events, midnight UTC of the day for all-day ones
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FEED_TOKEN_TYPE = "calendar_feed";
+
+class CalendarError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "CalendarError";
+  }
+}
+
+// RFC 5545 TEXT escaping
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const formatUtc = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const formatDay = (date: Date) =>
+  date.toISOString().slice(0, 10).replace(/-/g, "");
+
+// Lines longer than 75 octets are folded onto continuation lines
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let rest = line;
+  while (rest.length > 73) {
+    chunks.push(rest.slice(0, 73));
+    rest = rest.slice(73);
+  }
+  chunks.push(rest);
+  return chunks.join("\r\n ");
+}
+
+export class CalendarService {
+  /**
+   * Sessions an admin should see dates for. Super Admins see every session;
+   * school staff see sessions their school is attached to and sessions open
+   * to every school. Inactive and cancelled sessions are left out.
+   */
+  private static sessionScope(
+    admin: SessionAdmin
+  ): Prisma.ExamSessionWhereInput {
+    const where: Prisma.ExamSessionWhereInput = {
+      isActive: true,
+      status: { not: "Cancelled" },
+    };
+
+    if (admin.role === "Super_Admin" || !admin.schoolId) return where;
+
+    return {
+      ...where,
+      OR: [
+        { schools: { none: {} } },
+        { schools: { some: { id: admin.schoolId } } },
+      ],
+    };
+  }
+
+  /**
+   * Registration, exam and result dates of the admin's sessions that fall on
+   * or after `from`, earliest first.
+   */
+  static async listEvents(
+    admin: SessionAdmin,
+    from: Date = startOfUtcDay(new Date())
+  ): Promise<CalendarEvent[]> {
+    const sessions = await prisma.examSession.findMany({
+      where: {
+        AND: [
+          this.sessionScope(admin),
+          {
+            OR: [
+              { registrationStartDate: { gte: from } },
+              { registrationEndDate: { gte: from } },
+              { lateRegistrationEndDate: { gte: from } },
+              { examDate: { gte: from } },
+              { resultReleaseDate: { gte: from } },
+            ],
+          },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        examDate: true,
+        examTime: true,
+        duration: true,
+        registrationStartDate: true,
+        registrationEndDate: true,
+        lateRegistrationEndDate: true,
+        resultReleaseDate: true,
+      },
+    });
+
+    const events: CalendarEvent[] = [];
+
+    for (const session of sessions) {
+      const base = { examSessionId: session.id, sessionName: session.name };
+      const exam = toExamInstant(session.examDate, session.examTime);
+
+      events.push(
+        {
+          ...base,
+          id: `${session.id}-registration-opens`,
+          type: "REGISTRATION_OPENS",
+          title: `${session.name}: registration opens`,
+          start: startOfUtcDay(session.registrationStartDate),
+          end: null,
+          allDay: true,
+        },
+        {
+          ...base,
+          id: `${session.id}-registration-closes`,
+          type: "REGISTRATION_CLOSES",
+          title: session.lateRegistrationEndDate
+            ? `${session.name}: registration closes; late registration follows`
+            : `${session.name}: registration closes`,
+          start: session.registrationEndDate,
+          end: null,
+          allDay: false,
+        },
+        {
+          ...base,
+          id: `${session.id}-exam`,
+          type: "EXAM",
+          title: session.name,
+          start: exam,
+          end: new Date(exam.getTime() + session.duration * 60 * 1000),
+          allDay: false,
+        }
+      );
+
+      if (session.lateRegistrationEndDate) {
+        events.push({
+          ...base,
+          id: `${session.id}-late-registration-closes`,
+          type: "LATE_REGISTRATION_CLOSES",
+          title: `${session.name}: late registration closes`,
+          start: session.lateRegistrationEndDate,
+          end: null,
+          allDay: false,
+        });
+      }
+
+      if (session.resultReleaseDate) {
+        events.push({
+          ...base,
+          id: `${session.id}-result-release`,
+          type: "RESULT_RELEASE",
+          title: `${session.name}: results released`,
+          start: startOfUtcDay(session.resultReleaseDate),
+          end: null,
+          allDay: true,
+        });
+      }
+    }
+
+    return events
+      .filter((event) => (event.end ?? event.start) >= from)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * The soonest registration deadline that has not passed yet. Once the
+   * regular deadline has passed, a session still in late registration is
+   * reported by its late deadline.
+   */
+  static nextDeadline(
+    events: CalendarEvent[],
+    now: Date = new Date()
+  ): CalendarEvent | null {
+    return (
+      events.find(
+        (event) =>
+          (event.type === "REGISTRATION_CLOSES" ||
+            event.type === "LATE_REGISTRATION_CLOSES") &&
+          event.start > now
+      ) ?? null
+    );
+  }
+
+  /**
+   * Render events as an iCalendar (RFC 5545) document.
+   */
+  static toICalendar(
+    events: ICalendarEvent[],
+    options: { name?: string; now?: Date } = {}
+  ): string {
+    const now = options.now ?? new Date();
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//CEC Portal//Exam Calendar//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(options.name ?? "CEC Exam Calendar")}`,
+      "X-WR-TIMEZONE:Africa/Lagos",
+      "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+      "X-PUBLISHED-TTL:PT6H",
+    ];
+
+    for (const event of events) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${event.id}@cecportal`,
+        `DTSTAMP:${formatUtc(now)}`
+      );
+
+      if (event.allDay) {
+        lines.push(
+          `DTSTART;VALUE=DATE:${formatDay(event.start)}`,
+          `DTEND;VALUE=DATE:${formatDay(new Date(event.start.getTime() + DAY_MS))}`
+        );
+      } else {
+        lines.push(
+          `DTSTART:${formatUtc(event.start)}`,
+          `DTEND:${formatUtc(event.end ?? event.start)}`
+        );
+      }
+
+      lines.push(`SUMMARY:${escapeText(event.title)}`);
+      if (event.description) {
+        lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+      }
+      lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Long-lived token identifying the admin a subscription feed belongs to.
+   * Calendar apps cannot send the session cookie, so the feed URL carries it.
+   */
+  static async createFeedToken(admin: SessionAdmin): Promise<string> {
+    return JWTUtils.generateToken(
+      { type: FEED_TOKEN_TYPE, adminId: admin.id },
+      { expiresIn: "365d", subject: "calendar-feed" }
+    );
+  }
+
+  /**
+   * Resolve the admin behind a feed token. Deactivated accounts lose access
+   * to their feeds, and a school admin's feed follows their current school.
+   */
+  static async resolveFeedToken(token: string): Promise<SessionAdmin> {
+    let adminId: string | undefined;
+    try {
+      const payload = await JWTUtils.verifyToken(token);
+      if (payload.type === FEED_TOKEN_TYPE) adminId = payload.adminId;
+    } catch {
+      adminId = undefined;
+    }
+
+    if (!adminId) {
+      throw new CalendarError(
+        "Invalid or expired calendar link",
+        "INVALID_FEED_TOKEN",
+        401
+      );
+    }
+
+    const admin = await prisma.adminUser.findUnique({
+      where: { id: adminId },
+      select: { id: true, role: true, schoolId: true, isActive: true },
+    });
+
+    if (!admin || !admin.isActive) {
+      throw new CalendarError(
+        "Invalid or expired calendar link",
+        "INVALID_FEED_TOKEN",
+        401
+      );
+    }
+
+    return admin;
+  }
+}
+
+export { CalendarError };
@@ -0,0 +1,303 @@
+// File: src/lib/services/candidateImportService.ts
+import { prisma } from "@/lib/server/prisma";
+import {
+  CandidateService,
+  CandidateServiceError,
+  maskIdentifier,
+  toCandidateResponse,
+  type AuditMeta,
+  type ProtectedCandidateFields,
+} from "@/lib/services/candidateService";
+import { ReferenceDataService } from "@/lib/services/referenceDataService";
+import {
+  SubjectService,
+  type SubjectSelection,
+} from "@/lib/services/subjectService";
+import {
+  CandidateSchema,
+  toFieldErrors,
+  type CandidateInput,
+} from "@/lib/validation/candidate";
+import type { SpreadsheetRow } from "@/lib/utils/spreadsheet";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Normalised spreadsheet header -> candidate field
+const HEADER_ALIASES: Record<string, keyof CandidateInput> = {
+  surname: "surname",
+  lastname: "surname",
+  firstname: "firstName",
+  othername: "otherName",
+  othernames: "otherName",
+  middlename: "otherName",
+  dateofbirth: "dateOfBirth",
+  dob: "dateOfBirth",
+  birthdate: "dateOfBirth",
+  gender: "gender",
+  sex: "gender",
+  state: "state",
+  stateoforigin: "state",
+  lga: "lga",
+  localgovernment: "lga",
+  localgovernmentarea: "lga",
+  nin: "nin",
+  phonenumber: "phoneNumber",
+  phone: "phoneNumber",
+  phoneno: "phoneNumber",
+  disability: "disability",
+  subjects: "subjects",
+  subject: "subjects",
+};
+
+const REQUIRED_FIELDS: (keyof CandidateInput)[] = [
+  "surname",
+  "firstName",
+  "dateOfBirth",
+  "gender",
+  "state",
+  "lga",
+  "nin",
+  "phoneNumber",
+  "subjects",
+];
+
+export interface ImportRowReport {
+  rowNumber: number;
+  valid: boolean;
+  errors: Record<string, string>;
+  candidate?: { surname: string; firstName: string; nin: string };
+}
+
+interface ValidatedRow {
+  rowNumber: number;
+  input: CandidateInput;
+  protectedFields: ProtectedCandidateFields;
+  subjects: SubjectSelection;
+}
+
+export interface ImportValidationResult {
+  examSessionId: string;
+  report: ImportRowReport[];
+  validRows: ValidatedRow[];
+}
+
+// Accept dd/mm/yyyy and dd-mm-yyyy as well as ISO dates
+function normaliseDate(value: string): string {
+  const match = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!match) return value;
+  const [, day, month, year] = match;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+function capitalise(value: string): string {
+  if (!value) return value;
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
+
+function mapRow(
+  row: SpreadsheetRow,
+  acceptedTerms: boolean
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = { acceptedTerms };
+
+  for (const [header, value] of Object.entries(row.values)) {
+    const field = HEADER_ALIASES[header];
+    if (field && mapped[field] === undefined) mapped[field] = value;
+  }
+
+  if (typeof mapped.dateOfBirth === "string") {
+    mapped.dateOfBirth = normaliseDate(mapped.dateOfBirth);
+  }
+  if (typeof mapped.gender === "string") {
+    mapped.gender = capitalise(mapped.gender);
+  }
+  if (typeof mapped.disability === "string") {
+    mapped.disability = capitalise(mapped.disability);
+  }
+
+  return mapped;
+}
+
+export class CandidateImportService {
+  /**
+   * Report required columns missing from the uploaded header row.
+   */
+  static missingColumns(headers: string[]): string[] {
+    const present = new Set(
+      headers.map((header) => HEADER_ALIASES[header]).filter(Boolean)
+    );
+    return REQUIRED_FIELDS.filter((field) => !present.has(field));
+  }
+
+  /**
+   * Validate every row with the enrol form rules and flag NINs that are
+   * repeated in the file or already registered.
+   */
+  static async validate(
+    rows: SpreadsheetRow[],
+    context: { schoolId: string; acceptedTerms: boolean }
+  ): Promise<ImportValidationResult> {
+    if (rows.length === 0) {
+      throw new CandidateServiceError(
+        "The uploaded file has no candidate rows.",
+        "EMPTY_IMPORT"
+      );
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new CandidateServiceError(
+        `A single import is limited to ${MAX_IMPORT_ROWS} candidates.`,
+        "IMPORT_TOO_LARGE"
+      );
+    }
+
+    const examSession = await CandidateService.findOpenExamSession(
+      context.schoolId
+    );
+
+    if (!examSession) {
+      throw new CandidateServiceError(
+        "No examination session is currently open for registration.",
+        "NO_OPEN_EXAM_SESSION",
+        409
+      );
+    }
+
+    const subjectRules = SubjectService.getRules(examSession);
+    const catalogue = await SubjectService.getCatalogue();
+    const locations = await ReferenceDataService.getLocationIndex();
+
+    const report: ImportRowReport[] = [];
+    const parsedRows: ValidatedRow[] = [];
+
+    for (const row of rows) {
+      const parsed = CandidateSchema.safeParse(
+        mapRow(row, context.acceptedTerms)
+      );
+
+      if (!parsed.success) {
+        report.push({
+          rowNumber: row.rowNumber,
+          valid: false,
+          errors: toFieldErrors(parsed.error),
+        });
+        continue;
+      }
+
+      const subjects = SubjectService.resolveSelection(
+        parsed.data.subjects,
+        subjectRules,
+        catalogue
+      );
+
+      const location = ReferenceDataService.resolveLocation(
+        parsed.data.state,
+        parsed.data.lga,
+        locations
+      );
+
+      if (subjects.error || location.errors) {
+        report.push({
+          rowNumber: row.rowNumber,
+          valid: false,
+          errors: {
+            ...location.errors,
+            ...(subjects.error ? { subjects: subjects.error } : {}),
+          },
+        });
+        continue;
+      }
+
+      const input = {
+        ...parsed.data,
+        state: location.state,
+        lga: location.lga,
+      };
+
+      parsedRows.push({
+        rowNumber: row.rowNumber,
+        input,
+        protectedFields: await CandidateService.protectCandidateFields(input),
+        subjects,
+      });
+    }
+
+    // Duplicate NINs inside the file and against existing candidates
+    const firstRowForHash = new Map<string, number>();
+    const existing = await prisma.candidate.findMany({
+      where: {
+        ninHash: { in: parsedRows.map((row) => row.protectedFields.ninHash) },
+      },
+      select: { ninHash: true },
+    });
+    const registeredHashes = new Set(existing.map((row) => row.ninHash));
+
+    const validRows: ValidatedRow[] = [];
+
+    for (const row of parsedRows) {
+      const errors: Record<string, string> = {};
+      const { ninHash } = row.protectedFields;
+
+      if (registeredHashes.has(ninHash)) {
+        errors.nin = "A candidate with this NIN is already registered";
+      } else if (firstRowForHash.has(ninHash)) {
+        errors.nin = `Duplicate NIN, first used on row ${firstRowForHash.get(ninHash)}`;
+      } else {
+        firstRowForHash.set(ninHash, row.rowNumber);
+      }
+
+      const valid = Object.keys(errors).length === 0;
+      if (valid) validRows.push(row);
+
+      report.push({
+        rowNumber: row.rowNumber,
+        valid,
+        errors,
+        candidate: {
+          surname: row.input.surname,
+          firstName: row.input.firstName,
+          nin: maskIdentifier(row.input.nin),
+        },
+      });
+    }
+
+    report.sort((a, b) => a.rowNumber - b.rowNumber);
+
+    return { examSessionId: examSession.id, report, validRows };
+  }
+
+  /**
+   * Create every valid row in a single transaction; any failure rolls the
+   * whole batch back. The rows are written in bulk, so the transaction
+   * takes the same handful of statements for one row or a thousand.
+   */
+  static async commit(
+    validation: ImportValidationResult,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    const ids = await prisma.$transaction(
+      (tx) =>
+        CandidateService.createManyInTransaction(tx, validation.validRows, {
+          ...context,
+          examSessionId: validation.examSessionId,
+          source: "bulk_import",
+        }),
+      { maxWait: 5000, timeout: 15000 }
+    );
+
+    const candidates = await prisma.candidate.findMany({
+      where: { id: { in: ids } },
+      include: {
+        examSession: { select: { id: true, name: true } },
+        subjects: {
+          include: { subject: { select: { code: true, name: true } } },
+        },
+      },
+    });
+    const byId = new Map(
+      candidates.map((candidate) => [candidate.id, candidate])
+    );
+
+    return ids.map((id) => toCandidateResponse(byId.get(id)!));
+  }
+}
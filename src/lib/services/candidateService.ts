@@ -0,0 +1,766 @@
+// File: src/lib/services/candidateService.ts
+import type { Candidate, Prisma, RegistrationStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import { protectData, unprotectData } from "@/lib/security/dataProtection";
+import {
+  DuplicateCheckService,
+  identityKey,
+} from "@/lib/services/duplicateCheckService";
+import { ReferenceDataService } from "@/lib/services/referenceDataService";
+import { RegistrationNumberService } from "@/lib/services/registrationNumberService";
+import {
+  SubjectService,
+  type SubjectSelection,
+} from "@/lib/services/subjectService";
+import {
+  NIN_REGEX,
+  NIGERIAN_PHONE_REGEX,
+  type CandidateInput,
+  type CandidateListQuery,
+  type CandidateUpdateInput,
+} from "@/lib/validation/candidate";
+import { registrationClosesAt } from "@/lib/validation/examSession";
+
+class CandidateServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "CandidateServiceError";
+  }
+}
+
+export type ProtectedCandidateFields = Awaited<
+  ReturnType<typeof CandidateService.protectCandidateFields>
+>;
+
+export interface AuditMeta {
+  performedBy: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Statuses in which school admins may still edit a candidate
+const EDITABLE_STATUSES: RegistrationStatus[] = ["Pending", "Submitted"];
+
+// Fields stored through protectData; audit diffs only keep masked values
+const PROTECTED_FIELDS = new Set(["nin", "phoneNumber"]);
+
+type FieldChange = { from: string | null; to: string | null };
+
+/**
+ * Keep only the last four characters of an identifier, e.g. "*******8901".
+ */
+export function maskIdentifier(value: string): string {
+  return value.length > 4
+    ? `${"*".repeat(value.length - 4)}${value.slice(-4)}`
+    : value;
+}
+
+function toComparable(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+/**
+ * Shape returned to the admin UI. Encrypted columns and search hashes never
+ * leave the server through this mapper.
+ */
+export function toCandidateResponse(
+  candidate: Candidate & {
+    examSession?: { id: string; name: string } | null;
+    subjects?: { subject: { code: string; name: string } }[];
+  }
+) {
+  return {
+    id: candidate.id,
+    registrationNumber: candidate.registrationNumber,
+    surname: candidate.surname,
+    firstName: candidate.firstName,
+    otherName: candidate.otherName,
+    dateOfBirth: candidate.dateOfBirth,
+    gender: candidate.gender,
+    disability: candidate.disability,
+    state: candidate.state,
+    lga: candidate.lga,
+    passportPhotoUrl: candidate.passportPhotoUrl,
+    registrationStatus: candidate.registrationStatus,
+    schoolId: candidate.schoolId,
+    examSession: candidate.examSession
+      ? { id: candidate.examSession.id, name: candidate.examSession.name }
+      : null,
+    subjects: candidate.subjects?.map(({ subject }) => subject),
+    createdAt: candidate.createdAt,
+    updatedAt: candidate.updatedAt,
+  };
+}
+
+/**
+ * toCandidateResponse plus the decrypted NIN and phone number.
+ */
+export async function toDecryptedCandidateResponse(
+  candidate: Parameters<typeof toCandidateResponse>[0]
+) {
+  const [nin, phoneNumber] = await Promise.all([
+    unprotectData(candidate.nin, "nin"),
+    unprotectData(candidate.phoneNumber, "phone"),
+  ]);
+
+  return { ...toCandidateResponse(candidate), nin, phoneNumber };
+}
+
+export class CandidateService {
+  /**
+   * Build the where clause for a school's candidate list. Text search
+   * matches names and registration numbers; an 11-digit value or a phone
+   * number is matched exactly against the search hashes instead.
+   */
+  private static async buildListWhere(
+    schoolId: string,
+    query: Omit<CandidateListQuery, "cursor" | "limit" | "sortBy" | "sortOrder">
+  ): Promise<Prisma.CandidateWhereInput> {
+    const where: Prisma.CandidateWhereInput = {
+      schoolId,
+      registrationStatus: query.status,
+      state: query.state,
+      gender: query.gender,
+    };
+
+    const search = query.search?.replace(/\s/g, "");
+    if (!query.search || !search) return where;
+
+    if (NIN_REGEX.test(search)) {
+      const { searchHash } = await protectData(search, "nin");
+      where.ninHash = searchHash;
+    } else if (NIGERIAN_PHONE_REGEX.test(search)) {
+      const { searchHash } = await protectData(search, "phone");
+      where.phoneHash = searchHash;
+    } else {
+      const term = query.search.trim();
+      where.OR = [
+        { surname: { contains: term, mode: "insensitive" } },
+        { firstName: { contains: term, mode: "insensitive" } },
+        { otherName: { contains: term, mode: "insensitive" } },
+        { registrationNumber: { contains: term, mode: "insensitive" } },
+      ];
+    }
+
+    return where;
+  }
+
+  /**
+   * Cursor-paginated candidate list for one school. Protected fields are
+   * decrypted only for the rows on the returned page.
+   */
+  static async listCandidates(schoolId: string, query: CandidateListQuery) {
+    const where = await this.buildListWhere(schoolId, query);
+
+    const [rows, totalCount, statusCounts, states] = await Promise.all([
+      prisma.candidate.findMany({
+        where,
+        include: { examSession: { select: { id: true, name: true } } },
+        // id breaks ties so the cursor position is stable
+        orderBy: [{ [query.sortBy]: query.sortOrder }, { id: query.sortOrder }],
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+      }),
+      prisma.candidate.count({ where }),
+      prisma.candidate.groupBy({
+        by: ["registrationStatus"],
+        where: { schoolId },
+        _count: { _all: true },
+      }),
+      prisma.candidate.findMany({
+        where: { schoolId },
+        distinct: ["state"],
+        select: { state: true },
+        orderBy: { state: "asc" },
+      }),
+    ]);
+
+    const hasNextPage = rows.length > query.limit;
+    const page = hasNextPage ? rows.slice(0, query.limit) : rows;
+
+    return {
+      candidates: await Promise.all(page.map(toDecryptedCandidateResponse)),
+      pageInfo: {
+        hasNextPage,
+        nextCursor: hasNextPage ? page[page.length - 1].id : null,
+        totalCount,
+      },
+      stats: {
+        total: statusCounts.reduce((sum, row) => sum + row._count._all, 0),
+        byStatus: Object.fromEntries(
+          statusCounts.map((row) => [row.registrationStatus, row._count._all])
+        ),
+      },
+      filters: { states: states.map((row) => row.state) },
+    };
+  }
+
+  /**
+   * Find the exam session a school can currently register candidates into,
+   * including one in late registration. Sessions not attached to any school
+   * are open to every school.
+   */
+  static async findOpenExamSession(schoolId: string, now: Date = new Date()) {
+    return prisma.examSession.findFirst({
+      where: {
+        status: "Registration_Open",
+        isActive: true,
+        registrationStartDate: { lte: now },
+        AND: [
+          {
+            OR: [
+              { registrationEndDate: { gte: now } },
+              { lateRegistrationEndDate: { gte: now } },
+            ],
+          },
+          {
+            OR: [
+              { schools: { some: { id: schoolId } } },
+              { schools: { none: {} } },
+            ],
+          },
+        ],
+      },
+      orderBy: { examDate: "asc" },
+    });
+  }
+
+  /**
+   * Encrypt the protected candidate fields and compute their search hashes.
+   */
+  static async protectCandidateFields(input: {
+    nin: string;
+    phoneNumber: string;
+  }) {
+    const [protectedNin, protectedPhone] = await Promise.all([
+      protectData(input.nin, "nin"),
+      protectData(input.phoneNumber, "phone"),
+    ]);
+
+    return {
+      nin: protectedNin.encrypted,
+      ninHash: protectedNin.searchHash ?? "",
+      phoneNumber: protectedPhone.encrypted,
+      phoneHash: protectedPhone.searchHash ?? "",
+    };
+  }
+
+  /**
+   * Check the chosen subjects against the exam session's rules.
+   */
+  static async resolveSubjects(
+    values: string[],
+    examSession: { subjectRules: Prisma.JsonValue | null }
+  ): Promise<SubjectSelection> {
+    const selection = SubjectService.resolveSelection(
+      values,
+      SubjectService.getRules(examSession),
+      await SubjectService.getCatalogue()
+    );
+
+    if (selection.error) {
+      throw new CandidateServiceError(
+        selection.error,
+        "INVALID_SUBJECTS",
+        400,
+        { subjects: selection.error }
+      );
+    }
+
+    return selection;
+  }
+
+  /**
+   * Check a state and LGA against the reference tables, returning their
+   * canonical names.
+   */
+  static async resolveLocation(state: string, lga: string) {
+    const location = ReferenceDataService.resolveLocation(
+      state,
+      lga,
+      await ReferenceDataService.getLocationIndex()
+    );
+
+    if (location.errors) {
+      throw new CandidateServiceError(
+        Object.values(location.errors)[0],
+        "INVALID_LOCATION",
+        400,
+        location.errors
+      );
+    }
+
+    return { state: location.state, lga: location.lga };
+  }
+
+  /**
+   * Register a single candidate under the admin's school and the open
+   * exam session, writing a CREATED audit entry in the same transaction.
+   */
+  static async createCandidate(
+    input: CandidateInput,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    input = {
+      ...input,
+      ...(await this.resolveLocation(input.state, input.lga)),
+    };
+    const protectedFields = await this.protectCandidateFields(input);
+
+    const existing = await prisma.candidate.findFirst({
+      where: { ninHash: protectedFields.ninHash },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new CandidateServiceError(
+        "A candidate with this NIN is already registered.",
+        "CANDIDATE_NIN_EXISTS",
+        409,
+        { nin: "A candidate with this NIN is already registered" }
+      );
+    }
+
+    const examSession = await this.findOpenExamSession(context.schoolId);
+
+    if (!examSession) {
+      throw new CandidateServiceError(
+        "No examination session is currently open for registration.",
+        "NO_OPEN_EXAM_SESSION",
+        409
+      );
+    }
+
+    const subjects = await this.resolveSubjects(input.subjects, examSession);
+
+    return prisma.$transaction(
+      (tx) =>
+        this.createInTransaction(tx, input, protectedFields, {
+          ...context,
+          examSessionId: examSession.id,
+          subjects,
+          source: "enrol_form",
+        }),
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+
+  /**
+   * Load one of the school's candidates with protected fields decrypted.
+   */
+  static async getCandidate(id: string, schoolId: string) {
+    const candidate = await prisma.candidate.findFirst({
+      where: { id, schoolId },
+      include: {
+        examSession: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            registrationStartDate: true,
+            registrationEndDate: true,
+            lateRegistrationEndDate: true,
+            subjectRules: true,
+          },
+        },
+        subjects: {
+          include: { subject: { select: { code: true, name: true } } },
+        },
+      },
+    });
+
+    if (!candidate) {
+      throw new CandidateServiceError(
+        "Candidate not found",
+        "CANDIDATE_NOT_FOUND",
+        404
+      );
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Whether the candidate can still be edited: the registration window of
+   * its exam session is open and it has not been verified or closed.
+   */
+  static getEditBlocker(
+    candidate: Awaited<ReturnType<typeof CandidateService.getCandidate>>,
+    now: Date = new Date()
+  ): { code: string; message: string } | null {
+    if (!EDITABLE_STATUSES.includes(candidate.registrationStatus)) {
+      return {
+        code: "CANDIDATE_LOCKED",
+        message: `Candidates with status ${candidate.registrationStatus} can no longer be modified.`,
+      };
+    }
+
+    const session = candidate.examSession;
+    if (
+      !session ||
+      session.status !== "Registration_Open" ||
+      session.registrationStartDate > now ||
+      registrationClosesAt(session) < now
+    ) {
+      return {
+        code: "REGISTRATION_CLOSED",
+        message:
+          "The registration window for this candidate's exam session is closed.",
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply an edit and record a field-level before/after diff. Protected
+   * fields are re-encrypted and their search hashes recomputed.
+   */
+  static async updateCandidate(
+    id: string,
+    input: CandidateUpdateInput,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    const candidate = await this.getCandidate(id, context.schoolId);
+
+    const blocker = this.getEditBlocker(candidate);
+    if (blocker) {
+      throw new CandidateServiceError(blocker.message, blocker.code, 409);
+    }
+
+    if (input.state !== undefined || input.lga !== undefined) {
+      input = {
+        ...input,
+        ...(await this.resolveLocation(
+          input.state ?? candidate.state,
+          input.lga ?? candidate.lga
+        )),
+      };
+    }
+
+    const current: Record<string, unknown> = {
+      ...candidate,
+      nin: await unprotectData(candidate.nin, "nin"),
+      phoneNumber: await unprotectData(candidate.phoneNumber, "phone"),
+    };
+
+    const changes: Record<string, FieldChange> = {};
+    const data: Prisma.CandidateUpdateInput = {};
+
+    for (const [field, value] of Object.entries(input)) {
+      if (field === "subjects") continue;
+
+      const from = toComparable(current[field]);
+      const to = toComparable(value);
+      if (from === to) continue;
+
+      changes[field] = PROTECTED_FIELDS.has(field)
+        ? {
+            from: from && maskIdentifier(from),
+            to: to && maskIdentifier(to),
+          }
+        : { from, to };
+
+      if (!PROTECTED_FIELDS.has(field)) {
+        (data as Record<string, unknown>)[field] = value ?? null;
+      }
+    }
+
+    if (input.subjects && candidate.examSession) {
+      const selection = await this.resolveSubjects(
+        input.subjects,
+        candidate.examSession
+      );
+      const from = candidate.subjects.map(({ subject }) => subject.code).sort();
+      const to = [...selection.codes].sort();
+
+      if (from.join() !== to.join()) {
+        changes.subjects = { from: from.join(", "), to: to.join(", ") };
+        data.subjects = {
+          deleteMany: {},
+          create: selection.subjectIds.map((subjectId) => ({ subjectId })),
+        };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { candidate, changes };
+    }
+
+    if (changes.nin || changes.phoneNumber) {
+      const protectedFields = await this.protectCandidateFields({
+        nin: String(input.nin ?? current.nin),
+        phoneNumber: String(input.phoneNumber ?? current.phoneNumber),
+      });
+
+      if (changes.nin) {
+        const duplicate = await prisma.candidate.findFirst({
+          where: { ninHash: protectedFields.ninHash, id: { not: id } },
+          select: { id: true },
+        });
+
+        if (duplicate) {
+          throw new CandidateServiceError(
+            "A candidate with this NIN is already registered.",
+            "CANDIDATE_NIN_EXISTS",
+            409,
+            { nin: "A candidate with this NIN is already registered" }
+          );
+        }
+
+        data.nin = protectedFields.nin;
+        data.ninHash = protectedFields.ninHash;
+      }
+
+      if (changes.phoneNumber) {
+        data.phoneNumber = protectedFields.phoneNumber;
+        data.phoneHash = protectedFields.phoneHash;
+      }
+    }
+
+    const identityChanged = ["surname", "firstName", "dateOfBirth"].some(
+      (field) => field in changes
+    );
+    if (identityChanged) {
+      data.identityKey = identityKey(
+        input.surname ?? candidate.surname,
+        input.firstName ?? candidate.firstName,
+        input.dateOfBirth ?? candidate.dateOfBirth
+      );
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.candidate.update({
+        where: { id },
+        data,
+        include: {
+          examSession: { select: { id: true, name: true } },
+          subjects: {
+            include: { subject: { select: { code: true, name: true } } },
+          },
+        },
+      });
+
+      await tx.candidateAuditLog.create({
+        data: {
+          candidateId: id,
+          action: "UPDATED",
+          changes,
+          performedBy: context.performedBy,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+
+      // Re-check for duplicates when identifying details change
+      if (identityChanged || changes.nin || changes.phoneNumber) {
+        await DuplicateCheckService.flagInTransaction(tx, result);
+      }
+
+      return result;
+    });
+
+    return { candidate: updated, changes };
+  }
+
+  /**
+   * Issue a registration number, create the candidate and write its CREATED
+   * audit entry using the caller's transaction.
+   */
+  static async createInTransaction(
+    tx: Prisma.TransactionClient,
+    input: CandidateInput,
+    protectedFields: ProtectedCandidateFields,
+    context: {
+      schoolId: string;
+      examSessionId: string;
+      subjects: Pick<SubjectSelection, "codes" | "subjectIds">;
+      source: "enrol_form" | "bulk_import";
+    } & AuditMeta
+  ) {
+    const registrationNumber = await RegistrationNumberService.reserve(tx, {
+      schoolId: context.schoolId,
+      examSessionId: context.examSessionId,
+      reservedBy: context.performedBy,
+    });
+
+    const candidate = await tx.candidate.create({
+      data: {
+        ...this.toCreateData(
+          input,
+          protectedFields,
+          registrationNumber.number,
+          context
+        ),
+        subjects: {
+          create: context.subjects.subjectIds.map((subjectId) => ({
+            subjectId,
+          })),
+        },
+      },
+      include: {
+        examSession: { select: { id: true, name: true } },
+        subjects: {
+          include: { subject: { select: { code: true, name: true } } },
+        },
+      },
+    });
+
+    await RegistrationNumberService.assign(
+      tx,
+      registrationNumber.number,
+      candidate.id
+    );
+
+    await DuplicateCheckService.flagInTransaction(tx, candidate);
+
+    await tx.candidateAuditLog.create({
+      data: this.toCreatedAudit(candidate, context.subjects.codes, context),
+    });
+
+    return candidate;
+  }
+
+  /**
+   * Create many candidates for one school and session, e.g. from a bulk
+   * import, in a fixed number of statements however many there are:
+   * numbers are reserved as one run, then candidates, subjects, number
+   * assignments, duplicate flags and audit entries are each written in
+   * one go. Returns the new candidate IDs in input order.
+   */
+  static async createManyInTransaction(
+    tx: Prisma.TransactionClient,
+    rows: {
+      input: CandidateInput;
+      protectedFields: ProtectedCandidateFields;
+      subjects: Pick<SubjectSelection, "codes" | "subjectIds">;
+    }[],
+    context: {
+      schoolId: string;
+      examSessionId: string;
+      source: "enrol_form" | "bulk_import";
+    } & AuditMeta
+  ): Promise<string[]> {
+    if (rows.length === 0) return [];
+
+    const numbers = await RegistrationNumberService.reserveMany(tx, {
+      schoolId: context.schoolId,
+      examSessionId: context.examSessionId,
+      count: rows.length,
+      reservedBy: context.performedBy,
+    });
+
+    const created = await tx.candidate.createManyAndReturn({
+      data: rows.map((row, i) =>
+        this.toCreateData(row.input, row.protectedFields, numbers[i], context)
+      ),
+      select: {
+        id: true,
+        registrationNumber: true,
+        schoolId: true,
+        examSessionId: true,
+        ninHash: true,
+        phoneHash: true,
+        identityKey: true,
+      },
+    });
+
+    // Rows come back in no guaranteed order; match them up by number
+    const byNumber = new Map(
+      created.map((candidate) => [candidate.registrationNumber, candidate])
+    );
+    const candidates = numbers.map((number) => byNumber.get(number)!);
+
+    await tx.candidateSubject.createMany({
+      data: rows.flatMap((row, i) =>
+        row.subjects.subjectIds.map((subjectId) => ({
+          candidateId: candidates[i].id,
+          subjectId,
+        }))
+      ),
+    });
+
+    await RegistrationNumberService.assignMany(
+      tx,
+      candidates.map((candidate) => ({
+        number: candidate.registrationNumber,
+        candidateId: candidate.id,
+      }))
+    );
+
+    await DuplicateCheckService.flagManyInTransaction(tx, candidates);
+
+    await tx.candidateAuditLog.createMany({
+      data: candidates.map((candidate, i) =>
+        this.toCreatedAudit(candidate, rows[i].subjects.codes, context)
+      ),
+    });
+
+    return candidates.map((candidate) => candidate.id);
+  }
+
+  private static toCreateData(
+    input: CandidateInput,
+    protectedFields: ProtectedCandidateFields,
+    registrationNumber: string,
+    context: { schoolId: string; examSessionId: string } & AuditMeta
+  ) {
+    return {
+      surname: input.surname,
+      firstName: input.firstName,
+      otherName: input.otherName ?? null,
+      dateOfBirth: input.dateOfBirth,
+      gender: input.gender,
+      disability: input.disability,
+      state: input.state,
+      lga: input.lga,
+      ...protectedFields,
+      identityKey: identityKey(
+        input.surname,
+        input.firstName,
+        input.dateOfBirth
+      ),
+      registrationNumber,
+      acceptedTerms: input.acceptedTerms,
+      registrationStatus: "Pending" as const,
+      schoolId: context.schoolId,
+      createdById: context.performedBy,
+      examSessionId: context.examSessionId,
+    };
+  }
+
+  private static toCreatedAudit(
+    candidate: {
+      id: string;
+      registrationNumber: string;
+      schoolId: string;
+      examSessionId: string | null;
+    },
+    subjects: string[],
+    context: { source: "enrol_form" | "bulk_import" } & AuditMeta
+  ): Prisma.CandidateAuditLogCreateManyInput {
+    return {
+      candidateId: candidate.id,
+      action: "CREATED",
+      changes: {
+        registrationNumber: candidate.registrationNumber,
+        schoolId: candidate.schoolId,
+        examSessionId: candidate.examSessionId,
+        subjects,
+        source: context.source,
+      },
+      performedBy: context.performedBy,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+  }
+}
+
+export { CandidateServiceError };
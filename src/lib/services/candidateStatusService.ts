@@ -0,0 +1,303 @@
+// File: src/lib/services/candidateStatusService.ts
+import type { AdminRole, Prisma, RegistrationStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { RegistrationNumberService } from "@/lib/services/registrationNumberService";
+
+export const MAX_STATUS_BATCH = 500;
+
+interface TransitionRule {
+  roles: AdminRole[];
+  requiresReason: boolean;
+  auditAction: string;
+}
+
+const ALL_ROLES: AdminRole[] = ["Super_Admin", "Admin", "Operator"];
+
+// from -> to -> rule. Anything not listed here is rejected.
+const TRANSITIONS: Partial<
+  Record<
+    RegistrationStatus,
+    Partial<Record<RegistrationStatus, TransitionRule>>
+  >
+> = {
+  Pending: {
+    Submitted: {
+      roles: ALL_ROLES,
+      requiresReason: false,
+      auditAction: "SUBMITTED",
+    },
+    Cancelled: {
+      roles: ["Super_Admin", "Admin"],
+      requiresReason: true,
+      auditAction: "CANCELLED",
+    },
+  },
+  Submitted: {
+    Verified: {
+      roles: ["Super_Admin"],
+      requiresReason: false,
+      auditAction: "VERIFIED",
+    },
+    Rejected: {
+      roles: ["Super_Admin"],
+      requiresReason: true,
+      auditAction: "REJECTED",
+    },
+    Cancelled: {
+      roles: ["Super_Admin", "Admin"],
+      requiresReason: true,
+      auditAction: "CANCELLED",
+    },
+  },
+  // A rejected registration goes back to the school for correction
+  Rejected: {
+    Pending: {
+      roles: ALL_ROLES,
+      requiresReason: false,
+      auditAction: "REOPENED",
+    },
+  },
+};
+
+class CandidateStatusError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "CandidateStatusError";
+  }
+}
+
+export interface StatusTransitionResult {
+  candidateId: string;
+  success: boolean;
+  from?: RegistrationStatus;
+  to: RegistrationStatus;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Look up the rule for a transition, or null when it is not allowed.
+ */
+export function getTransitionRule(
+  from: RegistrationStatus,
+  to: RegistrationStatus
+): TransitionRule | null {
+  return TRANSITIONS[from]?.[to] ?? null;
+}
+
+/**
+ * Statuses a candidate may move to next, given the admin's role.
+ */
+export function allowedTransitions(
+  from: RegistrationStatus,
+  role: AdminRole
+): RegistrationStatus[] {
+  return Object.entries(TRANSITIONS[from] ?? {})
+    .filter(([, rule]) => rule.roles.includes(role))
+    .map(([to]) => to as RegistrationStatus);
+}
+
+export class CandidateStatusService {
+  /**
+   * Column updates that go with entering a status.
+   */
+  private static statusData(
+    to: RegistrationStatus,
+    adminId: string,
+    now: Date
+  ): Prisma.CandidateUpdateManyMutationInput {
+    switch (to) {
+      case "Submitted":
+        return { registrationStatus: to, submittedAt: now };
+      case "Verified":
+        return { registrationStatus: to, verifiedAt: now, verifiedBy: adminId };
+      case "Pending":
+        return { registrationStatus: to, submittedAt: null };
+      default:
+        return { registrationStatus: to };
+    }
+  }
+
+  /**
+   * Move one or more candidates to a new status. Each candidate is checked
+   * against the transition rules and the admin's role and school; those that
+   * fail are reported and skipped while the rest are applied.
+   */
+  static async transition(
+    candidateIds: string[],
+    change: { to: RegistrationStatus; reason?: string },
+    context: { admin: SessionAdmin } & Omit<AuditMeta, "performedBy">
+  ): Promise<StatusTransitionResult[]> {
+    const { admin } = context;
+    const ids = [...new Set(candidateIds)];
+
+    if (ids.length === 0) {
+      throw new CandidateStatusError(
+        "No candidates were selected",
+        "NO_CANDIDATES"
+      );
+    }
+
+    if (ids.length > MAX_STATUS_BATCH) {
+      throw new CandidateStatusError(
+        `A single request is limited to ${MAX_STATUS_BATCH} candidates.`,
+        "BATCH_TOO_LARGE"
+      );
+    }
+
+    // Super admins act across schools; everyone else only on their own
+    if (admin.role !== "Super_Admin" && !admin.schoolId) {
+      throw new CandidateStatusError(
+        "Your account is not linked to a school",
+        "NO_SCHOOL",
+        403
+      );
+    }
+
+    const reason = change.reason?.trim() || undefined;
+
+    const candidates = await prisma.candidate.findMany({
+      where: {
+        id: { in: ids },
+        ...(admin.role === "Super_Admin" ? {} : { schoolId: admin.schoolId! }),
+      },
+      select: { id: true, registrationStatus: true },
+    });
+    const statusById = new Map(
+      candidates.map((candidate) => [
+        candidate.id,
+        candidate.registrationStatus,
+      ])
+    );
+
+    const results: StatusTransitionResult[] = [];
+    const applicable: {
+      id: string;
+      from: RegistrationStatus;
+      rule: TransitionRule;
+    }[] = [];
+
+    for (const id of ids) {
+      const from = statusById.get(id);
+
+      if (!from) {
+        results.push({
+          candidateId: id,
+          success: false,
+          to: change.to,
+          error: "CANDIDATE_NOT_FOUND",
+          message: "Candidate not found",
+        });
+        continue;
+      }
+
+      const rule = getTransitionRule(from, change.to);
+
+      if (!rule) {
+        results.push({
+          candidateId: id,
+          success: false,
+          from,
+          to: change.to,
+          error: "INVALID_TRANSITION",
+          message: `Cannot change status from ${from} to ${change.to}`,
+        });
+      } else if (!rule.roles.includes(admin.role)) {
+        results.push({
+          candidateId: id,
+          success: false,
+          from,
+          to: change.to,
+          error: "FORBIDDEN_TRANSITION",
+          message: `Your role cannot change status from ${from} to ${change.to}`,
+        });
+      } else if (rule.requiresReason && !reason) {
+        results.push({
+          candidateId: id,
+          success: false,
+          from,
+          to: change.to,
+          error: "REASON_REQUIRED",
+          message: `A reason is required to mark a candidate ${change.to}`,
+        });
+      } else {
+        applicable.push({ id, from, rule });
+      }
+    }
+
+    if (applicable.length === 0) return results;
+
+    const now = new Date();
+    const data = this.statusData(change.to, admin.id, now);
+
+    const applied = await prisma.$transaction(
+      async (tx) => {
+        const appliedIds = new Set<string>();
+
+        for (const { id, from, rule } of applicable) {
+          // Guard on the current status so concurrent changes are not overwritten
+          const { count } = await tx.candidate.updateMany({
+            where: { id, registrationStatus: from },
+            data,
+          });
+
+          if (count === 0) continue;
+          appliedIds.add(id);
+
+          if (change.to === "Cancelled") {
+            await RegistrationNumberService.voidForCandidate(tx, id, {
+              voidedBy: admin.id,
+              reason: reason ?? "Registration cancelled",
+            });
+          }
+
+          await tx.candidateAuditLog.create({
+            data: {
+              candidateId: id,
+              action: rule.auditAction,
+              changes: {
+                registrationStatus: { from, to: change.to },
+                ...(reason ? { reason } : {}),
+              },
+              performedBy: admin.id,
+              performedAt: now,
+              ipAddress: context.ipAddress,
+              userAgent: context.userAgent,
+            },
+          });
+        }
+
+        return appliedIds;
+      },
+      { maxWait: 10000, timeout: 60000 }
+    );
+
+    for (const { id, from } of applicable) {
+      results.push(
+        applied.has(id)
+          ? { candidateId: id, success: true, from, to: change.to }
+          : {
+              candidateId: id,
+              success: false,
+              from,
+              to: change.to,
+              error: "STATUS_CHANGED",
+              message: "The candidate's status was changed by another request",
+            }
+      );
+    }
+
+    const order = new Map(ids.map((id, index) => [id, index]));
+    return results.sort(
+      (a, b) => order.get(a.candidateId)! - order.get(b.candidateId)!
+    );
+  }
+}
+
+export { CandidateStatusError };
@@ -11,15 +11,6 @@ export interface Candidate {
   avatar: string;
 }
 
-export interface Transaction {
-  id: number;
-  date: string;
-  description: string;
-  amount: number;
-  status: "Completed" | "Pending";
-  type: "Credit" | "Debit";
-}
-
 export interface DashboardStats {
   totalCandidates: number;
   registeredCandidates: number;
@@ -63,35 +54,6 @@ export const dashboardService = {
     ];
   },
 
-  async getTransactions(): Promise<Transaction[]> {
-    return [
-      {
-        id: 1,
-        date: "2024-03-15",
-        description: "Registration Fee - 50 Students",
-        amount: 75000,
-        status: "Completed",
-        type: "Credit",
-      },
-      {
-        id: 2,
-        date: "2024-03-18",
-        description: "Additional Registration - 10 Students",
-        amount: 15000,
-        status: "Completed",
-        type: "Credit",
-      },
-      {
-        id: 3,
-        date: "2024-03-20",
-        description: "Service Charge",
-        amount: 2000,
-        status: "Pending",
-        type: "Debit",
-      },
-    ];
-  },
-
   async getDashboardStats(): Promise<DashboardStats> {
     const candidates = await this.getCandidates();
     return {
@@ -0,0 +1,600 @@
+// File: src/lib/services/disputeService.ts
+import { randomInt, randomUUID } from "crypto";
+import { Prisma, type DisputeStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import { getStorage } from "@/lib/server/fileStorage";
+import { unprotectData } from "@/lib/security/dataProtection";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { emailService } from "@/lib/services/emailService";
+import { InvoiceService } from "@/lib/services/invoiceService";
+import type {
+  DisputeInput,
+  DisputeListQuery,
+  DisputeStatusInput,
+} from "@/lib/validation/dispute";
+
+export const EVIDENCE_MAX_BYTES = 5 * 1024 * 1024; // 5MB per file
+export const EVIDENCE_MAX_FILES = 5; // Per upload
+const EVIDENCE_MAX_TOTAL = 20; // Per dispute
+
+// Accepted evidence and the extension it is stored under
+export const EVIDENCE_TYPES: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+};
+
+const REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Where a dispute can move next. Only Super_Admins move disputes.
+const TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  Open: ["Under_Review"],
+  Under_Review: ["Resolved", "Rejected"],
+  Resolved: [],
+  Rejected: [],
+};
+
+const CLOSED_STATUSES: DisputeStatus[] = ["Resolved", "Rejected"];
+
+class DisputeError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "DisputeError";
+  }
+}
+
+type DisputeContext<A extends SessionAdmin = SessionAdmin> = {
+  admin: A;
+} & Omit<AuditMeta, "performedBy">;
+
+type EvidenceRow = Omit<
+  Prisma.DisputeAttachmentCreateManyInput,
+  "disputeId" | "id" | "createdAt"
+>;
+
+const disputeInclude = {
+  school: { select: { id: true, centerNumber: true, centerName: true } },
+  invoice: { select: { id: true, number: true, total: true, status: true } },
+  payment: {
+    select: {
+      id: true,
+      reference: true,
+      amount: true,
+      method: true,
+      status: true,
+    },
+  },
+  createdBy: { select: { id: true, name: true } },
+  _count: { select: { comments: true, attachments: true } },
+} satisfies Prisma.DisputeInclude;
+
+const commentInclude = {
+  author: { select: { id: true, name: true, role: true } },
+} satisfies Prisma.DisputeCommentInclude;
+
+export class DisputeService {
+  private static newReference() {
+    return `DSP-${Array.from(
+      { length: 8 },
+      () => REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)]
+    ).join("")}`;
+  }
+
+  /**
+   * Disputes an admin may see: every school's for Super_Admin, their own
+   * school's otherwise.
+   */
+  private static scope(admin: SessionAdmin): Prisma.DisputeWhereInput {
+    if (admin.role === "Super_Admin") return {};
+    if (!admin.schoolId) {
+      throw new DisputeError(
+        "Your account is not linked to a school",
+        "NO_SCHOOL",
+        403
+      );
+    }
+    return { schoolId: admin.schoolId };
+  }
+
+  private static async find(id: string, admin: SessionAdmin) {
+    const dispute = await prisma.dispute.findFirst({
+      where: { id, ...this.scope(admin) },
+    });
+
+    if (!dispute) {
+      throw new DisputeError("Dispute not found", "DISPUTE_NOT_FOUND", 404);
+    }
+    return dispute;
+  }
+
+  private static assertOpen(dispute: { status: DisputeStatus }) {
+    if (CLOSED_STATUSES.includes(dispute.status)) {
+      throw new DisputeError(
+        `This dispute has been ${dispute.status.toLowerCase()} and is closed`,
+        "DISPUTE_CLOSED",
+        409
+      );
+    }
+  }
+
+  /**
+   * Reject uploads that are too many, too large or not an image or PDF.
+   */
+  static checkEvidence(files: File[]) {
+    const fail = (message: string, code: string) => {
+      throw new DisputeError(message, code, 400, { evidence: message });
+    };
+
+    if (files.length > EVIDENCE_MAX_FILES) {
+      fail(
+        `Attach at most ${EVIDENCE_MAX_FILES} files at a time`,
+        "TOO_MANY_FILES"
+      );
+    }
+
+    for (const file of files) {
+      if (!EVIDENCE_TYPES[file.type]) {
+        fail(
+          `${file.name} is not a JPEG, PNG, WebP image or PDF`,
+          "INVALID_FILE_TYPE"
+        );
+      }
+      if (file.size > EVIDENCE_MAX_BYTES) {
+        fail(`${file.name} is larger than 5MB`, "FILE_TOO_LARGE");
+      }
+    }
+  }
+
+  private static async storeEvidence(
+    reference: string,
+    files: File[],
+    uploadedById: string
+  ): Promise<EvidenceRow[]> {
+    const rows: EvidenceRow[] = [];
+    try {
+      for (const file of files) {
+        const key = `disputes/${reference}/${randomUUID()}${EVIDENCE_TYPES[file.type]}`;
+        const stored = await getStorage().save(
+          key,
+          Buffer.from(await file.arrayBuffer()),
+          file.type
+        );
+        rows.push({
+          uploadedById,
+          fileName: file.name.slice(0, 200),
+          contentType: file.type,
+          size: file.size,
+          storageKey: stored.key,
+          url: stored.url,
+        });
+      }
+    } catch (error) {
+      await this.discardEvidence(rows);
+      throw error;
+    }
+    return rows;
+  }
+
+  // Best effort: files left behind only take up space
+  private static async discardEvidence(rows: EvidenceRow[]) {
+    await Promise.allSettled(
+      rows.map((row) => getStorage().remove(row.storageKey))
+    );
+  }
+
+  /**
+   * Log a dispute about one of the school's invoices or payments. A
+   * payment's dispute is filed against its invoice as well. Only one
+   * dispute per invoice or payment can be open at a time.
+   */
+  static async create(
+    input: DisputeInput,
+    files: File[],
+    context: DisputeContext<SessionAdmin & { schoolId: string }>
+  ) {
+    const { admin, ...meta } = context;
+    const schoolId = admin.schoolId;
+    this.checkEvidence(files);
+
+    let invoiceId = input.invoiceId;
+    if (input.paymentId) {
+      const payment = await prisma.payment.findFirst({
+        where: { id: input.paymentId, schoolId },
+        select: { invoiceId: true },
+      });
+
+      if (!payment) {
+        throw new DisputeError("Payment not found", "PAYMENT_NOT_FOUND", 404);
+      }
+      if (invoiceId && invoiceId !== payment.invoiceId) {
+        throw new DisputeError(
+          "The payment was not made against this invoice",
+          "PAYMENT_INVOICE_MISMATCH",
+          400,
+          { paymentId: "The payment was not made against this invoice" }
+        );
+      }
+      invoiceId = payment.invoiceId;
+    } else {
+      const invoice = await prisma.invoice.findFirst({
+        where: { id: invoiceId, schoolId },
+        select: { id: true },
+      });
+
+      if (!invoice) {
+        throw new DisputeError("Invoice not found", "INVOICE_NOT_FOUND", 404);
+      }
+    }
+
+    const existing = await prisma.dispute.findFirst({
+      where: {
+        schoolId,
+        invoiceId,
+        paymentId: input.paymentId ?? null,
+        status: { notIn: CLOSED_STATUSES },
+      },
+      select: { reference: true },
+    });
+
+    if (existing) {
+      throw new DisputeError(
+        `Dispute ${existing.reference} about this is still open. Add to it instead.`,
+        "DISPUTE_EXISTS",
+        409
+      );
+    }
+
+    const reference = this.newReference();
+    const evidence = await this.storeEvidence(reference, files, admin.id);
+
+    let dispute;
+    try {
+      dispute = await prisma.$transaction(
+        async (tx) => {
+          const created = await tx.dispute.create({
+            data: {
+              reference,
+              schoolId,
+              invoiceId: invoiceId!,
+              paymentId: input.paymentId,
+              subject: input.subject,
+              description: input.description,
+              createdById: admin.id,
+              attachments: { create: evidence },
+            },
+            include: disputeInclude,
+          });
+
+          await InvoiceService.audit(
+            tx,
+            "DISPUTE_LOGGED",
+            {
+              disputeId: created.id,
+              reference,
+              invoiceId: created.invoiceId,
+              paymentId: created.paymentId,
+              attachments: evidence.length,
+            },
+            { schoolId, performedBy: admin.id, ...meta }
+          );
+
+          return created;
+        },
+        { maxWait: 5000, timeout: 15000 }
+      );
+    } catch (error) {
+      await this.discardEvidence(evidence);
+      throw error;
+    }
+
+    await this.notify(dispute.id);
+    return dispute;
+  }
+
+  /**
+   * Cursor-paginated disputes, most recently updated first. canReview tells
+   * the screen whether to offer moving disputes along.
+   */
+  static async list(admin: SessionAdmin, query: DisputeListQuery) {
+    const scope = this.scope(admin);
+    const where: Prisma.DisputeWhereInput = {
+      schoolId: scope.schoolId ?? query.schoolId,
+      status: query.status,
+    };
+
+    const [rows, totalCount] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        include: disputeInclude,
+        // id breaks ties so the cursor position is stable
+        orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    const hasNextPage = rows.length > query.limit;
+    const page = hasNextPage ? rows.slice(0, query.limit) : rows;
+
+    return {
+      disputes: page,
+      pageInfo: {
+        hasNextPage,
+        nextCursor: hasNextPage ? page[page.length - 1].id : null,
+        totalCount,
+      },
+      canReview: admin.role === "Super_Admin",
+    };
+  }
+
+  /**
+   * One dispute with its thread and evidence, oldest first.
+   */
+  static async get(id: string, admin: SessionAdmin) {
+    const dispute = await prisma.dispute.findFirst({
+      where: { id, ...this.scope(admin) },
+      include: {
+        ...disputeInclude,
+        comments: { include: commentInclude, orderBy: { createdAt: "asc" } },
+        attachments: { orderBy: { createdAt: "asc" } },
+      },
+    });
+
+    if (!dispute) {
+      throw new DisputeError("Dispute not found", "DISPUTE_NOT_FOUND", 404);
+    }
+
+    return {
+      ...dispute,
+      nextStatuses:
+        admin.role === "Super_Admin" ? TRANSITIONS[dispute.status] : [],
+    };
+  }
+
+  /**
+   * Add to the thread of a dispute that is still open. The school and
+   * Super_Admins both post here.
+   */
+  static async comment(id: string, body: string, admin: SessionAdmin) {
+    const dispute = await this.find(id, admin);
+    this.assertOpen(dispute);
+
+    const [comment] = await prisma.$transaction([
+      prisma.disputeComment.create({
+        data: { disputeId: id, authorId: admin.id, body },
+        include: commentInclude,
+      }),
+      // Keeps disputes with fresh replies at the top of the list
+      prisma.dispute.update({
+        where: { id },
+        data: { updatedAt: new Date() },
+      }),
+    ]);
+
+    return comment;
+  }
+
+  /**
+   * Attach more evidence to a dispute that is still open.
+   */
+  static async addEvidence(id: string, files: File[], context: DisputeContext) {
+    const { admin, ...meta } = context;
+
+    if (files.length === 0) {
+      throw new DisputeError("Choose a file to attach", "NO_FILES", 400, {
+        evidence: "Choose a file to attach",
+      });
+    }
+    this.checkEvidence(files);
+
+    const dispute = await this.find(id, admin);
+    this.assertOpen(dispute);
+
+    const attached = await prisma.disputeAttachment.count({
+      where: { disputeId: id },
+    });
+    if (attached + files.length > EVIDENCE_MAX_TOTAL) {
+      throw new DisputeError(
+        `A dispute can hold at most ${EVIDENCE_MAX_TOTAL} files`,
+        "TOO_MANY_FILES",
+        400,
+        {
+          evidence: `${EVIDENCE_MAX_TOTAL - attached} more file(s) can be attached`,
+        }
+      );
+    }
+
+    const evidence = await this.storeEvidence(
+      dispute.reference,
+      files,
+      admin.id
+    );
+
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          await tx.disputeAttachment.createMany({
+            data: evidence.map((row) => ({ ...row, disputeId: id })),
+          });
+
+          await InvoiceService.audit(
+            tx,
+            "DISPUTE_EVIDENCE_ADDED",
+            {
+              disputeId: id,
+              reference: dispute.reference,
+              files: evidence.map((row) => row.fileName),
+            },
+            { schoolId: dispute.schoolId, performedBy: admin.id, ...meta }
+          );
+
+          return tx.disputeAttachment.findMany({
+            where: { disputeId: id },
+            orderBy: { createdAt: "asc" },
+          });
+        },
+        { maxWait: 5000, timeout: 15000 }
+      );
+    } catch (error) {
+      await this.discardEvidence(evidence);
+      throw error;
+    }
+  }
+
+  /**
+   * Super_Admin moves a dispute along: Open to Under_Review, then to
+   * Resolved or Rejected with the outcome for the school. The change is
+   * posted to the thread and emailed.
+   */
+  static async changeStatus(
+    id: string,
+    input: DisputeStatusInput,
+    context: DisputeContext
+  ) {
+    const { admin, ...meta } = context;
+
+    const dispute = await prisma.$transaction(
+      async (tx) => {
+        const current = await tx.dispute.findUnique({ where: { id } });
+
+        if (!current) {
+          throw new DisputeError("Dispute not found", "DISPUTE_NOT_FOUND", 404);
+        }
+
+        if (!TRANSITIONS[current.status].includes(input.status)) {
+          throw new DisputeError(
+            `A dispute that is ${current.status.replace(/_/g, " ").toLowerCase()} cannot be moved to ${input.status.replace(/_/g, " ").toLowerCase()}`,
+            "INVALID_TRANSITION",
+            409
+          );
+        }
+
+        const closing = CLOSED_STATUSES.includes(input.status);
+        const now = new Date();
+
+        // Guarded by the status read above so two reviewers cannot both
+        // move the same dispute
+        const { count } = await tx.dispute.updateMany({
+          where: { id, status: current.status },
+          data: {
+            status: input.status,
+            ...(closing
+              ? { closedAt: now, closedById: admin.id, resolution: input.note }
+              : {}),
+          },
+        });
+
+        if (count === 0) {
+          throw new DisputeError(
+            "The dispute was updated by someone else. Please reload it.",
+            "DISPUTE_CONFLICT",
+            409
+          );
+        }
+
+        await tx.disputeComment.create({
+          data: {
+            disputeId: id,
+            authorId: admin.id,
+            body: input.note ?? "Taken up for review",
+            statusFrom: current.status,
+            statusTo: input.status,
+          },
+        });
+
+        await InvoiceService.audit(
+          tx,
+          "DISPUTE_STATUS_CHANGED",
+          {
+            disputeId: id,
+            reference: current.reference,
+            from: current.status,
+            to: input.status,
+            ...(input.note ? { note: input.note } : {}),
+          },
+          { schoolId: current.schoolId, performedBy: admin.id, ...meta }
+        );
+
+        return tx.dispute.findUniqueOrThrow({
+          where: { id },
+          include: disputeInclude,
+        });
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+
+    await this.notify(id, input.note);
+    return dispute;
+  }
+
+  /**
+   * Email the school and whoever logged the dispute about its status. New
+   * disputes also go to every active Super_Admin. Delivery failures are
+   * logged and never undo the change.
+   */
+  private static async notify(disputeId: string, note?: string) {
+    try {
+      const dispute = await prisma.dispute.findUniqueOrThrow({
+        where: { id: disputeId },
+        include: {
+          school: {
+            select: { centerNumber: true, centerName: true, schoolEmail: true },
+          },
+          invoice: { select: { number: true } },
+          payment: { select: { reference: true } },
+          createdBy: { select: { email: true } },
+        },
+      });
+
+      const protectedEmails = [
+        dispute.school.schoolEmail,
+        dispute.createdBy.email,
+      ];
+      if (dispute.status === "Open") {
+        const superAdmins = await prisma.adminUser.findMany({
+          where: { role: "Super_Admin", isActive: true },
+          select: { email: true },
+        });
+        protectedEmails.push(...superAdmins.map((admin) => admin.email));
+      }
+
+      const emails = new Set(
+        (
+          await Promise.all(
+            protectedEmails.map((email) =>
+              unprotectData(email, "email").catch(() => "")
+            )
+          )
+        ).filter(Boolean)
+      );
+
+      for (const email of emails) {
+        await emailService.sendDisputeStatusEmail(email, {
+          reference: dispute.reference,
+          subject: dispute.subject,
+          status: dispute.status,
+          schoolName: dispute.school.centerName,
+          centerNumber: dispute.school.centerNumber,
+          documentNumber: dispute.payment?.reference ?? dispute.invoice.number,
+          note,
+          link: `${emailService.getBaseUrl()}/admin`,
+        });
+      }
+    } catch (error) {
+      console.error("Dispute email error:", {
+        disputeId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export { DisputeError };
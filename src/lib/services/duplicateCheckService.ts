@@ -0,0 +1,468 @@
+// File: src/lib/services/duplicateCheckService.ts
+import type {
+  DuplicateFlagStatus,
+  DuplicateMatchReason,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { getTransitionRule } from "@/lib/services/candidateStatusService";
+import { RegistrationNumberService } from "@/lib/services/registrationNumberService";
+
+// Candidates compared against per new registration
+const MAX_MATCHES = 20;
+
+const REASON_SCORES: Record<DuplicateMatchReason, number> = {
+  NIN: 100,
+  NAME_DOB: 60,
+  PHONE: 30,
+};
+
+class DuplicateCheckError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "DuplicateCheckError";
+  }
+}
+
+export interface DuplicateMatch {
+  candidateId: string;
+  reasons: DuplicateMatchReason[];
+  score: number;
+}
+
+/**
+ * Normalised "names|date of birth" key. Name order is ignored so swapped
+ * surname and first name still match. The migration that added the column
+ * backfills it with the same rules.
+ */
+export function identityKey(
+  surname: string,
+  firstName: string,
+  dateOfBirth: Date
+): string {
+  const names = [surname, firstName]
+    .map((name) => name.toLowerCase().replace(/[^a-z]/g, ""))
+    .sort()
+    .join(" ");
+  return `${names}|${dateOfBirth.toISOString().slice(0, 10)}`;
+}
+
+type MatchFields = {
+  id?: string;
+  ninHash: string;
+  phoneHash: string;
+  identityKey: string | null;
+};
+
+function compareCandidates(
+  candidate: MatchFields,
+  other: MatchFields & { id: string }
+): DuplicateMatch {
+  const reasons: DuplicateMatchReason[] = [];
+  if (other.ninHash === candidate.ninHash) reasons.push("NIN");
+  if (candidate.identityKey && other.identityKey === candidate.identityKey) {
+    reasons.push("NAME_DOB");
+  }
+  if (other.phoneHash === candidate.phoneHash) reasons.push("PHONE");
+
+  const score = Math.min(
+    100,
+    reasons.reduce((total, reason) => total + REASON_SCORES[reason], 0)
+  );
+
+  return { candidateId: other.id, reasons, score };
+}
+
+const candidateSummary = {
+  select: {
+    id: true,
+    registrationNumber: true,
+    surname: true,
+    firstName: true,
+    otherName: true,
+    dateOfBirth: true,
+    gender: true,
+    state: true,
+    lga: true,
+    passportPhotoUrl: true,
+    registrationStatus: true,
+    createdAt: true,
+    school: { select: { id: true, centerNumber: true, centerName: true } },
+    examSession: { select: { id: true, name: true } },
+  },
+} satisfies Prisma.CandidateDefaultArgs;
+
+export class DuplicateCheckService {
+  /**
+   * Existing, non-cancelled candidates sharing the NIN hash, phone hash or
+   * identity key of the given candidate.
+   */
+  static async findMatches(
+    tx: Prisma.TransactionClient,
+    candidate: {
+      id?: string;
+      ninHash: string;
+      phoneHash: string;
+      identityKey: string | null;
+    }
+  ): Promise<DuplicateMatch[]> {
+    const conditions: Prisma.CandidateWhereInput[] = [
+      { ninHash: candidate.ninHash },
+      { phoneHash: candidate.phoneHash },
+    ];
+    if (candidate.identityKey) {
+      conditions.push({ identityKey: candidate.identityKey });
+    }
+
+    const others = await tx.candidate.findMany({
+      where: {
+        ...(candidate.id ? { id: { not: candidate.id } } : {}),
+        registrationStatus: { not: "Cancelled" },
+        OR: conditions,
+      },
+      select: { id: true, ninHash: true, phoneHash: true, identityKey: true },
+      orderBy: { createdAt: "asc" },
+      take: MAX_MATCHES,
+    });
+
+    return others.map((other) => compareCandidates(candidate, other));
+  }
+
+  /**
+   * Record review flags for a newly created candidate. Runs inside the
+   * registration transaction for both enrolment and bulk import.
+   */
+  static async flagInTransaction(
+    tx: Prisma.TransactionClient,
+    candidate: {
+      id: string;
+      ninHash: string;
+      phoneHash: string;
+      identityKey: string | null;
+    }
+  ): Promise<number> {
+    const matches = await this.findMatches(tx, candidate);
+    if (matches.length === 0) return 0;
+
+    const { count } = await tx.duplicateFlag.createMany({
+      data: matches.map((match) => ({
+        candidateId: candidate.id,
+        matchedCandidateId: match.candidateId,
+        reasons: match.reasons,
+        score: match.score,
+      })),
+      skipDuplicates: true,
+    });
+
+    return count;
+  }
+
+  /**
+   * Record review flags for candidates created together, e.g. by a bulk
+   * import, with one lookup for the whole batch. Each is compared with
+   * existing candidates and those before it in the batch, as if they had
+   * been registered one at a time.
+   */
+  static async flagManyInTransaction(
+    tx: Prisma.TransactionClient,
+    candidates: (MatchFields & { id: string })[]
+  ): Promise<number> {
+    if (candidates.length === 0) return 0;
+
+    const identityKeys = candidates
+      .map((candidate) => candidate.identityKey)
+      .filter((key): key is string => !!key);
+
+    const others = await tx.candidate.findMany({
+      where: {
+        registrationStatus: { not: "Cancelled" },
+        OR: [
+          { ninHash: { in: candidates.map((c) => c.ninHash) } },
+          { phoneHash: { in: candidates.map((c) => c.phoneHash) } },
+          ...(identityKeys.length > 0
+            ? [{ identityKey: { in: identityKeys } }]
+            : []),
+        ],
+      },
+      select: { id: true, ninHash: true, phoneHash: true, identityKey: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const batchOrder = new Map(
+      candidates.map((candidate, index) => [candidate.id, index])
+    );
+    const existing = others.filter((other) => !batchOrder.has(other.id));
+
+    const flags = candidates.flatMap((candidate, index) => {
+      const earlier = candidates.slice(0, index);
+      return [...existing, ...earlier]
+        .map((other) => compareCandidates(candidate, other))
+        .filter((match) => match.reasons.length > 0)
+        .slice(0, MAX_MATCHES)
+        .map((match) => ({
+          candidateId: candidate.id,
+          matchedCandidateId: match.candidateId,
+          reasons: match.reasons,
+          score: match.score,
+        }));
+    });
+
+    if (flags.length === 0) return 0;
+
+    const { count } = await tx.duplicateFlag.createMany({
+      data: flags,
+      skipDuplicates: true,
+    });
+
+    return count;
+  }
+
+  /**
+   * Review queue, highest score first within the requested status.
+   */
+  static async listFlags(query: {
+    status: DuplicateFlagStatus;
+    cursor?: string;
+    limit: number;
+  }) {
+    const [flags, totalCount] = await Promise.all([
+      prisma.duplicateFlag.findMany({
+        where: { status: query.status },
+        include: {
+          candidate: candidateSummary,
+          matchedCandidate: candidateSummary,
+        },
+        orderBy: [{ score: "desc" }, { createdAt: "asc" }, { id: "asc" }],
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+      }),
+      prisma.duplicateFlag.count({ where: { status: query.status } }),
+    ]);
+
+    const hasNextPage = flags.length > query.limit;
+    const page = hasNextPage ? flags.slice(0, query.limit) : flags;
+
+    return {
+      flags: page,
+      pageInfo: {
+        hasNextPage,
+        nextCursor: hasNextPage ? page[page.length - 1].id : null,
+        totalCount,
+      },
+    };
+  }
+
+  private static async getOpenFlag(
+    tx: Prisma.TransactionClient,
+    flagId: string
+  ) {
+    const flag = await tx.duplicateFlag.findUnique({ where: { id: flagId } });
+
+    if (!flag) {
+      throw new DuplicateCheckError(
+        "Duplicate flag not found",
+        "FLAG_NOT_FOUND",
+        404
+      );
+    }
+
+    if (flag.status !== "Open") {
+      throw new DuplicateCheckError(
+        `This flag has already been ${flag.status.toLowerCase()}`,
+        "FLAG_RESOLVED",
+        409
+      );
+    }
+
+    return flag;
+  }
+
+  /**
+   * Mark a flag as a false positive.
+   */
+  static async dismiss(
+    flagId: string,
+    note: string | undefined,
+    context: AuditMeta
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const flag = await this.getOpenFlag(tx, flagId);
+
+      const updated = await tx.duplicateFlag.update({
+        where: { id: flag.id },
+        data: {
+          status: "Dismissed",
+          resolvedAt: new Date(),
+          resolvedBy: context.performedBy,
+          resolutionNote: note,
+        },
+      });
+
+      await tx.candidateAuditLog.create({
+        data: {
+          candidateId: flag.candidateId,
+          action: "DUPLICATE_DISMISSED",
+          changes: {
+            duplicateFlagId: flag.id,
+            matchedCandidateId: flag.matchedCandidateId,
+            ...(note ? { reason: note } : {}),
+          },
+          performedBy: context.performedBy,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Keep one of the two registrations and cancel the other, which must be
+   * in a status that may be cancelled. The cancelled record keeps its
+   * history; its registration number is voided and its photo is carried
+   * over if the kept record has none. Other open flags on the cancelled
+   * record are closed.
+   */
+  static async merge(
+    flagId: string,
+    change: { keepCandidateId: string; note?: string },
+    context: AuditMeta
+  ) {
+    return prisma.$transaction(
+      async (tx) => {
+        const flag = await this.getOpenFlag(tx, flagId);
+        const pair = [flag.candidateId, flag.matchedCandidateId];
+
+        if (!pair.includes(change.keepCandidateId)) {
+          throw new DuplicateCheckError(
+            "The candidate to keep must be one of the flagged pair",
+            "INVALID_KEEP_CANDIDATE"
+          );
+        }
+
+        const removeId = pair.find((id) => id !== change.keepCandidateId)!;
+        const [kept, removed] = await Promise.all([
+          tx.candidate.findUniqueOrThrow({
+            where: { id: change.keepCandidateId },
+            select: { id: true, passportPhotoUrl: true },
+          }),
+          tx.candidate.findUniqueOrThrow({
+            where: { id: removeId },
+            select: {
+              id: true,
+              registrationStatus: true,
+              passportPhotoUrl: true,
+            },
+          }),
+        ]);
+
+        // Same rule as cancelling the registration by hand
+        if (!getTransitionRule(removed.registrationStatus, "Cancelled")) {
+          throw new DuplicateCheckError(
+            `The duplicate registration is ${removed.registrationStatus.toLowerCase()} and cannot be cancelled. Keep it and merge the other one instead`,
+            "INVALID_TRANSITION",
+            409
+          );
+        }
+
+        const now = new Date();
+        const reason = change.note || "Merged as duplicate registration";
+
+        // Guarded on the status checked above
+        const { count } = await tx.candidate.updateMany({
+          where: {
+            id: removed.id,
+            registrationStatus: removed.registrationStatus,
+          },
+          data: { registrationStatus: "Cancelled" },
+        });
+        if (count === 0) {
+          throw new DuplicateCheckError(
+            "The duplicate registration changed status while you were reviewing it. Reload and try again",
+            "STATUS_CHANGED",
+            409
+          );
+        }
+
+        await RegistrationNumberService.voidForCandidate(tx, removed.id, {
+          voidedBy: context.performedBy,
+          reason,
+        });
+
+        if (!kept.passportPhotoUrl && removed.passportPhotoUrl) {
+          await tx.candidate.update({
+            where: { id: kept.id },
+            data: { passportPhotoUrl: removed.passportPhotoUrl },
+          });
+        }
+
+        await tx.candidateAuditLog.createMany({
+          data: [
+            {
+              candidateId: removed.id,
+              action: "MERGED",
+              changes: {
+                mergedInto: kept.id,
+                registrationStatus: {
+                  from: removed.registrationStatus,
+                  to: "Cancelled",
+                },
+                reason,
+              },
+              performedBy: context.performedBy,
+              performedAt: now,
+              ipAddress: context.ipAddress,
+              userAgent: context.userAgent,
+            },
+            {
+              candidateId: kept.id,
+              action: "MERGED",
+              changes: { mergedFrom: removed.id, reason },
+              performedBy: context.performedBy,
+              performedAt: now,
+              ipAddress: context.ipAddress,
+              userAgent: context.userAgent,
+            },
+          ],
+        });
+
+        await tx.duplicateFlag.updateMany({
+          where: {
+            id: { not: flag.id },
+            status: "Open",
+            OR: [
+              { candidateId: removed.id },
+              { matchedCandidateId: removed.id },
+            ],
+          },
+          data: {
+            status: "Dismissed",
+            resolvedAt: now,
+            resolvedBy: context.performedBy,
+            resolutionNote: `Closed after candidate was merged into ${kept.id}`,
+          },
+        });
+
+        return tx.duplicateFlag.update({
+          where: { id: flag.id },
+          data: {
+            status: "Merged",
+            resolvedAt: now,
+            resolvedBy: context.performedBy,
+            resolutionNote: change.note,
+            keptCandidateId: kept.id,
+          },
+        });
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+}
+
+export { DuplicateCheckError };
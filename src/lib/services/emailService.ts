@@ -45,6 +45,28 @@ export interface AdminVerificationDetails {
   recipientName: string;
 }
 
+export interface ExamSessionStatusDetails {
+  schoolName: string;
+  centerNumber: string;
+  sessionName: string;
+  status: string;
+  examDate: Date;
+  examTime: string;
+  registrationStartDate: Date;
+  registrationEndDate: Date;
+}
+
+export interface DisputeStatusDetails {
+  reference: string;
+  subject: string;
+  status: string;
+  schoolName: string;
+  centerNumber: string;
+  documentNumber: string; // Invoice number or payment reference
+  note?: string;
+  link: string;
+}
+
 export class EmailService {
   private static instance: EmailService;
   private transporter: nodemailer.Transporter;
@@ -695,6 +717,95 @@ export class EmailService {
     }
   }
 
+  /**
+   * Tell a school that an exam session it takes part in changed status
+   */
+  async sendExamSessionStatusEmail(
+    email: string,
+    details: ExamSessionStatusDetails
+  ): Promise<boolean> {
+    try {
+      const statusLabel = details.status.replace(/_/g, " ");
+
+      const emailOptions: EmailOptions = {
+        to: email,
+        subject: `${details.sessionName}: ${statusLabel}`,
+        html: this.getExamSessionStatusTemplate(details),
+        text:
+          `${details.sessionName} is now ${statusLabel}.` +
+          `\n\nCenter: ${details.schoolName} (${details.centerNumber})` +
+          `\nRegistration: ${details.registrationStartDate.toDateString()} - ${details.registrationEndDate.toDateString()}` +
+          `\nExam: ${details.examDate.toDateString()} ${details.examTime}`,
+      };
+
+      const result = await this.sendEmail(emailOptions);
+
+      if (result) {
+        logger.info("Exam session status email sent", {
+          email,
+          sessionName: details.sessionName,
+          sessionStatus: details.status,
+          messageId: result.messageId,
+        });
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      logger.error("Failed to send exam session status email", {
+        error: error instanceof Error ? error.message : String(error),
+        email,
+        sessionName: details.sessionName,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Tell a school or a Super_Admin that a payment dispute changed status
+   */
+  async sendDisputeStatusEmail(
+    email: string,
+    details: DisputeStatusDetails
+  ): Promise<boolean> {
+    try {
+      const statusLabel = details.status.replace(/_/g, " ");
+
+      const emailOptions: EmailOptions = {
+        to: email,
+        subject: `Dispute ${details.reference}: ${statusLabel}`,
+        html: this.getDisputeStatusTemplate(details),
+        text:
+          `Dispute ${details.reference} (${details.subject}) is now ${statusLabel}.` +
+          `\n\nCenter: ${details.schoolName} (${details.centerNumber})` +
+          `\nConcerning: ${details.documentNumber}` +
+          (details.note ? `\n\n${details.note}` : "") +
+          `\n\nView the dispute: ${details.link}`,
+      };
+
+      const result = await this.sendEmail(emailOptions);
+
+      if (result) {
+        logger.info("Dispute status email sent", {
+          email,
+          reference: details.reference,
+          disputeStatus: details.status,
+          messageId: result.messageId,
+        });
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      logger.error("Failed to send dispute status email", {
+        error: error instanceof Error ? error.message : String(error),
+        email,
+        reference: details.reference,
+      });
+      return false;
+    }
+  }
+
   // New email templates for school registration
   private getSchoolVerificationTemplate(
     details: SchoolVerificationDetails
@@ -2023,6 +2134,188 @@ export class EmailService {
       </html>
     `;
   }
+
+  private getExamSessionStatusTemplate(
+    details: ExamSessionStatusDetails
+  ): string {
+    const statusLabel = details.status.replace(/_/g, " ");
+    const messages: Record<string, string> = {
+      Registration_Open:
+        "Registration is now open. You can enrol candidates for this session from your dashboard.",
+      Registration_Closed:
+        "Registration has closed. No further candidates can be enrolled for this session.",
+      In_Progress:
+        "The examination has started. Please ensure candidates report to their halls on time.",
+    };
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${details.sessionName}</title>
+        <style>
+          body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
+            line-height: 1.6; 
+            color: #333; 
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+          }
+          .container { 
+            max-width: 600px; 
+            margin: 0 auto; 
+            padding: 20px;
+            background-color: #ffffff;
+            border-radius: 8px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+          }
+          .header { 
+            text-align: center; 
+            padding: 20px 0;
+            border-bottom: 2px solid #17a2b8;
+          }
+          .info-box {
+            background-color: #d1ecf1;
+            border-left: 4px solid #17a2b8;
+            padding: 15px;
+            border-radius: 4px;
+            margin: 20px 0;
+          }
+          .footer { 
+            margin-top: 30px; 
+            font-size: 12px; 
+            color: #666;
+            text-align: center;
+            border-top: 1px solid #eee;
+            padding-top: 20px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h2>📅 ${details.sessionName}: ${statusLabel}</h2>
+          </div>
+          
+          <p>Hello <strong>${details.schoolName}</strong> (${details.centerNumber}),</p>
+          <p>${messages[details.status] ?? `The session status is now ${statusLabel}.`}</p>
+          
+          <div class="info-box">
+            <h3>Session Details:</h3>
+            <p><strong>Registration:</strong> ${details.registrationStartDate.toDateString()} – ${details.registrationEndDate.toDateString()}</p>
+            <p><strong>Exam Date:</strong> ${details.examDate.toDateString()} at ${details.examTime}</p>
+          </div>
+          
+          <div class="footer">
+            <p>This is an automated notification from the examination portal.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private getDisputeStatusTemplate(details: DisputeStatusDetails): string {
+    const statusLabel = details.status.replace(/_/g, " ");
+    const messages: Record<string, string> = {
+      Open: "A new payment dispute has been logged and is waiting to be taken up.",
+      Under_Review:
+        "The dispute is being reviewed. You may be asked for more information in its comments.",
+      Resolved: "The dispute has been resolved.",
+      Rejected: "The dispute has been closed without a change.",
+    };
+    const escape = (value: string) =>
+      value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Dispute ${details.reference}</title>
+        <style>
+          body { 
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
+            line-height: 1.6; 
+            color: #333; 
+            margin: 0;
+            padding: 0;
+            background-color: #f9f9f9;
+          }
+          .container { 
+            max-width: 600px; 
+            margin: 0 auto; 
+            padding: 20px;
+            background-color: #ffffff;
+            border-radius: 8px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+          }
+          .header { 
+            text-align: center; 
+            padding: 20px 0;
+            border-bottom: 2px solid #fd7e14;
+          }
+          .info-box {
+            background-color: #fff3cd;
+            border-left: 4px solid #fd7e14;
+            padding: 15px;
+            border-radius: 4px;
+            margin: 20px 0;
+          }
+          .button { 
+            display: inline-block; 
+            padding: 12px 24px; 
+            background-color: #007bff; 
+            color: white; 
+            text-decoration: none; 
+            border-radius: 4px;
+            margin: 20px 0;
+          }
+          .footer { 
+            margin-top: 30px; 
+            font-size: 12px; 
+            color: #666;
+            text-align: center;
+            border-top: 1px solid #eee;
+            padding-top: 20px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h2>🧾 Dispute ${details.reference}: ${statusLabel}</h2>
+          </div>
+          
+          <p>Hello <strong>${escape(details.schoolName)}</strong> (${details.centerNumber}),</p>
+          <p>${messages[details.status] ?? `The dispute status is now ${statusLabel}.`}</p>
+          
+          <div class="info-box">
+            <p><strong>Subject:</strong> ${escape(details.subject)}</p>
+            <p><strong>Concerning:</strong> ${details.documentNumber}</p>
+            ${details.note ? `<p><strong>Note:</strong> ${escape(details.note)}</p>` : ""}
+          </div>
+
+          <div style="text-align: center;">
+            <a href="${details.link}" class="button">View Dispute</a>
+          </div>
+          
+          <div class="footer">
+            <p>This is an automated notification from the examination portal.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
 }
 
 // Export a singleton instance
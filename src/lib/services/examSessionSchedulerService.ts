@@ -0,0 +1,192 @@
+// File: src/lib/services/examSessionSchedulerService.ts
+import type { ExamSessionStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import { unprotectData } from "@/lib/security/dataProtection";
+import { EmailService } from "@/lib/services/emailService";
+import { registrationClosesAt } from "@/lib/validation/examSession";
+
+// Lifecycle order the schedule drives sessions through
+const SCHEDULED_ORDER: ExamSessionStatus[] = [
+  "Upcoming",
+  "Registration_Open",
+  "Registration_Closed",
+  "In_Progress",
+];
+
+const AUDIT_ACTIONS: Partial<Record<ExamSessionStatus, string>> = {
+  Registration_Open: "EXAM_SESSION_REGISTRATION_OPENED",
+  Registration_Closed: "EXAM_SESSION_REGISTRATION_CLOSED",
+  In_Progress: "EXAM_SESSION_STARTED",
+};
+
+export interface ScheduledTransition {
+  examSessionId: string;
+  name: string;
+  from: ExamSessionStatus;
+  to: ExamSessionStatus;
+  emailsSent: number;
+  emailsFailed: number;
+}
+
+/**
+ * Status a session's dates say it should have reached by now.
+ */
+export function scheduledStatus(
+  session: {
+    registrationStartDate: Date;
+    registrationEndDate: Date;
+    lateRegistrationEndDate?: Date | null;
+    examDate: Date;
+  },
+  now: Date
+): ExamSessionStatus {
+  if (session.examDate <= now) return "In_Progress";
+  if (registrationClosesAt(session) <= now) return "Registration_Closed";
+  if (session.registrationStartDate <= now) return "Registration_Open";
+  return "Upcoming";
+}
+
+export class ExamSessionSchedulerService {
+  /**
+   * Move every active session forward to the status its dates call for.
+   * Sessions are never moved backwards, so a registration closed early by
+   * hand stays closed, and running the job twice changes nothing the second
+   * time. Completed, cancelled and in-progress sessions are left alone.
+   */
+  static async run(now: Date = new Date()): Promise<ScheduledTransition[]> {
+    const sessions = await prisma.examSession.findMany({
+      where: {
+        isActive: true,
+        status: {
+          in: ["Upcoming", "Registration_Open", "Registration_Closed"],
+        },
+      },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        examDate: true,
+        examTime: true,
+        registrationStartDate: true,
+        registrationEndDate: true,
+        lateRegistrationEndDate: true,
+      },
+    });
+
+    const transitions: ScheduledTransition[] = [];
+
+    for (const session of sessions) {
+      const to = scheduledStatus(session, now);
+      if (
+        SCHEDULED_ORDER.indexOf(to) <= SCHEDULED_ORDER.indexOf(session.status)
+      ) {
+        continue;
+      }
+
+      const applied = await prisma.$transaction(async (tx) => {
+        // Guarded on the current status so overlapping runs apply it once
+        const { count } = await tx.examSession.updateMany({
+          where: { id: session.id, status: session.status },
+          data: { status: to },
+        });
+        if (count === 0) return false;
+
+        await tx.adminAuditLog.create({
+          data: {
+            adminUserId: null,
+            action: AUDIT_ACTIONS[to]!,
+            details: {
+              examSessionId: session.id,
+              name: session.name,
+              status: { from: session.status, to },
+              trigger: "schedule",
+            },
+            userAgent: "exam-session-scheduler",
+          },
+        });
+
+        return true;
+      });
+
+      if (!applied) continue;
+
+      const { sent, failed } = await this.notifySchools(session.id, {
+        ...session,
+        status: to,
+      });
+
+      transitions.push({
+        examSessionId: session.id,
+        name: session.name,
+        from: session.status,
+        to,
+        emailsSent: sent,
+        emailsFailed: failed,
+      });
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Email the schools taking part in a session. A session without attached
+   * schools is open to every active school.
+   */
+  private static async notifySchools(
+    examSessionId: string,
+    session: {
+      name: string;
+      status: ExamSessionStatus;
+      examDate: Date;
+      examTime: string;
+      registrationStartDate: Date;
+      registrationEndDate: Date;
+    }
+  ) {
+    const attached = await prisma.school.findMany({
+      where: { examSessions: { some: { id: examSessionId } } },
+      select: { centerNumber: true, centerName: true, schoolEmail: true },
+    });
+
+    const schools =
+      attached.length > 0
+        ? attached
+        : await prisma.school.findMany({
+            where: { isActive: true },
+            select: { centerNumber: true, centerName: true, schoolEmail: true },
+          });
+
+    const emailService = EmailService.getInstance();
+    let sent = 0;
+    let failed = 0;
+
+    for (const school of schools) {
+      try {
+        const email = await unprotectData(school.schoolEmail, "email");
+        const delivered =
+          !!email &&
+          (await emailService.sendExamSessionStatusEmail(email, {
+            schoolName: school.centerName,
+            centerNumber: school.centerNumber,
+            sessionName: session.name,
+            status: session.status,
+            examDate: session.examDate,
+            examTime: session.examTime,
+            registrationStartDate: session.registrationStartDate,
+            registrationEndDate: session.registrationEndDate,
+          }));
+
+        if (delivered) sent++;
+        else failed++;
+      } catch (error) {
+        console.error("Exam session email error:", {
+          centerNumber: school.centerNumber,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+}
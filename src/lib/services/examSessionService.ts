@@ -0,0 +1,487 @@
+// File: src/lib/services/examSessionService.ts
+import { Prisma, type ExamSessionStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import {
+  checkSessionDates,
+  registrationClosesAt,
+  type ExamSessionInput,
+  type ExamSessionUpdateInput,
+} from "@/lib/validation/examSession";
+
+interface TransitionRule {
+  requiresReason: boolean;
+  auditAction: string;
+}
+
+// from -> to -> rule. Anything not listed here is rejected.
+const TRANSITIONS: Partial<
+  Record<ExamSessionStatus, Partial<Record<ExamSessionStatus, TransitionRule>>>
+> = {
+  Upcoming: {
+    Registration_Open: {
+      requiresReason: false,
+      auditAction: "EXAM_SESSION_REGISTRATION_OPENED",
+    },
+    Cancelled: { requiresReason: true, auditAction: "EXAM_SESSION_CANCELLED" },
+  },
+  Registration_Open: {
+    Registration_Closed: {
+      requiresReason: false,
+      auditAction: "EXAM_SESSION_REGISTRATION_CLOSED",
+    },
+    Cancelled: { requiresReason: true, auditAction: "EXAM_SESSION_CANCELLED" },
+  },
+  Registration_Closed: {
+    Registration_Open: {
+      requiresReason: true,
+      auditAction: "EXAM_SESSION_REGISTRATION_REOPENED",
+    },
+    In_Progress: {
+      requiresReason: false,
+      auditAction: "EXAM_SESSION_STARTED",
+    },
+    Cancelled: { requiresReason: true, auditAction: "EXAM_SESSION_CANCELLED" },
+  },
+  In_Progress: {
+    Completed: {
+      requiresReason: false,
+      auditAction: "EXAM_SESSION_COMPLETED",
+    },
+  },
+};
+
+// Sessions in these states are kept as a record and can no longer be edited
+const LOCKED_STATUSES: ExamSessionStatus[] = ["Completed", "Cancelled"];
+
+// Changing these after candidates have registered would change what they
+// signed up (and paid) for
+const REGISTRATION_TERMS = [
+  "registrationFee",
+  "feeRules",
+  "subjectRules",
+] as const;
+
+// Json columns where null means "use the defaults"
+const JSON_FIELDS = ["feeRules", "subjectRules", "assessmentComponents"];
+
+class ExamSessionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "ExamSessionError";
+  }
+}
+
+export function getSessionTransitionRule(
+  from: ExamSessionStatus,
+  to: ExamSessionStatus
+): TransitionRule | undefined {
+  return TRANSITIONS[from]?.[to];
+}
+
+/**
+ * Statuses a session can move to from its current one.
+ */
+export function allowedSessionTransitions(
+  from: ExamSessionStatus
+): ExamSessionStatus[] {
+  return Object.keys(TRANSITIONS[from] ?? {}) as ExamSessionStatus[];
+}
+
+const sessionInclude = {
+  _count: { select: { candidates: true, schools: true } },
+} satisfies Prisma.ExamSessionInclude;
+
+function toComparable(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export class ExamSessionService {
+  /**
+   * All sessions, most recent exam first, with candidate and school counts.
+   */
+  static async listSessions(query: { status?: ExamSessionStatus } = {}) {
+    const sessions = await prisma.examSession.findMany({
+      where: query.status ? { status: query.status } : undefined,
+      include: sessionInclude,
+      orderBy: { examDate: "desc" },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      allowedTransitions: allowedSessionTransitions(session.status),
+    }));
+  }
+
+  /**
+   * One session with the schools it is attached to.
+   */
+  static async getSession(id: string) {
+    const session = await prisma.examSession.findUnique({
+      where: { id },
+      include: {
+        ...sessionInclude,
+        schools: {
+          select: { id: true, centerNumber: true, centerName: true },
+          orderBy: { centerNumber: "asc" },
+        },
+      },
+    });
+
+    if (!session) {
+      throw new ExamSessionError(
+        "Exam session not found",
+        "EXAM_SESSION_NOT_FOUND",
+        404
+      );
+    }
+
+    return {
+      ...session,
+      allowedTransitions: allowedSessionTransitions(session.status),
+    };
+  }
+
+  private static async audit(
+    tx: Prisma.TransactionClient,
+    action: string,
+    details: Prisma.InputJsonObject,
+    context: AuditMeta
+  ) {
+    await tx.adminAuditLog.create({
+      data: {
+        adminUserId: context.performedBy,
+        action,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  /**
+   * Create a session in the Upcoming state.
+   */
+  static async createSession(input: ExamSessionInput, context: AuditMeta) {
+    const { feeRules, subjectRules, assessmentComponents, ...fields } = input;
+
+    return prisma.$transaction(async (tx) => {
+      const session = await tx.examSession.create({
+        data: {
+          ...fields,
+          ...(feeRules ? { feeRules } : {}),
+          ...(subjectRules ? { subjectRules } : {}),
+          ...(assessmentComponents ? { assessmentComponents } : {}),
+        },
+        include: sessionInclude,
+      });
+
+      await this.audit(
+        tx,
+        "EXAM_SESSION_CREATED",
+        { examSessionId: session.id, name: session.name },
+        context
+      );
+
+      return session;
+    });
+  }
+
+  /**
+   * Edit a session's details and record a before/after diff. Completed and
+   * cancelled sessions are read-only, and the fee and subject rules are
+   * frozen once candidates have registered, the assessment components once
+   * scores have been entered.
+   */
+  static async updateSession(
+    id: string,
+    input: ExamSessionUpdateInput,
+    context: AuditMeta
+  ) {
+    const session = await this.getSession(id);
+
+    if (LOCKED_STATUSES.includes(session.status)) {
+      throw new ExamSessionError(
+        `A ${session.status.toLowerCase()} session can no longer be edited`,
+        "EXAM_SESSION_LOCKED",
+        409
+      );
+    }
+
+    const dateErrors = checkSessionDates({
+      examDate: input.examDate ?? session.examDate,
+      registrationStartDate:
+        input.registrationStartDate ?? session.registrationStartDate,
+      registrationEndDate:
+        input.registrationEndDate ?? session.registrationEndDate,
+      lateRegistrationEndDate:
+        input.lateRegistrationEndDate !== undefined
+          ? input.lateRegistrationEndDate
+          : session.lateRegistrationEndDate,
+      resultReleaseDate:
+        input.resultReleaseDate !== undefined
+          ? input.resultReleaseDate
+          : session.resultReleaseDate,
+    });
+
+    if (Object.keys(dateErrors).length > 0) {
+      throw new ExamSessionError(
+        Object.values(dateErrors)[0],
+        "VALIDATION_ERROR",
+        400,
+        dateErrors
+      );
+    }
+
+    const changes: Record<string, { from: string | null; to: string | null }> =
+      {};
+    const data: Prisma.ExamSessionUpdateInput = {};
+
+    for (const [field, value] of Object.entries(input)) {
+      const from = toComparable(session[field as keyof typeof session]);
+      const to = toComparable(value);
+      if (from === to) continue;
+
+      changes[field] = { from, to };
+      (data as Record<string, unknown>)[field] =
+        JSON_FIELDS.includes(field) && value === null ? Prisma.DbNull : value;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { session, changes };
+    }
+
+    const frozen = REGISTRATION_TERMS.filter((field) => field in changes);
+    if (frozen.length > 0 && session._count.candidates > 0) {
+      throw new ExamSessionError(
+        "The fee and subject rules cannot change once candidates have registered",
+        "REGISTRATION_TERMS_LOCKED",
+        409,
+        Object.fromEntries(
+          frozen.map((field) => [
+            field,
+            "Locked because candidates have registered",
+          ])
+        )
+      );
+    }
+
+    // Scores already entered were checked against the old maximums
+    if ("assessmentComponents" in changes) {
+      const scored = await prisma.assessmentScore.count({
+        where: { assessment: { examSessionId: id } },
+      });
+      if (scored > 0) {
+        throw new ExamSessionError(
+          "The assessment components cannot change once scores have been entered",
+          "ASSESSMENT_COMPONENTS_LOCKED",
+          409,
+          { assessmentComponents: "Locked because scores have been entered" }
+        );
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.examSession.update({
+        where: { id },
+        data,
+        include: sessionInclude,
+      });
+
+      await this.audit(
+        tx,
+        "EXAM_SESSION_UPDATED",
+        { examSessionId: id, name: result.name, changes },
+        context
+      );
+
+      return result;
+    });
+
+    return { session: updated, changes };
+  }
+
+  /**
+   * Move a session through its lifecycle. The update is guarded on the
+   * current status so concurrent transitions cannot both apply.
+   */
+  static async transition(
+    id: string,
+    change: { to: ExamSessionStatus; reason?: string },
+    context: AuditMeta,
+    now: Date = new Date()
+  ) {
+    const session = await this.getSession(id);
+    const from = session.status;
+    const rule = getSessionTransitionRule(from, change.to);
+
+    if (!rule) {
+      throw new ExamSessionError(
+        `Cannot move a session from ${from} to ${change.to}`,
+        "INVALID_TRANSITION",
+        409
+      );
+    }
+
+    if (rule.requiresReason && !change.reason) {
+      throw new ExamSessionError(
+        "A reason is required for this change",
+        "REASON_REQUIRED",
+        400,
+        { reason: "Reason is required" }
+      );
+    }
+
+    if (
+      change.to === "Registration_Open" &&
+      registrationClosesAt(session) < now
+    ) {
+      throw new ExamSessionError(
+        "The registration window has passed. Extend the registration end date first",
+        "REGISTRATION_WINDOW_PASSED",
+        409
+      );
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.examSession.updateMany({
+        where: { id, status: from },
+        data: { status: change.to },
+      });
+
+      if (count === 0) {
+        throw new ExamSessionError(
+          "The session was changed by someone else. Reload and try again",
+          "STATUS_CONFLICT",
+          409
+        );
+      }
+
+      await this.audit(
+        tx,
+        rule.auditAction,
+        {
+          examSessionId: id,
+          name: session.name,
+          status: { from, to: change.to },
+          ...(change.reason ? { reason: change.reason } : {}),
+        },
+        context
+      );
+
+      const updated = await tx.examSession.findUniqueOrThrow({
+        where: { id },
+        include: sessionInclude,
+      });
+
+      return {
+        ...updated,
+        allowedTransitions: allowedSessionTransitions(updated.status),
+      };
+    });
+  }
+
+  /**
+   * Replace the set of schools a session is limited to. A session without
+   * schools is open to every school.
+   */
+  static async setSchools(id: string, schoolIds: string[], context: AuditMeta) {
+    const session = await this.getSession(id);
+
+    if (LOCKED_STATUSES.includes(session.status)) {
+      throw new ExamSessionError(
+        `A ${session.status.toLowerCase()} session can no longer be edited`,
+        "EXAM_SESSION_LOCKED",
+        409
+      );
+    }
+
+    const ids = [...new Set(schoolIds)];
+    const found = await prisma.school.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+
+    if (found.length !== ids.length) {
+      const known = new Set(found.map((school) => school.id));
+      throw new ExamSessionError(
+        "One or more schools could not be found",
+        "SCHOOL_NOT_FOUND",
+        400,
+        {
+          schoolIds: `Unknown school ids: ${ids
+            .filter((schoolId) => !known.has(schoolId))
+            .join(", ")}`,
+        }
+      );
+    }
+
+    const previous = new Set(session.schools.map((school) => school.id));
+
+    return prisma.$transaction(async (tx) => {
+      await tx.examSession.update({
+        where: { id },
+        data: { schools: { set: ids.map((schoolId) => ({ id: schoolId })) } },
+      });
+
+      await this.audit(
+        tx,
+        "EXAM_SESSION_SCHOOLS_UPDATED",
+        {
+          examSessionId: id,
+          name: session.name,
+          added: ids.filter((schoolId) => !previous.has(schoolId)),
+          removed: [...previous].filter((schoolId) => !ids.includes(schoolId)),
+        },
+        context
+      );
+
+      return tx.examSession.findUniqueOrThrow({
+        where: { id },
+        include: {
+          ...sessionInclude,
+          schools: {
+            select: { id: true, centerNumber: true, centerName: true },
+            orderBy: { centerNumber: "asc" },
+          },
+        },
+      });
+    });
+  }
+
+  /**
+   * Delete a session that was created by mistake. Only upcoming sessions
+   * without candidates can be removed; anything else should be cancelled.
+   */
+  static async deleteSession(id: string, context: AuditMeta) {
+    const session = await this.getSession(id);
+
+    if (session.status !== "Upcoming" || session._count.candidates > 0) {
+      throw new ExamSessionError(
+        "Only upcoming sessions without candidates can be deleted. Cancel the session instead",
+        "EXAM_SESSION_IN_USE",
+        409
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.examSession.delete({ where: { id } });
+      await this.audit(
+        tx,
+        "EXAM_SESSION_DELETED",
+        { examSessionId: id, name: session.name },
+        context
+      );
+    });
+  }
+}
+
+export { ExamSessionError };
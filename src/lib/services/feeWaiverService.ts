@@ -0,0 +1,219 @@
+// File: src/lib/services/feeWaiverService.ts
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { InvoiceService } from "@/lib/services/invoiceService";
+import type { FeeWaiverInput } from "@/lib/validation/fee";
+
+class FeeWaiverError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "FeeWaiverError";
+  }
+}
+
+const waiverInclude = {
+  candidate: {
+    select: {
+      id: true,
+      registrationNumber: true,
+      surname: true,
+      firstName: true,
+      otherName: true,
+      disability: true,
+      school: { select: { id: true, centerNumber: true, centerName: true } },
+      examSession: { select: { id: true, name: true } },
+    },
+  },
+  grantedBy: { select: { id: true, name: true } },
+} satisfies Prisma.FeeWaiverInclude;
+
+export class FeeWaiverService {
+  /**
+   * The live invoice a candidate is billed on, if any. A waiver only takes
+   * effect when the candidate is invoiced, so it cannot change while they
+   * are on one.
+   */
+  private static async liveInvoice(
+    tx: Prisma.TransactionClient,
+    candidateId: string
+  ) {
+    const line = await tx.invoiceLine.findFirst({
+      where: { candidateId, invoice: { status: { not: "Cancelled" } } },
+      select: { invoice: { select: { number: true } } },
+    });
+    return line?.invoice ?? null;
+  }
+
+  /**
+   * Waivers newest first, each marked with whether its candidate has been
+   * invoiced since.
+   */
+  static async list(query: { examSessionId?: string; search?: string } = {}) {
+    const term = query.search?.trim();
+
+    const waivers = await prisma.feeWaiver.findMany({
+      where: {
+        candidate: {
+          examSessionId: query.examSessionId,
+          ...(term
+            ? {
+                OR: [
+                  { surname: { contains: term, mode: "insensitive" } },
+                  { firstName: { contains: term, mode: "insensitive" } },
+                  {
+                    registrationNumber: {
+                      contains: term,
+                      mode: "insensitive",
+                    },
+                  },
+                ],
+              }
+            : {}),
+        },
+      },
+      include: waiverInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    const invoiced = await prisma.invoiceLine.findMany({
+      where: {
+        candidateId: { in: waivers.map((waiver) => waiver.candidateId) },
+        invoice: { status: { not: "Cancelled" } },
+      },
+      select: { candidateId: true },
+      distinct: ["candidateId"],
+    });
+    const invoicedIds = new Set(invoiced.map((line) => line.candidateId));
+
+    return waivers.map((waiver) => ({
+      ...waiver,
+      invoiced: invoicedIds.has(waiver.candidateId),
+    }));
+  }
+
+  /**
+   * Grant a candidate a waiver, replacing any they already have.
+   */
+  static async grant(input: FeeWaiverInput, context: AuditMeta) {
+    return prisma.$transaction(
+      async (tx) => {
+        const candidate = await tx.candidate.findUnique({
+          where: { registrationNumber: input.registrationNumber },
+          select: {
+            id: true,
+            schoolId: true,
+            registrationNumber: true,
+            feeWaiver: { select: { percent: true } },
+          },
+        });
+
+        if (!candidate) {
+          throw new FeeWaiverError(
+            "No candidate has this registration number",
+            "CANDIDATE_NOT_FOUND",
+            404,
+            { registrationNumber: "Candidate not found" }
+          );
+        }
+
+        const invoice = await this.liveInvoice(tx, candidate.id);
+        if (invoice) {
+          throw new FeeWaiverError(
+            `This candidate is already billed on invoice ${invoice.number}. The school must cancel it before the waiver can apply`,
+            "CANDIDATE_INVOICED",
+            409
+          );
+        }
+
+        const waiver = await tx.feeWaiver.upsert({
+          where: { candidateId: candidate.id },
+          create: {
+            candidateId: candidate.id,
+            percent: input.percent,
+            reason: input.reason,
+            grantedById: context.performedBy,
+          },
+          update: {
+            percent: input.percent,
+            reason: input.reason,
+            grantedById: context.performedBy,
+          },
+          include: waiverInclude,
+        });
+
+        await InvoiceService.audit(
+          tx,
+          "FEE_WAIVER_GRANTED",
+          {
+            feeWaiverId: waiver.id,
+            candidateId: candidate.id,
+            registrationNumber: candidate.registrationNumber,
+            percent: input.percent,
+            previousPercent: candidate.feeWaiver?.percent ?? null,
+            reason: input.reason,
+          },
+          { schoolId: candidate.schoolId, ...context }
+        );
+
+        return { ...waiver, invoiced: false };
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+
+  /**
+   * Withdraw a waiver from a candidate who has not been invoiced yet.
+   */
+  static async revoke(id: string, context: AuditMeta) {
+    return prisma.$transaction(
+      async (tx) => {
+        const waiver = await tx.feeWaiver.findUnique({
+          where: { id },
+          include: waiverInclude,
+        });
+
+        if (!waiver) {
+          throw new FeeWaiverError(
+            "Fee waiver not found",
+            "WAIVER_NOT_FOUND",
+            404
+          );
+        }
+
+        const invoice = await this.liveInvoice(tx, waiver.candidateId);
+        if (invoice) {
+          throw new FeeWaiverError(
+            `This candidate is already billed on invoice ${invoice.number} with the waiver applied. The school must cancel it first`,
+            "CANDIDATE_INVOICED",
+            409
+          );
+        }
+
+        await tx.feeWaiver.delete({ where: { id } });
+
+        await InvoiceService.audit(
+          tx,
+          "FEE_WAIVER_REVOKED",
+          {
+            feeWaiverId: id,
+            candidateId: waiver.candidateId,
+            registrationNumber: waiver.candidate.registrationNumber,
+            percent: waiver.percent,
+          },
+          { schoolId: waiver.candidate.school.id, ...context }
+        );
+
+        return waiver;
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+}
+
+export { FeeWaiverError };
@@ -0,0 +1,428 @@
+// File: src/lib/services/gradingService.ts
+import { Prisma, type RegistrationStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import {
+  aggregateFor,
+  gradeFor,
+  rankWithTies,
+  roundScore,
+  weightedTotal,
+} from "@/lib/utils/grading";
+import { parseAssessmentComponents } from "@/lib/validation/assessment";
+import {
+  DEFAULT_GRADING_SCHEME,
+  parseGradingScheme,
+  type GradingScheme,
+} from "@/lib/validation/grading";
+
+// Withdrawn and rejected candidates drop out of the results
+const GRADED_STATUSES: RegistrationStatus[] = [
+  "Pending",
+  "Submitted",
+  "Verified",
+];
+
+const gradingSchemeKey = (examSessionId: string) =>
+  `grading_scheme:${examSessionId}`;
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+}
+
+class GradingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "GradingError";
+  }
+}
+
+export type SchoolResults = Awaited<
+  ReturnType<typeof GradingService.getResults>
+>;
+
+export class GradingService {
+  private static async loadScheme(client: Client, examSessionId: string) {
+    const row = await client.systemConfig.findUnique({
+      where: { key: gradingSchemeKey(examSessionId) },
+    });
+
+    if (!row) return { scheme: DEFAULT_GRADING_SCHEME, row: null };
+
+    let stored: unknown = null;
+    try {
+      stored = JSON.parse(row.value);
+    } catch {
+      // Fall through to the default
+    }
+    return { scheme: parseGradingScheme(stored), row };
+  }
+
+  private static async getSession(examSessionId: string) {
+    const session = await prisma.examSession.findUnique({
+      where: { id: examSessionId },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        resultReleaseDate: true,
+        assessmentComponents: true,
+      },
+    });
+
+    if (!session) {
+      throw new GradingError(
+        "Exam session not found",
+        "EXAM_SESSION_NOT_FOUND",
+        404
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * The session's grading scheme, and whether it is still the default.
+   */
+  static async getScheme(examSessionId: string) {
+    const session = await this.getSession(examSessionId);
+    const { scheme, row } = await this.loadScheme(prisma, examSessionId);
+
+    return {
+      session: { id: session.id, name: session.name },
+      components: parseAssessmentComponents(session.assessmentComponents),
+      scheme,
+      isDefault: !row,
+      updatedAt: row?.updatedAt ?? null,
+    };
+  }
+
+  /**
+   * Replace the session's scheme (null restores the default) and regrade
+   * every school. Refused once results have been released.
+   */
+  static async saveScheme(
+    examSessionId: string,
+    input: GradingScheme | null,
+    context: AuditMeta
+  ) {
+    const session = await this.getSession(examSessionId);
+
+    if (session.status === "Cancelled") {
+      throw new GradingError(
+        "A cancelled session is not graded",
+        "EXAM_SESSION_LOCKED",
+        409
+      );
+    }
+
+    if (session.resultReleaseDate && session.resultReleaseDate <= new Date()) {
+      throw new GradingError(
+        "The grading scheme cannot change after results have been released",
+        "RESULTS_RELEASED",
+        409
+      );
+    }
+
+    if (input) {
+      const codes = new Set(
+        parseAssessmentComponents(session.assessmentComponents).map(
+          (component) => component.code
+        )
+      );
+      const unknown = Object.keys(input.weights).filter(
+        (code) => !codes.has(code)
+      );
+      if (unknown.length > 0) {
+        throw new GradingError(
+          `Unknown component${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`,
+          "VALIDATION_ERROR",
+          400,
+          {
+            weights: `${unknown.join(", ")} is not a component of this session`,
+          }
+        );
+      }
+    }
+
+    const key = gradingSchemeKey(examSessionId);
+
+    await prisma.$transaction(async (tx) => {
+      const { scheme: previous } = await this.loadScheme(tx, examSessionId);
+
+      if (input) {
+        await tx.systemConfig.upsert({
+          where: { key },
+          create: {
+            key,
+            value: JSON.stringify(input),
+            description: `Grading scheme for ${session.name}`,
+            updatedBy: context.performedBy,
+          },
+          update: {
+            value: JSON.stringify(input),
+            updatedBy: context.performedBy,
+          },
+        });
+      } else {
+        await tx.systemConfig.deleteMany({ where: { key } });
+      }
+
+      await tx.adminAuditLog.create({
+        data: {
+          adminUserId: context.performedBy,
+          action: "GRADING_SCHEME_UPDATED",
+          details: {
+            examSessionId,
+            name: session.name,
+            from: previous,
+            to: input ?? DEFAULT_GRADING_SCHEME,
+          } as Prisma.InputJsonObject,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    });
+
+    // One transaction per school keeps each regrade short
+    const schools = await prisma.assessment.findMany({
+      where: { examSessionId },
+      distinct: ["schoolId"],
+      select: { schoolId: true },
+    });
+
+    for (const { schoolId } of schools) {
+      await this.regradeSchool(examSessionId, schoolId);
+    }
+
+    return {
+      ...(await this.getScheme(examSessionId)),
+      regraded: schools.length,
+    };
+  }
+
+  /**
+   * Regrade a school in a transaction of its own, after the scores it reads
+   * have been committed.
+   */
+  static async regradeSchool(examSessionId: string, schoolId: string) {
+    return prisma.$transaction(
+      (tx) => this.recomputeSchool(tx, examSessionId, schoolId),
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+
+  /**
+   * Regrade every candidate of a school in a session from the stored
+   * scores: subject totals, grades and positions, then aggregates and
+   * overall positions. The results are replaced wholesale, so regrades of
+   * the same school take turns.
+   */
+  private static async recomputeSchool(
+    tx: Prisma.TransactionClient,
+    examSessionId: string,
+    schoolId: string
+  ) {
+    await tx.$executeRaw`
+      SELECT pg_advisory_xact_lock(hashtext(${`results:${examSessionId}:${schoolId}`}))
+    `;
+
+    const [session, { scheme }, scores] = await Promise.all([
+      tx.examSession.findUniqueOrThrow({
+        where: { id: examSessionId },
+        select: { assessmentComponents: true },
+      }),
+      this.loadScheme(tx, examSessionId),
+      tx.assessmentScore.findMany({
+        where: {
+          assessment: { examSessionId, schoolId },
+          candidate: { registrationStatus: { in: GRADED_STATUSES } },
+        },
+        select: {
+          candidateId: true,
+          component: true,
+          score: true,
+          assessment: { select: { subjectId: true } },
+        },
+      }),
+    ]);
+
+    const components = parseAssessmentComponents(session.assessmentComponents);
+
+    // candidateId + subjectId -> component -> score
+    const sheets = new Map<
+      string,
+      { candidateId: string; subjectId: string; scores: Map<string, number> }
+    >();
+    for (const row of scores) {
+      const key = `${row.candidateId}:${row.assessment.subjectId}`;
+      const sheet = sheets.get(key) ?? {
+        candidateId: row.candidateId,
+        subjectId: row.assessment.subjectId,
+        scores: new Map<string, number>(),
+      };
+      sheet.scores.set(row.component, row.score.toNumber());
+      sheets.set(key, sheet);
+    }
+
+    const subjectRows = [...sheets.values()].map((sheet) => {
+      const total = weightedTotal(sheet.scores, components, scheme);
+      const graded = total === null ? null : gradeFor(total, scheme);
+      return {
+        candidateId: sheet.candidateId,
+        subjectId: sheet.subjectId,
+        examSessionId,
+        schoolId,
+        complete: total !== null,
+        total,
+        grade: graded?.grade ?? null,
+        points: graded?.points ?? null,
+        passed: graded?.passed ?? false,
+        position: null as number | null,
+      };
+    });
+
+    for (const rows of groupBy(subjectRows, (row) => row.subjectId).values()) {
+      const positions = rankWithTies(rows, (row) => row.total, "desc");
+      for (const [row, position] of positions) row.position = position;
+    }
+
+    const candidateRows = [
+      ...groupBy(subjectRows, (row) => row.candidateId),
+    ].map(([candidateId, rows]) => {
+      const graded = rows.filter((row) => row.complete);
+      const average =
+        graded.length > 0
+          ? roundScore(
+              graded.reduce((sum, row) => sum + row.total!, 0) / graded.length,
+              { decimals: 2, mode: "half_up" }
+            )
+          : null;
+
+      return {
+        candidateId,
+        examSessionId,
+        schoolId,
+        subjectsGraded: graded.length,
+        passes: graded.filter((row) => row.passed).length,
+        average,
+        aggregate: aggregateFor(
+          graded.map((row) => row.points!),
+          scheme
+        ),
+        position: null as number | null,
+      };
+    });
+
+    const positions = rankWithTies(
+      candidateRows,
+      (row) => row.aggregate,
+      "asc"
+    );
+    for (const [row, position] of positions) row.position = position;
+
+    await tx.subjectResult.deleteMany({ where: { examSessionId, schoolId } });
+    await tx.candidateResult.deleteMany({ where: { examSessionId, schoolId } });
+    await tx.subjectResult.createMany({ data: subjectRows });
+    await tx.candidateResult.createMany({ data: candidateRows });
+
+    return { candidates: candidateRows.length, results: subjectRows.length };
+  }
+
+  /**
+   * The school's results for a session, best aggregate first. Candidates
+   * without an aggregate follow in registration-number order.
+   */
+  static async getResults(examSessionId: string, schoolId: string) {
+    const [{ scheme }, candidateResults, subjectResults] = await Promise.all([
+      this.loadScheme(prisma, examSessionId),
+      prisma.candidateResult.findMany({
+        where: { examSessionId, schoolId },
+        include: {
+          candidate: {
+            select: {
+              id: true,
+              registrationNumber: true,
+              surname: true,
+              firstName: true,
+              otherName: true,
+            },
+          },
+        },
+      }),
+      prisma.subjectResult.findMany({
+        where: { examSessionId, schoolId },
+        include: { subject: { select: { code: true, name: true } } },
+      }),
+    ]);
+
+    const subjects = new Map<string, { code: string; name: string }>();
+    const resultsByCandidate = new Map<
+      string,
+      Record<
+        string,
+        {
+          complete: boolean;
+          total: number | null;
+          grade: string | null;
+          passed: boolean;
+          position: number | null;
+        }
+      >
+    >();
+
+    for (const result of subjectResults) {
+      subjects.set(result.subject.code, result.subject);
+      const row = resultsByCandidate.get(result.candidateId) ?? {};
+      row[result.subject.code] = {
+        complete: result.complete,
+        total: result.total?.toNumber() ?? null,
+        grade: result.grade,
+        passed: result.passed,
+        position: result.position,
+      };
+      resultsByCandidate.set(result.candidateId, row);
+    }
+
+    const candidates = candidateResults
+      .map((result) => ({
+        ...result.candidate,
+        subjectsGraded: result.subjectsGraded,
+        passes: result.passes,
+        average: result.average?.toNumber() ?? null,
+        aggregate: result.aggregate,
+        position: result.position,
+        subjects: resultsByCandidate.get(result.candidateId) ?? {},
+      }))
+      .sort(
+        (a, b) =>
+          (a.position ?? Infinity) - (b.position ?? Infinity) ||
+          a.registrationNumber.localeCompare(b.registrationNumber)
+      );
+
+    return {
+      scheme,
+      subjects: [...subjects.values()].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      ),
+      candidates,
+      computedAt: candidateResults[0]?.computedAt ?? null,
+    };
+  }
+}
+
+export { GradingError };
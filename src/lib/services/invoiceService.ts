@@ -0,0 +1,572 @@
+// File: src/lib/services/invoiceService.ts
+import {
+  Prisma,
+  type InvoiceStatus,
+  type RegistrationStatus,
+} from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import { JWTError, JWTUtils } from "@/lib/server/jwt";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { emailService } from "@/lib/services/emailService";
+import { candidateFeeLines, feeTotal } from "@/lib/utils/fees";
+import { parseFeeRules } from "@/lib/validation/fee";
+
+// Candidates the school is billed for
+const BILLED_STATUSES: RegistrationStatus[] = [
+  "Pending",
+  "Submitted",
+  "Verified",
+];
+
+// Invoices that can still take payments
+export const PAYABLE_STATUSES: InvoiceStatus[] = ["Unpaid", "Part_Paid"];
+
+const SEQUENCE_PADDING = 4;
+
+// Documents that carry a verification code
+type VerifiableKind = "invoice" | "receipt";
+
+class InvoiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "InvoiceError";
+  }
+}
+
+type InvoiceContext = { admin: SessionAdmin } & Omit<AuditMeta, "performedBy">;
+
+const invoiceInclude = {
+  school: { select: { id: true, centerNumber: true, centerName: true } },
+  examSession: { select: { id: true, name: true } },
+  // Every candidate on an invoice has exactly one registration fee line
+  _count: { select: { lines: { where: { kind: "Registration_Fee" } } } },
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceRow = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>;
+
+const toInvoiceResponse = ({ _count, ...invoice }: InvoiceRow) => ({
+  ...invoice,
+  candidateCount: _count.lines,
+  balance: invoice.total.minus(invoice.amountPaid),
+});
+
+export const invoiceVerificationUrl = (code: string) =>
+  `${emailService.getBaseUrl()}/verify/invoice/${code}`;
+
+export class InvoiceService {
+  /**
+   * The school an admin bills for; null for Super_Admin, who sees every
+   * school.
+   */
+  static schoolOf(admin: SessionAdmin): string | null {
+    if (admin.role === "Super_Admin") return null;
+    if (!admin.schoolId) {
+      throw new InvoiceError(
+        "Your account is not linked to a school",
+        "NO_SCHOOL",
+        403
+      );
+    }
+    return admin.schoolId;
+  }
+
+  static async audit(
+    tx: Prisma.TransactionClient,
+    action: string,
+    details: Prisma.InputJsonObject,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    await tx.adminAuditLog.create({
+      data: {
+        adminUserId: context.performedBy,
+        schoolId: context.schoolId,
+        action,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  /**
+   * Candidates of the school registered for the session who are not on a
+   * live invoice yet, each with the fee lines they would be billed under
+   * the session's fee rules and their waiver.
+   */
+  static async unbilled(
+    examSessionId: string,
+    schoolId: string,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const session = await client.examSession.findFirst({
+      where: {
+        id: examSessionId,
+        OR: [
+          { schools: { none: {} } },
+          { schools: { some: { id: schoolId } } },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        registrationFee: true,
+        examDate: true,
+        registrationEndDate: true,
+        feeRules: true,
+      },
+    });
+
+    if (!session) {
+      throw new InvoiceError(
+        "Exam session not found",
+        "SESSION_NOT_FOUND",
+        404
+      );
+    }
+
+    const billed = await client.invoiceLine.findMany({
+      where: {
+        candidateId: { not: null },
+        invoice: { schoolId, examSessionId, status: { not: "Cancelled" } },
+      },
+      select: { candidateId: true },
+      distinct: ["candidateId"],
+    });
+
+    const candidates = await client.candidate.findMany({
+      where: {
+        schoolId,
+        examSessionId,
+        registrationStatus: { in: BILLED_STATUSES },
+        id: { notIn: billed.map((line) => line.candidateId!) },
+      },
+      select: {
+        id: true,
+        createdAt: true,
+        registrationNumber: true,
+        surname: true,
+        firstName: true,
+        otherName: true,
+        subjects: { select: { subject: { select: { code: true } } } },
+        feeWaiver: { select: { percent: true } },
+      },
+      orderBy: { registrationNumber: "asc" },
+    });
+
+    const fees = {
+      registrationFee: session.registrationFee.toNumber(),
+      registrationEndDate: session.registrationEndDate,
+      feeRules: parseFeeRules(session.feeRules),
+    };
+
+    const priced = candidates.map(
+      ({ createdAt, subjects, feeWaiver, ...candidate }) => {
+        const lines = candidateFeeLines(
+          {
+            registeredAt: createdAt,
+            subjectCodes: subjects.map((entry) => entry.subject.code),
+            waiverPercent: feeWaiver?.percent,
+          },
+          fees
+        );
+        return { ...candidate, lines, total: feeTotal(lines) };
+      }
+    );
+
+    return {
+      session: {
+        id: session.id,
+        name: session.name,
+        status: session.status,
+        examDate: session.examDate,
+        registrationEndDate: session.registrationEndDate,
+      },
+      candidates: priced,
+      registrationFee: session.registrationFee,
+      total: new Prisma.Decimal(
+        feeTotal(priced.flatMap((candidate) => candidate.lines))
+      ),
+    };
+  }
+
+  /**
+   * Raise an invoice for every unbilled candidate, one line per fee item.
+   * An invoice for fully waived candidates only is settled as soon as it is
+   * raised. Invoice numbers run per school and exam year; two invoices
+   * raised at once collide on the sequence and the later one is rejected
+   * rather than double-billing.
+   */
+  static async generate(
+    examSessionId: string,
+    context: { admin: SessionAdmin & { schoolId: string } } & Omit<
+      AuditMeta,
+      "performedBy"
+    >
+  ) {
+    const { admin, ...meta } = context;
+    const schoolId = admin.schoolId;
+
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          const { session, candidates, total } = await this.unbilled(
+            examSessionId,
+            schoolId,
+            tx
+          );
+
+          if (session.status === "Cancelled") {
+            throw new InvoiceError(
+              "This exam session has been cancelled",
+              "SESSION_CANCELLED",
+              409
+            );
+          }
+
+          if (candidates.length === 0) {
+            throw new InvoiceError(
+              "Every registered candidate is already on an invoice",
+              "NOTHING_TO_INVOICE",
+              409
+            );
+          }
+
+          const waived = candidates.some((candidate) =>
+            candidate.lines.some((line) => line.kind === "Waiver")
+          );
+          if (total.lte(0) && !waived) {
+            throw new InvoiceError(
+              "This exam session has no registration fee",
+              "NO_FEE"
+            );
+          }
+
+          const year = session.examDate.getFullYear();
+          const [school, last] = await Promise.all([
+            tx.school.findUniqueOrThrow({
+              where: { id: schoolId },
+              select: { centerNumber: true },
+            }),
+            tx.invoice.aggregate({
+              where: { schoolId, year },
+              _max: { sequence: true },
+            }),
+          ]);
+          const sequence = (last._max.sequence ?? 0) + 1;
+
+          const invoice = await tx.invoice.create({
+            data: {
+              number: `INV/${school.centerNumber}/${year}/${String(
+                sequence
+              ).padStart(SEQUENCE_PADDING, "0")}`,
+              year,
+              sequence,
+              schoolId,
+              examSessionId: session.id,
+              status: total.lte(0) ? "Paid" : "Unpaid",
+              total,
+              dueDate: session.registrationEndDate,
+              createdById: admin.id,
+              lines: {
+                create: candidates.flatMap((candidate) =>
+                  candidate.lines.map((line) => ({
+                    candidateId: candidate.id,
+                    registrationNumber: candidate.registrationNumber,
+                    kind: line.kind,
+                    description: `${line.description}: ${candidate.surname} ${candidate.firstName}`,
+                    quantity: 1,
+                    unitPrice: line.amount,
+                    amount: line.amount,
+                  }))
+                ),
+              },
+            },
+            include: invoiceInclude,
+          });
+
+          await this.audit(
+            tx,
+            "INVOICE_GENERATED",
+            {
+              invoiceId: invoice.id,
+              number: invoice.number,
+              examSessionId: session.id,
+              candidates: candidates.length,
+              total: total.toFixed(2),
+            },
+            { schoolId, performedBy: admin.id, ...meta }
+          );
+
+          return toInvoiceResponse(invoice);
+        },
+        { maxWait: 5000, timeout: 15000 }
+      );
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new InvoiceError(
+          "Another invoice was raised at the same time. Please try again.",
+          "INVOICE_CONFLICT",
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Invoices newest first; school admins see their own school's only.
+   */
+  static async list(
+    admin: SessionAdmin,
+    query: {
+      examSessionId?: string;
+      status?: InvoiceStatus;
+      schoolId?: string;
+    } = {}
+  ) {
+    const schoolId = this.schoolOf(admin) ?? query.schoolId;
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        schoolId,
+        examSessionId: query.examSessionId,
+        status: query.status,
+      },
+      include: invoiceInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return Promise.all(
+      invoices.map(async (invoice) => ({
+        ...toInvoiceResponse(invoice),
+        verification: await this.verification(
+          "invoice",
+          invoice.number,
+          invoice.createdAt
+        ),
+      }))
+    );
+  }
+
+  /**
+   * One invoice with its lines and payments. Other schools' invoices are
+   * reported as not found.
+   */
+  static async get(id: string, admin: SessionAdmin) {
+    const schoolId = this.schoolOf(admin);
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, ...(schoolId ? { schoolId } : {}) },
+      include: {
+        ...invoiceInclude,
+        lines: { orderBy: [{ registrationNumber: "asc" }, { kind: "asc" }] },
+        payments: { orderBy: { createdAt: "desc" } },
+      },
+    });
+
+    if (!invoice) {
+      throw new InvoiceError("Invoice not found", "INVOICE_NOT_FOUND", 404);
+    }
+
+    return {
+      ...toInvoiceResponse(invoice),
+      verification: await this.verification(
+        "invoice",
+        invoice.number,
+        invoice.createdAt
+      ),
+    };
+  }
+
+  /**
+   * Withdraw an invoice nothing has been paid against, so its candidates
+   * can be billed again on a fresh one.
+   */
+  static async cancel(id: string, reason: string, context: InvoiceContext) {
+    const { admin, ...meta } = context;
+    const schoolId = this.schoolOf(admin);
+
+    return prisma.$transaction(
+      async (tx) => {
+        const invoice = await tx.invoice.findFirst({
+          where: { id, ...(schoolId ? { schoolId } : {}) },
+          include: {
+            payments: {
+              where: { status: { in: ["Pending", "Successful"] } },
+              select: { id: true },
+            },
+          },
+        });
+
+        if (!invoice) {
+          throw new InvoiceError("Invoice not found", "INVOICE_NOT_FOUND", 404);
+        }
+
+        if (invoice.status !== "Unpaid" || invoice.payments.length > 0) {
+          throw new InvoiceError(
+            "Only invoices with no payments recorded against them can be cancelled",
+            "INVOICE_NOT_CANCELLABLE",
+            409
+          );
+        }
+
+        const updated = await tx.invoice.update({
+          where: { id },
+          data: {
+            status: "Cancelled",
+            cancelledAt: new Date(),
+            cancelledById: admin.id,
+            cancelReason: reason,
+          },
+          include: invoiceInclude,
+        });
+
+        await this.audit(
+          tx,
+          "INVOICE_CANCELLED",
+          { invoiceId: id, number: invoice.number, reason },
+          { schoolId: invoice.schoolId, performedBy: admin.id, ...meta }
+        );
+
+        return toInvoiceResponse(updated);
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+
+  /**
+   * Recompute what has been paid on an invoice from its successful
+   * payments and move it between Unpaid, Part_Paid and Paid.
+   */
+  static async settle(tx: Prisma.TransactionClient, invoiceId: string) {
+    const [invoice, paid] = await Promise.all([
+      tx.invoice.findUniqueOrThrow({
+        where: { id: invoiceId },
+        select: { total: true, status: true },
+      }),
+      tx.payment.aggregate({
+        where: { invoiceId, status: "Successful" },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const amountPaid = paid._sum.amount ?? new Prisma.Decimal(0);
+    const status: InvoiceStatus =
+      invoice.status === "Cancelled"
+        ? "Cancelled"
+        : amountPaid.gte(invoice.total)
+          ? "Paid"
+          : amountPaid.gt(0)
+            ? "Part_Paid"
+            : "Unpaid";
+
+    return tx.invoice.update({
+      where: { id: invoiceId },
+      data: { amountPaid, status },
+    });
+  }
+
+  /**
+   * The signed code printed on an invoice or receipt, and the link its QR
+   * code points to. The code names the document by its number or payment
+   * reference and is the same every time it is asked for.
+   */
+  static async verification(
+    kind: VerifiableKind,
+    reference: string,
+    issuedAt: Date
+  ) {
+    const code = await JWTUtils.generateDocumentToken({
+      kind,
+      reference,
+      issuedAt,
+    });
+    return { code, url: invoiceVerificationUrl(code) };
+  }
+
+  /**
+   * Public check of an invoice or receipt code. Only what is printed on the
+   * document is confirmed: the amount, the school that owes or paid it,
+   * its current status and when it was issued.
+   */
+  static async verify(code: string) {
+    let document: { kind: string; reference: string };
+    try {
+      document = await JWTUtils.verifyDocumentToken(code.trim());
+    } catch (error) {
+      if (!(error instanceof JWTError)) throw error;
+      throw new InvoiceError(
+        "This verification code was not issued by the portal",
+        "INVALID_CODE",
+        404
+      );
+    }
+
+    const school = { select: { centerNumber: true, centerName: true } };
+
+    if (document.kind === "invoice") {
+      const invoice = await prisma.invoice.findUnique({
+        where: { number: document.reference },
+        select: {
+          number: true,
+          total: true,
+          status: true,
+          createdAt: true,
+          school,
+        },
+      });
+
+      if (invoice) {
+        return {
+          kind: "invoice" as const,
+          number: invoice.number,
+          amount: invoice.total,
+          status: invoice.status as string,
+          issuedAt: invoice.createdAt,
+          school: invoice.school,
+        };
+      }
+    } else if (document.kind === "receipt") {
+      const payment = await prisma.payment.findUnique({
+        where: { reference: document.reference },
+        select: {
+          reference: true,
+          amount: true,
+          status: true,
+          paidAt: true,
+          createdAt: true,
+          invoice: { select: { school } },
+        },
+      });
+
+      if (payment) {
+        return {
+          kind: "receipt" as const,
+          number: payment.reference,
+          amount: payment.amount,
+          status: payment.status as string,
+          issuedAt: payment.paidAt ?? payment.createdAt,
+          school: payment.invoice.school,
+        };
+      }
+    }
+
+    throw new InvoiceError(
+      "The document for this verification code no longer exists",
+      "DOCUMENT_NOT_FOUND",
+      404
+    );
+  }
+}
+
+export { InvoiceError };
@@ -0,0 +1,292 @@
+// File: src/lib/services/passportPhotoService.ts
+import sharp from "sharp";
+import { prisma } from "@/lib/server/prisma";
+import {
+  getStorage,
+  LOCAL_UPLOAD_URL_PREFIX,
+  LocalFileStorage,
+} from "@/lib/server/fileStorage";
+import {
+  CandidateService,
+  CandidateServiceError,
+  type AuditMeta,
+} from "@/lib/services/candidateService";
+
+export const PASSPORT_MAX_BYTES = 2 * 1024 * 1024; // 2MB, same as the enrol form
+export const PASSPORT_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+const MIN_DIMENSION = 300;
+const MAX_DIMENSION = 6000;
+
+// 35mm x 45mm at 300dpi
+const OUTPUT_WIDTH = 413;
+const OUTPUT_HEIGHT = 531;
+
+// Photos embedded in printed documents
+const PRINT_WIDTH = 236;
+const PRINT_HEIGHT = 303;
+const REMOTE_PHOTO_TIMEOUT_MS = 5000;
+
+// Below this per-channel standard deviation the image is treated as blank
+const BLANK_STDEV_THRESHOLD = 8;
+// Share of skin-toned pixels the centre of a portrait is expected to have
+const MIN_SKIN_RATIO = 0.06;
+
+// sharp format -> MIME type
+const FORMAT_MIME: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+class PassportPhotoError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "PassportPhotoError";
+  }
+}
+
+export interface ProcessedPassportPhoto {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Share of pixels in the middle of the image whose colour falls in the
+ * usual YCbCr skin range. Cheap stand-in for face detection that catches
+ * photos of documents, landscapes and the like.
+ */
+async function centreSkinRatio(image: sharp.Sharp): Promise<number> {
+  const { data, info } = await image
+    .clone()
+    .resize(64, 64, { fit: "cover" })
+    .extract({ left: 16, top: 8, width: 32, height: 40 })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let skin = 0;
+  const pixels = info.width * info.height;
+
+  for (let i = 0; i < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    if (cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173) skin++;
+  }
+
+  return skin / pixels;
+}
+
+export class PassportPhotoService {
+  /**
+   * Validate an uploaded passport photo and normalise it to a white-backed
+   * JPEG in the standard passport crop.
+   */
+  static async process(file: File): Promise<ProcessedPassportPhoto> {
+    if (!PASSPORT_MIME_TYPES.includes(file.type)) {
+      throw new PassportPhotoError(
+        "Passport photo must be a JPG, PNG or WebP image",
+        "UNSUPPORTED_MEDIA_TYPE",
+        415
+      );
+    }
+
+    if (file.size > PASSPORT_MAX_BYTES) {
+      throw new PassportPhotoError(
+        "File size must be less than 2MB",
+        "FILE_TOO_LARGE",
+        413
+      );
+    }
+
+    const input = Buffer.from(await file.arrayBuffer());
+    const image = sharp(input, { failOn: "error" }).rotate();
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await image.metadata();
+    } catch {
+      throw new PassportPhotoError(
+        "The uploaded file is not a readable image",
+        "INVALID_IMAGE"
+      );
+    }
+
+    // The declared type must match the actual content
+    if (!metadata.format || FORMAT_MIME[metadata.format] !== file.type) {
+      throw new PassportPhotoError(
+        "The file content does not match its image type",
+        "UNSUPPORTED_MEDIA_TYPE",
+        415
+      );
+    }
+
+    const width = metadata.autoOrient?.width ?? metadata.width ?? 0;
+    const height = metadata.autoOrient?.height ?? metadata.height ?? 0;
+
+    if (width < MIN_DIMENSION || height < MIN_DIMENSION) {
+      throw new PassportPhotoError(
+        `Passport photo must be at least ${MIN_DIMENSION}x${MIN_DIMENSION} pixels`,
+        "IMAGE_TOO_SMALL"
+      );
+    }
+
+    if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+      throw new PassportPhotoError(
+        `Passport photo must be at most ${MAX_DIMENSION}x${MAX_DIMENSION} pixels`,
+        "IMAGE_TOO_LARGE"
+      );
+    }
+
+    const flattened = image.flatten({ background: "#ffffff" });
+
+    const stats = await flattened.clone().stats();
+    const isBlank = stats.channels
+      .slice(0, 3)
+      .every((channel) => channel.stdev < BLANK_STDEV_THRESHOLD);
+
+    if (isBlank) {
+      throw new PassportPhotoError(
+        "The uploaded photo appears to be blank",
+        "BLANK_IMAGE"
+      );
+    }
+
+    if ((await centreSkinRatio(flattened)) < MIN_SKIN_RATIO) {
+      throw new PassportPhotoError(
+        "No face could be found in the photo. Please upload a clear, front-facing passport photograph",
+        "NO_FACE_DETECTED"
+      );
+    }
+
+    const data = await flattened
+      .resize(OUTPUT_WIDTH, OUTPUT_HEIGHT, {
+        fit: "cover",
+        position: sharp.strategy.attention,
+      })
+      .jpeg({ quality: 90, mozjpeg: true })
+      .toBuffer();
+
+    return {
+      data,
+      contentType: "image/jpeg",
+      width: OUTPUT_WIDTH,
+      height: OUTPUT_HEIGHT,
+    };
+  }
+
+  /**
+   * A stored photo as a small baseline RGB JPEG for printing, or null when
+   * there is none or it cannot be read. Local files are read from disk and
+   * anything else is fetched from its URL.
+   */
+  static async loadForPrint(
+    url: string | null
+  ): Promise<{ data: Buffer; width: number; height: number } | null> {
+    if (!url) return null;
+
+    try {
+      let input: Buffer | null;
+      if (url.startsWith(`${LOCAL_UPLOAD_URL_PREFIX}/`)) {
+        const key = url.slice(LOCAL_UPLOAD_URL_PREFIX.length + 1).split("?")[0];
+        input = (await new LocalFileStorage().read(key))?.data ?? null;
+      } else {
+        const response = await fetch(url, {
+          signal: AbortSignal.timeout(REMOTE_PHOTO_TIMEOUT_MS),
+        });
+        input = response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+      }
+      if (!input) return null;
+
+      const { data, info } = await sharp(input)
+        .flatten({ background: "#ffffff" })
+        .resize(PRINT_WIDTH, PRINT_HEIGHT, { fit: "cover" })
+        .toColourspace("srgb")
+        .jpeg({ quality: 80, progressive: false, mozjpeg: false })
+        .toBuffer({ resolveWithObject: true });
+
+      return { data, width: info.width, height: info.height };
+    } catch (error) {
+      console.warn("Passport photo could not be loaded for printing:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a processed photo for a candidate and record the change.
+   */
+  static async attach(
+    candidateId: string,
+    photo: ProcessedPassportPhoto,
+    context: AuditMeta
+  ) {
+    const stored = await getStorage().save(
+      `passports/${candidateId}.jpg`,
+      photo.data,
+      photo.contentType
+    );
+
+    return prisma.$transaction(async (tx) => {
+      const previous = await tx.candidate.findUniqueOrThrow({
+        where: { id: candidateId },
+        select: { passportPhotoUrl: true },
+      });
+
+      const candidate = await tx.candidate.update({
+        where: { id: candidateId },
+        data: { passportPhotoUrl: stored.url },
+        include: { examSession: { select: { id: true, name: true } } },
+      });
+
+      await tx.candidateAuditLog.create({
+        data: {
+          candidateId,
+          action: "PHOTO_UPDATED",
+          changes: {
+            passportPhotoUrl: {
+              from: previous.passportPhotoUrl,
+              to: stored.url,
+            },
+          },
+          performedBy: context.performedBy,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+
+      return candidate;
+    });
+  }
+
+  /**
+   * Replace the photo of one of the school's candidates. Follows the same
+   * editing rules as other candidate details.
+   */
+  static async replace(
+    candidateId: string,
+    file: File,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    const candidate = await CandidateService.getCandidate(
+      candidateId,
+      context.schoolId
+    );
+
+    const blocker = CandidateService.getEditBlocker(candidate);
+    if (blocker) {
+      throw new CandidateServiceError(blocker.message, blocker.code, 409);
+    }
+
+    const photo = await this.process(file);
+    return this.attach(candidateId, photo, context);
+  }
+}
+
+export { PassportPhotoError };
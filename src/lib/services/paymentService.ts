@@ -0,0 +1,658 @@
+// File: src/lib/services/paymentService.ts
+import { randomInt } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import { unprotectData } from "@/lib/security/dataProtection";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import {
+  getPaymentGateway,
+  PaymentGatewayError,
+  SimulatorGateway,
+  simulatorRequiresSession,
+  type GatewayCharge,
+} from "@/lib/server/paymentGateway";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { emailService } from "@/lib/services/emailService";
+import {
+  InvoiceError,
+  InvoiceService,
+  PAYABLE_STATUSES,
+} from "@/lib/services/invoiceService";
+import type {
+  OnlinePaymentInput,
+  PaymentInput,
+  PaymentListQuery,
+  PaymentReviewInput,
+} from "@/lib/validation/payment";
+
+const REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// How long an unfinished online checkout holds its amount against the
+// invoice balance
+const ONLINE_HOLD_MINUTES = 30;
+
+type PaymentContext<A extends SessionAdmin = SessionAdmin> = {
+  admin: A;
+} & Omit<AuditMeta, "performedBy">;
+
+const paymentInclude = {
+  invoice: {
+    select: {
+      id: true,
+      number: true,
+      status: true,
+      total: true,
+      amountPaid: true,
+      school: { select: { id: true, centerNumber: true, centerName: true } },
+      examSession: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.PaymentInclude;
+
+export class PaymentService {
+  private static newReference() {
+    return `PAY-${Array.from(
+      { length: 8 },
+      () => REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)]
+    ).join("")}`;
+  }
+
+  /**
+   * Lock one of the school's invoices and check it can take another
+   * payment of this amount. Pending payments count against the balance so
+   * the same amount cannot be claimed twice, except online checkouts left
+   * unfinished for longer than the hold. The lock is held until the
+   * caller's transaction ends.
+   */
+  private static async payableInvoice(
+    tx: Prisma.TransactionClient,
+    invoiceId: string,
+    schoolId: string,
+    amount: Prisma.Decimal
+  ) {
+    const holdSince = new Date(Date.now() - ONLINE_HOLD_MINUTES * 60_000);
+
+    // Lock the invoice so concurrent payments against it take turns and
+    // each sees the claims of those before it
+    await tx.$queryRaw`
+      SELECT "id" FROM "public"."invoices"
+      WHERE "id" = ${invoiceId} AND "schoolId" = ${schoolId}
+      FOR UPDATE
+    `;
+
+    const invoice = await tx.invoice.findFirst({
+      where: { id: invoiceId, schoolId },
+      include: {
+        payments: {
+          where: {
+            OR: [
+              { status: "Successful" },
+              { status: "Pending", method: { not: "Online" } },
+              {
+                status: "Pending",
+                method: "Online",
+                createdAt: { gte: holdSince },
+              },
+            ],
+          },
+          select: { amount: true, payerReference: true },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new InvoiceError("Invoice not found", "INVOICE_NOT_FOUND", 404);
+    }
+
+    if (!PAYABLE_STATUSES.includes(invoice.status)) {
+      throw new InvoiceError(
+        `This invoice is ${invoice.status.replace("_", " ").toLowerCase()} and cannot take payments`,
+        "INVOICE_NOT_PAYABLE",
+        409
+      );
+    }
+
+    const claimed = invoice.payments.reduce(
+      (sum, payment) => sum.plus(payment.amount),
+      new Prisma.Decimal(0)
+    );
+    const outstanding = invoice.total.minus(claimed);
+
+    if (amount.gt(outstanding)) {
+      throw new InvoiceError(
+        "Amount is more than the outstanding balance",
+        "AMOUNT_EXCEEDS_BALANCE",
+        400,
+        {
+          amount: outstanding.gt(0)
+            ? `At most ₦${outstanding.toFixed(2)} is outstanding, including payments awaiting confirmation`
+            : "Payments awaiting confirmation already cover this invoice",
+        }
+      );
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Record a bank payment made by the school against one of its invoices.
+   * It stays Pending until a Super_Admin matches it with the bank
+   * statement, but already counts against the outstanding balance so the
+   * same amount cannot be claimed twice.
+   */
+  static async record(
+    input: PaymentInput,
+    context: PaymentContext<SessionAdmin & { schoolId: string }>
+  ) {
+    const { admin, ...meta } = context;
+
+    return prisma.$transaction(
+      async (tx) => {
+        const invoice = await this.payableInvoice(
+          tx,
+          input.invoiceId,
+          admin.schoolId,
+          new Prisma.Decimal(input.amount)
+        );
+
+        const payerReference = input.payerReference.toUpperCase();
+        if (
+          invoice.payments.some(
+            (payment) => payment.payerReference === payerReference
+          )
+        ) {
+          throw new InvoiceError(
+            "This teller or transfer reference has already been recorded",
+            "DUPLICATE_PAYER_REFERENCE",
+            409,
+            { payerReference: "Already recorded against this invoice" }
+          );
+        }
+
+        const payment = await tx.payment.create({
+          data: {
+            reference: this.newReference(),
+            invoiceId: invoice.id,
+            schoolId: invoice.schoolId,
+            amount: input.amount,
+            method: input.method,
+            payerReference,
+            createdById: admin.id,
+          },
+          include: paymentInclude,
+        });
+
+        await InvoiceService.audit(
+          tx,
+          "PAYMENT_RECORDED",
+          {
+            paymentId: payment.id,
+            reference: payment.reference,
+            invoiceId: invoice.id,
+            amount: payment.amount.toFixed(2),
+            method: input.method,
+          },
+          { schoolId: invoice.schoolId, performedBy: admin.id, ...meta }
+        );
+
+        return payment;
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+
+  /**
+   * Confirm or reject a pending bank payment and bring its invoice up to
+   * date. Online payments are settled by their gateway instead.
+   */
+  static async review(
+    id: string,
+    input: PaymentReviewInput,
+    context: PaymentContext
+  ) {
+    const { admin, ...meta } = context;
+    const now = new Date();
+
+    return prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.payment.updateMany({
+          where: { id, status: "Pending", method: { not: "Online" } },
+          data: {
+            status: input.status,
+            paidAt: input.status === "Successful" ? now : null,
+            reviewedAt: now,
+            reviewedById: admin.id,
+            reviewNote: input.note ?? null,
+          },
+        });
+
+        if (count === 0) {
+          const existing = await tx.payment.findUnique({
+            where: { id },
+            select: { method: true },
+          });
+          if (!existing) {
+            throw new InvoiceError(
+              "Payment not found",
+              "PAYMENT_NOT_FOUND",
+              404
+            );
+          }
+          throw existing.method === "Online"
+            ? new InvoiceError(
+                "Online payments are settled by the payment gateway",
+                "GATEWAY_PAYMENT",
+                409
+              )
+            : new InvoiceError(
+                "This payment has already been reviewed",
+                "PAYMENT_ALREADY_REVIEWED",
+                409
+              );
+        }
+
+        const payment = await tx.payment.findUniqueOrThrow({
+          where: { id },
+        });
+        await InvoiceService.settle(tx, payment.invoiceId);
+
+        await InvoiceService.audit(
+          tx,
+          input.status === "Successful"
+            ? "PAYMENT_CONFIRMED"
+            : "PAYMENT_REJECTED",
+          {
+            paymentId: id,
+            reference: payment.reference,
+            invoiceId: payment.invoiceId,
+            amount: payment.amount.toFixed(2),
+            ...(input.note ? { note: input.note } : {}),
+          },
+          { schoolId: payment.schoolId, performedBy: admin.id, ...meta }
+        );
+
+        return tx.payment.findUniqueOrThrow({
+          where: { id },
+          include: paymentInclude,
+        });
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+  }
+
+  /**
+   * Start an online payment through the configured gateway and return the
+   * checkout page to send the payer to. The gateway reports the outcome
+   * by webhook; verifyOnline asks it directly.
+   */
+  static async initiateOnline(
+    input: OnlinePaymentInput,
+    context: PaymentContext<SessionAdmin & { schoolId: string }>
+  ) {
+    const { admin, ...meta } = context;
+    const gateway = getPaymentGateway();
+
+    const payment = await prisma.$transaction(
+      async (tx) => {
+        const invoice = await this.payableInvoice(
+          tx,
+          input.invoiceId,
+          admin.schoolId,
+          new Prisma.Decimal(input.amount)
+        );
+
+        const created = await tx.payment.create({
+          data: {
+            reference: this.newReference(),
+            invoiceId: invoice.id,
+            schoolId: invoice.schoolId,
+            amount: input.amount,
+            method: "Online",
+            gateway: gateway.name,
+            createdById: admin.id,
+          },
+        });
+
+        await InvoiceService.audit(
+          tx,
+          "PAYMENT_INITIATED",
+          {
+            paymentId: created.id,
+            reference: created.reference,
+            invoiceId: invoice.id,
+            amount: created.amount.toFixed(2),
+            gateway: gateway.name,
+          },
+          { schoolId: invoice.schoolId, performedBy: admin.id, ...meta }
+        );
+
+        return created;
+      },
+      { maxWait: 5000, timeout: 15000 }
+    );
+
+    const { email } = await prisma.adminUser.findUniqueOrThrow({
+      where: { id: admin.id },
+      select: { email: true },
+    });
+
+    try {
+      const checkout = await gateway.initialize({
+        reference: payment.reference,
+        amount: payment.amount.times(100).toNumber(),
+        email: await unprotectData(email, "email"),
+        callbackUrl: `${emailService.getBaseUrl()}/admin`,
+      });
+
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { gatewayReference: checkout.gatewayReference },
+      });
+
+      return { payment, authorizationUrl: checkout.authorizationUrl };
+    } catch (error) {
+      // Release the amount it was holding on the invoice
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: "Failed",
+          reviewNote: "The payment gateway could not start this payment",
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply what the gateway says about a payment. Only a Pending payment
+   * moves, so a replayed or late report can never credit an invoice twice.
+   * A successful charge for a different amount is rejected for review.
+   */
+  private static async reconcile(
+    tx: Prisma.TransactionClient,
+    charge: GatewayCharge,
+    gatewayName: string,
+    trigger: "webhook" | "verify"
+  ): Promise<string> {
+    const payment = await tx.payment.findUnique({
+      where: { reference: charge.reference },
+    });
+
+    if (!payment || payment.gateway !== gatewayName) return "unknown_payment";
+    if (payment.status !== "Pending") return "already_settled";
+    if (charge.status === "Pending") return "pending";
+
+    const expected = payment.amount.times(100).toNumber();
+    const mismatch =
+      charge.status === "Successful" && charge.amount !== expected;
+    const status =
+      charge.status === "Successful" && !mismatch ? "Successful" : "Failed";
+
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: "Pending" },
+      data: {
+        status,
+        paidAt: status === "Successful" ? (charge.paidAt ?? new Date()) : null,
+        gatewayReference: charge.gatewayReference ?? payment.gatewayReference,
+        reviewedAt: new Date(),
+        reviewNote: mismatch
+          ? `The gateway charged ₦${(charge.amount / 100).toFixed(2)} instead of ₦${payment.amount.toFixed(2)}`
+          : null,
+      },
+    });
+    if (count === 0) return "already_settled";
+
+    await InvoiceService.settle(tx, payment.invoiceId);
+
+    await tx.adminAuditLog.create({
+      data: {
+        adminUserId: null,
+        schoolId: payment.schoolId,
+        action:
+          status === "Successful" ? "PAYMENT_CONFIRMED" : "PAYMENT_REJECTED",
+        details: {
+          paymentId: payment.id,
+          reference: payment.reference,
+          invoiceId: payment.invoiceId,
+          amount: payment.amount.toFixed(2),
+          gateway: gatewayName,
+          trigger,
+          ...(mismatch ? { chargedKobo: charge.amount } : {}),
+        },
+        userAgent: `payment-gateway:${gatewayName}`,
+      },
+    });
+
+    return mismatch
+      ? "amount_mismatch"
+      : status === "Successful"
+        ? "confirmed"
+        : "failed";
+  }
+
+  /**
+   * Process a gateway webhook. The signature is checked before anything is
+   * read, and each event is recorded under its id so a replay is a no-op.
+   */
+  static async processWebhook(
+    gatewayName: string,
+    rawBody: string,
+    headers: Headers
+  ) {
+    const gateway = getPaymentGateway();
+    if (gateway.name !== gatewayName) {
+      throw new PaymentGatewayError(
+        `The ${gatewayName} gateway is not enabled`,
+        "GATEWAY_NOT_ENABLED",
+        404
+      );
+    }
+
+    const event = gateway.handleWebhook(rawBody, headers);
+    if (!event) return { outcome: "ignored" };
+
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          const seen = await tx.paymentEvent.findUnique({
+            where: {
+              gateway_eventId: { gateway: gateway.name, eventId: event.id },
+            },
+            select: { outcome: true },
+          });
+          if (seen) return { outcome: "duplicate" };
+
+          const outcome = await this.reconcile(
+            tx,
+            event,
+            gateway.name,
+            "webhook"
+          );
+
+          await tx.paymentEvent.create({
+            data: {
+              gateway: gateway.name,
+              eventId: event.id,
+              reference: event.reference,
+              status: event.status,
+              payload: event.payload as Prisma.InputJsonObject,
+              outcome,
+            },
+          });
+
+          return { outcome };
+        },
+        { maxWait: 5000, timeout: 15000 }
+      );
+    } catch (error) {
+      // The same event arriving twice at once; the other call processed it
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return { outcome: "duplicate" };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the gateway where a pending online payment stands, for when its
+   * webhook is late or lost.
+   */
+  static async verifyOnline(id: string, admin: SessionAdmin) {
+    const schoolId = InvoiceService.schoolOf(admin);
+    const payment = await prisma.payment.findFirst({
+      where: { id, ...(schoolId ? { schoolId } : {}) },
+    });
+
+    if (!payment) {
+      throw new InvoiceError("Payment not found", "PAYMENT_NOT_FOUND", 404);
+    }
+
+    const gateway = getPaymentGateway();
+    if (payment.method !== "Online" || payment.gateway !== gateway.name) {
+      throw new InvoiceError(
+        "This payment cannot be checked with the payment gateway",
+        "NOT_GATEWAY_PAYMENT",
+        409
+      );
+    }
+
+    const charge = await gateway.verify(payment.reference);
+    const outcome = await prisma.$transaction(
+      (tx) => this.reconcile(tx, charge, gateway.name, "verify"),
+      { maxWait: 5000, timeout: 15000 }
+    );
+
+    return {
+      outcome,
+      payment: await prisma.payment.findUniqueOrThrow({
+        where: { id },
+        include: paymentInclude,
+      }),
+    };
+  }
+
+  // The simulator's checkout page only exists while it is the gateway
+  private static simulator() {
+    const gateway = getPaymentGateway();
+    if (!(gateway instanceof SimulatorGateway)) {
+      throw new PaymentGatewayError(
+        "The payment simulator is not enabled",
+        "GATEWAY_NOT_ENABLED",
+        404
+      );
+    }
+    return gateway;
+  }
+
+  /**
+   * The payment shown on the simulator's checkout page. When the simulator
+   * requires a session, only the paying school's admins and Super_Admins
+   * can see it.
+   */
+  static async simulatorCheckout(
+    reference: string,
+    admin: SessionAdmin | null
+  ) {
+    this.simulator();
+
+    if (simulatorRequiresSession() && !admin) {
+      throw new InvoiceError("Payment not found", "PAYMENT_NOT_FOUND", 404);
+    }
+    const schoolId = admin ? InvoiceService.schoolOf(admin) : null;
+
+    const payment = await prisma.payment.findFirst({
+      where: { reference, ...(schoolId ? { schoolId } : {}) },
+      include: paymentInclude,
+    });
+
+    if (!payment || payment.gateway !== "simulator") {
+      throw new InvoiceError("Payment not found", "PAYMENT_NOT_FOUND", 404);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Approve or decline a payment on the simulator's checkout page. The
+   * outcome arrives as a signed webhook, exactly as a real gateway's would.
+   */
+  static async simulateOutcome(
+    reference: string,
+    approved: boolean,
+    admin: SessionAdmin | null
+  ) {
+    const gateway = this.simulator();
+    const payment = await this.simulatorCheckout(reference, admin);
+
+    const { body, headers } = gateway.webhook(
+      payment.reference,
+      payment.amount.times(100).toNumber(),
+      approved
+    );
+
+    return this.processWebhook(gateway.name, body, headers);
+  }
+
+  /**
+   * Cursor-paginated payments, newest first, with the total received so
+   * far. School admins see their own school's only; canReview tells the
+   * screen whether to offer confirming pending payments.
+   */
+  static async list(admin: SessionAdmin, query: PaymentListQuery) {
+    const where: Prisma.PaymentWhereInput = {
+      schoolId: InvoiceService.schoolOf(admin) ?? query.schoolId,
+      status: query.status,
+      ...(query.examSessionId
+        ? { invoice: { examSessionId: query.examSessionId } }
+        : {}),
+    };
+
+    const [rows, totalCount, received] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        include: paymentInclude,
+        // id breaks ties so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+      }),
+      prisma.payment.count({ where }),
+      prisma.payment.aggregate({
+        where: { ...where, status: "Successful" },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const hasNextPage = rows.length > query.limit;
+    const page = hasNextPage ? rows.slice(0, query.limit) : rows;
+
+    // Confirmed payments carry a receipt with its own verification code
+    const payments = await Promise.all(
+      page.map(async (payment) => ({
+        ...payment,
+        receipt:
+          payment.status === "Successful"
+            ? await InvoiceService.verification(
+                "receipt",
+                payment.reference,
+                payment.paidAt ?? payment.createdAt
+              )
+            : null,
+      }))
+    );
+
+    return {
+      payments,
+      pageInfo: {
+        hasNextPage,
+        nextCursor: hasNextPage ? page[page.length - 1].id : null,
+        totalCount,
+      },
+      totalReceived: received._sum.amount ?? new Prisma.Decimal(0),
+      canReview: admin.role === "Super_Admin",
+    };
+  }
+}
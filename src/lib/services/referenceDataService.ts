@@ -0,0 +1,112 @@
+// File: src/lib/services/referenceDataService.ts
+import { prisma } from "@/lib/server/prisma";
+
+// Other spellings of state names seen in center data and old records
+const STATE_ALIASES: Record<string, string> = {
+  fct: "Federal Capital Territory",
+  abuja: "Federal Capital Territory",
+  fctabuja: "Federal Capital Territory",
+  nassarawa: "Nasarawa",
+};
+
+export type LocationIndex = Awaited<
+  ReturnType<typeof ReferenceDataService.getLocationIndex>
+>;
+
+export interface LocationCheck {
+  state: string;
+  lga: string;
+  errors: Record<string, string> | null;
+}
+
+/**
+ * Comparison key for place names: case, spacing and punctuation are
+ * ignored, as is a trailing "State".
+ */
+function placeKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s+state$/, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+export class ReferenceDataService {
+  /**
+   * State names, alphabetically.
+   */
+  static async listStates(): Promise<string[]> {
+    const states = await prisma.state.findMany({
+      select: { name: true },
+      orderBy: { name: "asc" },
+    });
+    return states.map((state) => state.name);
+  }
+
+  /**
+   * LGA names of a state, alphabetically, or null when the state is not
+   * known.
+   */
+  static async listLgas(
+    stateName: string
+  ): Promise<{ state: string; lgas: string[] } | null> {
+    const index = await this.getLocationIndex();
+    const state = this.findState(index, stateName);
+    if (!state) return null;
+
+    return { state: state.name, lgas: state.lgas.map((lga) => lga.name) };
+  }
+
+  /**
+   * Every state with its LGAs, keyed for lookups by placeKey.
+   */
+  static async getLocationIndex() {
+    const states = await prisma.state.findMany({
+      select: {
+        name: true,
+        lgas: { select: { name: true }, orderBy: { name: "asc" } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return new Map(states.map((state) => [placeKey(state.name), state]));
+  }
+
+  private static findState(index: LocationIndex, name: string) {
+    const key = placeKey(name);
+    return (
+      index.get(key) ??
+      (STATE_ALIASES[key] ? index.get(placeKey(STATE_ALIASES[key])) : undefined)
+    );
+  }
+
+  /**
+   * Match a state and LGA against the reference tables and return their
+   * canonical spelling.
+   */
+  static resolveLocation(
+    stateName: string,
+    lgaName: string,
+    index: LocationIndex
+  ): LocationCheck {
+    const state = this.findState(index, stateName);
+    if (!state) {
+      return {
+        state: stateName,
+        lga: lgaName,
+        errors: { state: `Unknown state: ${stateName}` },
+      };
+    }
+
+    const lgaKey = placeKey(lgaName);
+    const lga = state.lgas.find((entry) => placeKey(entry.name) === lgaKey);
+    if (!lga) {
+      return {
+        state: state.name,
+        lga: lgaName,
+        errors: { lga: `${lgaName} is not an LGA of ${state.name}` },
+      };
+    }
+
+    return { state: state.name, lga: lga.name, errors: null };
+  }
+}
@@ -0,0 +1,272 @@
+// File: src/lib/services/registrationNumberService.ts
+import type { Prisma, RegistrationNumber } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+
+const SEQUENCE_PADDING = 4;
+
+class RegistrationNumberError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = "RegistrationNumberError";
+  }
+}
+
+export class RegistrationNumberService {
+  /**
+   * Build a registration number such as "CEC001/2025/0001".
+   */
+  static format(
+    centerNumber: string,
+    sessionYear: number,
+    sequence: number
+  ): string {
+    return `${centerNumber}/${sessionYear}/${String(sequence).padStart(
+      SEQUENCE_PADDING,
+      "0"
+    )}`;
+  }
+
+  /**
+   * Atomically bump the school/session counter by `count` and return the
+   * new value. INSERT ... ON CONFLICT takes a row lock, so concurrent
+   * enrolments for the same school and session are serialised by Postgres.
+   */
+  private static async nextSequence(
+    tx: Prisma.TransactionClient,
+    schoolId: string,
+    examSessionId: string,
+    count: number = 1
+  ): Promise<number> {
+    const rows = await tx.$queryRaw<{ lastSequence: number }[]>`
+      INSERT INTO "public"."registration_sequences" ("schoolId", "examSessionId", "lastSequence", "updatedAt")
+      VALUES (${schoolId}, ${examSessionId}, ${count}, NOW())
+      ON CONFLICT ("schoolId", "examSessionId")
+      DO UPDATE SET "lastSequence" = "registration_sequences"."lastSequence" + ${count},
+                    "updatedAt" = NOW()
+      RETURNING "lastSequence"
+    `;
+
+    return Number(rows[0].lastSequence);
+  }
+
+  private static async getPrefix(
+    tx: Prisma.TransactionClient,
+    schoolId: string,
+    examSessionId: string
+  ) {
+    const [school, examSession] = await Promise.all([
+      tx.school.findUnique({
+        where: { id: schoolId },
+        select: { centerNumber: true },
+      }),
+      tx.examSession.findUnique({
+        where: { id: examSessionId },
+        select: { examDate: true },
+      }),
+    ]);
+
+    if (!school || !examSession) {
+      throw new RegistrationNumberError(
+        "School or exam session not found",
+        "REFERENCE_NOT_FOUND"
+      );
+    }
+
+    return {
+      centerNumber: school.centerNumber,
+      sessionYear: examSession.examDate.getFullYear(),
+    };
+  }
+
+  /**
+   * Reserve the next number for a school and session without binding it to
+   * a candidate yet. Must run inside the caller's transaction.
+   */
+  static async reserve(
+    tx: Prisma.TransactionClient,
+    data: { schoolId: string; examSessionId: string; reservedBy?: string }
+  ): Promise<RegistrationNumber> {
+    const { centerNumber, sessionYear } = await this.getPrefix(
+      tx,
+      data.schoolId,
+      data.examSessionId
+    );
+    const sequence = await this.nextSequence(
+      tx,
+      data.schoolId,
+      data.examSessionId
+    );
+
+    return tx.registrationNumber.create({
+      data: {
+        number: this.format(centerNumber, sessionYear, sequence),
+        schoolId: data.schoolId,
+        examSessionId: data.examSessionId,
+        sequence,
+        status: "Reserved",
+        reservedBy: data.reservedBy,
+      },
+    });
+  }
+
+  /**
+   * Reserve a run of consecutive numbers in one go, e.g. for a bulk import.
+   * Must run inside the caller's transaction.
+   */
+  static async reserveMany(
+    tx: Prisma.TransactionClient,
+    data: {
+      schoolId: string;
+      examSessionId: string;
+      count: number;
+      reservedBy?: string;
+    }
+  ): Promise<string[]> {
+    const { centerNumber, sessionYear } = await this.getPrefix(
+      tx,
+      data.schoolId,
+      data.examSessionId
+    );
+    const last = await this.nextSequence(
+      tx,
+      data.schoolId,
+      data.examSessionId,
+      data.count
+    );
+
+    const numbers = Array.from({ length: data.count }, (_, i) => {
+      const sequence = last - data.count + 1 + i;
+      return {
+        number: this.format(centerNumber, sessionYear, sequence),
+        schoolId: data.schoolId,
+        examSessionId: data.examSessionId,
+        sequence,
+        status: "Reserved" as const,
+        reservedBy: data.reservedBy,
+      };
+    });
+
+    await tx.registrationNumber.createMany({ data: numbers });
+    return numbers.map((row) => row.number);
+  }
+
+  /**
+   * Bind a reserved number to the candidate that now carries it.
+   */
+  static async assign(
+    tx: Prisma.TransactionClient,
+    number: string,
+    candidateId: string
+  ): Promise<RegistrationNumber> {
+    const { count } = await tx.registrationNumber.updateMany({
+      where: { number, status: "Reserved" },
+      data: { status: "Assigned", candidateId, assignedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new RegistrationNumberError(
+        `Registration number ${number} is not available for assignment`,
+        "NUMBER_NOT_RESERVED"
+      );
+    }
+
+    return tx.registrationNumber.findUniqueOrThrow({ where: { number } });
+  }
+
+  /**
+   * Bind many reserved numbers to their candidates in one statement.
+   */
+  static async assignMany(
+    tx: Prisma.TransactionClient,
+    assignments: { number: string; candidateId: string }[]
+  ): Promise<void> {
+    const count = await tx.$executeRaw`
+      UPDATE "public"."registration_numbers" AS n
+      SET "status" = 'Assigned', "candidateId" = a."candidateId", "assignedAt" = NOW()
+      FROM UNNEST(
+        ${assignments.map((row) => row.number)}::text[],
+        ${assignments.map((row) => row.candidateId)}::text[]
+      ) AS a("number", "candidateId")
+      WHERE n."number" = a."number" AND n."status" = 'Reserved'
+    `;
+
+    if (count !== assignments.length) {
+      throw new RegistrationNumberError(
+        `${assignments.length - count} registration number(s) are not available for assignment`,
+        "NUMBER_NOT_RESERVED"
+      );
+    }
+  }
+
+  /**
+   * Void a number. Voided numbers keep their sequence slot and are never
+   * issued again; the candidate (if any) keeps the number for history.
+   */
+  static async void(
+    tx: Prisma.TransactionClient,
+    number: string,
+    data: { voidedBy?: string; reason: string }
+  ): Promise<RegistrationNumber> {
+    const existing = await tx.registrationNumber.findUnique({
+      where: { number },
+    });
+
+    if (!existing) {
+      throw new RegistrationNumberError(
+        `Registration number ${number} does not exist`,
+        "NUMBER_NOT_FOUND"
+      );
+    }
+
+    if (existing.status === "Voided") return existing;
+
+    return tx.registrationNumber.update({
+      where: { number },
+      data: {
+        status: "Voided",
+        voidedAt: new Date(),
+        voidedBy: data.voidedBy,
+        voidReason: data.reason,
+      },
+    });
+  }
+
+  /**
+   * Void the number held by a candidate, e.g. when the registration is
+   * cancelled. Candidates without a tracked number are ignored.
+   */
+  static async voidForCandidate(
+    tx: Prisma.TransactionClient,
+    candidateId: string,
+    data: { voidedBy?: string; reason: string }
+  ): Promise<RegistrationNumber | null> {
+    const existing = await tx.registrationNumber.findUnique({
+      where: { candidateId },
+    });
+
+    if (!existing) return null;
+
+    return this.void(tx, existing.number, data);
+  }
+
+  /**
+   * Void reservations that were never assigned to a candidate.
+   */
+  static async releaseStaleReservations(olderThan: Date): Promise<number> {
+    const { count } = await prisma.registrationNumber.updateMany({
+      where: { status: "Reserved", reservedAt: { lt: olderThan } },
+      data: {
+        status: "Voided",
+        voidedAt: new Date(),
+        voidReason: "Reservation expired",
+      },
+    });
+
+    return count;
+  }
+}
+
+export { RegistrationNumberError };
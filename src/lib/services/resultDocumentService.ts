@@ -0,0 +1,736 @@
+// File: src/lib/services/resultDocumentService.ts
+import { createHash, randomInt } from "crypto";
+import type { Prisma, ResultDocumentKind } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { SessionAdmin } from "@/lib/server/adminSession";
+import { AssessmentService } from "@/lib/services/assessmentService";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { emailService } from "@/lib/services/emailService";
+import {
+  GradingService,
+  type SchoolResults,
+} from "@/lib/services/gradingService";
+import { PassportPhotoService } from "@/lib/services/passportPhotoService";
+import {
+  A4,
+  A4_LANDSCAPE,
+  PdfDocument,
+  type PdfColor,
+  type PdfImage,
+} from "@/lib/utils/pdf";
+
+// Unambiguous characters for printed codes: no 0/O or 1/I
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const CODE_PREFIX: Record<ResultDocumentKind, string> = {
+  Slip: "RS",
+  Broadsheet: "BS",
+};
+
+const ISSUER = "CATHOLIC EDUCATION COMMISSION";
+const MARGIN = 40;
+const GREY: PdfColor = [0.4, 0.4, 0.4];
+const LIGHT: PdfColor = [0.93, 0.93, 0.93];
+const FAIL: PdfColor = [0.75, 0.1, 0.1];
+
+class ResultDocumentError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "ResultDocumentError";
+  }
+}
+
+type DocumentContext = { admin: SessionAdmin } & Omit<AuditMeta, "performedBy">;
+
+type ResultCandidate = SchoolResults["candidates"][number];
+
+interface Letterhead {
+  session: { id: string; name: string; resultReleaseDate: Date | null };
+  school: { id: string; centerNumber: string; centerName: string };
+  scheme: SchoolResults["scheme"];
+  subjects: SchoolResults["subjects"];
+  provisional: boolean;
+}
+
+// What a slip shows, in a stable order so its digest can be recomputed
+function slipSnapshot(
+  candidate: ResultCandidate,
+  subjects: SchoolResults["subjects"]
+) {
+  return {
+    registrationNumber: candidate.registrationNumber,
+    name: fullName(candidate),
+    subjects: subjects
+      .filter((subject) => candidate.subjects[subject.code])
+      .map((subject) => {
+        const result = candidate.subjects[subject.code];
+        return {
+          code: subject.code,
+          name: subject.name,
+          total: result.complete ? result.total : null,
+          grade: result.complete ? result.grade : null,
+          passed: result.complete ? result.passed : null,
+        };
+      }),
+    subjectsGraded: candidate.subjectsGraded,
+    passes: candidate.passes,
+    average: candidate.average,
+    aggregate: candidate.aggregate,
+    position: candidate.position,
+  };
+}
+
+function broadsheetSnapshot(results: SchoolResults) {
+  return {
+    subjects: results.subjects.map((subject) => subject.code),
+    candidates: [...results.candidates]
+      .sort((a, b) => a.registrationNumber.localeCompare(b.registrationNumber))
+      .map((candidate) => ({
+        registrationNumber: candidate.registrationNumber,
+        grades: Object.fromEntries(
+          results.subjects
+            .filter((subject) => candidate.subjects[subject.code])
+            .map((subject) => {
+              const result = candidate.subjects[subject.code];
+              return [subject.code, result.complete ? result.grade : null];
+            })
+        ),
+        aggregate: candidate.aggregate,
+        position: candidate.position,
+      })),
+  };
+}
+
+const digestOf = (snapshot: unknown) =>
+  createHash("sha256").update(JSON.stringify(snapshot)).digest("hex");
+
+const fullName = (candidate: {
+  surname: string;
+  firstName: string;
+  otherName: string | null;
+}) =>
+  [candidate.surname, candidate.firstName, candidate.otherName]
+    .filter(Boolean)
+    .join(" ");
+
+const ordinal = (position: number) => {
+  const tens = position % 100;
+  if (tens >= 11 && tens <= 13) return `${position}th`;
+  return `${position}${["th", "st", "nd", "rd"][position % 10] ?? "th"}`;
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+export const verificationUrl = (code: string) =>
+  `${emailService.getBaseUrl()}/verify/result/${code}`;
+
+export class ResultDocumentService {
+  private static newCode(kind: ResultDocumentKind) {
+    const part = () =>
+      Array.from(
+        { length: 5 },
+        () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+      ).join("");
+    return `${CODE_PREFIX[kind]}-${part()}-${part()}`;
+  }
+
+  // Super admins pick the school; everyone else prints their own
+  private static async letterhead(
+    admin: SessionAdmin,
+    query: { examSessionId: string; schoolId?: string }
+  ): Promise<Letterhead & { results: SchoolResults }> {
+    const schoolId = AssessmentService.schoolOf(admin) ?? query.schoolId;
+    if (!schoolId) {
+      throw new ResultDocumentError(
+        "Choose the school to print results for",
+        "SCHOOL_REQUIRED"
+      );
+    }
+
+    const [session, school] = await Promise.all([
+      prisma.examSession.findUnique({
+        where: { id: query.examSessionId },
+        select: { id: true, name: true, resultReleaseDate: true },
+      }),
+      prisma.school.findUnique({
+        where: { id: schoolId },
+        select: { id: true, centerNumber: true, centerName: true },
+      }),
+    ]);
+
+    if (!session || !school) {
+      throw new ResultDocumentError(
+        session ? "School not found" : "Exam session not found",
+        session ? "SCHOOL_NOT_FOUND" : "EXAM_SESSION_NOT_FOUND",
+        404
+      );
+    }
+
+    const results = await GradingService.getResults(session.id, school.id);
+    if (results.candidates.length === 0) {
+      throw new ResultDocumentError(
+        "No results have been computed for this session yet",
+        "NO_RESULTS",
+        404
+      );
+    }
+
+    return {
+      session,
+      school,
+      scheme: results.scheme,
+      subjects: results.subjects,
+      provisional:
+        !session.resultReleaseDate || session.resultReleaseDate > new Date(),
+      results,
+    };
+  }
+
+  private static async issue(
+    documents: {
+      kind: ResultDocumentKind;
+      candidateId?: string;
+      snapshot: Prisma.InputJsonObject;
+    }[],
+    letterhead: Letterhead,
+    context: DocumentContext
+  ) {
+    const issued = documents.map((document) => ({
+      ...document,
+      code: this.newCode(document.kind),
+      digest: digestOf(document.snapshot),
+    }));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.resultDocument.createMany({
+        data: issued.map((document) => ({
+          code: document.code,
+          kind: document.kind,
+          issuedById: context.admin.id,
+          examSessionId: letterhead.session.id,
+          schoolId: letterhead.school.id,
+          candidateId: document.candidateId ?? null,
+          snapshot: document.snapshot,
+          digest: document.digest,
+        })),
+      });
+
+      await tx.adminAuditLog.create({
+        data: {
+          adminUserId: context.admin.id,
+          schoolId: letterhead.school.id,
+          action:
+            issued[0].kind === "Slip"
+              ? "RESULT_SLIPS_ISSUED"
+              : "BROADSHEET_ISSUED",
+          details: {
+            examSessionId: letterhead.session.id,
+            documents: issued.length,
+            codes: issued.slice(0, 50).map((document) => document.code),
+          },
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      });
+    });
+
+    return issued.map((document) => document.code);
+  }
+
+  private static header(
+    pdf: PdfDocument,
+    letterhead: Letterhead,
+    title: string
+  ) {
+    const centre = pdf.pageSize.width / 2;
+    pdf
+      .text(ISSUER, centre, MARGIN + 14, {
+        size: 15,
+        font: "bold",
+        align: "center",
+      })
+      .text(letterhead.session.name, centre, MARGIN + 32, {
+        size: 11,
+        align: "center",
+      })
+      .text(
+        letterhead.provisional ? `PROVISIONAL ${title}` : title,
+        centre,
+        MARGIN + 50,
+        { size: 12, font: "bold", align: "center" }
+      )
+      .line(MARGIN, MARGIN + 60, pdf.pageSize.width - MARGIN, MARGIN + 60, {
+        width: 1,
+      });
+  }
+
+  private static footer(pdf: PdfDocument, code: string, note?: string) {
+    const bottom = pdf.pageSize.height - MARGIN;
+    pdf
+      .line(MARGIN, bottom - 30, pdf.pageSize.width - MARGIN, bottom - 30)
+      .text(`Verification code: ${code}`, MARGIN, bottom - 16, {
+        size: 10,
+        font: "bold",
+      })
+      .text(`Verify at ${verificationUrl(code)}`, MARGIN, bottom - 4, {
+        size: 8,
+        color: GREY,
+      });
+    if (note) {
+      pdf.text(note, pdf.pageSize.width - MARGIN, bottom - 4, {
+        size: 8,
+        color: GREY,
+        align: "right",
+      });
+    }
+  }
+
+  private static renderSlip(
+    pdf: PdfDocument,
+    letterhead: Letterhead,
+    candidate: ResultCandidate,
+    photo: PdfImage | null,
+    code: string,
+    issuedAt: Date
+  ) {
+    const { width } = pdf.pageSize;
+    this.header(pdf, letterhead, "RESULT SLIP");
+
+    // Passport photo, top right
+    const photoWidth = 90;
+    const photoHeight = 116;
+    const photoX = width - MARGIN - photoWidth;
+    const photoY = MARGIN + 76;
+    if (photo) {
+      pdf.image(photo, photoX, photoY, photoWidth, photoHeight);
+    } else {
+      pdf.text("No photo", photoX + photoWidth / 2, photoY + photoHeight / 2, {
+        size: 9,
+        color: GREY,
+        align: "center",
+      });
+    }
+    pdf.rect(photoX, photoY, photoWidth, photoHeight, { stroke: GREY });
+
+    const details: [string, string][] = [
+      ["Name", fullName(candidate)],
+      ["Registration Number", candidate.registrationNumber],
+      [
+        "Centre",
+        `${letterhead.school.centerNumber} ${letterhead.school.centerName}`,
+      ],
+      ["Exam Session", letterhead.session.name],
+    ];
+    details.forEach(([label, value], index) => {
+      const y = MARGIN + 94 + index * 22;
+      pdf
+        .text(label, MARGIN, y, { size: 9, color: GREY })
+        .text(value, MARGIN + 120, y, {
+          size: 11,
+          font: "bold",
+          maxWidth: photoX - MARGIN - 140,
+        });
+    });
+
+    // Subjects table
+    const columns = [
+      { label: "Code", x: MARGIN + 6 },
+      { label: "Subject", x: MARGIN + 70 },
+      { label: "Total", x: width - MARGIN - 200, align: "right" as const },
+      { label: "Grade", x: width - MARGIN - 140 },
+      { label: "Remark", x: width - MARGIN - 80 },
+    ];
+    const rowHeight = 20;
+    let y = MARGIN + 220;
+
+    pdf.rect(MARGIN, y, width - 2 * MARGIN, rowHeight, { fill: LIGHT });
+    for (const column of columns) {
+      pdf.text(column.label, column.x, y + 14, {
+        size: 9,
+        font: "bold",
+        align: column.align,
+      });
+    }
+    y += rowHeight;
+
+    for (const subject of letterhead.subjects) {
+      const result = candidate.subjects[subject.code];
+      if (!result) continue;
+
+      const remark = !result.complete
+        ? "Incomplete"
+        : result.passed
+          ? "Pass"
+          : "Fail";
+      pdf
+        .text(subject.code, columns[0].x, y + 14, { size: 10 })
+        .text(subject.name, columns[1].x, y + 14, {
+          size: 10,
+          maxWidth: columns[2].x - columns[1].x - 50,
+        })
+        .text(
+          result.complete && result.total !== null ? String(result.total) : "—",
+          columns[2].x,
+          y + 14,
+          { size: 10, align: "right" }
+        )
+        .text(
+          result.complete ? (result.grade ?? "—") : "—",
+          columns[3].x,
+          y + 14,
+          {
+            size: 10,
+            font: "bold",
+          }
+        )
+        .text(remark, columns[4].x, y + 14, {
+          size: 10,
+          color: result.complete && !result.passed ? FAIL : undefined,
+        })
+        .line(MARGIN, y + rowHeight, width - MARGIN, y + rowHeight, {
+          color: GREY,
+          width: 0.25,
+        });
+      y += rowHeight;
+    }
+
+    // Summary
+    y += 24;
+    const summary: [string, string][] = [
+      ["Subjects Graded", String(candidate.subjectsGraded)],
+      ["Passes", String(candidate.passes)],
+      ["Average", candidate.average === null ? "—" : String(candidate.average)],
+      [
+        `Aggregate (best ${letterhead.scheme.aggregateSubjects})`,
+        candidate.aggregate === null ? "—" : String(candidate.aggregate),
+      ],
+      [
+        "Position in Centre",
+        candidate.position === null ? "—" : ordinal(candidate.position),
+      ],
+    ];
+    summary.forEach(([label, value], index) => {
+      const x = MARGIN + index * ((width - 2 * MARGIN) / summary.length);
+      pdf
+        .text(label, x, y, { size: 8, color: GREY })
+        .text(value, x, y + 18, { size: 14, font: "bold" });
+    });
+
+    y += 44;
+    pdf.text(
+      `Pass mark ${letterhead.scheme.passMark}. The aggregate adds the grade points of the best ${letterhead.scheme.aggregateSubjects} subjects; lower is better.`,
+      MARGIN,
+      y,
+      { size: 8, color: GREY }
+    );
+
+    this.footer(pdf, code, `Issued ${formatDate(issuedAt)}`);
+  }
+
+  /**
+   * Result slips for one candidate or every graded candidate of the school,
+   * one page each. Every slip is recorded with its own verification code.
+   */
+  static async resultSlips(
+    query: { examSessionId: string; schoolId?: string; candidateId?: string },
+    context: DocumentContext
+  ) {
+    const { results, ...letterhead } = await this.letterhead(
+      context.admin,
+      query
+    );
+
+    const candidates = query.candidateId
+      ? results.candidates.filter(
+          (candidate) => candidate.id === query.candidateId
+        )
+      : [...results.candidates].sort((a, b) =>
+          a.registrationNumber.localeCompare(b.registrationNumber)
+        );
+
+    if (candidates.length === 0) {
+      throw new ResultDocumentError(
+        "This candidate has no computed results",
+        "NO_RESULTS",
+        404
+      );
+    }
+
+    const codes = await this.issue(
+      candidates.map((candidate) => ({
+        kind: "Slip",
+        candidateId: candidate.id,
+        snapshot: slipSnapshot(candidate, letterhead.subjects),
+      })),
+      letterhead,
+      context
+    );
+
+    const photoUrls = new Map(
+      (
+        await prisma.candidate.findMany({
+          where: { id: { in: candidates.map((candidate) => candidate.id) } },
+          select: { id: true, passportPhotoUrl: true },
+        })
+      ).map((row) => [row.id, row.passportPhotoUrl])
+    );
+
+    const pdf = new PdfDocument(
+      A4,
+      `Result slips - ${letterhead.session.name}`
+    );
+    const issuedAt = new Date();
+
+    for (const [index, candidate] of candidates.entries()) {
+      if (index > 0) pdf.addPage();
+      const photo = await PassportPhotoService.loadForPrint(
+        photoUrls.get(candidate.id) ?? null
+      );
+      this.renderSlip(
+        pdf,
+        letterhead,
+        candidate,
+        photo,
+        codes[index],
+        issuedAt
+      );
+    }
+
+    return {
+      pdf: pdf.toBuffer(),
+      filename:
+        candidates.length === 1
+          ? `result-slip-${candidates[0].registrationNumber}.pdf`
+          : `result-slips-${letterhead.school.centerNumber}.pdf`,
+      count: candidates.length,
+    };
+  }
+
+  /**
+   * Every graded candidate of the school with a grade per subject, best
+   * aggregate first, on landscape pages that repeat the column headings.
+   */
+  static async broadsheet(
+    query: { examSessionId: string; schoolId?: string },
+    context: DocumentContext
+  ) {
+    const { results, ...letterhead } = await this.letterhead(
+      context.admin,
+      query
+    );
+
+    const [code] = await this.issue(
+      [{ kind: "Broadsheet", snapshot: broadsheetSnapshot(results) }],
+      letterhead,
+      context
+    );
+
+    const pdf = new PdfDocument(
+      A4_LANDSCAPE,
+      `Broadsheet - ${letterhead.school.centerNumber} - ${letterhead.session.name}`
+    );
+    const { width, height } = pdf.pageSize;
+
+    const fixed = [
+      { label: "Pos.", width: 32 },
+      { label: "Reg. Number", width: 92 },
+      { label: "Candidate", width: 150 },
+    ];
+    const trailing = [
+      { label: "Passes", width: 42 },
+      { label: "Avg.", width: 40 },
+      { label: "Agg.", width: 36 },
+    ];
+    const subjectWidth =
+      (width -
+        2 * MARGIN -
+        [...fixed, ...trailing].reduce(
+          (sum, column) => sum + column.width,
+          0
+        )) /
+      Math.max(results.subjects.length, 1);
+    const fontSize = Math.min(8, Math.max(5, subjectWidth / 4));
+
+    const columns = [
+      ...fixed.map((column) => ({ ...column, align: "left" as const })),
+      ...results.subjects.map((subject) => ({
+        label: subject.code,
+        width: subjectWidth,
+        align: "center" as const,
+      })),
+      ...trailing.map((column) => ({ ...column, align: "center" as const })),
+    ];
+
+    const rowHeight = 14;
+    const tableTop = MARGIN + 92;
+    const tableBottom = height - MARGIN - 40;
+    const rowsPerPage = Math.floor((tableBottom - tableTop) / rowHeight) - 1;
+    const pages = Math.max(
+      1,
+      Math.ceil(results.candidates.length / rowsPerPage)
+    );
+
+    const cellX = (index: number, align: "left" | "center") => {
+      const left =
+        MARGIN +
+        columns.slice(0, index).reduce((sum, column) => sum + column.width, 0);
+      return align === "center" ? left + columns[index].width / 2 : left + 3;
+    };
+
+    for (let page = 0; page < pages; page++) {
+      if (page > 0) pdf.addPage();
+      this.header(pdf, letterhead, "BROADSHEET");
+      pdf.text(
+        `${letterhead.school.centerNumber} ${letterhead.school.centerName} · ${results.candidates.length} candidate(s) · pass mark ${letterhead.scheme.passMark}`,
+        MARGIN,
+        MARGIN + 80,
+        { size: 9, color: GREY }
+      );
+
+      let y = tableTop;
+      pdf.rect(MARGIN, y, width - 2 * MARGIN, rowHeight, { fill: LIGHT });
+      columns.forEach((column, index) => {
+        pdf.text(column.label, cellX(index, column.align), y + 10, {
+          size: fontSize,
+          font: "bold",
+          align: column.align,
+          maxWidth: column.width - 2,
+        });
+      });
+      y += rowHeight;
+
+      const rows = results.candidates.slice(
+        page * rowsPerPage,
+        (page + 1) * rowsPerPage
+      );
+      for (const candidate of rows) {
+        const values: { text: string; color?: PdfColor }[] = [
+          {
+            text:
+              candidate.position === null ? "—" : ordinal(candidate.position),
+          },
+          { text: candidate.registrationNumber },
+          { text: `${candidate.surname} ${candidate.firstName}` },
+          ...results.subjects.map((subject) => {
+            const result = candidate.subjects[subject.code];
+            if (!result) return { text: "" };
+            if (!result.complete) return { text: "…" };
+            return {
+              text: result.grade ?? "—",
+              color: result.passed ? undefined : FAIL,
+            };
+          }),
+          { text: `${candidate.passes}/${candidate.subjectsGraded}` },
+          {
+            text: candidate.average === null ? "—" : String(candidate.average),
+          },
+          {
+            text:
+              candidate.aggregate === null ? "—" : String(candidate.aggregate),
+          },
+        ];
+
+        values.forEach((value, index) => {
+          pdf.text(value.text, cellX(index, columns[index].align), y + 10, {
+            size: fontSize,
+            align: columns[index].align,
+            color: value.color,
+            maxWidth: columns[index].width - 4,
+          });
+        });
+        pdf.line(MARGIN, y + rowHeight, width - MARGIN, y + rowHeight, {
+          color: GREY,
+          width: 0.25,
+        });
+        y += rowHeight;
+      }
+
+      this.footer(
+        pdf,
+        code,
+        `Issued ${formatDate(new Date())} · Page ${page + 1} of ${pages}`
+      );
+    }
+
+    return {
+      pdf: pdf.toBuffer(),
+      filename: `broadsheet-${letterhead.school.centerNumber}.pdf`,
+    };
+  }
+
+  /**
+   * Check a printed code. The document is "valid" while the results it
+   * showed are unchanged, and "superseded" once they have been regraded or
+   * corrected since it was issued.
+   */
+  static async verify(code: string) {
+    const document = await prisma.resultDocument.findUnique({
+      where: { code: code.trim().toUpperCase() },
+    });
+
+    if (!document) {
+      throw new ResultDocumentError(
+        "No result document has this verification code",
+        "DOCUMENT_NOT_FOUND",
+        404
+      );
+    }
+
+    const [session, school, results] = await Promise.all([
+      prisma.examSession.findUnique({
+        where: { id: document.examSessionId },
+        select: { name: true },
+      }),
+      prisma.school.findUnique({
+        where: { id: document.schoolId },
+        select: { centerNumber: true, centerName: true },
+      }),
+      GradingService.getResults(document.examSessionId, document.schoolId),
+    ]);
+
+    let current: unknown = null;
+    if (document.kind === "Broadsheet") {
+      current = broadsheetSnapshot(results);
+    } else {
+      const candidate = results.candidates.find(
+        (row) => row.id === document.candidateId
+      );
+      if (candidate) current = slipSnapshot(candidate, results.subjects);
+    }
+
+    const snapshot = document.snapshot as Prisma.JsonObject;
+
+    return {
+      code: document.code,
+      kind: document.kind,
+      status:
+        current && digestOf(current) === document.digest
+          ? ("valid" as const)
+          : ("superseded" as const),
+      issuedAt: document.issuedAt,
+      session: session?.name ?? null,
+      school,
+      ...(document.kind === "Slip"
+        ? { result: snapshot }
+        : {
+            candidates: Array.isArray(snapshot.candidates)
+              ? snapshot.candidates.length
+              : 0,
+            subjects: Array.isArray(snapshot.subjects)
+              ? snapshot.subjects.length
+              : 0,
+          }),
+    };
+  }
+}
+
+export { ResultDocumentError };
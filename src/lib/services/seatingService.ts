@@ -0,0 +1,672 @@
+// File: src/lib/services/seatingService.ts
+import { randomInt } from "crypto";
+import {
+  Prisma,
+  type ExamSessionStatus,
+  type RegistrationStatus,
+  type SeatingStrategy,
+} from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { toExamInstant } from "@/lib/utils/examTime";
+import type {
+  ExamHallInput,
+  ExamHallUpdateInput,
+} from "@/lib/validation/seating";
+
+// Candidates who may still sit the exam
+const SEATED_STATUSES: RegistrationStatus[] = [
+  "Pending",
+  "Submitted",
+  "Verified",
+];
+
+// Seating of finished or cancelled sessions is kept as a record
+const LOCKED_STATUSES: ExamSessionStatus[] = ["Completed", "Cancelled"];
+
+class SeatingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "SeatingError";
+  }
+}
+
+type SeatCandidate = {
+  id: string;
+  registrationNumber: string;
+  surname: string;
+  firstName: string;
+  otherName: string | null;
+};
+
+const candidateSelect = {
+  id: true,
+  registrationNumber: true,
+  surname: true,
+  firstName: true,
+  otherName: true,
+} satisfies Prisma.CandidateSelect;
+
+/**
+ * Order candidates for seating. Shuffling breaks up the alphabetical and
+ * registration-number runs that put classmates next to each other.
+ */
+export function orderForSeating<T extends SeatCandidate>(
+  candidates: T[],
+  strategy: SeatingStrategy
+): T[] {
+  const ordered = [...candidates];
+
+  switch (strategy) {
+    case "Alphabetical":
+      return ordered.sort(
+        (a, b) =>
+          a.surname.localeCompare(b.surname) ||
+          a.firstName.localeCompare(b.firstName) ||
+          a.registrationNumber.localeCompare(b.registrationNumber)
+      );
+    case "Registration_Number":
+      return ordered.sort((a, b) =>
+        a.registrationNumber.localeCompare(b.registrationNumber)
+      );
+    case "Shuffled":
+      // Fisher-Yates
+      for (let i = ordered.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [ordered[i], ordered[j]] = [ordered[j], ordered[i]];
+      }
+      return ordered;
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const fullName = (candidate: SeatCandidate) =>
+  [candidate.surname.toUpperCase(), candidate.firstName, candidate.otherName]
+    .filter(Boolean)
+    .join(" ");
+
+export type SeatingPlan = Awaited<ReturnType<typeof SeatingService.getPlan>>;
+
+export class SeatingService {
+  private static async audit(
+    tx: Prisma.TransactionClient,
+    action: string,
+    details: Prisma.InputJsonObject,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    await tx.adminAuditLog.create({
+      data: {
+        adminUserId: context.performedBy,
+        schoolId: context.schoolId,
+        action,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  /**
+   * The school's halls, alphabetically, with total active capacity.
+   */
+  static async listHalls(schoolId: string) {
+    const halls = await prisma.examHall.findMany({
+      where: { schoolId },
+      include: { _count: { select: { seats: true } } },
+      orderBy: { name: "asc" },
+    });
+
+    return {
+      halls,
+      totalCapacity: halls
+        .filter((hall) => hall.isActive)
+        .reduce((sum, hall) => sum + hall.capacity, 0),
+    };
+  }
+
+  private static async getHall(id: string, schoolId: string) {
+    const hall = await prisma.examHall.findFirst({
+      where: { id, schoolId },
+      include: { _count: { select: { seats: true } } },
+    });
+
+    if (!hall) {
+      throw new SeatingError("Exam hall not found", "HALL_NOT_FOUND", 404);
+    }
+
+    return hall;
+  }
+
+  private static async assertUniqueName(
+    schoolId: string,
+    name: string,
+    excludeId?: string
+  ) {
+    const existing = await prisma.examHall.findFirst({
+      where: {
+        schoolId,
+        name: { equals: name, mode: "insensitive" },
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new SeatingError(
+        "A hall with this name already exists",
+        "DUPLICATE_HALL",
+        409,
+        { name: "A hall with this name already exists" }
+      );
+    }
+  }
+
+  static async createHall(
+    input: ExamHallInput,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    await this.assertUniqueName(context.schoolId, input.name);
+
+    return prisma.$transaction(async (tx) => {
+      const hall = await tx.examHall.create({
+        data: { ...input, schoolId: context.schoolId },
+      });
+
+      await this.audit(
+        tx,
+        "EXAM_HALL_CREATED",
+        { hallId: hall.id, name: hall.name, capacity: hall.capacity },
+        context
+      );
+
+      return hall;
+    });
+  }
+
+  /**
+   * Rename, resize or (de)activate a hall. Seats already allocated keep their
+   * numbers; re-run the allocation to apply a new capacity.
+   */
+  static async updateHall(
+    id: string,
+    input: ExamHallUpdateInput,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    const hall = await this.getHall(id, context.schoolId);
+
+    if (input.name !== undefined) {
+      await this.assertUniqueName(context.schoolId, input.name, id);
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries(input)) {
+      const from = hall[field as keyof typeof input];
+      if (from !== value) changes[field] = { from, to: value };
+    }
+
+    if (Object.keys(changes).length === 0) return { hall, changes };
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.examHall.update({ where: { id }, data: input });
+
+      await this.audit(
+        tx,
+        "EXAM_HALL_UPDATED",
+        { hallId: id, name: result.name, changes } as Prisma.InputJsonObject,
+        context
+      );
+
+      return result;
+    });
+
+    return { hall: updated, changes };
+  }
+
+  /**
+   * Remove a hall that has never been used. Halls with seat allocations
+   * should be deactivated instead so past seating plans stay intact.
+   */
+  static async deleteHall(
+    id: string,
+    context: { schoolId: string } & AuditMeta
+  ) {
+    const hall = await this.getHall(id, context.schoolId);
+
+    if (hall._count.seats > 0) {
+      throw new SeatingError(
+        "This hall has seat allocations. Deactivate it instead",
+        "HALL_IN_USE",
+        409
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.examHall.delete({ where: { id } });
+      await this.audit(
+        tx,
+        "EXAM_HALL_DELETED",
+        { hallId: id, name: hall.name },
+        context
+      );
+    });
+  }
+
+  private static eligibleWhere(
+    schoolId: string,
+    entry: { examSessionId: string; subjectId: string }
+  ): Prisma.CandidateWhereInput {
+    return {
+      schoolId,
+      examSessionId: entry.examSessionId,
+      registrationStatus: { in: SEATED_STATUSES },
+      subjects: { some: { subjectId: entry.subjectId } },
+    };
+  }
+
+  /**
+   * Papers of the sessions the school takes part in, with how many of its
+   * candidates sit each one and how many have been given a seat.
+   */
+  static async listPapers(schoolId: string) {
+    const entries = await prisma.timetableEntry.findMany({
+      where: {
+        examSession: {
+          isActive: true,
+          status: { notIn: LOCKED_STATUSES },
+          OR: [
+            { schools: { none: {} } },
+            { schools: { some: { id: schoolId } } },
+          ],
+        },
+      },
+      include: {
+        subject: { select: { code: true, name: true } },
+        examSession: { select: { id: true, name: true } },
+      },
+    });
+
+    // startTime is 12-hour text, so order by the instant it stands for
+    const ordered = entries
+      .map((entry) => ({
+        entry,
+        start: toExamInstant(entry.date, entry.startTime).getTime(),
+      }))
+      .sort(
+        (a, b) =>
+          a.start - b.start ||
+          a.entry.subject.code.localeCompare(b.entry.subject.code)
+      )
+      .map(({ entry }) => entry);
+
+    return Promise.all(
+      ordered.map(async (entry) => {
+        const [candidates, seated] = await Promise.all([
+          prisma.candidate.count({
+            where: this.eligibleWhere(schoolId, entry),
+          }),
+          prisma.seatAllocation.count({
+            where: { timetableEntryId: entry.id, hall: { schoolId } },
+          }),
+        ]);
+
+        return { ...entry, candidates, seated };
+      })
+    );
+  }
+
+  private static async getPaper(timetableEntryId: string, schoolId: string) {
+    const entry = await prisma.timetableEntry.findFirst({
+      where: {
+        id: timetableEntryId,
+        examSession: {
+          OR: [
+            { schools: { none: {} } },
+            { schools: { some: { id: schoolId } } },
+          ],
+        },
+      },
+      include: {
+        subject: { select: { code: true, name: true } },
+        examSession: { select: { id: true, name: true, status: true } },
+      },
+    });
+
+    if (!entry) {
+      throw new SeatingError("Paper not found", "PAPER_NOT_FOUND", 404, {
+        timetableEntryId: "Paper not found",
+      });
+    }
+
+    return entry;
+  }
+
+  /**
+   * The sitting a paper belongs to: the paper and every other paper of the
+   * school's sessions whose time overlaps it, directly or through another
+   * paper. Papers of a sitting are in the halls at the same time.
+   */
+  private static async getSitting(
+    entry: { id: string; date: Date; startTime: string; duration: number },
+    schoolId: string
+  ) {
+    // A sitting cannot reach further than the days either side
+    const day = 24 * 60 * 60 * 1000;
+    const nearby = await prisma.timetableEntry.findMany({
+      where: {
+        id: { not: entry.id },
+        date: {
+          gte: new Date(entry.date.getTime() - day),
+          lte: new Date(entry.date.getTime() + day),
+        },
+        examSession: {
+          status: { not: "Cancelled" },
+          OR: [
+            { schools: { none: {} } },
+            { schools: { some: { id: schoolId } } },
+          ],
+        },
+      },
+      select: { id: true, date: true, startTime: true, duration: true },
+    });
+
+    const slots = [entry, ...nearby]
+      .map((paper) => {
+        const start = toExamInstant(paper.date, paper.startTime);
+        return {
+          id: paper.id,
+          start,
+          end: start.getTime() + paper.duration * 60 * 1000,
+        };
+      })
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    // Sweep in start order, closing a sitting at the first gap
+    let sitting: typeof slots = [];
+    let end = 0;
+    for (const slot of slots) {
+      if (sitting.length > 0 && slot.start.getTime() >= end) {
+        if (sitting.some((paper) => paper.id === entry.id)) break;
+        sitting = [];
+      }
+      sitting.push(slot);
+      end = Math.max(end, slot.end);
+    }
+
+    return {
+      startsAt: sitting[0].start,
+      concurrentIds: sitting
+        .map((paper) => paper.id)
+        .filter((id) => id !== entry.id),
+    };
+  }
+
+  /**
+   * Seat the school's candidates for a paper, filling active halls in name
+   * order and skipping seats held by other papers of the same sitting. Any
+   * earlier allocation for the paper at this school is replaced.
+   */
+  static async allocate(
+    input: { timetableEntryId: string; strategy: SeatingStrategy },
+    context: { schoolId: string } & AuditMeta
+  ) {
+    const { schoolId } = context;
+    const entry = await this.getPaper(input.timetableEntryId, schoolId);
+
+    if (LOCKED_STATUSES.includes(entry.examSession.status)) {
+      throw new SeatingError(
+        `Seating for a ${entry.examSession.status.toLowerCase()} session can no longer be changed`,
+        "EXAM_SESSION_LOCKED",
+        409
+      );
+    }
+
+    const sitting = await this.getSitting(entry, schoolId);
+
+    const [candidates, halls, held] = await Promise.all([
+      prisma.candidate.findMany({
+        where: this.eligibleWhere(schoolId, entry),
+        select: candidateSelect,
+      }),
+      prisma.examHall.findMany({
+        where: { schoolId, isActive: true },
+        orderBy: { name: "asc" },
+      }),
+      prisma.seatAllocation.findMany({
+        where: {
+          timetableEntryId: { in: sitting.concurrentIds },
+          hall: { schoolId },
+        },
+        select: { hallId: true, seatNumber: true },
+      }),
+    ]);
+
+    if (candidates.length === 0) {
+      throw new SeatingError(
+        "No candidates at this centre sit this paper",
+        "NO_CANDIDATES",
+        409
+      );
+    }
+
+    const taken = new Set(
+      held.map((seat) => `${seat.hallId}:${seat.seatNumber}`)
+    );
+    const free: { hallId: string; seatNumber: number }[] = [];
+    for (const hall of halls) {
+      for (let seat = 1; seat <= hall.capacity; seat++) {
+        if (!taken.has(`${hall.id}:${seat}`)) {
+          free.push({ hallId: hall.id, seatNumber: seat });
+        }
+      }
+    }
+
+    if (free.length < candidates.length) {
+      throw new SeatingError(
+        held.length > 0
+          ? `${candidates.length} candidates sit this paper but only ${free.length} seats are free while papers at the same time are seated. Add or enlarge a hall first`
+          : `${candidates.length} candidates sit this paper but the active halls only seat ${free.length}. Add or enlarge a hall first`,
+        "INSUFFICIENT_CAPACITY",
+        409
+      );
+    }
+
+    const seats: Prisma.SeatAllocationCreateManyInput[] = orderForSeating(
+      candidates,
+      input.strategy
+    ).map((candidate, i) => ({
+      timetableEntryId: entry.id,
+      candidateId: candidate.id,
+      ...free[i],
+      sittingAt: sitting.startsAt,
+      strategy: input.strategy,
+    }));
+
+    try {
+      await prisma.$transaction(
+        async (tx) => {
+          await tx.seatAllocation.deleteMany({
+            where: { timetableEntryId: entry.id, hall: { schoolId } },
+          });
+          await tx.seatAllocation.createMany({ data: seats });
+
+          await this.audit(
+            tx,
+            "SEATS_ALLOCATED",
+            {
+              timetableEntryId: entry.id,
+              subject: entry.subject.code,
+              paper: entry.paper,
+              strategy: input.strategy,
+              candidates: seats.length,
+              halls: [...new Set(seats.map((seat) => seat.hallId))].length,
+              concurrentPapers: sitting.concurrentIds.length,
+            },
+            context
+          );
+        },
+        { maxWait: 5000, timeout: 15000 }
+      );
+    } catch (error) {
+      // Another paper of the sitting was seated at the same moment
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new SeatingError(
+          "A paper at the same time was seated while this one was. Please try again.",
+          "SEATING_CONFLICT",
+          409
+        );
+      }
+      throw error;
+    }
+
+    return this.getPlan(entry.id, schoolId);
+  }
+
+  /**
+   * The seating plan for a paper at the school, hall by hall in seat order.
+   * Candidates registered after the allocation are counted as unseated.
+   */
+  static async getPlan(timetableEntryId: string, schoolId: string) {
+    const entry = await this.getPaper(timetableEntryId, schoolId);
+
+    const [school, allocations, eligible] = await Promise.all([
+      prisma.school.findUniqueOrThrow({
+        where: { id: schoolId },
+        select: { centerNumber: true, centerName: true },
+      }),
+      prisma.seatAllocation.findMany({
+        where: { timetableEntryId, hall: { schoolId } },
+        include: {
+          hall: { select: { id: true, name: true, capacity: true } },
+          candidate: { select: candidateSelect },
+        },
+        orderBy: [{ hall: { name: "asc" } }, { seatNumber: "asc" }],
+      }),
+      prisma.candidate.count({ where: this.eligibleWhere(schoolId, entry) }),
+    ]);
+
+    const halls = new Map<
+      string,
+      {
+        id: string;
+        name: string;
+        capacity: number;
+        seats: { seatNumber: number; candidate: SeatCandidate }[];
+      }
+    >();
+
+    for (const allocation of allocations) {
+      const hall = halls.get(allocation.hallId) ?? {
+        ...allocation.hall,
+        seats: [],
+      };
+      hall.seats.push({
+        seatNumber: allocation.seatNumber,
+        candidate: allocation.candidate,
+      });
+      halls.set(allocation.hallId, hall);
+    }
+
+    return {
+      school,
+      paper: {
+        id: entry.id,
+        subject: entry.subject,
+        paper: entry.paper,
+        date: entry.date,
+        startTime: entry.startTime,
+        duration: entry.duration,
+        examSession: { id: entry.examSession.id, name: entry.examSession.name },
+      },
+      strategy: allocations[0]?.strategy ?? null,
+      allocatedAt: allocations[0]?.createdAt ?? null,
+      halls: [...halls.values()],
+      seated: allocations.length,
+      unseated: Math.max(0, eligible - allocations.length),
+    };
+  }
+
+  /**
+   * A self-contained HTML seating plan, one hall per printed page, with a
+   * signature column for the attendance check.
+   */
+  static renderPlanHtml(plan: SeatingPlan): string {
+    const { school, paper } = plan;
+    const title = `${paper.subject.name} ${paper.paper}`;
+    const date = paper.date.toLocaleDateString("en-GB", {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+
+    const halls = plan.halls
+      .map(
+        (hall) => `
+  <section class="hall">
+    <header>
+      <h1>${escapeHtml(school.centerName)} (${escapeHtml(school.centerNumber)})</h1>
+      <h2>${escapeHtml(paper.examSession.name)}: ${escapeHtml(title)}</h2>
+      <p>${escapeHtml(date)}, ${escapeHtml(paper.startTime)} (${paper.duration} minutes)</p>
+      <h3>${escapeHtml(hall.name)}: ${hall.seats.length} of ${hall.capacity} seats</h3>
+    </header>
+    <table>
+      <thead>
+        <tr><th>Seat</th><th>Registration No.</th><th>Name</th><th>Signature</th></tr>
+      </thead>
+      <tbody>
+${hall.seats
+  .map(
+    (seat) =>
+      `        <tr><td>${seat.seatNumber}</td><td>${escapeHtml(seat.candidate.registrationNumber)}</td><td>${escapeHtml(fullName(seat.candidate))}</td><td></td></tr>`
+  )
+  .join("\n")}
+      </tbody>
+    </table>
+  </section>`
+      )
+      .join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Seating Plan - ${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 24px; }
+    h1 { font-size: 18px; margin: 0; }
+    h2 { font-size: 16px; margin: 4px 0; }
+    h3 { font-size: 15px; margin: 12px 0 8px; }
+    p { margin: 0; font-size: 13px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { border: 1px solid #444; padding: 6px 8px; text-align: left; }
+    td:first-child { width: 48px; text-align: center; }
+    td:last-child { width: 30%; }
+    .hall { page-break-after: always; margin-bottom: 32px; }
+    .hall:last-child { page-break-after: auto; }
+    .empty { font-size: 14px; }
+  </style>
+</head>
+<body>
+${halls || '  <p class="empty">No seats have been allocated for this paper.</p>'}
+</body>
+</html>
+`;
+  }
+}
+
+export { SeatingError };
@@ -0,0 +1,70 @@
+// File: src/lib/services/subjectService.ts
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import {
+  checkSubjectSelection,
+  parseSubjectRules,
+  type SubjectRules,
+} from "@/lib/validation/subject";
+
+export type SubjectCatalogue = Awaited<
+  ReturnType<typeof SubjectService.getCatalogue>
+>;
+
+export interface SubjectSelection {
+  codes: string[];
+  subjectIds: string[];
+  error: string | null;
+}
+
+export class SubjectService {
+  /**
+   * Active subjects, alphabetically.
+   */
+  static async getCatalogue() {
+    return prisma.subject.findMany({
+      where: { isActive: true },
+      select: { id: true, code: true, name: true },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  /**
+   * Selection rules for an exam session.
+   */
+  static getRules(examSession: {
+    subjectRules: Prisma.JsonValue | null;
+  }): SubjectRules {
+    return parseSubjectRules(examSession.subjectRules);
+  }
+
+  /**
+   * Resolve subject codes or names (as typed in a spreadsheet) to catalogue
+   * entries and check them against the session rules.
+   */
+  static resolveSelection(
+    values: string[],
+    rules: SubjectRules,
+    catalogue: SubjectCatalogue
+  ): SubjectSelection {
+    const byKey = new Map<string, SubjectCatalogue[number]>();
+    for (const subject of catalogue) {
+      byKey.set(subject.code.toUpperCase(), subject);
+      byKey.set(subject.name.toUpperCase(), subject);
+    }
+
+    const codes = [
+      ...new Set(
+        values.map((value) => {
+          const key = value.trim().toUpperCase();
+          return byKey.get(key)?.code ?? key;
+        })
+      ),
+    ];
+
+    const error = checkSubjectSelection(codes, rules, catalogue);
+    const subjectIds = error ? [] : codes.map((code) => byKey.get(code)!.id);
+
+    return { codes, subjectIds, error };
+  }
+}
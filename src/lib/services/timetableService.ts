@@ -0,0 +1,546 @@
+// File: src/lib/services/timetableService.ts
+import { Prisma, type ExamSessionStatus } from "@prisma/client";
+import { prisma } from "@/lib/server/prisma";
+import type { AuditMeta } from "@/lib/services/candidateService";
+import { SubjectService } from "@/lib/services/subjectService";
+import { startOfUtcDay, toExamInstant } from "@/lib/utils/examTime";
+import type {
+  TimetableEntryInput,
+  TimetableEntryUpdateInput,
+} from "@/lib/validation/timetable";
+
+// Timetables of finished or cancelled sessions are kept as a record
+const LOCKED_STATUSES: ExamSessionStatus[] = ["Completed", "Cancelled"];
+
+class TimetableError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status: number = 400,
+    public errors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "TimetableError";
+  }
+}
+
+const entryInclude = {
+  subject: { select: { id: true, code: true, name: true } },
+} satisfies Prisma.TimetableEntryInclude;
+
+type EntryRecord = Prisma.TimetableEntryGetPayload<{
+  include: typeof entryInclude;
+}>;
+
+export type TimetableSlot = EntryRecord & { start: Date; end: Date };
+
+export interface TimetableClash {
+  entryIds: [string, string];
+  subjects: [string, string];
+  // Candidates of the session taking both subjects
+  candidates: number;
+}
+
+/**
+ * Attach the start and end instants of each sitting and order by start.
+ */
+function toSlots(entries: EntryRecord[]): TimetableSlot[] {
+  return entries
+    .map((entry) => {
+      const start = toExamInstant(entry.date, entry.startTime);
+      return {
+        ...entry,
+        start,
+        end: new Date(start.getTime() + entry.duration * 60 * 1000),
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.start.getTime() - b.start.getTime() ||
+        a.subject.code.localeCompare(b.subject.code)
+    );
+}
+
+/**
+ * Pairs of sittings of different subjects whose times overlap. A candidate
+ * taking both subjects would have to be in two places at once; whether any
+ * does is for the caller to check.
+ */
+export function findSlotClashes(
+  slots: TimetableSlot[]
+): [TimetableSlot, TimetableSlot][] {
+  const pairs: [TimetableSlot, TimetableSlot][] = [];
+
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length; j++) {
+      // Sorted by start, so nothing later can overlap slot i either
+      if (slots[j].start >= slots[i].end) break;
+      if (slots[i].subjectId !== slots[j].subjectId) {
+        pairs.push([slots[i], slots[j]]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+export class TimetableService {
+  private static async getEditableSession(examSessionId: string) {
+    const session = await prisma.examSession.findUnique({
+      where: { id: examSessionId },
+      select: { id: true, name: true, status: true, examDate: true },
+    });
+
+    if (!session) {
+      throw new TimetableError(
+        "Exam session not found",
+        "EXAM_SESSION_NOT_FOUND",
+        404
+      );
+    }
+
+    if (LOCKED_STATUSES.includes(session.status)) {
+      throw new TimetableError(
+        `The timetable of a ${session.status.toLowerCase()} session can no longer be changed`,
+        "EXAM_SESSION_LOCKED",
+        409
+      );
+    }
+
+    return session;
+  }
+
+  private static async getEntry(examSessionId: string, entryId: string) {
+    const entry = await prisma.timetableEntry.findFirst({
+      where: { id: entryId, examSessionId },
+      include: entryInclude,
+    });
+
+    if (!entry) {
+      throw new TimetableError(
+        "Timetable entry not found",
+        "TIMETABLE_ENTRY_NOT_FOUND",
+        404
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Count the session's candidates affected by each overlapping pair and
+   * keep only the real clashes: pairs nobody sits both of, such as CRS and
+   * IRS, can share a slot. All pairs are counted in one grouped query.
+   */
+  private static async countClashes(
+    examSessionId: string,
+    pairs: [TimetableSlot, TimetableSlot][]
+  ): Promise<TimetableClash[]> {
+    if (pairs.length === 0) return [];
+
+    const pairKey = (a: string, b: string) =>
+      a < b ? `${a}|${b}` : `${b}|${a}`;
+    const subjectIds = [
+      ...new Set(pairs.flatMap(([a, b]) => [a.subjectId, b.subjectId])),
+    ];
+
+    const rows = await prisma.$queryRaw<
+      { first: string; second: string; candidates: number }[]
+    >`
+      SELECT a."subjectId" AS "first", b."subjectId" AS "second",
+             COUNT(*)::int AS "candidates"
+      FROM "public"."candidate_subjects" a
+      JOIN "public"."candidate_subjects" b
+        ON b."candidateId" = a."candidateId" AND a."subjectId" < b."subjectId"
+      JOIN "public"."candidates" c ON c."id" = a."candidateId"
+      WHERE c."examSessionId" = ${examSessionId}
+        AND c."registrationStatus" <> 'Cancelled'
+        AND a."subjectId" IN (${Prisma.join(subjectIds)})
+        AND b."subjectId" IN (${Prisma.join(subjectIds)})
+      GROUP BY a."subjectId", b."subjectId"
+    `;
+
+    const counts = new Map(
+      rows.map((row) => [
+        pairKey(row.first, row.second),
+        Number(row.candidates),
+      ])
+    );
+
+    return pairs.flatMap(([a, b]) => {
+      const candidates = counts.get(pairKey(a.subjectId, b.subjectId)) ?? 0;
+      return candidates > 0
+        ? [
+            {
+              entryIds: [a.id, b.id] as [string, string],
+              subjects: [a.subject.code, b.subject.code] as [string, string],
+              candidates,
+            },
+          ]
+        : [];
+    });
+  }
+
+  /**
+   * A session's timetable in sitting order, with the clashes it contains and
+   * the subject catalogue for the editor.
+   */
+  static async getTimetable(examSessionId: string) {
+    const session = await prisma.examSession.findUnique({
+      where: { id: examSessionId },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        examDate: true,
+        examTime: true,
+      },
+    });
+
+    if (!session) {
+      throw new TimetableError(
+        "Exam session not found",
+        "EXAM_SESSION_NOT_FOUND",
+        404
+      );
+    }
+
+    const [entries, subjects] = await Promise.all([
+      prisma.timetableEntry.findMany({
+        where: { examSessionId },
+        include: entryInclude,
+      }),
+      SubjectService.getCatalogue(),
+    ]);
+
+    const slots = toSlots(entries);
+    const clashes = await this.countClashes(
+      examSessionId,
+      findSlotClashes(slots)
+    );
+
+    return {
+      session: { ...session, locked: LOCKED_STATUSES.includes(session.status) },
+      entries: slots,
+      clashes,
+      subjects,
+    };
+  }
+
+  /**
+   * Check a sitting before it is saved: the subject must exist, the sitting
+   * cannot come before the exam date, and two papers of the same subject
+   * cannot overlap. Clashes between different subjects are allowed but
+   * reported back, since they may be resolved by moving another paper.
+   */
+  private static async checkEntry(
+    session: { id: string; examDate: Date },
+    entry: {
+      subjectCode: string;
+      paper: string;
+      date: Date;
+      startTime: string;
+      duration: number;
+    },
+    excludeId?: string
+  ) {
+    const subject = await prisma.subject.findUnique({
+      where: { code: entry.subjectCode },
+      select: { id: true, code: true, isActive: true },
+    });
+
+    if (!subject || !subject.isActive) {
+      throw new TimetableError("Unknown subject", "INVALID_SUBJECT", 400, {
+        subjectCode: `${entry.subjectCode} is not in the subject catalogue`,
+      });
+    }
+
+    if (startOfUtcDay(entry.date) < startOfUtcDay(session.examDate)) {
+      throw new TimetableError(
+        "Papers cannot be scheduled before the exam date",
+        "VALIDATION_ERROR",
+        400,
+        { date: "Must be on or after the session's exam date" }
+      );
+    }
+
+    const others = await prisma.timetableEntry.findMany({
+      where: {
+        examSessionId: session.id,
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+      include: entryInclude,
+    });
+
+    if (
+      others.some(
+        (other) =>
+          other.subjectId === subject.id &&
+          other.paper.toLowerCase() === entry.paper.toLowerCase()
+      )
+    ) {
+      throw new TimetableError(
+        `${subject.code} ${entry.paper} is already on the timetable`,
+        "DUPLICATE_PAPER",
+        409,
+        { paper: "This paper is already on the timetable" }
+      );
+    }
+
+    const start = toExamInstant(entry.date, entry.startTime);
+    const end = new Date(start.getTime() + entry.duration * 60 * 1000);
+    const overlapping = toSlots(others).filter(
+      (other) => other.start < end && start < other.end
+    );
+
+    const samePaper = overlapping.find(
+      (other) => other.subjectId === subject.id
+    );
+    if (samePaper) {
+      throw new TimetableError(
+        `${subject.code} ${entry.paper} overlaps ${samePaper.paper} of the same subject`,
+        "PAPER_OVERLAP",
+        409,
+        { startTime: `Overlaps ${samePaper.paper}` }
+      );
+    }
+
+    return { subjectId: subject.id };
+  }
+
+  /**
+   * Clashes involving one entry, after it has been saved.
+   */
+  private static async clashesFor(examSessionId: string, entryId: string) {
+    const entries = await prisma.timetableEntry.findMany({
+      where: { examSessionId },
+      include: entryInclude,
+    });
+
+    return this.countClashes(
+      examSessionId,
+      findSlotClashes(toSlots(entries)).filter(([a, b]) =>
+        [a.id, b.id].includes(entryId)
+      )
+    );
+  }
+
+  private static async audit(
+    tx: Prisma.TransactionClient,
+    action: string,
+    details: Prisma.InputJsonObject,
+    context: AuditMeta
+  ) {
+    await tx.adminAuditLog.create({
+      data: {
+        adminUserId: context.performedBy,
+        action,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  static async createEntry(
+    examSessionId: string,
+    input: TimetableEntryInput,
+    context: AuditMeta
+  ) {
+    const session = await this.getEditableSession(examSessionId);
+    const { subjectId } = await this.checkEntry(session, input);
+    const { subjectCode, ...fields } = input;
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await tx.timetableEntry.create({
+        data: { ...fields, examSessionId, subjectId },
+        include: entryInclude,
+      });
+
+      await this.audit(
+        tx,
+        "TIMETABLE_ENTRY_CREATED",
+        {
+          examSessionId,
+          entryId: created.id,
+          subject: subjectCode,
+          paper: created.paper,
+          date: created.date.toISOString(),
+          startTime: created.startTime,
+          duration: created.duration,
+        },
+        context
+      );
+
+      return created;
+    });
+
+    return {
+      entry,
+      clashes: await this.clashesFor(examSessionId, entry.id),
+    };
+  }
+
+  static async updateEntry(
+    examSessionId: string,
+    entryId: string,
+    input: TimetableEntryUpdateInput,
+    context: AuditMeta
+  ) {
+    const session = await this.getEditableSession(examSessionId);
+    const current = await this.getEntry(examSessionId, entryId);
+
+    const next = {
+      subjectCode: input.subjectCode ?? current.subject.code,
+      paper: input.paper ?? current.paper,
+      date: input.date ?? current.date,
+      startTime: input.startTime ?? current.startTime,
+      duration: input.duration ?? current.duration,
+    };
+
+    const { subjectId } = await this.checkEntry(session, next, entryId);
+
+    const before = {
+      subject: current.subject.code,
+      paper: current.paper,
+      date: current.date.toISOString(),
+      startTime: current.startTime,
+      duration: String(current.duration),
+    };
+    const after = {
+      subject: next.subjectCode,
+      paper: next.paper,
+      date: next.date.toISOString(),
+      startTime: next.startTime,
+      duration: String(next.duration),
+    };
+
+    const changes: Record<string, { from: string; to: string }> = {};
+    for (const field of Object.keys(before) as (keyof typeof before)[]) {
+      if (before[field] !== after[field]) {
+        changes[field] = { from: before[field], to: after[field] };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { entry: current, clashes: [], changes };
+    }
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const updated = await tx.timetableEntry.update({
+        where: { id: entryId },
+        data: {
+          subjectId,
+          paper: next.paper,
+          date: next.date,
+          startTime: next.startTime,
+          duration: next.duration,
+        },
+        include: entryInclude,
+      });
+
+      await this.audit(
+        tx,
+        "TIMETABLE_ENTRY_UPDATED",
+        { examSessionId, entryId, changes },
+        context
+      );
+
+      return updated;
+    });
+
+    return {
+      entry,
+      clashes: await this.clashesFor(examSessionId, entryId),
+      changes,
+    };
+  }
+
+  static async deleteEntry(
+    examSessionId: string,
+    entryId: string,
+    context: AuditMeta
+  ) {
+    await this.getEditableSession(examSessionId);
+    const entry = await this.getEntry(examSessionId, entryId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.timetableEntry.delete({ where: { id: entryId } });
+      await this.audit(
+        tx,
+        "TIMETABLE_ENTRY_DELETED",
+        {
+          examSessionId,
+          entryId,
+          subject: entry.subject.code,
+          paper: entry.paper,
+        },
+        context
+      );
+    });
+  }
+
+  /**
+   * The papers one of a school's candidates sits, in order, with any that
+   * clash flagged against each other.
+   */
+  static async getCandidateTimetable(candidateId: string, schoolId: string) {
+    const candidate = await prisma.candidate.findFirst({
+      where: { id: candidateId, schoolId },
+      select: {
+        id: true,
+        registrationNumber: true,
+        surname: true,
+        firstName: true,
+        otherName: true,
+        examSession: { select: { id: true, name: true } },
+        school: { select: { centerNumber: true, centerName: true } },
+        subjects: { select: { subjectId: true } },
+      },
+    });
+
+    if (!candidate) {
+      throw new TimetableError(
+        "Candidate not found",
+        "CANDIDATE_NOT_FOUND",
+        404
+      );
+    }
+
+    const entries = candidate.examSession
+      ? await prisma.timetableEntry.findMany({
+          where: {
+            examSessionId: candidate.examSession.id,
+            subjectId: {
+              in: candidate.subjects.map((subject) => subject.subjectId),
+            },
+          },
+          include: entryInclude,
+        })
+      : [];
+
+    const slots = toSlots(entries);
+    const clashing = new Map<string, string[]>();
+    for (const [a, b] of findSlotClashes(slots)) {
+      clashing.set(a.id, [...(clashing.get(a.id) ?? []), b.id]);
+      clashing.set(b.id, [...(clashing.get(b.id) ?? []), a.id]);
+    }
+
+    const { subjects, ...details } = candidate;
+    const scheduled = new Set(slots.map((slot) => slot.subjectId));
+
+    return {
+      candidate: details,
+      papers: slots.map((slot) => ({
+        ...slot,
+        clashesWith: clashing.get(slot.id) ?? [],
+      })),
+      // Chosen subjects with no paper on the timetable yet
+      unscheduledSubjects: subjects.filter(
+        (subject) => !scheduled.has(subject.subjectId)
+      ).length,
+    };
+  }
+}
+
+export { TimetableError };
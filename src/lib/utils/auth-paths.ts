@@ -6,6 +6,8 @@ export const PUBLIC_PATHS = [
   "/center/*",
   "/login",
   "/signup",
+  "/verify/*",
+  "/pay/*",
 ] as const;
 
 export const PRIVATE_PATHS = [
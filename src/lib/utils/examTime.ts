@@ -0,0 +1,27 @@
+// File: src/lib/utils/examTime.ts
+
+// Exams are held in West Africa Time, which has no daylight saving
+const EXAM_UTC_OFFSET_HOURS = 1;
+
+/**
+ * Midnight UTC of the given instant's day. Exam dates are stored this way.
+ */
+export const startOfUtcDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+/**
+ * The instant a sitting starts, reading a time such as "09:00 AM" as West
+ * Africa Time on the given day. Falls back to the start of the day when the
+ * time cannot be read.
+ */
+export function toExamInstant(date: Date, time: string): Date {
+  const match = time.match(/^(\d{1,2}):(\d{2})\s?(AM|PM)$/i);
+  const start = startOfUtcDay(date);
+  if (!match) return start;
+
+  const hours = (Number(match[1]) % 12) + (/pm/i.test(match[3]) ? 12 : 0);
+  start.setUTCHours(hours - EXAM_UTC_OFFSET_HOURS, Number(match[2]));
+  return start;
+}
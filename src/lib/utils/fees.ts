@@ -0,0 +1,107 @@
+// File: src/lib/utils/fees.ts
+import type { InvoiceLineKind } from "@prisma/client";
+import type { FeeRules } from "@/lib/validation/fee";
+
+export interface FeeLine {
+  kind: InvoiceLineKind;
+  description: string;
+  amount: number; // Naira; negative for discounts and waivers
+}
+
+export interface FeeSession {
+  registrationFee: number;
+  registrationEndDate: Date;
+  feeRules: FeeRules;
+}
+
+export interface FeeCandidate {
+  registeredAt: Date;
+  subjectCodes: string[];
+  waiverPercent?: number | null;
+}
+
+// Worked in kobo so the lines always add up to the total exactly
+const toKobo = (naira: number) => Math.round(naira * 100);
+
+const percentOf = (kobo: number, percent: number) =>
+  Math.round((kobo * percent) / 100);
+
+/**
+ * One candidate's fees, line by line: the registration fee, then the
+ * early-bird discount or late fee, the fee of each priced subject they take,
+ * and finally their waiver, which is a share of everything above it. Lines
+ * that come to nothing are left out, except the registration fee.
+ */
+export function candidateFeeLines(
+  candidate: FeeCandidate,
+  session: FeeSession
+): FeeLine[] {
+  const rules = session.feeRules;
+  const base = toKobo(session.registrationFee);
+  const lines: (Omit<FeeLine, "amount"> & { kobo: number })[] = [
+    { kind: "Registration_Fee", description: "Registration fee", kobo: base },
+  ];
+
+  const earlyBird = rules.earlyBird;
+  if (earlyBird && candidate.registeredAt < new Date(earlyBird.until)) {
+    const discount = Math.min(
+      base,
+      earlyBird.type === "percent"
+        ? percentOf(base, earlyBird.value)
+        : toKobo(earlyBird.value)
+    );
+    if (discount > 0) {
+      lines.push({
+        kind: "Early_Bird_Discount",
+        description:
+          earlyBird.type === "percent"
+            ? `Early-bird discount (${earlyBird.value}%)`
+            : "Early-bird discount",
+        kobo: -discount,
+      });
+    }
+  }
+
+  if (
+    rules.lateFee > 0 &&
+    candidate.registeredAt > session.registrationEndDate
+  ) {
+    lines.push({
+      kind: "Late_Fee",
+      description: "Late registration fee",
+      kobo: toKobo(rules.lateFee),
+    });
+  }
+
+  for (const code of [...candidate.subjectCodes].sort()) {
+    const fee = toKobo(rules.subjectFees[code] ?? 0);
+    if (fee > 0) {
+      lines.push({
+        kind: "Subject_Fee",
+        description: `Subject fee (${code})`,
+        kobo: fee,
+      });
+    }
+  }
+
+  if (candidate.waiverPercent) {
+    const subtotal = lines.reduce((sum, line) => sum + line.kobo, 0);
+    const waived = percentOf(subtotal, candidate.waiverPercent);
+    if (waived > 0) {
+      lines.push({
+        kind: "Waiver",
+        description: `Fee waiver (${candidate.waiverPercent}%)`,
+        kobo: -waived,
+      });
+    }
+  }
+
+  return lines.map(({ kobo, ...line }) => ({ ...line, amount: kobo / 100 }));
+}
+
+/**
+ * What a set of fee lines comes to, in naira.
+ */
+export function feeTotal(lines: FeeLine[]): number {
+  return lines.reduce((sum, line) => sum + toKobo(line.amount), 0) / 100;
+}
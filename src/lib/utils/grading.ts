@@ -0,0 +1,104 @@
+// File: src/lib/utils/grading.ts
+import type { AssessmentComponent } from "@/lib/validation/assessment";
+import type { GradingScheme } from "@/lib/validation/grading";
+
+/**
+ * Round a total to the scheme's precision. Works in hundredths first so
+ * binary fractions such as 64.5 round the way a person would expect.
+ */
+export function roundScore(
+  value: number,
+  rounding: GradingScheme["rounding"]
+): number {
+  const factor = 10 ** rounding.decimals;
+  const scaled = Math.round(value * 100 * factor) / 100;
+  const rounded =
+    rounding.mode === "down"
+      ? Math.floor(scaled)
+      : rounding.mode === "up"
+        ? Math.ceil(scaled)
+        : Math.floor(scaled + 0.5);
+  return rounded / factor;
+}
+
+/**
+ * Weighted total out of 100, or null until every component has a score.
+ * Each component contributes its fraction of the maximum times its weight,
+ * and the weights are scaled so they always add up to 100.
+ */
+export function weightedTotal(
+  scores: Map<string, number>,
+  components: AssessmentComponent[],
+  scheme: GradingScheme
+): number | null {
+  let total = 0;
+  let weightSum = 0;
+
+  for (const component of components) {
+    const score = scores.get(component.code);
+    if (score === undefined) return null;
+
+    const weight = scheme.weights[component.code] ?? component.maxScore;
+    total += (score / component.maxScore) * weight;
+    weightSum += weight;
+  }
+
+  if (weightSum === 0) return null;
+  return roundScore((total / weightSum) * 100, scheme.rounding);
+}
+
+export function gradeFor(total: number, scheme: GradingScheme) {
+  const boundary =
+    scheme.boundaries.find((candidate) => total >= candidate.min) ??
+    scheme.boundaries[scheme.boundaries.length - 1];
+
+  return {
+    grade: boundary.grade,
+    points: boundary.points,
+    passed: total >= scheme.passMark,
+  };
+}
+
+/**
+ * Competition ranking: equal values share a position and the next value
+ * skips ahead (1, 2, 2, 4). Items without a value are left unranked.
+ */
+export function rankWithTies<T>(
+  items: T[],
+  valueOf: (item: T) => number | null,
+  order: "asc" | "desc"
+): Map<T, number> {
+  const ranked = items
+    .filter((item) => valueOf(item) !== null)
+    .sort((a, b) =>
+      order === "asc" ? valueOf(a)! - valueOf(b)! : valueOf(b)! - valueOf(a)!
+    );
+
+  const positions = new Map<T, number>();
+  ranked.forEach((item, index) => {
+    const previous = ranked[index - 1];
+    positions.set(
+      item,
+      previous && valueOf(previous) === valueOf(item)
+        ? positions.get(previous)!
+        : index + 1
+    );
+  });
+
+  return positions;
+}
+
+/**
+ * Sum of the best (lowest) grade points over the scheme's aggregate
+ * subjects, or null when fewer subjects than that have been graded.
+ */
+export function aggregateFor(
+  points: number[],
+  scheme: GradingScheme
+): number | null {
+  if (points.length < scheme.aggregateSubjects) return null;
+  return [...points]
+    .sort((a, b) => a - b)
+    .slice(0, scheme.aggregateSubjects)
+    .reduce((sum, value) => sum + value, 0);
+}
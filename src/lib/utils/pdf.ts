@@ -0,0 +1,376 @@
+// File: src/lib/utils/pdf.ts
+import { deflateSync } from "zlib";
+
+/**
+ * A small PDF 1.4 writer for server-rendered documents: text in the
+ * built-in Helvetica faces, lines, boxes and JPEG images. Positions are in
+ * points from the top-left corner of the page, with text placed by its
+ * baseline.
+ */
+
+export type PdfFont = "regular" | "bold";
+export type PdfColor = [number, number, number]; // 0-1 RGB
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export const A4: PdfPageSize = { width: 595.28, height: 841.89 };
+export const A4_LANDSCAPE: PdfPageSize = { width: 841.89, height: 595.28 };
+
+// A baseline RGB JPEG
+export interface PdfImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: "left" | "center" | "right";
+  color?: PdfColor;
+  // Longer text is cut short with an ellipsis
+  maxWidth?: number;
+}
+
+const FONT_RESOURCES: Record<PdfFont, { key: string; name: string }> = {
+  regular: { key: "F1", name: "Helvetica" },
+  bold: { key: "F2", name: "Helvetica-Bold" },
+};
+
+// Advance widths in 1/1000 em of characters 32-126, from the Adobe AFM files
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+    584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+    278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+    500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+    584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+    278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+    556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+    500, 389, 280, 389, 584,
+  ],
+};
+
+// Widths of characters 160-255, where WinAnsiEncoding matches Latin-1
+const LATIN1_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 333, 556, 556, 556, 556, 260, 556, 333, 737, 370, 556, 584, 333, 737,
+    333, 400, 584, 333, 333, 333, 556, 537, 278, 333, 333, 365, 556, 834, 834,
+    834, 611, 667, 667, 667, 667, 667, 667, 1000, 722, 667, 667, 667, 667, 278,
+    278, 278, 278, 722, 722, 778, 778, 778, 778, 778, 584, 778, 722, 722, 722,
+    722, 667, 667, 611, 556, 556, 556, 556, 556, 556, 889, 500, 556, 556, 556,
+    556, 278, 278, 278, 278, 556, 556, 556, 556, 556, 556, 556, 584, 611, 556,
+    556, 556, 556, 500, 556, 500,
+  ],
+  bold: [
+    278, 333, 556, 556, 556, 556, 280, 556, 333, 737, 370, 556, 584, 333, 737,
+    333, 400, 584, 333, 333, 333, 611, 556, 278, 333, 333, 365, 556, 834, 834,
+    834, 611, 722, 722, 722, 722, 722, 722, 1000, 722, 667, 667, 667, 667, 278,
+    278, 278, 278, 722, 722, 778, 778, 778, 778, 778, 584, 778, 722, 722, 722,
+    722, 667, 667, 611, 556, 556, 556, 556, 556, 556, 889, 556, 556, 556, 556,
+    556, 278, 278, 278, 278, 611, 611, 611, 611, 611, 611, 611, 584, 611, 611,
+    611, 611, 611, 556, 611, 556,
+  ],
+};
+
+// Other characters WinAnsiEncoding covers: code, then the regular and bold
+// widths
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  "€": [0x80, 556, 556],
+  "…": [0x85, 1000, 1000],
+  "–": [0x96, 556, 556],
+  "—": [0x97, 1000, 1000],
+  "‘": [0x91, 222, 278],
+  "’": [0x92, 222, 278],
+  "“": [0x93, 333, 500],
+  "”": [0x94, 333, 500],
+  "•": [0x95, 350, 350],
+  "™": [0x99, 1000, 1000],
+  Š: [0x8a, 667, 667],
+  Œ: [0x8c, 1000, 1000],
+  Ž: [0x8e, 611, 611],
+  š: [0x9a, 500, 556],
+  œ: [0x9c, 944, 944],
+  ž: [0x9e, 500, 500],
+  Ÿ: [0x9f, 667, 667],
+};
+
+function encodeDirect(char: string, font: PdfFont): [number, number] | null {
+  const code = char.charCodeAt(0);
+  if (char.length !== 1) return null;
+  if (code >= 32 && code <= 126) return [code, ASCII_WIDTHS[font][code - 32]];
+  if (code >= 160 && code <= 255) {
+    return [code, LATIN1_WIDTHS[font][code - 160]];
+  }
+  const extra = WIN_ANSI_EXTRAS[char];
+  return extra ? [extra[0], font === "bold" ? extra[2] : extra[1]] : null;
+}
+
+// Letters WinAnsiEncoding lacks, such as the Yoruba "ọ" or "ẹ́", lose the
+// marks it cannot show ("o", "é") and accents left on their own are
+// dropped; anything else prints as "?"
+function encodeText(text: string, font: PdfFont): [number, number][] {
+  const encoded: [number, number][] = [];
+
+  // Each letter with the accents that follow it
+  for (const [cluster] of text.normalize("NFD").matchAll(/\P{M}?\p{M}*/gu)) {
+    if (!cluster) continue;
+    const [base, ...marks] = cluster;
+    if (/\p{M}/u.test(base)) continue;
+
+    const char =
+      encodeDirect(cluster.normalize("NFC"), font) ??
+      marks
+        .map((mark) => encodeDirect((base + mark).normalize("NFC"), font))
+        .find(Boolean) ??
+      encodeDirect(base, font);
+    encoded.push(char ?? [0x3f, ASCII_WIDTHS[font][0x3f - 32]]);
+  }
+
+  return encoded;
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const colorOps = (color: PdfColor, op: "rg" | "RG") =>
+  `${color.map(num).join(" ")} ${op}`;
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images = new Map<PdfImage, string>();
+
+  constructor(
+    readonly pageSize: PdfPageSize = A4,
+    private title?: string
+  ) {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    return this;
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private y(top: number) {
+    return this.pageSize.height - top;
+  }
+
+  static textWidth(text: string, size: number, font: PdfFont = "regular") {
+    const width = encodeText(text, font).reduce(
+      (sum, [, charWidth]) => sum + charWidth,
+      0
+    );
+    return (width * size) / 1000;
+  }
+
+  private fit(text: string, size: number, font: PdfFont, maxWidth?: number) {
+    if (!maxWidth || PdfDocument.textWidth(text, size, font) <= maxWidth) {
+      return text;
+    }
+    const chars = [...text];
+    while (
+      chars.length > 0 &&
+      PdfDocument.textWidth(chars.join("") + "…", size, font) > maxWidth
+    ) {
+      chars.pop();
+    }
+    return chars.join("") + "…";
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}) {
+    const { size = 10, font = "regular", align = "left", color } = options;
+    const fitted = this.fit(text, size, font, options.maxWidth);
+    const width = PdfDocument.textWidth(fitted, size, font);
+    const left =
+      align === "center" ? x - width / 2 : align === "right" ? x - width : x;
+
+    const hex = encodeText(fitted, font)
+      .map(([code]) => code.toString(16).padStart(2, "0"))
+      .join("");
+
+    this.ops.push(
+      "BT",
+      color ? colorOps(color, "rg") : "0 0 0 rg",
+      `/${FONT_RESOURCES[font].key} ${num(size)} Tf`,
+      `${num(left)} ${num(this.y(y))} Td`,
+      `<${hex}> Tj`,
+      "ET"
+    );
+    return this;
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options: { width?: number; color?: PdfColor } = {}
+  ) {
+    const { width = 0.5, color = [0, 0, 0] } = options;
+    this.ops.push(
+      colorOps(color, "RG"),
+      `${num(width)} w`,
+      `${num(x1)} ${num(this.y(y1))} m ${num(x2)} ${num(this.y(y2))} l S`
+    );
+    return this;
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number } = {}
+  ) {
+    const { fill, stroke, lineWidth = 0.5 } = options;
+    if (!fill && !stroke) return this;
+
+    const ops = [
+      `${num(x)} ${num(this.y(y + height))} ${num(width)} ${num(height)} re`,
+    ];
+    if (fill) ops.unshift(colorOps(fill, "rg"));
+    if (stroke) ops.unshift(colorOps(stroke, "RG"), `${num(lineWidth)} w`);
+    ops.push(fill && stroke ? "B" : fill ? "f" : "S");
+
+    this.ops.push(...ops);
+    return this;
+  }
+
+  image(image: PdfImage, x: number, y: number, width: number, height: number) {
+    let name = this.images.get(image);
+    if (!name) {
+      name = `Im${this.images.size}`;
+      this.images.set(image, name);
+    }
+
+    this.ops.push(
+      "q",
+      `${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.y(y + height))} cm`,
+      `/${name} Do`,
+      "Q"
+    );
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(
+        typeof body === "string" ? Buffer.from(body, "latin1") : body
+      );
+      return objects.length;
+    };
+    const stream = (dictionary: string, data: Buffer) =>
+      Buffer.concat([
+        Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+        data,
+        Buffer.from("\nendstream"),
+      ]);
+
+    // Object numbers are fixed up front: catalog, page tree, fonts, info
+    const catalogRef = add("<< /Type /Catalog /Pages 2 0 R >>");
+    const pagesIndex = add("") - 1;
+    const fontRefs = Object.values(FONT_RESOURCES).map(({ key, name }) => [
+      key,
+      add(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`
+      ),
+    ]);
+    const infoRef = add(
+      `<< /Producer (CEC Portal)${
+        this.title
+          ? ` /Title (${this.title.replace(/[\\()]/g, "\\$&").replace(/[^\x20-\x7e]/g, "")})`
+          : ""
+      } >>`
+    );
+
+    const imageRefs = [...this.images].map(([image, name]) => [
+      name,
+      add(
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+          image.data
+        )
+      ),
+    ]);
+
+    const fonts = fontRefs.map(([key, ref]) => `/${key} ${ref} 0 R`).join(" ");
+    const xObjects = imageRefs
+      .map(([name, ref]) => `/${name} ${ref} 0 R`)
+      .join(" ");
+    const resources = `<< /Font << ${fonts} >>${
+      xObjects ? ` /XObject << ${xObjects} >>` : ""
+    } >>`;
+
+    const pageRefs = this.pages.map((ops) => {
+      const contentRef = add(
+        stream(
+          "/Filter /FlateDecode",
+          deflateSync(Buffer.from(ops.join("\n"), "latin1"))
+        )
+      );
+      return add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.pageSize.width)} ${num(
+          this.pageSize.height
+        )}] /Resources ${resources} /Contents ${contentRef} 0 R >>`
+      );
+    });
+
+    objects[pagesIndex] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageRefs
+        .map((ref) => `${ref} 0 R`)
+        .join(" ")}] /Count ${pageRefs.length} >>`
+    );
+
+    const chunks: Buffer[] = [
+      Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+    ];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`),
+        body,
+        Buffer.from("\nendobj\n"),
+      ]);
+      offsets.push(offset);
+      offset += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((value) => `${String(value).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+    ].join("\n");
+    chunks.push(Buffer.from(xref + "\n"));
+
+    return Buffer.concat(chunks);
+  }
+}
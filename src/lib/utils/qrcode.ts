@@ -0,0 +1,50 @@
+// File: src/lib/utils/qrcode.ts
+
+import QRCode from "qrcode";
+
+/**
+ * QR codes for the short links printed on portal documents. Encoding is left
+ * to the `qrcode` package; this module only turns its matrix into SVG.
+ */
+
+export interface QrCode {
+  size: number;
+  // modules[y][x], true for dark
+  modules: boolean[][];
+}
+
+/**
+ * Encode text at error correction level M as the smallest QR code that
+ * holds it. Throws when the text does not fit in any version.
+ */
+export function encodeQrCode(text: string): QrCode {
+  let code: QRCode.QRCode;
+  try {
+    code = QRCode.create(text, { errorCorrectionLevel: "M" });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("too big")) {
+      throw new Error("Text is too long for a QR code");
+    }
+    throw error;
+  }
+
+  const { size } = code.modules;
+  const modules = Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => code.modules.get(y, x) === 1)
+  );
+  return { size, modules };
+}
+
+/**
+ * An SVG path drawing the dark modules as unit squares, offset by a quiet
+ * zone of four modules. The viewBox is `0 0 size+8 size+8`.
+ */
+export function qrCodePath({ size, modules }: QrCode): string {
+  const parts: string[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) parts.push(`M${x + 4},${y + 4}h1v1h-1z`);
+    }
+  }
+  return parts.join("");
+}
@@ -0,0 +1,141 @@
+// File: src/lib/utils/spreadsheet.ts
+import ExcelJS from "exceljs";
+
+export const SPREADSHEET_MAX_BYTES = 5 * 1024 * 1024; // 5MB
+
+export interface SpreadsheetRow {
+  rowNumber: number; // 1-based row in the source file, header is row 1
+  values: Record<string, string>;
+}
+
+export interface ParsedSpreadsheet {
+  headers: string[];
+  labels: string[]; // header text as written, in the same order as headers
+  rows: SpreadsheetRow[];
+}
+
+/**
+ * Normalise a header so "Date of Birth", "date_of_birth" and "DateOfBirth"
+ * all map to the same key.
+ */
+export function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF/LF endings.
+ * Values are kept as strings so NINs and phone numbers keep leading zeros.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+function toRows(records: string[][]): ParsedSpreadsheet {
+  const [headerRecord = [], ...dataRecords] = records;
+  const headers = headerRecord.map((header) => normaliseHeader(header));
+  const labels = headerRecord.map((header) => header.trim());
+
+  const rows = dataRecords
+    .map((record, index) => ({
+      rowNumber: index + 2,
+      values: Object.fromEntries(
+        headers.map((header, column) => [header, (record[column] ?? "").trim()])
+      ),
+    }))
+    .filter((row) => Object.values(row.values).some((value) => value !== ""));
+
+  return { headers, labels, rows };
+}
+
+function cellToString(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (value === null || value === undefined) return "";
+  return cell.text ?? String(value);
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const records: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const record: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      record.push(cellToString(row.getCell(column)));
+    }
+    records.push(record);
+  });
+
+  return records;
+}
+
+/**
+ * Read an uploaded CSV or XLSX file into header-keyed rows. Only the first
+ * worksheet of a workbook is read.
+ */
+export async function parseSpreadsheet(file: File): Promise<ParsedSpreadsheet> {
+  if (file.size > SPREADSHEET_MAX_BYTES) {
+    throw new Error("File size must be less than 5MB");
+  }
+
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".csv")) {
+    return toRows(parseCsv(await file.text()));
+  }
+
+  if (name.endsWith(".xlsx")) {
+    return toRows(await parseXlsx(await file.arrayBuffer()));
+  }
+
+  throw new Error("Only .csv and .xlsx files are supported");
+}
@@ -0,0 +1,139 @@
+// File: src/lib/validation/assessment.ts
+import { z } from "zod";
+
+export const ASSESSMENT_STATUSES = [
+  "Draft",
+  "Submitted",
+  "Moderated",
+  "Locked",
+] as const;
+
+// Stored in ExamSession.assessmentComponents, in column order
+export const AssessmentComponentsSchema = z
+  .array(
+    z.object({
+      code: z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(
+          /^[A-Z0-9_]{1,10}$/,
+          "Component codes are 1-10 letters or digits"
+        ),
+      label: z.string().trim().max(50).optional(),
+      maxScore: z
+        .number({ error: "Maximum score is required" })
+        .int("Maximum score must be a whole number")
+        .min(1, "Maximum score must be at least 1")
+        .max(100, "Maximum score cannot exceed 100"),
+    })
+  )
+  .min(1, "At least one assessment component is required")
+  .max(10, "No more than 10 assessment components are allowed")
+  .refine(
+    (components) =>
+      new Set(components.map((component) => component.code)).size ===
+      components.length,
+    { message: "Component codes must be unique" }
+  );
+
+export type AssessmentComponent = z.infer<
+  typeof AssessmentComponentsSchema
+>[number];
+
+export const DEFAULT_ASSESSMENT_COMPONENTS: AssessmentComponent[] = [
+  { code: "CA1", label: "First CA", maxScore: 20 },
+  { code: "CA2", label: "Second CA", maxScore: 20 },
+  { code: "EXAM", label: "Examination", maxScore: 60 },
+];
+
+/**
+ * Read a session's stored components, falling back to the defaults when
+ * they are missing or malformed.
+ */
+export function parseAssessmentComponents(
+  value: unknown
+): AssessmentComponent[] {
+  const parsed = AssessmentComponentsSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_ASSESSMENT_COMPONENTS;
+}
+
+/**
+ * Check one score against its component. Returns the problem, or null when
+ * the score is acceptable. Shared by the score grid and the scores API.
+ */
+export function checkScore(
+  score: number,
+  component: AssessmentComponent
+): string | null {
+  if (!Number.isFinite(score)) return "Score must be a number";
+  if (score < 0) return "Score cannot be negative";
+  if (score > component.maxScore) {
+    return `${component.code} is out of ${component.maxScore}`;
+  }
+  // Stored as DECIMAL(5,2)
+  if (Math.abs(Math.round(score * 100) - score * 100) > 1e-9) {
+    return "Use at most two decimal places";
+  }
+  return null;
+}
+
+const scoreCells = z
+  .array(
+    z.object({
+      candidateId: z.string().trim().min(1),
+      component: z.string().trim().toUpperCase().min(1),
+      score: z.number({ error: "Score must be a number" }).nullable(),
+    })
+  )
+  .min(1, "No scores were provided")
+  .max(5000, "Save no more than 5000 scores at a time");
+
+// Required by the service for changes to a submitted or moderated sheet
+const changeReason = z.string().trim().max(500).optional();
+
+// Body of PUT /api/admin/assessments/sheet. A null score clears the cell.
+export const AssessmentScoresSchema = z.object({
+  examSessionId: z
+    .string({ error: "Exam session is required" })
+    .trim()
+    .min(1, "Exam session is required"),
+  subjectCode: z
+    .string({ error: "Subject is required" })
+    .trim()
+    .toUpperCase()
+    .min(1, "Subject is required"),
+  scores: scoreCells,
+  reason: changeReason,
+});
+
+export type AssessmentScoresInput = z.infer<typeof AssessmentScoresSchema>;
+
+// Body of PUT /api/admin/assessments/sheets/:id
+export const AssessmentSheetScoresSchema = z.object({
+  scores: scoreCells,
+  reason: changeReason,
+});
+
+export type AssessmentSheetScoresInput = z.infer<
+  typeof AssessmentSheetScoresSchema
+>;
+
+// Body of POST /api/admin/assessments/sheets/:id/status
+export const AssessmentStatusChangeSchema = z.object({
+  status: z.enum(ASSESSMENT_STATUSES, { error: "Status is invalid" }),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Which spreadsheet column feeds what, by normalised header. A component
+// mapped to null is not imported; one left out is matched automatically.
+export const AssessmentImportMappingSchema = z.object({
+  registrationNumber: z.string().trim().min(1).optional(),
+  components: z
+    .record(z.string().trim().toUpperCase(), z.string().trim().nullable())
+    .default({}),
+});
+
+export type AssessmentImportMapping = z.infer<
+  typeof AssessmentImportMappingSchema
+>;
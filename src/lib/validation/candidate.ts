@@ -0,0 +1,158 @@
+// File: src/lib/validation/candidate.ts
+import { z } from "zod";
+
+export const NIGERIAN_PHONE_REGEX = /^(\+234|0)[789][01]\d{8}$/;
+export const NIN_REGEX = /^\d{11}$/;
+export const MINIMUM_CANDIDATE_AGE = 16;
+
+export const GENDERS = ["Male", "Female"] as const;
+export const DISABILITIES = [
+  "None",
+  "Visual",
+  "Hearing",
+  "Physical",
+  "Learning",
+  "Other",
+] as const;
+
+function ageOn(birthDate: Date, today: Date = new Date()): number {
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+  if (
+    monthDiff < 0 ||
+    (monthDiff === 0 && today.getDate() < birthDate.getDate())
+  ) {
+    age--;
+  }
+  return age;
+}
+
+// Same rules the enrol form applies in validateStep1/validateStep2
+export const CandidateSchema = z.object({
+  surname: z.string().trim().min(1, "Surname is required").max(100),
+  firstName: z.string().trim().min(1, "First name is required").max(100),
+  otherName: z
+    .string()
+    .trim()
+    .max(100)
+    .optional()
+    .transform((value) => value || undefined),
+  dateOfBirth: z.coerce
+    .date({ error: "Date of birth is required" })
+    .refine((date) => !Number.isNaN(date.getTime()), {
+      message: "Date of birth is invalid",
+    })
+    .refine((date) => ageOn(date) >= MINIMUM_CANDIDATE_AGE, {
+      message: `You must be at least ${MINIMUM_CANDIDATE_AGE} years old to register`,
+    }),
+  gender: z.enum(GENDERS, { error: "Gender is required" }),
+  state: z.string().trim().min(1, "State is required"),
+  lga: z.string().trim().min(1, "LGA is required"),
+  nin: z
+    .string()
+    .transform((value) => value.replace(/\s/g, ""))
+    .pipe(z.string().regex(NIN_REGEX, "NIN must be exactly 11 digits")),
+  phoneNumber: z
+    .string()
+    .transform((value) => value.replace(/\s/g, ""))
+    .pipe(
+      z
+        .string()
+        .regex(
+          NIGERIAN_PHONE_REGEX,
+          "Please enter a valid Nigerian phone number"
+        )
+    ),
+  disability: z
+    .union([z.enum(DISABILITIES), z.literal("")])
+    .optional()
+    .transform((value) => value || "None"),
+  // Subject codes (or names, from spreadsheets); checked against the exam
+  // session's rules by the service
+  subjects: z.preprocess(
+    (value) => (typeof value === "string" ? value.split(/[,;]/) : value),
+    z
+      .array(z.string().trim(), { error: "Please select your subjects" })
+      .transform((values) => [...new Set(values.filter(Boolean))])
+      .refine((values) => values.length > 0, {
+        message: "Please select your subjects",
+      })
+  ),
+  acceptedTerms: z
+    .union([z.boolean(), z.enum(["true", "false"])])
+    .transform((value) => value === true || value === "true")
+    .refine((value) => value, {
+      message: "You must accept the terms and conditions",
+    }),
+});
+
+export type CandidateInput = z.infer<typeof CandidateSchema>;
+
+/**
+ * Flatten zod issues into the `{ field: message }` map the forms render.
+ */
+export function toFieldErrors(error: z.ZodError): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join(".") || "form";
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  return errors;
+}
+
+export const REGISTRATION_STATUSES = [
+  "Pending",
+  "Submitted",
+  "Verified",
+  "Rejected",
+  "Cancelled",
+] as const;
+
+export const CANDIDATE_SORT_FIELDS = [
+  "registrationNumber",
+  "surname",
+  "firstName",
+  "dateOfBirth",
+  "state",
+  "registrationStatus",
+  "createdAt",
+] as const;
+
+// Query string accepted by GET /api/admin/candidates
+export const CandidateListQuerySchema = z.object({
+  cursor: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  search: z.string().trim().max(100).optional(),
+  status: z.enum(REGISTRATION_STATUSES).optional(),
+  state: z.string().trim().min(1).optional(),
+  gender: z.enum(GENDERS).optional(),
+  sortBy: z.enum(CANDIDATE_SORT_FIELDS).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type CandidateListQuery = z.infer<typeof CandidateListQuerySchema>;
+
+// Fields an admin may change through PATCH /api/admin/candidates/:id
+export const CandidateUpdateSchema = CandidateSchema.omit({
+  acceptedTerms: true,
+})
+  .partial()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "No changes were provided",
+  });
+
+export type CandidateUpdateInput = z.infer<typeof CandidateUpdateSchema>;
+
+// Body of POST /api/admin/candidates/:id/status
+export const CandidateStatusChangeSchema = z.object({
+  status: z.enum(REGISTRATION_STATUSES, { error: "Status is invalid" }),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Body of the batch submit/verify endpoints
+export const CandidateBatchStatusSchema = z.object({
+  candidateIds: z
+    .array(z.string().trim().min(1))
+    .min(1, "Select at least one candidate"),
+  reason: z.string().trim().max(500).optional(),
+});
@@ -0,0 +1,79 @@
+// File: src/lib/validation/dispute.ts
+import { z } from "zod";
+
+export const DISPUTE_STATUSES = [
+  "Open",
+  "Under_Review",
+  "Resolved",
+  "Rejected",
+] as const;
+
+const optionalId = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => value || undefined);
+
+// Fields of the multipart POST /api/admin/disputes; evidence files travel
+// alongside as "evidence"
+export const DisputeSchema = z
+  .object({
+    invoiceId: optionalId,
+    paymentId: optionalId,
+    subject: z
+      .string({ error: "Subject is required" })
+      .trim()
+      .min(5, "Subject must be at least 5 characters")
+      .max(150),
+    description: z
+      .string({ error: "Describe the problem" })
+      .trim()
+      .min(10, "Describe the problem in at least 10 characters")
+      .max(2000),
+  })
+  .refine((value) => !!value.invoiceId || !!value.paymentId, {
+    message: "Choose the invoice or payment the dispute is about",
+    path: ["invoiceId"],
+  });
+
+export type DisputeInput = z.infer<typeof DisputeSchema>;
+
+// Body of POST /api/admin/disputes/:id/comments
+export const DisputeCommentSchema = z.object({
+  body: z
+    .string({ error: "Comment is required" })
+    .trim()
+    .min(1, "Comment is required")
+    .max(2000),
+});
+
+// Body of PATCH /api/admin/disputes/:id
+export const DisputeStatusSchema = z
+  .object({
+    status: z.enum(["Under_Review", "Resolved", "Rejected"], {
+      error: "Status must be Under_Review, Resolved or Rejected",
+    }),
+    note: z
+      .string()
+      .trim()
+      .max(2000)
+      .optional()
+      .transform((value) => value || undefined),
+  })
+  .refine((value) => value.status === "Under_Review" || !!value.note, {
+    message: "Tell the school the outcome",
+    path: ["note"],
+  });
+
+export type DisputeStatusInput = z.infer<typeof DisputeStatusSchema>;
+
+// Query of GET /api/admin/disputes; schoolId is only honoured for
+// Super_Admin
+export const DisputeListQuerySchema = z.object({
+  cursor: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(DISPUTE_STATUSES).optional(),
+  schoolId: z.string().trim().min(1).optional(),
+});
+
+export type DisputeListQuery = z.infer<typeof DisputeListQuerySchema>;
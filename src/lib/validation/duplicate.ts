@@ -0,0 +1,24 @@
+// File: src/lib/validation/duplicate.ts
+import { z } from "zod";
+
+export const DUPLICATE_FLAG_STATUSES = ["Open", "Merged", "Dismissed"] as const;
+
+// Query string accepted by GET /api/admin/duplicates
+export const DuplicateListQuerySchema = z.object({
+  status: z.enum(DUPLICATE_FLAG_STATUSES).default("Open"),
+  cursor: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Body of PATCH /api/admin/duplicates/:id
+export const DuplicateResolutionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("dismiss"),
+    note: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal("merge"),
+    keepCandidateId: z.string().trim().min(1, "Choose the record to keep"),
+    note: z.string().trim().max(500).optional(),
+  }),
+]);
@@ -0,0 +1,153 @@
+// File: src/lib/validation/examSession.ts
+import { z } from "zod";
+import { AssessmentComponentsSchema } from "@/lib/validation/assessment";
+import { FeeRulesSchema } from "@/lib/validation/fee";
+import { SubjectRulesSchema } from "@/lib/validation/subject";
+
+export const EXAM_SESSION_STATUSES = [
+  "Upcoming",
+  "Registration_Open",
+  "Registration_Closed",
+  "In_Progress",
+  "Completed",
+  "Cancelled",
+] as const;
+
+// e.g. "09:00 AM", the format already stored in ExamSession.examTime
+export const EXAM_TIME_REGEX = /^(0?[1-9]|1[0-2]):[0-5]\d\s?(AM|PM)$/i;
+
+export const dateField = (label: string) =>
+  z.coerce
+    .date({ error: `${label} is required` })
+    .refine((date) => !Number.isNaN(date.getTime()), {
+      message: `${label} is invalid`,
+    });
+
+// Normalised to "09:00 AM"
+export const examTimeField = (label: string) =>
+  z
+    .string({ error: `${label} is required` })
+    .trim()
+    .regex(EXAM_TIME_REGEX, `${label} must look like 09:00 AM`)
+    .transform((value) => value.toUpperCase().replace(/\s?(AM|PM)$/, " $1"));
+
+/**
+ * When registration finally closes: the end of late registration if the
+ * session has one, otherwise the registration end date.
+ */
+export function registrationClosesAt(session: {
+  registrationEndDate: Date;
+  lateRegistrationEndDate?: Date | null;
+}): Date {
+  return session.lateRegistrationEndDate ?? session.registrationEndDate;
+}
+
+/**
+ * Registration must open before it closes, and close no later than the
+ * exam date; late registration, if any, follows it and also ends by the
+ * exam date. Results, when scheduled, come out after the exam. Returns field
+ * errors, empty when the dates are consistent.
+ */
+export function checkSessionDates(dates: {
+  examDate: Date;
+  registrationStartDate: Date;
+  registrationEndDate: Date;
+  lateRegistrationEndDate?: Date | null;
+  resultReleaseDate?: Date | null;
+}): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (dates.registrationEndDate <= dates.registrationStartDate) {
+    errors.registrationEndDate = "Registration must close after it opens";
+  } else if (dates.registrationEndDate > dates.examDate) {
+    errors.registrationEndDate =
+      "Registration must close on or before the exam date";
+  }
+
+  if (dates.lateRegistrationEndDate) {
+    if (dates.lateRegistrationEndDate <= dates.registrationEndDate) {
+      errors.lateRegistrationEndDate =
+        "Late registration must close after registration closes";
+    } else if (dates.lateRegistrationEndDate > dates.examDate) {
+      errors.lateRegistrationEndDate =
+        "Late registration must close on or before the exam date";
+    }
+  }
+
+  if (dates.resultReleaseDate && dates.resultReleaseDate <= dates.examDate) {
+    errors.resultReleaseDate = "Results must be released after the exam date";
+  }
+
+  return errors;
+}
+
+const ExamSessionFields = z.object({
+  name: z.string().trim().min(1, "Session name is required").max(150),
+  description: z
+    .string()
+    .trim()
+    .max(2000)
+    .nullish()
+    .transform((value) => value || null),
+  examDate: dateField("Exam date"),
+  examTime: examTimeField("Exam time"),
+  duration: z.coerce
+    .number({ error: "Duration is required" })
+    .int("Duration must be a whole number of minutes")
+    .min(1, "Duration must be at least 1 minute")
+    .max(24 * 60, "Duration cannot exceed 24 hours"),
+  registrationStartDate: dateField("Registration start date"),
+  registrationEndDate: dateField("Registration end date"),
+  // Optional; an empty value clears it
+  lateRegistrationEndDate: z
+    .preprocess(
+      (value) => (value === "" ? null : value),
+      dateField("Late registration end date").nullable()
+    )
+    .optional(),
+  // Optional; an empty value clears it
+  resultReleaseDate: z
+    .preprocess(
+      (value) => (value === "" ? null : value),
+      dateField("Result release date").nullable()
+    )
+    .optional(),
+  registrationFee: z.coerce
+    .number({ error: "Registration fee is required" })
+    .min(0, "Registration fee cannot be negative")
+    .max(99_999_999.99),
+  isActive: z.boolean().optional(),
+  feeRules: FeeRulesSchema.nullish(),
+  subjectRules: SubjectRulesSchema.nullish(),
+  assessmentComponents: AssessmentComponentsSchema.nullish(),
+});
+
+// Body of POST /api/admin/exam-sessions
+export const ExamSessionSchema = ExamSessionFields.superRefine((value, ctx) => {
+  for (const [path, message] of Object.entries(checkSessionDates(value))) {
+    ctx.addIssue({ code: "custom", message, path: [path] });
+  }
+});
+
+export type ExamSessionInput = z.infer<typeof ExamSessionSchema>;
+
+// Body of PATCH /api/admin/exam-sessions/:id; dates are re-checked against
+// the stored values by the service
+export const ExamSessionUpdateSchema = ExamSessionFields.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  { message: "No changes were provided" }
+);
+
+export type ExamSessionUpdateInput = z.infer<typeof ExamSessionUpdateSchema>;
+
+// Body of POST /api/admin/exam-sessions/:id/status
+export const ExamSessionStatusChangeSchema = z.object({
+  status: z.enum(EXAM_SESSION_STATUSES, { error: "Status is invalid" }),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Body of PUT /api/admin/exam-sessions/:id/schools. An empty list opens the
+// session to every school.
+export const ExamSessionSchoolsSchema = z.object({
+  schoolIds: z.array(z.string().trim().min(1)).max(5000),
+});
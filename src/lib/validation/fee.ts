@@ -0,0 +1,93 @@
+// File: src/lib/validation/fee.ts
+import { z } from "zod";
+
+export const DISCOUNT_TYPES = ["amount", "percent"] as const;
+
+const feeAmount = (label: string) =>
+  z
+    .number({ error: `${label} must be a number` })
+    .min(0, `${label} cannot be negative`)
+    .max(99_999_999.99);
+
+// Kept as an ISO string so it reads back from the Json column unchanged
+const isoDate = (label: string) =>
+  z
+    .string({ error: `${label} is required` })
+    .trim()
+    .refine((value) => !Number.isNaN(Date.parse(value)), {
+      message: `${label} is invalid`,
+    })
+    .transform((value) => new Date(value).toISOString());
+
+// Stored in ExamSession.feeRules, on top of the session's registration fee.
+// Amounts are in naira; codes refer to Subject.code.
+export const FeeRulesSchema = z.object({
+  // Taken off the registration fee of candidates registered before `until`
+  earlyBird: z
+    .object({
+      until: isoDate("Early-bird deadline"),
+      type: z.enum(DISCOUNT_TYPES, { error: "Discount type is invalid" }),
+      value: z
+        .number({ error: "Discount must be a number" })
+        .positive("Discount must be more than zero")
+        .max(99_999_999.99),
+    })
+    .refine(
+      (discount) => discount.type !== "percent" || discount.value <= 100,
+      {
+        message: "A percentage discount cannot exceed 100",
+        path: ["value"],
+      }
+    )
+    .nullish(),
+  // Added for candidates registered after the registration end date
+  lateFee: feeAmount("Late fee").default(0),
+  // Added for each of these subjects a candidate takes
+  subjectFees: z
+    .record(z.string().trim().toUpperCase(), feeAmount("Subject fee"))
+    .default({}),
+});
+
+export type FeeRules = z.infer<typeof FeeRulesSchema>;
+
+export const DEFAULT_FEE_RULES: FeeRules = {
+  earlyBird: null,
+  lateFee: 0,
+  subjectFees: {},
+};
+
+/**
+ * Read a session's stored fee rules; missing or malformed rules charge the
+ * registration fee alone.
+ */
+export function parseFeeRules(value: unknown): FeeRules {
+  const parsed = FeeRulesSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_FEE_RULES;
+}
+
+// Body of POST /api/admin/fee-waivers
+export const FeeWaiverSchema = z.object({
+  registrationNumber: z
+    .string({ error: "Registration number is required" })
+    .trim()
+    .toUpperCase()
+    .min(1, "Registration number is required"),
+  percent: z.coerce
+    .number({ error: "Waiver percentage is required" })
+    .int("Waiver percentage must be a whole number")
+    .min(1, "Waiver percentage must be between 1 and 100")
+    .max(100, "Waiver percentage must be between 1 and 100"),
+  reason: z
+    .string({ error: "Reason is required" })
+    .trim()
+    .min(5, "Give a reason of at least 5 characters")
+    .max(500),
+});
+
+export type FeeWaiverInput = z.infer<typeof FeeWaiverSchema>;
+
+// Query of GET /api/admin/fee-waivers
+export const FeeWaiverListQuerySchema = z.object({
+  examSessionId: z.string().trim().min(1).optional(),
+  search: z.string().trim().max(100).optional(),
+});
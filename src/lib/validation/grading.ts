@@ -0,0 +1,126 @@
+// File: src/lib/validation/grading.ts
+import { z } from "zod";
+
+export const ROUNDING_MODES = ["half_up", "down", "up"] as const;
+
+// Stored as JSON in SystemConfig under gradingSchemeKey(examSessionId)
+export const GradingSchemeSchema = z
+  .object({
+    // Percentage weight of each component, keyed by component code.
+    // Components without a weight count in proportion to their maximum.
+    weights: z
+      .record(
+        z.string().trim().toUpperCase(),
+        z
+          .number({ error: "Weight must be a number" })
+          .min(0, "Weights cannot be negative")
+          .max(100, "Weights cannot exceed 100")
+      )
+      .default({}),
+    // Lowest total for each grade, best grade first
+    boundaries: z
+      .array(
+        z.object({
+          grade: z
+            .string()
+            .trim()
+            .toUpperCase()
+            .min(1, "Grade is required")
+            .max(5),
+          min: z
+            .number({ error: "Boundary must be a number" })
+            .min(0, "Boundaries cannot be negative")
+            .max(100, "Boundaries cannot exceed 100"),
+          points: z
+            .number({ error: "Points must be a number" })
+            .int("Points must be a whole number")
+            .min(0)
+            .max(99),
+        })
+      )
+      .min(2, "At least two grades are required")
+      .max(20),
+    // Lowest total counted as a pass in a subject
+    passMark: z
+      .number({ error: "Pass mark must be a number" })
+      .min(0, "Pass mark cannot be negative")
+      .max(100, "Pass mark cannot exceed 100"),
+    rounding: z.object({
+      decimals: z
+        .number()
+        .int()
+        .min(0, "Decimals must be between 0 and 2")
+        .max(2, "Decimals must be between 0 and 2"),
+      mode: z.enum(ROUNDING_MODES, { error: "Rounding mode is invalid" }),
+    }),
+    // The aggregate adds the points of this many best subjects
+    aggregateSubjects: z
+      .number({ error: "Aggregate subjects must be a number" })
+      .int("Aggregate subjects must be a whole number")
+      .min(1, "Aggregate at least 1 subject")
+      .max(15, "Aggregate no more than 15 subjects"),
+  })
+  .superRefine((scheme, ctx) => {
+    const grades = scheme.boundaries.map((boundary) => boundary.grade);
+    if (new Set(grades).size !== grades.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Grades must be unique",
+        path: ["boundaries"],
+      });
+    }
+
+    for (let i = 1; i < scheme.boundaries.length; i++) {
+      if (scheme.boundaries[i].min >= scheme.boundaries[i - 1].min) {
+        ctx.addIssue({
+          code: "custom",
+          message: "List grades from best to worst with falling boundaries",
+          path: ["boundaries"],
+        });
+        break;
+      }
+    }
+
+    if (scheme.boundaries[scheme.boundaries.length - 1]?.min !== 0) {
+      ctx.addIssue({
+        code: "custom",
+        message: "The lowest grade must start at 0",
+        path: ["boundaries"],
+      });
+    }
+  });
+
+export type GradingScheme = z.infer<typeof GradingSchemeSchema>;
+
+// WAEC-style nine-point scale with a credit pass at C6
+export const DEFAULT_GRADING_SCHEME: GradingScheme = {
+  weights: {},
+  boundaries: [
+    { grade: "A1", min: 75, points: 1 },
+    { grade: "B2", min: 70, points: 2 },
+    { grade: "B3", min: 65, points: 3 },
+    { grade: "C4", min: 60, points: 4 },
+    { grade: "C5", min: 55, points: 5 },
+    { grade: "C6", min: 50, points: 6 },
+    { grade: "D7", min: 45, points: 7 },
+    { grade: "E8", min: 40, points: 8 },
+    { grade: "F9", min: 0, points: 9 },
+  ],
+  passMark: 50,
+  rounding: { decimals: 0, mode: "half_up" },
+  aggregateSubjects: 6,
+};
+
+/**
+ * Read a session's stored scheme, falling back to the default when it is
+ * missing or malformed.
+ */
+export function parseGradingScheme(value: unknown): GradingScheme {
+  const parsed = GradingSchemeSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_GRADING_SCHEME;
+}
+
+// Body of PUT /api/admin/exam-sessions/:id/grading; null restores the default
+export const GradingSchemeUpdateSchema = z.object({
+  scheme: GradingSchemeSchema.nullable(),
+});
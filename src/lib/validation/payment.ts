@@ -0,0 +1,88 @@
+// File: src/lib/validation/payment.ts
+import { z } from "zod";
+
+export const PAYMENT_METHODS = ["Bank_Transfer", "Bank_Deposit"] as const;
+
+const reasonField = (label: string) =>
+  z
+    .string({ error: `${label} is required` })
+    .trim()
+    .min(3, `${label} is required`)
+    .max(500);
+
+// Body of POST /api/admin/invoices
+export const InvoiceGenerateSchema = z.object({
+  examSessionId: z
+    .string({ error: "Exam session is required" })
+    .trim()
+    .min(1, "Exam session is required"),
+});
+
+// Body of POST /api/admin/invoices/:id/cancel
+export const InvoiceCancelSchema = z.object({
+  reason: reasonField("A reason"),
+});
+
+// Body of POST /api/admin/payments
+export const PaymentSchema = z.object({
+  invoiceId: z
+    .string({ error: "Invoice is required" })
+    .trim()
+    .min(1, "Invoice is required"),
+  amount: z.coerce
+    .number({ error: "Amount is required" })
+    .positive("Amount must be greater than zero")
+    .max(9_999_999_999.99)
+    .refine(
+      (value) => /^\d+(\.\d{1,2})?$/.test(String(value)),
+      "Amount cannot have more than 2 decimal places"
+    ),
+  method: z.enum(PAYMENT_METHODS, { error: "Payment method is invalid" }),
+  payerReference: z
+    .string({ error: "Teller or transfer reference is required" })
+    .trim()
+    .min(3, "Teller or transfer reference is required")
+    .max(100),
+});
+
+export type PaymentInput = z.infer<typeof PaymentSchema>;
+
+// Body of POST /api/admin/payments/online
+export const OnlinePaymentSchema = PaymentSchema.pick({
+  invoiceId: true,
+  amount: true,
+});
+
+export type OnlinePaymentInput = z.infer<typeof OnlinePaymentSchema>;
+
+// Body of PATCH /api/admin/payments/:id
+export const PaymentReviewSchema = z
+  .object({
+    status: z.enum(["Successful", "Failed"], {
+      error: "Status must be Successful or Failed",
+    }),
+    note: z
+      .string()
+      .trim()
+      .max(500)
+      .optional()
+      .transform((value) => value || undefined),
+  })
+  .refine((value) => value.status === "Successful" || !!value.note, {
+    message: "Say why the payment is being rejected",
+    path: ["note"],
+  });
+
+export type PaymentReviewInput = z.infer<typeof PaymentReviewSchema>;
+
+// Query of GET /api/admin/payments; schoolId is only honoured for
+// Super_Admin
+export const PaymentListQuerySchema = z.object({
+  cursor: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(["Pending", "Successful", "Failed"]).optional(),
+  examSessionId: z.string().trim().min(1).optional(),
+  schoolId: z.string().trim().min(1).optional(),
+});
+
+export type PaymentListQuery = z.infer<typeof PaymentListQuerySchema>;
@@ -0,0 +1,42 @@
+// File: src/lib/validation/seating.ts
+import { z } from "zod";
+
+export const SEATING_STRATEGIES = [
+  "Alphabetical",
+  "Registration_Number",
+  "Shuffled",
+] as const;
+
+// Body of POST /api/admin/halls
+export const ExamHallSchema = z.object({
+  name: z
+    .string({ error: "Hall name is required" })
+    .trim()
+    .min(1, "Hall name is required")
+    .max(100),
+  capacity: z.coerce
+    .number({ error: "Capacity is required" })
+    .int("Capacity must be a whole number of seats")
+    .min(1, "Capacity must be at least 1 seat")
+    .max(5000, "Capacity cannot exceed 5000 seats"),
+  isActive: z.boolean().optional(),
+});
+
+export type ExamHallInput = z.infer<typeof ExamHallSchema>;
+
+// Body of PATCH /api/admin/halls/:id
+export const ExamHallUpdateSchema = ExamHallSchema.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  { message: "No changes were provided" }
+);
+
+export type ExamHallUpdateInput = z.infer<typeof ExamHallUpdateSchema>;
+
+// Body of POST /api/admin/seating
+export const SeatAllocationSchema = z.object({
+  timetableEntryId: z
+    .string({ error: "Paper is required" })
+    .trim()
+    .min(1, "Paper is required"),
+  strategy: z.enum(SEATING_STRATEGIES, { error: "Strategy is invalid" }),
+});
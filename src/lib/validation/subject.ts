@@ -0,0 +1,87 @@
+// File: src/lib/validation/subject.ts
+import { z } from "zod";
+
+// Stored in ExamSession.subjectRules; codes refer to Subject.code
+export const SubjectRulesSchema = z
+  .object({
+    compulsory: z.array(z.string().trim().toUpperCase()).default([]),
+    minSubjects: z.number().int().min(1),
+    maxSubjects: z.number().int().min(1),
+    // Each group lists codes of which at most one may be chosen
+    exclusive: z
+      .array(z.array(z.string().trim().toUpperCase()).min(2))
+      .default([]),
+  })
+  .refine((rules) => rules.minSubjects <= rules.maxSubjects, {
+    message: "Minimum subjects cannot exceed maximum subjects",
+    path: ["minSubjects"],
+  });
+
+export type SubjectRules = z.infer<typeof SubjectRulesSchema>;
+
+export const DEFAULT_SUBJECT_RULES: SubjectRules = {
+  compulsory: ["ENG", "MTH"],
+  minSubjects: 8,
+  maxSubjects: 9,
+  exclusive: [["CRS", "IRS"]],
+};
+
+export interface CatalogueSubject {
+  code: string;
+  name: string;
+}
+
+/**
+ * Read a session's stored rules, falling back to the defaults when they are
+ * missing or malformed.
+ */
+export function parseSubjectRules(value: unknown): SubjectRules {
+  const parsed = SubjectRulesSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_SUBJECT_RULES;
+}
+
+/**
+ * Check a selection of subject codes against the session rules. Returns the
+ * first problem found, or null when the selection is acceptable. Shared by
+ * the enrol form and the registration API.
+ */
+export function checkSubjectSelection(
+  codes: string[],
+  rules: SubjectRules,
+  catalogue: CatalogueSubject[]
+): string | null {
+  const nameByCode = new Map(
+    catalogue.map((subject) => [subject.code, subject.name])
+  );
+  const selected = new Set(codes);
+  const label = (code: string) => nameByCode.get(code) ?? code;
+
+  const unknown = [...selected].filter((code) => !nameByCode.has(code));
+  if (unknown.length > 0) {
+    return `Unknown subject${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`;
+  }
+
+  const missing = rules.compulsory.filter((code) => !selected.has(code));
+  if (missing.length > 0) {
+    return `${missing.map(label).join(" and ")} ${
+      missing.length > 1 ? "are" : "is"
+    } compulsory`;
+  }
+
+  if (selected.size < rules.minSubjects) {
+    return `Select at least ${rules.minSubjects} subjects`;
+  }
+
+  if (selected.size > rules.maxSubjects) {
+    return `Select no more than ${rules.maxSubjects} subjects`;
+  }
+
+  for (const group of rules.exclusive) {
+    const chosen = group.filter((code) => selected.has(code));
+    if (chosen.length > 1) {
+      return `${chosen.map(label).join(" and ")} cannot be taken together`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,36 @@
+// File: src/lib/validation/timetable.ts
+import { z } from "zod";
+import { dateField, examTimeField } from "@/lib/validation/examSession";
+
+// Body of POST /api/admin/exam-sessions/:id/timetable
+export const TimetableEntrySchema = z.object({
+  subjectCode: z
+    .string({ error: "Subject is required" })
+    .trim()
+    .toUpperCase()
+    .min(1, "Subject is required"),
+  paper: z
+    .string({ error: "Paper is required" })
+    .trim()
+    .min(1, "Paper is required")
+    .max(50),
+  date: dateField("Date"),
+  startTime: examTimeField("Start time"),
+  duration: z.coerce
+    .number({ error: "Duration is required" })
+    .int("Duration must be a whole number of minutes")
+    .min(1, "Duration must be at least 1 minute")
+    .max(12 * 60, "Duration cannot exceed 12 hours"),
+});
+
+export type TimetableEntryInput = z.infer<typeof TimetableEntrySchema>;
+
+// Body of PATCH /api/admin/exam-sessions/:id/timetable/:entryId
+export const TimetableEntryUpdateSchema = TimetableEntrySchema.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  { message: "No changes were provided" }
+);
+
+export type TimetableEntryUpdateInput = z.infer<
+  typeof TimetableEntryUpdateSchema
+>;